@@ -0,0 +1,171 @@
+import { AnomalyContribution, AnomalyEvent, FailureLog, ProcessedCluster, TrendTimeRange } from './types.js';
+import { TREND_TIME_RANGES } from '../../shared/timeSeries.js';
+import { HOUR_MS, median, round } from '../../shared/util.js';
+
+export interface AnomalyOptions {
+  /** Robust z-score an hour must reach to count as anomalous. */
+  threshold?: number;
+  /** Failures an hour needs before it can be anomalous, so single stray failures never alert. */
+  minFailures?: number;
+  /** Prior weeks whose same hour-of-week forms the baseline. */
+  baselineWeeks?: number;
+}
+
+export interface AnomalyQuery {
+  range: TrendTimeRange;
+  asOf: Date;
+  /** Oldest failure on record; baseline hours before it are unknown rather than zero. */
+  historyStart?: Date;
+  scopes: AnomalyEvent['scope'][];
+}
+
+interface Series {
+  scope: AnomalyEvent['scope'];
+  key: string;
+  label: string;
+  timestamps: Date[];
+}
+
+const WEEK_HOURS = 7 * 24;
+/** Scales a median absolute deviation to a standard deviation for normally distributed data. */
+const MAD_SCALE = 1.4826;
+/** Baselines need this many comparable past hours; sparser history falls back to the previous week. */
+const MIN_SEASONAL_SAMPLES = 2;
+const MAX_CONTRIBUTORS = 5;
+
+const DEFAULT_OPTIONS: Required<AnomalyOptions> = { threshold: 3.5, minFailures: 3, baselineWeeks: 4 };
+
+/** End of the hour containing `asOf`, where the detection window ends. */
+const windowEnd = (asOf: Date) => Math.ceil(asOf.getTime() / HOUR_MS) * HOUR_MS;
+
+const totalHours = (range: TrendTimeRange, baselineWeeks: number) =>
+  TREND_TIME_RANGES[range].durationMs / HOUR_MS + baselineWeeks * WEEK_HOURS;
+
+/** Earliest failure `detectAnomalies` looks at, for loading just the logs it needs. */
+export const anomalyLookbackStart = (range: TrendTimeRange, asOf: Date, options: AnomalyOptions = {}): Date =>
+  new Date(windowEnd(asOf) - totalHours(range, options.baselineWeeks ?? DEFAULT_OPTIONS.baselineWeeks) * HOUR_MS);
+
+/**
+ * Expected count and robust z-score of one hour. The baseline is the median of the same hour-of-week
+ * in earlier weeks, and its spread the scaled MAD, floored at the Poisson deviation of the median so
+ * that a flat history of zeros does not turn every failure into an outlier.
+ */
+const score = (counts: number[], index: number, firstKnown: number, weeks: number) => {
+  let samples: number[] = [];
+  for (let week = 1; week <= weeks; week++) {
+    const past = index - week * WEEK_HOURS;
+    if (past >= firstKnown) samples.push(counts[past]);
+  }
+  if (samples.length < MIN_SEASONAL_SAMPLES) {
+    samples = counts.slice(Math.max(firstKnown, index - WEEK_HOURS), index);
+  }
+  if (samples.length === 0) return null;
+
+  const expected = median(samples);
+  const mad = median(samples.map(sample => Math.abs(sample - expected)));
+  const sigma = Math.max(MAD_SCALE * mad, Math.sqrt(Math.max(expected, 1)));
+  return { expected, z: (counts[index] - expected) / sigma };
+};
+
+/**
+ * Flags hours in which a skill's or cluster's failures spike above their seasonal baseline, and merges
+ * consecutive flagged hours into anomaly events. Buckets are whole UTC hours; the window of `range`
+ * ends with the hour containing `asOf`, and the baseline reaches `baselineWeeks` further back.
+ */
+export const detectAnomalies = (
+  logs: FailureLog[],
+  clusters: ProcessedCluster[],
+  query: AnomalyQuery,
+  options: AnomalyOptions = {}
+): AnomalyEvent[] => {
+  const threshold = options.threshold ?? DEFAULT_OPTIONS.threshold;
+  const minFailures = options.minFailures ?? DEFAULT_OPTIONS.minFailures;
+  const baselineWeeks = options.baselineWeeks ?? DEFAULT_OPTIONS.baselineWeeks;
+  const windowHours = TREND_TIME_RANGES[query.range].durationMs / HOUR_MS;
+  const hours = totalHours(query.range, baselineWeeks);
+  const origin = anomalyLookbackStart(query.range, query.asOf, options).getTime();
+  const firstKnown = query.historyStart
+    ? Math.max(0, Math.floor((query.historyStart.getTime() - origin) / HOUR_MS))
+    : 0;
+
+  const series: Series[] = [];
+  if (query.scopes.includes('skill')) {
+    const bySkill = new Map<string, Date[]>();
+    logs.forEach(log => {
+      if (!bySkill.has(log.skillName)) bySkill.set(log.skillName, []);
+      bySkill.get(log.skillName)!.push(log.timestamp);
+    });
+    bySkill.forEach((timestamps, skill) => series.push({ scope: 'skill', key: skill, label: skill, timestamps }));
+  }
+  if (query.scopes.includes('cluster')) {
+    clusters.forEach(cluster => series.push({
+      scope: 'cluster',
+      key: cluster.id,
+      label: cluster.name,
+      timestamps: cluster.failureLogs.map(log => log.timestamp)
+    }));
+  }
+
+  const contributors = (item: Series, start: number, stop: number): AnomalyContribution[] =>
+    clusters
+      .filter(cluster => (item.scope === 'cluster' ? cluster.id === item.key : cluster.affectedSkills.includes(item.key)))
+      .map(cluster => ({
+        clusterId: cluster.id,
+        name: cluster.name,
+        failureCount: cluster.failureLogs.filter(log => {
+          const time = log.timestamp.getTime();
+          return time >= start && time < stop && (item.scope === 'cluster' || log.skillName === item.key);
+        }).length
+      }))
+      .filter(contribution => contribution.failureCount > 0)
+      .sort((a, b) => b.failureCount - a.failureCount)
+      .slice(0, MAX_CONTRIBUTORS);
+
+  const events: AnomalyEvent[] = [];
+  series.forEach(item => {
+    const counts: number[] = new Array(hours).fill(0);
+    item.timestamps.forEach(timestamp => {
+      const index = Math.floor((timestamp.getTime() - origin) / HOUR_MS);
+      if (index >= 0 && index < hours) counts[index]++;
+    });
+
+    let run: { first: number; last: number; failures: number; expected: number; magnitude: number } | null = null;
+    const close = () => {
+      if (!run) return;
+      const start = origin + run.first * HOUR_MS;
+      const stop = origin + (run.last + 1) * HOUR_MS;
+      events.push({
+        id: `${item.scope}:${item.key}@${new Date(start).toISOString()}`,
+        scope: item.scope,
+        key: item.key,
+        label: item.label,
+        start: new Date(start),
+        end: new Date(stop),
+        failureCount: run.failures,
+        expectedCount: round(run.expected),
+        magnitude: round(run.magnitude),
+        contributingClusters: contributors(item, start, stop)
+      });
+      run = null;
+    };
+
+    for (let index = hours - windowHours; index < hours; index++) {
+      const result = counts[index] >= minFailures ? score(counts, index, firstKnown, baselineWeeks) : null;
+      if (!result || result.z < threshold) {
+        close();
+        continue;
+      }
+      if (run) {
+        run.last = index;
+        run.failures += counts[index];
+        run.expected += result.expected;
+        run.magnitude = Math.max(run.magnitude, result.z);
+      } else {
+        run = { first: index, last: index, failures: counts[index], expected: result.expected, magnitude: result.z };
+      }
+    }
+    close();
+  });
+
+  return events.sort((a, b) => b.start.getTime() - a.start.getTime() || b.magnitude - a.magnitude);
+};
@@ -0,0 +1,60 @@
+import { ServerConfig } from './config.js';
+import { LogSourceIssue, loadRecordFile, parseTimestamp } from './logSources.js';
+import { ChangeEvent } from './types.js';
+import { isPlainObject } from '../../shared/util.js';
+
+export interface ChangeEventResult {
+  events: ChangeEvent[];
+  issues: LogSourceIssue[];
+}
+
+const CHANGE_KINDS: ChangeEvent['kind'][] = ['deployment', 'config'];
+
+/**
+ * Checks a decoded record against the `ChangeEvent` shape. `kind` defaults to `deployment`, and a
+ * record without an `id` is keyed by skill, version and time so re-reading the file is idempotent.
+ */
+export const validateChangeEvent = (raw: unknown): ChangeEvent => {
+  if (!isPlainObject(raw)) {
+    throw new Error('record must be an object');
+  }
+
+  for (const field of ['skillName', 'version'] as const) {
+    if (typeof raw[field] !== 'string' || raw[field] === '') {
+      throw new Error(`"${field}" must be a non-empty string`);
+    }
+  }
+
+  const timestamp = parseTimestamp(raw.timestamp);
+
+  const kind = raw.kind ?? 'deployment';
+  if (!CHANGE_KINDS.includes(kind as ChangeEvent['kind'])) {
+    throw new Error(`"kind" must be one of ${CHANGE_KINDS.join(', ')}`);
+  }
+
+  for (const field of ['id', 'description'] as const) {
+    if (raw[field] !== undefined && raw[field] !== null && typeof raw[field] !== 'string') {
+      throw new Error(`"${field}" must be a string when present`);
+    }
+  }
+
+  const skillName = raw.skillName as string;
+  const version = raw.version as string;
+  return {
+    id: (raw.id as string | null) || `${skillName}@${version}@${timestamp.toISOString()}`,
+    kind: kind as ChangeEvent['kind'],
+    skillName,
+    version,
+    timestamp,
+    description: (raw.description as string | null) ?? undefined
+  };
+};
+
+/**
+ * Reads deployment and configuration changes, one per JSONL line or CSV row, with the fields
+ * `skillName`, `version`, `timestamp` and optionally `kind`, `id` and `description`.
+ */
+export const loadChangeEvents = async (source: NonNullable<ServerConfig['changeEvents']>): Promise<ChangeEventResult> => {
+  const { records: events, issues } = await loadRecordFile(source, validateChangeEvent);
+  return { events, issues };
+};
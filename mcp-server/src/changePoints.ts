@@ -0,0 +1,188 @@
+import { ChangeCorrelation, ChangeEvent, ChangePoint, CorrelatedCluster, FailureLog, ProcessedCluster } from './types.js';
+import { HOUR_MS, MINUTE_MS, round } from '../../shared/util.js';
+
+export interface ChangePointOptions {
+  /** Shortest segment, in hours, either side of a change point. */
+  minSegmentHours?: number;
+  /** Likelihood-ratio penalty per change point, as a multiple of the log of the series length. */
+  penalty?: number;
+  /** Smallest ratio between the rates either side that is still reported. */
+  minRateRatio?: number;
+}
+
+export interface CorrelationOptions {
+  /** How long after a change an onset or shift still counts as following it. */
+  toleranceMs: number;
+  /** Oldest failure on record; a cluster's onset is unknown for changes before it. */
+  historyStart?: Date;
+}
+
+interface Split {
+  index: number;
+  score: number;
+}
+
+const DEFAULT_OPTIONS: Required<ChangePointOptions> = { minSegmentHours: 6, penalty: 2, minRateRatio: 1.5 };
+
+/** Poisson log-likelihood of `sum` events over `length` hours at their own mean rate, up to a constant. */
+const logLikelihood = (sum: number, length: number) => (sum > 0 ? sum * Math.log(sum / length) : 0);
+
+/**
+ * Binary segmentation of hourly counts: each segment is split where a change of Poisson rate explains
+ * it best, as long as the log-likelihood ratio of the split beats the penalty; both halves are then
+ * searched again. Returns split indices in order.
+ */
+const segment = (counts: number[], minSegment: number, penalty: number): Split[] => {
+  const prefix = [0];
+  counts.forEach(count => prefix.push(prefix[prefix.length - 1] + count));
+  const threshold = penalty * Math.log(Math.max(counts.length, 2));
+
+  const splits: Split[] = [];
+  const search = (start: number, end: number) => {
+    if (end - start < 2 * minSegment) return;
+    const total = prefix[end] - prefix[start];
+    if (total === 0) return;
+
+    let best: Split | null = null;
+    for (let index = start + minSegment; index <= end - minSegment; index++) {
+      const before = prefix[index] - prefix[start];
+      const score = logLikelihood(before, index - start) + logLikelihood(total - before, end - index)
+        - logLikelihood(total, end - start);
+      if (!best || score > best.score) best = { index, score };
+    }
+    if (!best || best.score < threshold) return;
+
+    splits.push(best);
+    search(start, best.index);
+    search(best.index, end);
+  };
+  search(0, counts.length);
+
+  return splits.sort((a, b) => a.index - b.index);
+};
+
+/**
+ * Finds the hours at which each skill's and each cluster's failure rate shifted between `start` and
+ * `end`, bucketing failures into whole hours from `start`. Rates are those of the neighbouring
+ * segments, and shifts smaller than `minRateRatio` either way are dropped.
+ */
+export const detectChangePoints = (
+  logs: FailureLog[],
+  clusters: ProcessedCluster[],
+  window: { start: Date; end: Date },
+  options: ChangePointOptions = {}
+): ChangePoint[] => {
+  const minSegment = options.minSegmentHours ?? DEFAULT_OPTIONS.minSegmentHours;
+  const penalty = options.penalty ?? DEFAULT_OPTIONS.penalty;
+  const minRateRatio = options.minRateRatio ?? DEFAULT_OPTIONS.minRateRatio;
+  const origin = Math.floor(window.start.getTime() / HOUR_MS) * HOUR_MS;
+  const hours = Math.ceil((window.end.getTime() - origin) / HOUR_MS);
+  if (hours <= 0) return [];
+
+  const series: { scope: ChangePoint['scope']; key: string; label: string; timestamps: Date[] }[] = [];
+  const bySkill = new Map<string, Date[]>();
+  logs.forEach(log => {
+    if (!bySkill.has(log.skillName)) bySkill.set(log.skillName, []);
+    bySkill.get(log.skillName)!.push(log.timestamp);
+  });
+  bySkill.forEach((timestamps, skill) => series.push({ scope: 'skill', key: skill, label: skill, timestamps }));
+  clusters.forEach(cluster => series.push({
+    scope: 'cluster',
+    key: cluster.id,
+    label: cluster.name,
+    timestamps: cluster.failureLogs.map(log => log.timestamp)
+  }));
+
+  const points: ChangePoint[] = [];
+  series.forEach(item => {
+    const counts: number[] = new Array(hours).fill(0);
+    item.timestamps.forEach(timestamp => {
+      const index = Math.floor((timestamp.getTime() - origin) / HOUR_MS);
+      if (index >= 0 && index < hours) counts[index]++;
+    });
+
+    const splits = segment(counts, minSegment, penalty);
+    const bounds = [0, ...splits.map(split => split.index), hours];
+    const rate = (from: number, to: number) => counts.slice(from, to).reduce((sum, count) => sum + count, 0) / (to - from);
+
+    splits.forEach((split, position) => {
+      const rateBefore = rate(bounds[position], split.index);
+      const rateAfter = rate(split.index, bounds[position + 2]);
+      const ratio = Math.max(rateBefore, rateAfter) / Math.max(Math.min(rateBefore, rateAfter), Number.MIN_VALUE);
+      if (ratio < minRateRatio) return;
+
+      points.push({
+        scope: item.scope,
+        key: item.key,
+        label: item.label,
+        at: new Date(origin + split.index * HOUR_MS),
+        rateBefore: round(rateBefore),
+        rateAfter: round(rateAfter),
+        score: round(split.score)
+      });
+    });
+  });
+
+  return points.sort((a, b) => b.at.getTime() - a.at.getTime() || b.score - a.score);
+};
+
+/** Minutes from a change to something at `at`, or null when `at` does not follow it closely enough. */
+const lagAfter = (event: ChangeEvent, at: Date, toleranceMs: number, slackMs: number): number | null => {
+  const lag = at.getTime() - event.timestamp.getTime();
+  return lag >= -slackMs && lag <= toleranceMs ? Math.round(lag / MINUTE_MS) : null;
+};
+
+/**
+ * Lines up each change with what followed it for the same skill: shifts in the skill's failure rate,
+ * clusters first seen within the tolerance, and clusters whose rate shifted within it. Change points
+ * sit on hour boundaries, so a shift may start up to an hour before the change that caused it.
+ */
+export const correlateChanges = (
+  events: ChangeEvent[],
+  changePoints: ChangePoint[],
+  clusters: ProcessedCluster[],
+  options: CorrelationOptions
+): ChangeCorrelation[] => {
+  const { toleranceMs, historyStart } = options;
+
+  return events
+    .map(event => {
+      const skillChangePoints = changePoints.filter(point =>
+        point.scope === 'skill' &&
+        point.key === event.skillName &&
+        lagAfter(event, point.at, toleranceMs, HOUR_MS) !== null
+      );
+
+      const correlated: CorrelatedCluster[] = [];
+      clusters
+        .filter(cluster => cluster.affectedSkills.includes(event.skillName))
+        .forEach(cluster => {
+          const onsetKnown = !historyStart || event.timestamp.getTime() >= historyStart.getTime();
+          const onsetLag = onsetKnown ? lagAfter(event, cluster.firstSeen, toleranceMs, 0) : null;
+          if (onsetLag !== null) {
+            correlated.push({ clusterId: cluster.id, name: cluster.name, reason: 'onset', at: cluster.firstSeen, lagMinutes: onsetLag });
+            return;
+          }
+
+          const shift = changePoints
+            .filter(point => point.scope === 'cluster' && point.key === cluster.id)
+            .map(point => ({ point, lag: lagAfter(event, point.at, toleranceMs, HOUR_MS) }))
+            .filter((entry): entry is { point: ChangePoint; lag: number } => entry.lag !== null)
+            .sort((a, b) => Math.abs(a.lag) - Math.abs(b.lag))[0];
+          if (shift) {
+            correlated.push({
+              clusterId: cluster.id,
+              name: cluster.name,
+              reason: 'rate-change',
+              at: shift.point.at,
+              lagMinutes: shift.lag,
+              rateBefore: shift.point.rateBefore,
+              rateAfter: shift.point.rateAfter
+            });
+          }
+        });
+
+      return { event, skillChangePoints, clusters: correlated.sort((a, b) => a.lagMinutes - b.lagMinutes) };
+    })
+    .sort((a, b) => b.event.timestamp.getTime() - a.event.timestamp.getTime());
+};
@@ -0,0 +1,93 @@
+#!/usr/bin/env node
+
+import { readFile } from 'fs/promises';
+import { evaluateRootCause, DEFAULT_RULE_SET, RuleSet } from '../../shared/ruleEngine.js';
+import { TemplateMiner } from '../../shared/templateMiner.js';
+import { isWithinCategory } from '../../shared/taxonomy.js';
+import { readFlag } from './config.js';
+import { validateFailureLog } from './logSources.js';
+import { loadRuleFile } from './ruleSource.js';
+import { FailureLog } from './types.js';
+
+/**
+ * One labeled cluster: its member failures and the root-cause category a human assigned. A label
+ * naming a parent category also accepts any of its sub-categories. `confidence` optionally pins the
+ * confidence of candidates by category.
+ */
+interface LabeledCase {
+  id: string;
+  expected: string;
+  confidence?: Record<string, number>;
+  logs: FailureLog[];
+}
+
+/** Slack for expected confidences written with fewer decimals than the reported ones. */
+const CONFIDENCE_TOLERANCE = 0.005;
+
+const parseFixture = (content: string): LabeledCase[] =>
+  content.split(/\r?\n/).flatMap((text, index) => {
+    if (!text.trim()) return [];
+    try {
+      const raw = JSON.parse(text) as { id?: unknown; expected?: unknown; confidence?: unknown; logs?: unknown };
+      if (typeof raw.id !== 'string' || typeof raw.expected !== 'string' || !Array.isArray(raw.logs) || raw.logs.length === 0) {
+        throw new Error('expected { id, expected, logs: [...] }');
+      }
+      const confidence = raw.confidence;
+      if (confidence !== undefined && (typeof confidence !== 'object' || confidence === null ||
+        Object.values(confidence).some(value => typeof value !== 'number'))) {
+        throw new Error('expected confidence to map categories to numbers');
+      }
+      return [{
+        id: raw.id,
+        expected: raw.expected,
+        confidence: confidence as Record<string, number> | undefined,
+        logs: raw.logs.map(validateFailureLog)
+      }];
+    } catch (error) {
+      throw new Error(`line ${index + 1}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  });
+
+const templateOf = (logs: FailureLog[]): string => {
+  const miner = new TemplateMiner();
+  const ids = logs.map(log => miner.add(log.exception));
+  return miner.template(ids[0]);
+};
+
+/**
+ * Classifies every labeled case in a fixture file with a rule set and reports mismatches.
+ * Exits non-zero when any case is misclassified, so it can gate rule changes in CI.
+ *
+ *   node dist/mcp-server/src/checkRules.js --fixture fixtures/root-cause-labeled.jsonl [--rules rules/root-cause-rules.yaml]
+ */
+const main = async () => {
+  const argv = process.argv.slice(2);
+  const fixturePath = readFlag(argv, '--fixture') ?? 'fixtures/root-cause-labeled.jsonl';
+  const rulesPath = readFlag(argv, '--rules');
+  const ruleSet: RuleSet = rulesPath ? await loadRuleFile(rulesPath) : DEFAULT_RULE_SET;
+  const cases = parseFixture(await readFile(fixturePath, 'utf8'));
+
+  let failures = 0;
+  cases.forEach(({ id, expected, confidence, logs }) => {
+    const rootCause = evaluateRootCause(logs, templateOf(logs), ruleSet);
+    const ranked = rootCause.candidates?.map(c => `${c.category} ${c.confidence} [${c.evidence.ruleIds.join(', ')}]`).join('; ');
+    const wrongConfidence = Object.entries(confidence ?? {}).filter(([category, value]) => {
+      const candidate = rootCause.candidates?.find(c => c.category === category);
+      return !candidate || Math.abs(candidate.confidence - value) > CONFIDENCE_TOLERANCE;
+    });
+    const ok = isWithinCategory(rootCause.category, expected) && wrongConfidence.length === 0;
+    if (!ok) failures++;
+    const expectedConfidence = wrongConfidence.length > 0
+      ? ` with confidence ${wrongConfidence.map(([category, value]) => `${category} ${value}`).join(', ')}`
+      : '';
+    console.log(`${ok ? 'PASS' : 'FAIL'} ${id}: expected ${expected}${expectedConfidence}, got ${rootCause.category} (${ranked})`);
+  });
+
+  console.log(`${cases.length - failures}/${cases.length} cases classified correctly using ${rulesPath ?? 'built-in rules'}`);
+  process.exitCode = failures > 0 ? 1 : 0;
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
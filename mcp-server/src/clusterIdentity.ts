@@ -0,0 +1,153 @@
+import { ClusterLineageEvent, ProcessedCluster } from './types.js';
+
+export interface IdentityOptions {
+  /** Minimum combined score for a new cluster to inherit a previous cluster's ID. */
+  matchThreshold?: number;
+  /** Share of a cluster's members that must flow to/from another cluster to count as a split or merge. */
+  lineageShare?: number;
+}
+
+export interface ReconciledClusters {
+  clusters: ProcessedCluster[];
+  lineage: Omit<ClusterLineageEvent, 'recordedAt'>[];
+}
+
+const templateTokens = (template: string) =>
+  new Set(template.split(' ').map(token => (/<[A-Z*]+>/.test(token) ? '<*>' : token)));
+
+const jaccard = <T>(a: Set<T>, b: Set<T>): number => {
+  if (a.size === 0 && b.size === 0) return 1;
+  let intersection = 0;
+  a.forEach(value => {
+    if (b.has(value)) intersection++;
+  });
+  return intersection / (a.size + b.size - intersection);
+};
+
+const memberIds = (cluster: ProcessedCluster) => new Set(cluster.failureLogs.map(log => log.evaluationId));
+
+/**
+ * Matches freshly computed clusters against the previous snapshot so that cluster IDs (and any state
+ * keyed by them) survive refreshes and algorithm changes.
+ *
+ * Each pair is scored on member overlap (Jaccard over `evaluationId`) and template similarity (Jaccard
+ * over template tokens, with slots normalised). Pairs are assigned greedily by score, one-to-one, and a
+ * new cluster keeps the ID of its match. Member flows that are not covered by the one-to-one matching
+ * are reported as lineage: a previous cluster feeding several new ones was split, a new cluster fed by
+ * several previous ones is a merge, and unmatched clusters were created or retired.
+ */
+export const reconcileClusterIdentities = (
+  previous: ProcessedCluster[],
+  next: ProcessedCluster[],
+  options: IdentityOptions = {}
+): ReconciledClusters => {
+  const matchThreshold = options.matchThreshold ?? 0.5;
+  const lineageShare = options.lineageShare ?? 0.2;
+
+  const previousMembers = previous.map(memberIds);
+  const nextMembers = next.map(memberIds);
+  const previousTemplates = previous.map(c => templateTokens(c.template ?? ''));
+  const nextTemplates = next.map(c => templateTokens(c.template ?? ''));
+
+  // overlap[i][j]: members of previous[i] that ended up in next[j]
+  const overlap = previous.map((_, i) => next.map((_, j) => {
+    let shared = 0;
+    previousMembers[i].forEach(id => {
+      if (nextMembers[j].has(id)) shared++;
+    });
+    return shared;
+  }));
+
+  const candidates: { i: number; j: number; score: number }[] = [];
+  previous.forEach((prev, i) => {
+    next.forEach((cluster, j) => {
+      const sameSkills = cluster.affectedSkills.some(skill => prev.affectedSkills.includes(skill));
+      if (!sameSkills) return;
+
+      const union = previousMembers[i].size + nextMembers[j].size - overlap[i][j];
+      const memberScore = union === 0 ? 0 : overlap[i][j] / union;
+      const templateScore = jaccard(previousTemplates[i], nextTemplates[j]);
+      const score = 0.6 * memberScore + 0.4 * templateScore;
+      if (score >= matchThreshold) {
+        candidates.push({ i, j, score });
+      }
+    });
+  });
+  candidates.sort((a, b) => b.score - a.score);
+
+  const matchedPrevious = new Map<number, number>();
+  const matchedNext = new Map<number, number>();
+  candidates.forEach(({ i, j }) => {
+    if (matchedPrevious.has(i) || matchedNext.has(j)) return;
+    matchedPrevious.set(i, j);
+    matchedNext.set(j, i);
+  });
+
+  // Assign IDs: matched clusters inherit, the rest keep their computed ID unless it is already taken
+  const takenIds = new Set(previous.map(c => c.id));
+  const clusters = next.map((cluster, j) => {
+    const match = matchedNext.get(j);
+    if (match !== undefined) {
+      return { ...cluster, id: previous[match].id };
+    }
+
+    let id = cluster.id;
+    for (let suffix = 2; takenIds.has(id); suffix++) {
+      id = `${cluster.id}_${suffix}`;
+    }
+    takenIds.add(id);
+    return { ...cluster, id };
+  });
+
+  const lineage: ReconciledClusters['lineage'] = [];
+  const feedsInto = (i: number, j: number) =>
+    previousMembers[i].size > 0 && overlap[i][j] / previousMembers[i].size >= lineageShare;
+  const fedBy = (i: number, j: number) =>
+    nextMembers[j].size > 0 && overlap[i][j] / nextMembers[j].size >= lineageShare;
+
+  previous.forEach((prev, i) => {
+    const children = next
+      .map((_, j) => j)
+      .filter(j => feedsInto(i, j) && matchedNext.get(j) !== i);
+    if (children.length > 0 && (matchedPrevious.has(i) || children.length > 1)) {
+      lineage.push({
+        kind: 'split',
+        clusterId: prev.id,
+        relatedClusterIds: children.map(j => clusters[j].id)
+      });
+    }
+  });
+
+  next.forEach((_, j) => {
+    const parents = previous
+      .map((_, i) => i)
+      .filter(i => fedBy(i, j) && !matchedPrevious.has(i));
+    if (parents.length > 0 && (matchedNext.has(j) || parents.length > 1)) {
+      lineage.push({
+        kind: 'merged',
+        clusterId: clusters[j].id,
+        relatedClusterIds: parents.map(i => previous[i].id)
+      });
+    }
+  });
+
+  next.forEach((_, j) => {
+    if (matchedNext.has(j)) return;
+    const ancestors = previous.map((_, i) => i).filter(i => fedBy(i, j) || feedsInto(i, j));
+    if (ancestors.length === 0) {
+      lineage.push({ kind: 'created', clusterId: clusters[j].id, relatedClusterIds: [] });
+    }
+  });
+
+  previous.forEach((prev, i) => {
+    if (matchedPrevious.has(i)) return;
+    const successors = next.map((_, j) => j).filter(j => feedsInto(i, j));
+    lineage.push({
+      kind: 'retired',
+      clusterId: prev.id,
+      relatedClusterIds: successors.map(j => clusters[j].id)
+    });
+  });
+
+  return { clusters, lineage };
+};
@@ -0,0 +1,96 @@
+import { ClusterOverride, FailureLog, ProcessedCluster } from './types.js';
+import { createClusterFromLogs } from '../../shared/analyticsCore.js';
+import { DEFAULT_RULE_SET, RuleSet } from '../../shared/ruleEngine.js';
+
+/**
+ * Recomputes a cluster's derived fields (counts, root cause, trend, ...) for a new member set.
+ * `historyStart` is the oldest failure on record, as for freshly computed clusters.
+ */
+const rebuild = (
+  id: string,
+  template: string,
+  logs: FailureLog[],
+  ruleSet: RuleSet,
+  historyStart: Date | undefined,
+  keep?: Pick<ProcessedCluster, 'name' | 'lifecycle' | 'resolved'>
+): ProcessedCluster => ({
+  ...createClusterFromLogs([...logs], id, template, ruleSet, historyStart),
+  id,
+  ...(keep && { name: keep.name, lifecycle: keep.lifecycle, resolved: keep.resolved })
+});
+
+const byFailureCount = (a: ProcessedCluster, b: ProcessedCluster) => b.failureCount - a.failureCount;
+
+const applyMerge = (
+  clusters: ProcessedCluster[],
+  { targetClusterId, sourceClusterIds, evaluationIds = [] }: Extract<ClusterOverride, { kind: 'merge' }>,
+  ruleSet: RuleSet,
+  historyStart: Date | undefined
+): ProcessedCluster[] => {
+  // Sources are also found by their members, since a source may come back under another ID after re-clustering
+  const members = new Set(evaluationIds);
+  const isSource = (cluster: ProcessedCluster) => cluster.id !== targetClusterId &&
+    (sourceClusterIds.includes(cluster.id) || cluster.failureLogs.some(log => members.has(log.evaluationId)));
+  const sources = clusters.filter(isSource);
+  if (sources.length === 0) return clusters;
+
+  // If the target itself no longer exists the first source takes over its identity
+  const target = clusters.find(c => c.id === targetClusterId) ?? sources[0];
+  const logs = new Map<string, FailureLog>();
+  [target, ...sources].forEach(cluster => {
+    cluster.failureLogs.forEach(log => logs.set(log.evaluationId, log));
+  });
+
+  const merged = rebuild(targetClusterId, target.template, [...logs.values()], ruleSet, historyStart, target);
+  return clusters
+    .filter(c => c.id !== targetClusterId && !isSource(c))
+    .concat(merged)
+    .sort(byFailureCount);
+};
+
+const applySplit = (
+  clusters: ProcessedCluster[],
+  { clusterId, newClusterId, evaluationIds, name }: Extract<ClusterOverride, { kind: 'split' }>,
+  ruleSet: RuleSet,
+  historyStart: Date | undefined
+): ProcessedCluster[] => {
+  const moving = new Set(evaluationIds);
+  const moved: FailureLog[] = [];
+  let origin = clusters.find(c => c.id === clusterId);
+
+  // Members are looked up wherever they currently live, so the split survives re-clustering
+  const remaining = clusters.flatMap(cluster => {
+    const taken = cluster.failureLogs.filter(log => moving.has(log.evaluationId));
+    if (taken.length === 0) return [cluster];
+
+    moved.push(...taken);
+    origin = origin ?? cluster;
+    const kept = cluster.failureLogs.filter(log => !moving.has(log.evaluationId));
+    return kept.length > 0 ? [rebuild(cluster.id, cluster.template, kept, ruleSet, historyStart, cluster)] : [];
+  });
+  if (moved.length === 0 || !origin) return clusters;
+
+  const split = rebuild(newClusterId, origin.template, moved, ruleSet, historyStart);
+  return remaining
+    .filter(c => c.id !== newClusterId)
+    .concat(name ? { ...split, name } : split)
+    .sort(byFailureCount);
+};
+
+/**
+ * Replays manual merge and split decisions, oldest first, on top of freshly computed clusters.
+ * Overrides that no longer apply (their clusters or members are gone) are skipped. `historyStart` is the
+ * oldest failure on record, which rebuilt clusters' trends need just like the clustering pass.
+ */
+export const applyClusterOverrides = (
+  clusters: ProcessedCluster[],
+  overrides: ClusterOverride[],
+  ruleSet: RuleSet = DEFAULT_RULE_SET,
+  historyStart?: Date
+): ProcessedCluster[] =>
+  overrides.reduce(
+    (current, override) => override.kind === 'merge'
+      ? applyMerge(current, override, ruleSet, historyStart)
+      : applySplit(current, override, ruleSet, historyStart),
+    clusters
+  );
@@ -0,0 +1,216 @@
+import { fileURLToPath } from 'url';
+
+export type LogFormat = 'jsonl' | 'csv';
+
+export type TransportMode = 'stdio' | 'http';
+
+export type LlmProviderName = 'none' | 'stub' | 'openai';
+
+export interface ServerConfig {
+  logs?: {
+    path: string;
+    format: LogFormat;
+  };
+  store: {
+    path: string;
+    retentionDays: number;
+    maxSnapshots: number;
+  };
+  /** Root-cause rule file (JSON or YAML), reloaded on change; built-in rules when unset. */
+  rulesPath?: string;
+  /** Per-skill SLO file (JSON or YAML), reloaded on change; the built-in objective when unset. */
+  sloPath?: string;
+  /** Invocation counts per skill and bucket, re-read on every refresh; error rates need them. */
+  invocations?: {
+    path: string;
+    format: LogFormat;
+  };
+  /** Pipeline stages reached or failed per session, re-read on every refresh; the journey funnel needs them. */
+  stageEvents?: {
+    path: string;
+    format: LogFormat;
+  };
+  /** Deployment and configuration change events, re-read on every refresh. */
+  changeEvents?: {
+    path: string;
+    format: LogFormat;
+  };
+  llm: {
+    provider: LlmProviderName;
+    model?: string;
+    baseUrl: string;
+    /** Read from the environment only, so it never shows up in process listings. */
+    apiKey?: string;
+    /** Directory holding the prompt templates. */
+    promptsDir: string;
+  };
+  transport: TransportMode;
+  http: {
+    host: string;
+    port: number;
+    /** Browser origins allowed to call the HTTP endpoint. */
+    corsOrigins: string[];
+  };
+}
+
+const readNumber = (value: string | undefined, name: string, fallback: number): number => {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive number, got "${value}"`);
+  }
+  return parsed;
+};
+
+export const readFlag = (argv: string[], flag: string): string | undefined => {
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === flag) {
+      return argv[i + 1];
+    }
+    if (arg.startsWith(`${flag}=`)) {
+      return arg.slice(flag.length + 1);
+    }
+  }
+  return undefined;
+};
+
+// dist/mcp-server/src/config.js -> mcp-server/prompts
+const DEFAULT_PROMPTS_DIR = fileURLToPath(new URL('../../../prompts', import.meta.url));
+
+export const inferLogFormat = (path: string, formatFlag = '--log-format'): LogFormat => {
+  const lower = path.toLowerCase();
+  if (lower.endsWith('.csv')) return 'csv';
+  if (lower.endsWith('.jsonl') || lower.endsWith('.ndjson') || lower.endsWith('.json')) return 'jsonl';
+  throw new Error(`Cannot infer format from "${path}", pass ${formatFlag} jsonl|csv`);
+};
+
+const readFormat = (value: string | undefined, path: string, formatFlag: string): LogFormat => {
+  if (value && value !== 'jsonl' && value !== 'csv') {
+    throw new Error(`Unsupported format "${value}" for ${formatFlag}, expected jsonl or csv`);
+  }
+  return (value as LogFormat | undefined) ?? inferLogFormat(path, formatFlag);
+};
+
+/**
+ * Resolves server configuration from CLI flags, falling back to environment variables.
+ *
+ *   --logs <path>          COPILOT_FAILURE_LOGS            failure log file (JSONL/NDJSON or CSV)
+ *   --log-format <format>  COPILOT_FAILURE_LOG_FORMAT      override format detection by extension
+ *   --db <path>            COPILOT_FAILURE_DB              SQLite store file (default ./copilot-failures.db)
+ *   --retention-days <n>   COPILOT_FAILURE_RETENTION_DAYS  days of failure logs to keep (default 180)
+ *   --max-snapshots <n>    COPILOT_FAILURE_MAX_SNAPSHOTS   cluster snapshots to keep (default 50)
+ *   --rules <path>         COPILOT_FAILURE_RULES           root-cause rule file (JSON or YAML), hot-reloaded
+ *   --slos <path>          COPILOT_SLOS                    per-skill SLO file (JSON or YAML), hot-reloaded
+ *   --invocations <path>   COPILOT_INVOCATIONS             invocation counts per skill and bucket (JSONL/NDJSON or CSV)
+ *   --invocations-format   COPILOT_INVOCATIONS_FORMAT      override format detection for the invocation file
+ *   --stage-events <path>  COPILOT_STAGE_EVENTS            session stage events for the journey funnel (JSONL/NDJSON or CSV)
+ *   --stage-events-format  COPILOT_STAGE_EVENTS_FORMAT     override format detection for the stage-event file
+ *   --change-events <path> COPILOT_CHANGE_EVENTS           deployment/config change events (JSONL/NDJSON or CSV)
+ *   --change-events-format COPILOT_CHANGE_EVENTS_FORMAT    override format detection for the change-event file
+ *   --llm-provider <name>  COPILOT_LLM_PROVIDER            none (default), stub or openai
+ *   --llm-model <name>     COPILOT_LLM_MODEL               model for the openai provider (default gpt-4o-mini)
+ *   --llm-base-url <url>   COPILOT_LLM_BASE_URL            OpenAI-compatible endpoint (default https://api.openai.com/v1)
+ *                          COPILOT_LLM_API_KEY             API key for the openai provider
+ *   --prompts <dir>        COPILOT_LLM_PROMPTS             prompt template directory (default the server's prompts/)
+ *   --transport <mode>     COPILOT_MCP_TRANSPORT           stdio (default) or http
+ *   --host <host>          COPILOT_MCP_HOST                HTTP bind address (default 127.0.0.1)
+ *   --port <n>             COPILOT_MCP_PORT                HTTP port (default 3001)
+ *   --cors-origin <list>   COPILOT_MCP_CORS_ORIGINS        comma-separated allowed origins (default http://localhost:8080)
+ *
+ * Without a log path the server falls back to generated mock data, with mock invocation counts and stage events.
+ */
+export const parseServerConfig = (
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): ServerConfig => {
+  const transport = readFlag(argv, '--transport') ?? env.COPILOT_MCP_TRANSPORT ?? 'stdio';
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`Unsupported transport "${transport}", expected stdio or http`);
+  }
+
+  const llmProvider = readFlag(argv, '--llm-provider') ?? env.COPILOT_LLM_PROVIDER ?? 'none';
+  if (llmProvider !== 'none' && llmProvider !== 'stub' && llmProvider !== 'openai') {
+    throw new Error(`Unsupported LLM provider "${llmProvider}", expected none, stub or openai`);
+  }
+
+  const config: ServerConfig = {
+    store: {
+      path: readFlag(argv, '--db') ?? env.COPILOT_FAILURE_DB ?? 'copilot-failures.db',
+      retentionDays: readNumber(
+        readFlag(argv, '--retention-days') ?? env.COPILOT_FAILURE_RETENTION_DAYS,
+        'retention days',
+        180
+      ),
+      maxSnapshots: readNumber(
+        readFlag(argv, '--max-snapshots') ?? env.COPILOT_FAILURE_MAX_SNAPSHOTS,
+        'max snapshots',
+        50
+      )
+    },
+    rulesPath: readFlag(argv, '--rules') ?? env.COPILOT_FAILURE_RULES,
+    sloPath: readFlag(argv, '--slos') ?? env.COPILOT_SLOS,
+    llm: {
+      provider: llmProvider,
+      model: readFlag(argv, '--llm-model') ?? env.COPILOT_LLM_MODEL,
+      baseUrl: readFlag(argv, '--llm-base-url') ?? env.COPILOT_LLM_BASE_URL ?? 'https://api.openai.com/v1',
+      apiKey: env.COPILOT_LLM_API_KEY,
+      promptsDir: readFlag(argv, '--prompts') ?? env.COPILOT_LLM_PROMPTS ?? DEFAULT_PROMPTS_DIR
+    },
+    transport,
+    http: {
+      host: readFlag(argv, '--host') ?? env.COPILOT_MCP_HOST ?? '127.0.0.1',
+      port: readNumber(readFlag(argv, '--port') ?? env.COPILOT_MCP_PORT, 'port', 3001),
+      corsOrigins: (readFlag(argv, '--cors-origin') ?? env.COPILOT_MCP_CORS_ORIGINS ?? 'http://localhost:8080')
+        .split(',')
+        .map(origin => origin.trim())
+        .filter(Boolean)
+    }
+  };
+
+  const logPath = readFlag(argv, '--logs') ?? env.COPILOT_FAILURE_LOGS;
+  if (logPath) {
+    config.logs = {
+      path: logPath,
+      format: readFormat(readFlag(argv, '--log-format') ?? env.COPILOT_FAILURE_LOG_FORMAT, logPath, '--log-format')
+    };
+  }
+
+  const invocationsPath = readFlag(argv, '--invocations') ?? env.COPILOT_INVOCATIONS;
+  if (invocationsPath) {
+    config.invocations = {
+      path: invocationsPath,
+      format: readFormat(
+        readFlag(argv, '--invocations-format') ?? env.COPILOT_INVOCATIONS_FORMAT,
+        invocationsPath,
+        '--invocations-format'
+      )
+    };
+  }
+
+  const stageEventsPath = readFlag(argv, '--stage-events') ?? env.COPILOT_STAGE_EVENTS;
+  if (stageEventsPath) {
+    config.stageEvents = {
+      path: stageEventsPath,
+      format: readFormat(
+        readFlag(argv, '--stage-events-format') ?? env.COPILOT_STAGE_EVENTS_FORMAT,
+        stageEventsPath,
+        '--stage-events-format'
+      )
+    };
+  }
+
+  const changeEventsPath = readFlag(argv, '--change-events') ?? env.COPILOT_CHANGE_EVENTS;
+  if (changeEventsPath) {
+    config.changeEvents = {
+      path: changeEventsPath,
+      format: readFormat(
+        readFlag(argv, '--change-events-format') ?? env.COPILOT_CHANGE_EVENTS_FORMAT,
+        changeEventsPath,
+        '--change-events-format'
+      )
+    };
+  }
+
+  return config;
+};
@@ -0,0 +1,778 @@
+import Database from 'better-sqlite3';
+import {
+  ChangeEvent,
+  ClusterAuditEntry,
+  ClusterLifecycle,
+  ClusterLineageEvent,
+  ClusterOverride,
+  ClusterStatus,
+  FailureLog,
+  InvocationCount,
+  ProcessedCluster,
+  StageEvent
+} from './types.js';
+import { createLifecycle } from '../../shared/lifecycle.js';
+import { DAY_MS } from '../../shared/util.js';
+
+export interface RetentionPolicy {
+  /** Failure logs older than this are deleted on compaction. */
+  maxAgeDays: number;
+  /** Number of most recent cluster snapshots to keep. */
+  maxSnapshots: number;
+}
+
+export interface FailureLogQuery {
+  skillName?: string;
+  errorCode?: string;
+  sessionId?: string;
+  tenantId?: string;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+export interface ClusterQuery {
+  severity?: ProcessedCluster['severity'];
+  resolved?: boolean;
+  status?: ClusterStatus;
+  minClusterSize?: number;
+}
+
+export interface ChangeEventQuery {
+  skillName?: string;
+  since?: Date;
+  until?: Date;
+}
+
+export interface InvocationCountQuery {
+  skillName?: string;
+  /** Buckets that overlap [since, until). */
+  since?: Date;
+  until?: Date;
+}
+
+export interface StageEventQuery {
+  sessionId?: string;
+  since?: Date;
+  until?: Date;
+}
+
+export interface CompactionResult {
+  deletedLogs: number;
+  deletedSnapshots: number;
+  deletedChangeEvents: number;
+  deletedInvocationCounts: number;
+  deletedStageEvents: number;
+}
+
+interface FailureLogRow {
+  evaluation_id: string;
+  session_id: string;
+  prompt: string;
+  skill_name: string;
+  skill_inputs: string;
+  exception: string;
+  timestamp: number;
+  error_code: string | null;
+  user_id: string | null;
+  tenant_id: string | null;
+  context_missing: string | null;
+}
+
+interface LineageRow {
+  kind: ClusterLineageEvent['kind'];
+  cluster_id: string;
+  related_cluster_ids: string;
+  recorded_at: number;
+}
+
+interface AuditRow {
+  cluster_id: string;
+  action: ClusterAuditEntry['action'];
+  actor: string;
+  at: number;
+  reason: string | null;
+  details: string;
+}
+
+interface ChangeEventRow {
+  id: string;
+  kind: ChangeEvent['kind'];
+  skill_name: string;
+  version: string;
+  timestamp: number;
+  description: string | null;
+}
+
+interface InvocationCountRow {
+  skill_name: string;
+  bucket_start: number;
+  bucket_minutes: number;
+  invocations: number;
+}
+
+interface StageEventRow {
+  session_id: string;
+  stage: StageEvent['stage'];
+  outcome: StageEvent['outcome'];
+  timestamp: number;
+  skill_name: string | null;
+  user_id: string | null;
+  evaluation_id: string | null;
+  error_code: string | null;
+}
+
+interface ClusterRow {
+  cluster_id: string;
+  first_seen: number;
+  last_seen: number;
+  data: string;
+  lifecycle: string | null;
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS failure_logs (
+    evaluation_id   TEXT PRIMARY KEY,
+    session_id      TEXT NOT NULL,
+    prompt          TEXT NOT NULL,
+    skill_name      TEXT NOT NULL,
+    skill_inputs    TEXT NOT NULL,
+    exception       TEXT NOT NULL,
+    timestamp       INTEGER NOT NULL,
+    error_code      TEXT,
+    user_id         TEXT,
+    context_missing TEXT,
+    tenant_id       TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_failure_logs_timestamp ON failure_logs (timestamp);
+  CREATE INDEX IF NOT EXISTS idx_failure_logs_skill_name ON failure_logs (skill_name);
+  CREATE INDEX IF NOT EXISTS idx_failure_logs_error_code ON failure_logs (error_code);
+  CREATE INDEX IF NOT EXISTS idx_failure_logs_session_id ON failure_logs (session_id);
+
+  CREATE TABLE IF NOT EXISTS cluster_snapshots (
+    id         INTEGER PRIMARY KEY AUTOINCREMENT,
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS snapshot_clusters (
+    snapshot_id   INTEGER NOT NULL REFERENCES cluster_snapshots (id) ON DELETE CASCADE,
+    cluster_id    TEXT NOT NULL,
+    severity      TEXT NOT NULL,
+    resolved      INTEGER NOT NULL,
+    failure_count INTEGER NOT NULL,
+    first_seen    INTEGER NOT NULL,
+    last_seen     INTEGER NOT NULL,
+    data          TEXT NOT NULL,
+    PRIMARY KEY (snapshot_id, cluster_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS snapshot_cluster_members (
+    snapshot_id   INTEGER NOT NULL REFERENCES cluster_snapshots (id) ON DELETE CASCADE,
+    cluster_id    TEXT NOT NULL,
+    evaluation_id TEXT NOT NULL,
+    PRIMARY KEY (snapshot_id, cluster_id, evaluation_id)
+  );
+
+  -- Lineage outlives snapshot compaction so cluster history stays traceable
+  CREATE TABLE IF NOT EXISTS cluster_lineage (
+    id                  INTEGER PRIMARY KEY AUTOINCREMENT,
+    snapshot_id         INTEGER NOT NULL,
+    kind                TEXT NOT NULL,
+    cluster_id          TEXT NOT NULL,
+    related_cluster_ids TEXT NOT NULL,
+    recorded_at         INTEGER NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_cluster_lineage_cluster_id ON cluster_lineage (cluster_id);
+
+  -- Triage state is keyed by the stable cluster ID, independent of snapshots
+  CREATE TABLE IF NOT EXISTS cluster_lifecycle (
+    cluster_id TEXT PRIMARY KEY,
+    status     TEXT NOT NULL,
+    data       TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_cluster_lifecycle_status ON cluster_lifecycle (status);
+
+  CREATE TABLE IF NOT EXISTS cluster_audit (
+    id         INTEGER PRIMARY KEY AUTOINCREMENT,
+    cluster_id TEXT NOT NULL,
+    action     TEXT NOT NULL,
+    actor      TEXT NOT NULL,
+    at         INTEGER NOT NULL,
+    reason     TEXT,
+    details    TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_cluster_audit_cluster_id ON cluster_audit (cluster_id);
+
+  -- Manual merges and splits, replayed in order on every refresh
+  CREATE TABLE IF NOT EXISTS cluster_overrides (
+    id         INTEGER PRIMARY KEY AUTOINCREMENT,
+    created_at INTEGER NOT NULL,
+    data       TEXT NOT NULL
+  );
+
+  -- LLM output keyed by a hash of the prompt inputs, so unchanged clusters are not regenerated
+  CREATE TABLE IF NOT EXISTS generated_text (
+    cache_key  TEXT PRIMARY KEY,
+    created_at INTEGER NOT NULL,
+    data       TEXT NOT NULL
+  );
+
+  -- Server-wide settings edited through tools, one JSON value per key
+  CREATE TABLE IF NOT EXISTS settings (
+    key        TEXT PRIMARY KEY,
+    updated_at INTEGER NOT NULL,
+    data       TEXT NOT NULL
+  );
+
+  -- Deployments and config changes, correlated with shifts in failure rates
+  CREATE TABLE IF NOT EXISTS change_events (
+    id          TEXT PRIMARY KEY,
+    kind        TEXT NOT NULL,
+    skill_name  TEXT NOT NULL,
+    version     TEXT NOT NULL,
+    timestamp   INTEGER NOT NULL,
+    description TEXT
+  );
+  CREATE INDEX IF NOT EXISTS idx_change_events_timestamp ON change_events (timestamp);
+
+  -- Success telemetry: every invocation of a skill per bucket, failed or not
+  CREATE TABLE IF NOT EXISTS invocation_counts (
+    skill_name     TEXT NOT NULL,
+    bucket_start   INTEGER NOT NULL,
+    bucket_minutes INTEGER NOT NULL,
+    invocations    INTEGER NOT NULL,
+    PRIMARY KEY (skill_name, bucket_start)
+  );
+  CREATE INDEX IF NOT EXISTS idx_invocation_counts_bucket_start ON invocation_counts (bucket_start);
+
+  -- Pipeline stages each session reached or failed at, for the journey funnel
+  CREATE TABLE IF NOT EXISTS stage_events (
+    session_id    TEXT NOT NULL,
+    stage         TEXT NOT NULL,
+    outcome       TEXT NOT NULL,
+    timestamp     INTEGER NOT NULL,
+    skill_name    TEXT,
+    user_id       TEXT,
+    evaluation_id TEXT,
+    error_code    TEXT,
+    PRIMARY KEY (session_id, stage, outcome)
+  );
+  CREATE INDEX IF NOT EXISTS idx_stage_events_timestamp ON stage_events (timestamp);
+`;
+
+const toFailureLog = (row: FailureLogRow): FailureLog => ({
+  evaluationId: row.evaluation_id,
+  sessionId: row.session_id,
+  prompt: row.prompt,
+  skillName: row.skill_name,
+  skillInputs: JSON.parse(row.skill_inputs),
+  exception: row.exception,
+  timestamp: new Date(row.timestamp),
+  errorCode: row.error_code ?? undefined,
+  userId: row.user_id ?? undefined,
+  tenantId: row.tenant_id ?? undefined,
+  contextMissing: row.context_missing ? JSON.parse(row.context_missing) : undefined
+});
+
+/**
+ * Embedded SQLite store for failure logs and the cluster snapshots computed from them.
+ * Logs are keyed by `evaluationId`, so re-ingesting the same source is idempotent.
+ */
+export class FailureStore {
+  private db: Database.Database;
+
+  constructor(path: string, private retention: RetentionPolicy) {
+    this.db = new Database(path);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('foreign_keys = ON');
+    this.db.exec(SCHEMA);
+    this.migrate();
+  }
+
+  /** Brings store files created by earlier versions up to the current schema. */
+  private migrate() {
+    const logColumns = (this.db.pragma('table_info(failure_logs)') as { name: string }[]).map(column => column.name);
+    if (!logColumns.includes('tenant_id')) {
+      this.db.exec(`
+        ALTER TABLE failure_logs ADD COLUMN tenant_id TEXT;
+        UPDATE failure_logs SET tenant_id = json_extract(skill_inputs, '$.tenantId')
+          WHERE json_type(skill_inputs, '$.tenantId') = 'text';
+      `);
+    }
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_failure_logs_tenant_id ON failure_logs (tenant_id)');
+  }
+
+  upsertLogs(logs: FailureLog[]): void {
+    const insert = this.db.prepare(`
+      INSERT OR REPLACE INTO failure_logs
+        (evaluation_id, session_id, prompt, skill_name, skill_inputs, exception, timestamp, error_code, user_id, tenant_id, context_missing)
+      VALUES
+        (@evaluationId, @sessionId, @prompt, @skillName, @skillInputs, @exception, @timestamp, @errorCode, @userId, @tenantId, @contextMissing)
+    `);
+
+    this.db.transaction((batch: FailureLog[]) => {
+      batch.forEach(log => insert.run({
+        evaluationId: log.evaluationId,
+        sessionId: log.sessionId,
+        prompt: log.prompt,
+        skillName: log.skillName,
+        skillInputs: JSON.stringify(log.skillInputs),
+        exception: log.exception,
+        timestamp: log.timestamp.getTime(),
+        errorCode: log.errorCode ?? null,
+        userId: log.userId ?? null,
+        tenantId: log.tenantId ?? null,
+        contextMissing: log.contextMissing ? JSON.stringify(log.contextMissing) : null
+      }));
+    })(logs);
+  }
+
+  queryLogs(query: FailureLogQuery = {}): FailureLog[] {
+    const { where, params } = this.buildLogFilter(query);
+    let limit = '';
+    if (query.limit !== undefined) {
+      limit = 'LIMIT @limit';
+      params.limit = query.limit;
+    }
+    const rows = this.db
+      .prepare(`SELECT * FROM failure_logs ${where} ORDER BY timestamp DESC ${limit}`)
+      .all(params) as FailureLogRow[];
+    return rows.map(toFailureLog);
+  }
+
+  countLogs(query: FailureLogQuery = {}): number {
+    const { where, params } = this.buildLogFilter(query);
+    const row = this.db.prepare(`SELECT COUNT(*) AS count FROM failure_logs ${where}`).get(params) as { count: number };
+    return row.count;
+  }
+
+  /** Timestamp of the oldest stored failure, i.e. how far back history goes. */
+  earliestLogTimestamp(): Date | undefined {
+    const row = this.db.prepare('SELECT MIN(timestamp) AS earliest FROM failure_logs').get() as { earliest: number | null };
+    return row.earliest === null ? undefined : new Date(row.earliest);
+  }
+
+  /** Counts are keyed by skill and bucket start, so a re-read bucket replaces the stored one. */
+  upsertInvocationCounts(counts: InvocationCount[]): void {
+    const insert = this.db.prepare(`
+      INSERT OR REPLACE INTO invocation_counts (skill_name, bucket_start, bucket_minutes, invocations)
+      VALUES (@skillName, @bucketStart, @bucketMinutes, @invocations)
+    `);
+
+    this.db.transaction((batch: InvocationCount[]) => {
+      batch.forEach(count => insert.run({
+        skillName: count.skillName,
+        bucketStart: count.bucketStart.getTime(),
+        bucketMinutes: count.bucketMinutes,
+        invocations: count.invocations
+      }));
+    })(counts);
+  }
+
+  queryInvocationCounts(query: InvocationCountQuery = {}): InvocationCount[] {
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = {};
+    if (query.skillName) {
+      conditions.push('skill_name = @skillName');
+      params.skillName = query.skillName;
+    }
+    if (query.since) {
+      conditions.push('bucket_start + bucket_minutes * 60000 > @since');
+      params.since = query.since.getTime();
+    }
+    if (query.until) {
+      conditions.push('bucket_start < @until');
+      params.until = query.until.getTime();
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT * FROM invocation_counts ${where} ORDER BY bucket_start ASC`)
+      .all(params) as InvocationCountRow[];
+    return rows.map(row => ({
+      skillName: row.skill_name,
+      bucketStart: new Date(row.bucket_start),
+      bucketMinutes: row.bucket_minutes,
+      invocations: row.invocations
+    }));
+  }
+
+  /** Events are keyed by session, stage and outcome, so a re-read event replaces the stored one. */
+  upsertStageEvents(events: StageEvent[]): void {
+    const insert = this.db.prepare(`
+      INSERT OR REPLACE INTO stage_events
+        (session_id, stage, outcome, timestamp, skill_name, user_id, evaluation_id, error_code)
+      VALUES (@sessionId, @stage, @outcome, @timestamp, @skillName, @userId, @evaluationId, @errorCode)
+    `);
+
+    this.db.transaction((batch: StageEvent[]) => {
+      batch.forEach(event => insert.run({
+        sessionId: event.sessionId,
+        stage: event.stage,
+        outcome: event.outcome,
+        timestamp: event.timestamp.getTime(),
+        skillName: event.skillName ?? null,
+        userId: event.userId ?? null,
+        evaluationId: event.evaluationId ?? null,
+        errorCode: event.errorCode ?? null
+      }));
+    })(events);
+  }
+
+  queryStageEvents(query: StageEventQuery = {}): StageEvent[] {
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = {};
+    if (query.sessionId) {
+      conditions.push('session_id = @sessionId');
+      params.sessionId = query.sessionId;
+    }
+    if (query.since) {
+      conditions.push('timestamp >= @since');
+      params.since = query.since.getTime();
+    }
+    if (query.until) {
+      conditions.push('timestamp < @until');
+      params.until = query.until.getTime();
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT * FROM stage_events ${where} ORDER BY timestamp ASC`)
+      .all(params) as StageEventRow[];
+    return rows.map(row => ({
+      sessionId: row.session_id,
+      stage: row.stage,
+      outcome: row.outcome,
+      timestamp: new Date(row.timestamp),
+      skillName: row.skill_name ?? undefined,
+      userId: row.user_id ?? undefined,
+      evaluationId: row.evaluation_id ?? undefined,
+      errorCode: row.error_code ?? undefined
+    }));
+  }
+
+  upsertChangeEvents(events: ChangeEvent[]): void {
+    const insert = this.db.prepare(`
+      INSERT OR REPLACE INTO change_events (id, kind, skill_name, version, timestamp, description)
+      VALUES (@id, @kind, @skillName, @version, @timestamp, @description)
+    `);
+
+    this.db.transaction((batch: ChangeEvent[]) => {
+      batch.forEach(event => insert.run({
+        id: event.id,
+        kind: event.kind,
+        skillName: event.skillName,
+        version: event.version,
+        timestamp: event.timestamp.getTime(),
+        description: event.description ?? null
+      }));
+    })(events);
+  }
+
+  /** Change events in time order, oldest first. */
+  queryChangeEvents(query: ChangeEventQuery = {}): ChangeEvent[] {
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = {};
+    if (query.skillName) {
+      conditions.push('skill_name = @skillName');
+      params.skillName = query.skillName;
+    }
+    if (query.since) {
+      conditions.push('timestamp >= @since');
+      params.since = query.since.getTime();
+    }
+    if (query.until) {
+      conditions.push('timestamp < @until');
+      params.until = query.until.getTime();
+    }
+
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT * FROM change_events ${where} ORDER BY timestamp ASC`)
+      .all(params) as ChangeEventRow[];
+    return rows.map(row => ({
+      id: row.id,
+      kind: row.kind,
+      skillName: row.skill_name,
+      version: row.version,
+      timestamp: new Date(row.timestamp),
+      description: row.description ?? undefined
+    }));
+  }
+
+  /** Persists a freshly computed set of clusters as a new snapshot, storing membership by `evaluationId`. */
+  saveClusterSnapshot(clusters: ProcessedCluster[], createdAt = new Date()): number {
+    const insertSnapshot = this.db.prepare('INSERT INTO cluster_snapshots (created_at) VALUES (?)');
+    const insertCluster = this.db.prepare(`
+      INSERT INTO snapshot_clusters
+        (snapshot_id, cluster_id, severity, resolved, failure_count, first_seen, last_seen, data)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+    const insertMember = this.db.prepare(
+      'INSERT OR IGNORE INTO snapshot_cluster_members (snapshot_id, cluster_id, evaluation_id) VALUES (?, ?, ?)'
+    );
+
+    return this.db.transaction(() => {
+      const snapshotId = Number(insertSnapshot.run(createdAt.getTime()).lastInsertRowid);
+      clusters.forEach(cluster => {
+        const { failureLogs, firstSeen, lastSeen, lineage, lifecycle, ...data } = cluster;
+        insertCluster.run(
+          snapshotId,
+          cluster.id,
+          cluster.severity,
+          cluster.resolved ? 1 : 0,
+          cluster.failureCount,
+          firstSeen.getTime(),
+          lastSeen.getTime(),
+          JSON.stringify(data)
+        );
+        failureLogs.forEach(log => insertMember.run(snapshotId, cluster.id, log.evaluationId));
+      });
+      return snapshotId;
+    })();
+  }
+
+  latestSnapshot(): { id: number; createdAt: Date } | undefined {
+    const row = this.db
+      .prepare('SELECT id, created_at FROM cluster_snapshots ORDER BY id DESC LIMIT 1')
+      .get() as { id: number; created_at: number } | undefined;
+    return row && { id: row.id, createdAt: new Date(row.created_at) };
+  }
+
+  /** Returns clusters from the most recent snapshot, with member logs rehydrated from `failure_logs`. */
+  queryClusters(query: ClusterQuery = {}): ProcessedCluster[] {
+    const snapshotId = this.latestSnapshot()?.id;
+    if (snapshotId === undefined) {
+      return [];
+    }
+
+    const conditions = ['c.snapshot_id = @snapshotId'];
+    const params: Record<string, string | number> = { snapshotId };
+    if (query.severity) {
+      conditions.push('c.severity = @severity');
+      params.severity = query.severity;
+    }
+    if (query.resolved !== undefined) {
+      conditions.push(query.resolved ? "lc.status = 'resolved'" : "(lc.status IS NULL OR lc.status != 'resolved')");
+    }
+    if (query.status) {
+      conditions.push(query.status === 'new' ? "(lc.status IS NULL OR lc.status = 'new')" : 'lc.status = @status');
+      params.status = query.status;
+    }
+    if (query.minClusterSize) {
+      conditions.push('c.failure_count >= @minClusterSize');
+      params.minClusterSize = query.minClusterSize;
+    }
+
+    const rows = this.db.prepare(`
+      SELECT c.cluster_id, c.first_seen, c.last_seen, c.data, lc.data AS lifecycle
+      FROM snapshot_clusters c
+      LEFT JOIN cluster_lifecycle lc ON lc.cluster_id = c.cluster_id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY c.failure_count DESC
+    `).all(params) as ClusterRow[];
+
+    const members = this.db.prepare(`
+      SELECT l.* FROM snapshot_cluster_members m
+      JOIN failure_logs l ON l.evaluation_id = m.evaluation_id
+      WHERE m.snapshot_id = ? AND m.cluster_id = ?
+      ORDER BY l.timestamp ASC
+    `);
+
+    return rows.map(row => {
+      const lifecycle: ClusterLifecycle = row.lifecycle
+        ? JSON.parse(row.lifecycle)
+        : createLifecycle(new Date(row.first_seen));
+      return {
+        ...JSON.parse(row.data),
+        firstSeen: new Date(row.first_seen),
+        lastSeen: new Date(row.last_seen),
+        resolved: lifecycle.status === 'resolved',
+        lifecycle,
+        lineage: this.queryLineage(row.cluster_id),
+        failureLogs: (members.all(snapshotId, row.cluster_id) as FailureLogRow[]).map(toFailureLog)
+      };
+    });
+  }
+
+  getLifecycle(clusterId: string): ClusterLifecycle | undefined {
+    const row = this.db
+      .prepare('SELECT data FROM cluster_lifecycle WHERE cluster_id = ?')
+      .get(clusterId) as { data: string } | undefined;
+    return row && JSON.parse(row.data);
+  }
+
+  saveLifecycle(clusterId: string, lifecycle: ClusterLifecycle): void {
+    this.db
+      .prepare('INSERT OR REPLACE INTO cluster_lifecycle (cluster_id, status, data) VALUES (?, ?, ?)')
+      .run(clusterId, lifecycle.status, JSON.stringify(lifecycle));
+  }
+
+  recordAudit(entries: ClusterAuditEntry[]): void {
+    const insert = this.db.prepare(`
+      INSERT INTO cluster_audit (cluster_id, action, actor, at, reason, details)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+    this.db.transaction(() => {
+      entries.forEach(entry => insert.run(
+        entry.clusterId,
+        entry.action,
+        entry.actor,
+        new Date(entry.at).getTime(),
+        entry.reason ?? null,
+        JSON.stringify(entry.details)
+      ));
+    })();
+  }
+
+  /** Audit trail of a cluster, oldest first. */
+  queryAudit(clusterId: string): ClusterAuditEntry[] {
+    const rows = this.db
+      .prepare('SELECT cluster_id, action, actor, at, reason, details FROM cluster_audit WHERE cluster_id = ? ORDER BY id ASC')
+      .all(clusterId) as AuditRow[];
+
+    return rows.map(row => ({
+      clusterId: row.cluster_id,
+      action: row.action,
+      actor: row.actor,
+      at: new Date(row.at).toISOString(),
+      ...(row.reason ? { reason: row.reason } : {}),
+      details: JSON.parse(row.details)
+    }));
+  }
+
+  saveOverride(override: ClusterOverride, createdAt = new Date()): void {
+    this.db
+      .prepare('INSERT INTO cluster_overrides (created_at, data) VALUES (?, ?)')
+      .run(createdAt.getTime(), JSON.stringify(override));
+  }
+
+  listOverrides(): ClusterOverride[] {
+    const rows = this.db.prepare('SELECT data FROM cluster_overrides ORDER BY id ASC').all() as { data: string }[];
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  getSetting(key: string): unknown {
+    const row = this.db.prepare('SELECT data FROM settings WHERE key = ?').get(key) as { data: string } | undefined;
+    return row && JSON.parse(row.data);
+  }
+
+  saveSetting(key: string, value: unknown, updatedAt = new Date()): void {
+    this.db
+      .prepare('INSERT OR REPLACE INTO settings (key, updated_at, data) VALUES (?, ?, ?)')
+      .run(key, updatedAt.getTime(), JSON.stringify(value));
+  }
+
+  getGeneratedText(cacheKey: string): unknown {
+    const row = this.db
+      .prepare('SELECT data FROM generated_text WHERE cache_key = ?')
+      .get(cacheKey) as { data: string } | undefined;
+    return row && JSON.parse(row.data);
+  }
+
+  saveGeneratedText(cacheKey: string, value: unknown, createdAt = new Date()): void {
+    this.db
+      .prepare('INSERT OR REPLACE INTO generated_text (cache_key, created_at, data) VALUES (?, ?, ?)')
+      .run(cacheKey, createdAt.getTime(), JSON.stringify(value));
+  }
+
+  recordLineage(
+    snapshotId: number,
+    events: Omit<ClusterLineageEvent, 'recordedAt'>[],
+    recordedAt = new Date()
+  ): void {
+    const insert = this.db.prepare(`
+      INSERT INTO cluster_lineage (snapshot_id, kind, cluster_id, related_cluster_ids, recorded_at)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+    this.db.transaction(() => {
+      events.forEach(event => insert.run(
+        snapshotId,
+        event.kind,
+        event.clusterId,
+        JSON.stringify(event.relatedClusterIds),
+        recordedAt.getTime()
+      ));
+    })();
+  }
+
+  /** Lineage events in which the cluster is either the subject or one of the related clusters, oldest first. */
+  queryLineage(clusterId: string): ClusterLineageEvent[] {
+    const rows = this.db.prepare(`
+      SELECT kind, cluster_id, related_cluster_ids, recorded_at FROM cluster_lineage
+      WHERE cluster_id = @clusterId
+         OR EXISTS (SELECT 1 FROM json_each(related_cluster_ids) WHERE value = @clusterId)
+      ORDER BY id ASC
+    `).all({ clusterId }) as LineageRow[];
+
+    return rows.map(row => ({
+      kind: row.kind,
+      clusterId: row.cluster_id,
+      relatedClusterIds: JSON.parse(row.related_cluster_ids),
+      recordedAt: new Date(row.recorded_at).toISOString()
+    }));
+  }
+
+  /** Applies the retention policy: drops expired logs, invocation counts, stage and change events, and all but the newest snapshots. */
+  compact(now = new Date()): CompactionResult {
+    const cutoff = now.getTime() - this.retention.maxAgeDays * DAY_MS;
+
+    const result = this.db.transaction(() => {
+      const deletedLogs = this.db.prepare('DELETE FROM failure_logs WHERE timestamp < ?').run(cutoff).changes;
+      const deletedSnapshots = this.db.prepare(`
+        DELETE FROM cluster_snapshots
+        WHERE id NOT IN (SELECT id FROM cluster_snapshots ORDER BY id DESC LIMIT ?)
+      `).run(this.retention.maxSnapshots).changes;
+      const deletedChangeEvents = this.db.prepare('DELETE FROM change_events WHERE timestamp < ?').run(cutoff).changes;
+      const deletedInvocationCounts = this.db
+        .prepare('DELETE FROM invocation_counts WHERE bucket_start < ?')
+        .run(cutoff).changes;
+      const deletedStageEvents = this.db.prepare('DELETE FROM stage_events WHERE timestamp < ?').run(cutoff).changes;
+      return { deletedLogs, deletedSnapshots, deletedChangeEvents, deletedInvocationCounts, deletedStageEvents };
+    })();
+
+    if (Object.values(result).some(deleted => deleted > 0)) {
+      this.db.pragma('wal_checkpoint(TRUNCATE)');
+    }
+    return result;
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  private buildLogFilter(query: FailureLogQuery) {
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = {};
+
+    if (query.skillName) {
+      conditions.push('skill_name = @skillName');
+      params.skillName = query.skillName;
+    }
+    if (query.errorCode) {
+      conditions.push('error_code = @errorCode');
+      params.errorCode = query.errorCode;
+    }
+    if (query.sessionId) {
+      conditions.push('session_id = @sessionId');
+      params.sessionId = query.sessionId;
+    }
+    if (query.tenantId) {
+      conditions.push('tenant_id = @tenantId');
+      params.tenantId = query.tenantId;
+    }
+    if (query.since) {
+      conditions.push('timestamp >= @since');
+      params.since = query.since.getTime();
+    }
+    if (query.until) {
+      conditions.push('timestamp < @until');
+      params.until = query.until.getTime();
+    }
+
+    return {
+      where: conditions.length ? `WHERE ${conditions.join(' AND ')}` : '',
+      params
+    };
+  }
+}
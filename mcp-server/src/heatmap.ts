@@ -0,0 +1,133 @@
+import { FailureHeatmap, FailureLog, HeatmapBinning, HeatmapRow, InvocationCount, ProcessedCluster, TrendTimeRange } from './types.js';
+import { trendWindow } from '../../shared/timeSeries.js';
+import { HOUR_MS, MINUTE_MS, round } from '../../shared/util.js';
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export const HEATMAP_SLOTS: Record<HeatmapBinning, string[]> = {
+  hour: Array.from({ length: 24 }, (_, hour) => `${String(hour).padStart(2, '0')}:00`),
+  weekday: WEEKDAYS
+};
+
+export interface HeatmapQuery {
+  range: TrendTimeRange;
+  asOf: Date;
+  timezone: string;
+  binning: HeatmapBinning;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timezone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', { timeZone: timezone, hour: 'numeric', hourCycle: 'h23', weekday: 'short' });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+};
+
+export const isTimeZone = (value: string): boolean => {
+  try {
+    formatterFor(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** Hour-of-day or day-of-week slot of `date` in `timezone`; weekdays count from Monday = 0. */
+export const localSlot = (date: Date, timezone: string, binning: HeatmapBinning): number => {
+  const parts = formatterFor(timezone).formatToParts(date);
+  if (binning === 'hour') {
+    return Number(parts.find(part => part.type === 'hour')!.value) % 24;
+  }
+  return WEEKDAYS.indexOf(parts.find(part => part.type === 'weekday')!.value);
+};
+
+/**
+ * Failures and invocations per skill and local time slot over the window of `range` ending at `asOf`.
+ * Invocation buckets are cut into hours and each hour goes to the slot of its midpoint, which is exact
+ * for time zones with whole-hour offsets. As in `get_reliability`, a cell's invocations are never
+ * fewer than its failures.
+ */
+export const buildFailureHeatmap = (
+  logs: FailureLog[],
+  invocationCounts: InvocationCount[],
+  clusters: ProcessedCluster[],
+  query: HeatmapQuery
+): FailureHeatmap => {
+  const window = trendWindow(query.range, query.asOf);
+  const start = window.start.getTime();
+  const end = window.end.getTime();
+  const slotCount = HEATMAP_SLOTS[query.binning].length;
+  const clusterOf = new Map(clusters.flatMap(cluster => cluster.failureLogs.map(log => [log.evaluationId, cluster.id] as const)));
+
+  const skills = new Map<string, { failures: number[]; invocations: number[] | null; clusters: Map<string, number>[] }>();
+  const rowOf = (skillName: string) => {
+    if (!skills.has(skillName)) {
+      skills.set(skillName, {
+        failures: new Array(slotCount).fill(0),
+        invocations: null,
+        clusters: Array.from({ length: slotCount }, () => new Map<string, number>())
+      });
+    }
+    return skills.get(skillName)!;
+  };
+
+  logs.forEach(log => {
+    const time = log.timestamp.getTime();
+    if (time < start || time >= end) return;
+    const row = rowOf(log.skillName);
+    const slot = localSlot(log.timestamp, query.timezone, query.binning);
+    row.failures[slot]++;
+    const clusterId = clusterOf.get(log.evaluationId);
+    if (clusterId) row.clusters[slot].set(clusterId, (row.clusters[slot].get(clusterId) ?? 0) + 1);
+  });
+
+  invocationCounts.forEach(count => {
+    const bucketStart = count.bucketStart.getTime();
+    const bucketEnd = bucketStart + count.bucketMinutes * MINUTE_MS;
+    const from = Math.max(bucketStart, start);
+    const to = Math.min(bucketEnd, end);
+    if (from >= to) return;
+
+    const row = rowOf(count.skillName);
+    row.invocations ??= new Array(slotCount).fill(0);
+    for (let hour = Math.floor(from / HOUR_MS) * HOUR_MS; hour < to; hour += HOUR_MS) {
+      const pieceStart = Math.max(from, hour);
+      const pieceEnd = Math.min(to, hour + HOUR_MS);
+      const slot = localSlot(new Date((pieceStart + pieceEnd) / 2), query.timezone, query.binning);
+      row.invocations[slot] += count.invocations * (pieceEnd - pieceStart) / (bucketEnd - bucketStart);
+    }
+  });
+
+  const rows: HeatmapRow[] = [...skills].map(([skillName, row]) => {
+    const cells = row.failures.map((failures, slot) => {
+      const invocations = row.invocations && Math.round(Math.max(row.invocations[slot], failures));
+      return {
+        slot,
+        failures,
+        invocations,
+        errorRate: invocations ? round(failures / invocations) : null,
+        clusterIds: [...row.clusters[slot]].sort((a, b) => b[1] - a[1]).map(([clusterId]) => clusterId)
+      };
+    });
+    return {
+      skillName,
+      failures: row.failures.reduce((sum, value) => sum + value, 0),
+      invocations: row.invocations && cells.reduce((sum, cell) => sum + cell.invocations!, 0),
+      cells
+    };
+  });
+
+  return {
+    timeRange: query.range,
+    windowStart: window.start,
+    windowEnd: window.end,
+    timezone: query.timezone,
+    binning: query.binning,
+    slotLabels: HEATMAP_SLOTS[query.binning],
+    rows: rows.sort((a, b) => b.failures - a.failures || (b.invocations ?? 0) - (a.invocations ?? 0))
+  };
+};
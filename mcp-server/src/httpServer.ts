@@ -0,0 +1,117 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  /** Allowed browser origins; `*` allows any. Requests without an `Origin` header (CLI agents) are always allowed. */
+  corsOrigins: string[];
+}
+
+export interface HttpServerHandle {
+  url: string;
+  close(): Promise<void>;
+}
+
+const MCP_PATH = '/mcp';
+const HEALTH_PATH = '/health';
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers }).end(JSON.stringify(body));
+};
+
+const jsonRpcError = (code: number, message: string) => ({ jsonrpc: '2.0', error: { code, message }, id: null });
+
+/** Sets CORS headers for allowed origins. Returns false when the request comes from a disallowed origin. */
+const applyCors = (req: IncomingMessage, res: ServerResponse, allowed: string[]): boolean => {
+  const origin = req.headers.origin;
+  if (!origin) return true;
+  if (!allowed.includes('*') && !allowed.includes(origin)) return false;
+
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Vary', 'Origin');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  res.setHeader(
+    'Access-Control-Allow-Headers',
+    'Content-Type, Accept, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID'
+  );
+  res.setHeader('Access-Control-Expose-Headers', 'Mcp-Session-Id');
+  return true;
+};
+
+/**
+ * Serves MCP over streamable HTTP next to a JSON health endpoint.
+ *
+ * The transport runs stateless: each POST gets a fresh protocol server wired to the same tool handlers,
+ * so any number of dashboards and agents can share the process without session bookkeeping. Tool calls
+ * still hit the shared store, so writes from one client are visible to all others.
+ */
+export const startHttpServer = async (
+  createMcpServer: () => Server,
+  options: HttpServerOptions,
+  health: () => Record<string, unknown>
+): Promise<HttpServerHandle> => {
+  const active = new Set<StreamableHTTPServerTransport>();
+
+  const httpServer = createServer(async (req, res) => {
+    if (!applyCors(req, res, options.corsOrigins)) {
+      sendJson(res, 403, { error: `Origin ${req.headers.origin} is not allowed` });
+      return;
+    }
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204).end();
+      return;
+    }
+
+    const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+    if (pathname === HEALTH_PATH && req.method === 'GET') {
+      sendJson(res, 200, { status: 'ok', ...health() });
+      return;
+    }
+    if (pathname !== MCP_PATH) {
+      sendJson(res, 404, { error: `Not found: ${pathname}` });
+      return;
+    }
+    // Stateless servers have no standalone SSE stream or session to delete
+    if (req.method !== 'POST') {
+      sendJson(res, 405, jsonRpcError(-32000, 'Method not allowed'), { Allow: 'POST, OPTIONS' });
+      return;
+    }
+
+    const server = createMcpServer();
+    const transport = new StreamableHTTPServerTransport({ sessionIdGenerator: undefined });
+    active.add(transport);
+    res.on('close', () => {
+      active.delete(transport);
+      transport.close();
+      server.close();
+    });
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res);
+    } catch (error) {
+      console.error('Failed to handle MCP request:', error);
+      if (!res.headersSent) {
+        sendJson(res, 500, jsonRpcError(-32603, 'Internal server error'));
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+
+  return {
+    url: `http://${options.host}:${options.port}${MCP_PATH}`,
+    close: async () => {
+      await Promise.all([...active].map(transport => transport.close()));
+      await new Promise<void>(resolve => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    }
+  };
+};
@@ -0,0 +1,85 @@
+import { ClusterImpact, CostModel, ImpactMatrix, ProcessedCluster } from './types.js';
+import { repairDurations } from '../../shared/lifecycle.js';
+import { MINUTE_MS, isPlainObject, round } from '../../shared/util.js';
+
+export const COST_MODEL_SETTING = 'costModel';
+
+export const DEFAULT_COST_MODEL: CostModel = { perFailure: 5, perAffectedUser: 25, currency: 'USD' };
+
+/**
+ * Overlays the weights present in `raw` on `base`. Weights must be finite and non-negative, and the
+ * currency a three-letter code.
+ */
+export const mergeCostModel = (base: CostModel, raw: unknown): CostModel => {
+  if (raw === undefined) return base;
+  if (!isPlainObject(raw)) {
+    throw new Error('cost model must be an object');
+  }
+
+  const model = { ...base };
+  for (const field of ['perFailure', 'perAffectedUser'] as const) {
+    const value = raw[field];
+    if (value === undefined) continue;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      throw new Error(`${field} must be a non-negative number`);
+    }
+    model[field] = value;
+  }
+  if (raw.currency !== undefined) {
+    if (typeof raw.currency !== 'string' || !/^[A-Za-z]{3}$/.test(raw.currency)) {
+      throw new Error('currency must be a three-letter ISO 4217 code');
+    }
+    model.currency = raw.currency.toUpperCase();
+  }
+  return model;
+};
+
+const mean = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+const toMinutes = (ms: number | null) => ms === null ? null : Math.round(ms / MINUTE_MS);
+
+const costOf = (model: CostModel, failures: number, affectedUsers: number) =>
+  round(failures * model.perFailure + affectedUsers * model.perAffectedUser, 2);
+
+/** Users, sessions, time to repair and estimated cost of each cluster, from its members and lifecycle history. */
+export const computeImpactMatrix = (clusters: ProcessedCluster[], costModel: CostModel): ImpactMatrix => {
+  const allUsers = new Set<string>();
+  const allSessions = new Set<string>();
+  const allRepairs: number[] = [];
+
+  const impacts: ClusterImpact[] = clusters.map(cluster => {
+    const users = new Set(cluster.failureLogs.flatMap(log => log.userId ? [log.userId] : []));
+    const sessions = new Set(cluster.failureLogs.map(log => log.sessionId));
+    const repairs = repairDurations(cluster.lifecycle);
+    users.forEach(user => allUsers.add(user));
+    sessions.forEach(session => allSessions.add(session));
+    allRepairs.push(...repairs);
+
+    return {
+      clusterId: cluster.id,
+      name: cluster.name,
+      severity: cluster.severity,
+      category: cluster.rootCause.category,
+      failures: cluster.failureCount,
+      affectedUsers: users.size,
+      affectedSessions: sessions.size,
+      mttrMinutes: toMinutes(mean(repairs)),
+      resolutions: repairs.length,
+      cost: costOf(costModel, cluster.failureCount, users.size)
+    };
+  });
+
+  const failures = impacts.reduce((sum, impact) => sum + impact.failures, 0);
+  return {
+    costModel,
+    totals: {
+      failures,
+      affectedUsers: allUsers.size,
+      affectedSessions: allSessions.size,
+      mttrMinutes: toMinutes(mean(allRepairs)),
+      resolutions: allRepairs.length,
+      cost: costOf(costModel, failures, allUsers.size)
+    },
+    clusters: impacts.sort((a, b) => b.cost - a.cost || b.failures - a.failures)
+  };
+};
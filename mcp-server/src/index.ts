@@ -2,21 +2,182 @@
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
   CallToolResult,
   Tool,
 } from '@modelcontextprotocol/sdk/types.js';
-import { generateMockData, processFailureClusters } from './mockDataGenerator.js';
-import { AnalyticsData } from './types.js';
+import { processFailureClusters, sharedRecommendations } from '../../shared/analyticsCore.js';
+import { LogSource, createLogSource } from './logSources.js';
+import { FailureStore } from './failureStore.js';
+import { reconcileClusterIdentities } from './clusterIdentity.js';
+import { applyClusterOverrides } from './clusterOverrides.js';
+import { CLUSTER_STATUSES, applyLifecycleUpdate, createLifecycle, detectRegression } from '../../shared/lifecycle.js';
+import { ServerConfig, parseServerConfig } from './config.js';
+import { HttpServerHandle, startHttpServer } from './httpServer.js';
+import { loadRuleFile, watchRuleFile } from './ruleSource.js';
+import { createLlmProvider } from './llmProvider.js';
+import { NarrativeGenerator } from './narrativeGenerator.js';
+import { anomalyLookbackStart, detectAnomalies } from './anomalyDetector.js';
+import { loadChangeEvents } from './changeEvents.js';
+import { loadInvocationCounts } from './invocationCounts.js';
+import { loadStageEvents } from './stageEvents.js';
+import { computeJourneyFunnel } from './journey.js';
+import { buildSessionTrace } from './sessionTrace.js';
+import { compareClusterInputs, profileSkillInputs } from './skillInputs.js';
+import { computeTenantHealth, scopeClustersToTenant } from './tenants.js';
+import { COST_MODEL_SETTING, DEFAULT_COST_MODEL, computeImpactMatrix, mergeCostModel } from './impact.js';
+import { DEFAULT_SLA_TARGET, computeReliability } from './reliability.js';
+import { DEFAULT_SLO_CONFIG, SloConfig, computeSloScorecard, loadSloFile, sloLookbackStart } from './slo.js';
+import { HEATMAP_SLOTS, buildFailureHeatmap, isTimeZone, localSlot } from './heatmap.js';
+import { correlateChanges, detectChangePoints } from './changePoints.js';
+import { DEFAULT_RULE_SET, RuleSet } from '../../shared/ruleEngine.js';
+import { isWithinCategory } from '../../shared/taxonomy.js';
+import { DEFAULT_TREND_RANGE, TREND_TIME_RANGES, analyzeTrendWindow, isTrendTimeRange, trendWindow } from '../../shared/timeSeries.js';
+import { HOUR_MS } from '../../shared/util.js';
+import {
+  encodeAnalyticsData,
+  encodeAnomalyEvent,
+  encodeChangeAnalysis,
+  encodeCluster,
+  encodeFailureHeatmap,
+  encodeFailureLog,
+  encodeJourneyFunnel,
+  encodeReliabilityReport,
+  encodeSessionTrace,
+  encodeSloScorecard,
+  encodeTenantHealthReport,
+  encodeTrendAnalysis
+} from '../../shared/wire.js';
+import {
+  AnalyticsData,
+  AnomalyEvent,
+  ClusterAuditAction,
+  ClusterAuditEntry,
+  ClusterLifecycleUpdate,
+  ClusterLineage,
+  ClusterOverride,
+  ClusterStatus,
+  CostModel,
+  FailureLog,
+  ProcessedCluster,
+  TrendTimeRange
+} from './types.js';
+
+type ToolArgs = Record<string, unknown> | undefined;
+
+const CLUSTER_SEVERITIES: ProcessedCluster['severity'][] = ['low', 'medium', 'high', 'critical'];
+
+const requireString = (args: ToolArgs, field: string): string => {
+  const value = args?.[field];
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`${field} is required`);
+  }
+  return value.trim();
+};
+
+const optionalString = (args: ToolArgs, field: string): string | undefined => {
+  const value = args?.[field];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string') {
+    throw new Error(`${field} must be a string`);
+  }
+  return value.trim();
+};
+
+const optionalDate = (args: ToolArgs, field: string): Date | undefined => {
+  const value = optionalString(args, field);
+  if (value === undefined) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`${field} must be an ISO-8601 date`);
+  }
+  return date;
+};
+
+const optionalNumber = (args: ToolArgs, field: string): number | undefined => {
+  const value = args?.[field];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new Error(`${field} must be a number`);
+  }
+  return value;
+};
+
+const optionalBoolean = (args: ToolArgs, field: string): boolean | undefined => {
+  const value = args?.[field];
+  if (value === undefined) return undefined;
+  if (typeof value !== 'boolean') {
+    throw new Error(`${field} must be a boolean`);
+  }
+  return value;
+};
+
+const requireStringList = (args: ToolArgs, field: string): string[] => {
+  const value = args?.[field];
+  if (!Array.isArray(value) || value.length === 0 || value.some(item => typeof item !== 'string' || !item)) {
+    throw new Error(`${field} must be a non-empty array of strings`);
+  }
+  return [...new Set(value as string[])];
+};
 
-class CopilotFailureMCPServer {
-  private server: Server;
-  private mockData: AnalyticsData;
+const optionalTimeZone = (args: ToolArgs): string => {
+  const timezone = optionalString(args, 'timezone') || 'UTC';
+  if (!isTimeZone(timezone)) {
+    throw new Error(`timezone must be an IANA time zone, got "${timezone}"`);
+  }
+  return timezone;
+};
+
+const requireUrl = (value: string, field: string) => {
+  if (value && !/^https?:\/\/\S+$/.test(value)) {
+    throw new Error(`${field} must be an http(s) URL`);
+  }
+};
+
+/** Audit actions for the lifecycle fields an update touches. */
+const LIFECYCLE_FIELD_ACTIONS: Record<keyof ClusterLifecycleUpdate, ClusterAuditAction> = {
+  status: 'status-changed',
+  assignee: 'assigned',
+  workItemUrl: 'annotated',
+  notes: 'annotated'
+};
+
+const ACTOR_SCHEMA = {
+  type: 'string',
+  description: 'User or agent making the change, recorded in the audit trail'
+};
+
+const REASON_SCHEMA = {
+  type: 'string',
+  description: 'Why the change was made, recorded in the audit trail'
+};
+
+export class CopilotFailureMCPServer {
+  private servers = new Set<Server>();
+  private httpServer: HttpServerHandle | null = null;
+  private malformedRecords = 0;
+  private startedAt = new Date();
+  private ruleSet: RuleSet = DEFAULT_RULE_SET;
+  private rulesLoadedAt = new Date();
+  private stopWatchingRules: (() => void) | null = null;
+  private sloConfig: SloConfig = DEFAULT_SLO_CONFIG;
+  private stopWatchingSlos: (() => void) | null = null;
+
+  private narrator: NarrativeGenerator | null = null;
+  private reportedAnomalies = new Set<string>();
 
-  constructor() {
-    this.server = new Server(
+  constructor(
+    private logSource: LogSource,
+    private store: FailureStore,
+    private options: Pick<ServerConfig, 'rulesPath' | 'sloPath' | 'llm' | 'invocations' | 'stageEvents' | 'changeEvents'>
+  ) {}
+
+  /** Creates a protocol server wired to the tool handlers; HTTP mode creates one per request. */
+  private createServer(): Server {
+    const server = new Server(
       {
         name: 'copilot-failure-mcp-server',
         version: '1.0.0',
@@ -28,26 +189,123 @@ class CopilotFailureMCPServer {
       }
     );
 
-    this.refreshMockData();
-    this.setupHandlers();
+    this.setupHandlers(server);
+    this.servers.add(server);
+    server.onclose = () => this.servers.delete(server);
+    return server;
+  }
+
+  /** Reloads the log source into the store and re-clusters it; `ruleSet` lets a rule reload be tried before it is kept. */
+  private async refreshData(ruleSet: RuleSet = this.ruleSet) {
+    const { logs: failureLogs, invocations, stageEvents, issues } = await this.logSource.load();
+    issues.forEach(issue => {
+      console.error(`[${this.logSource.name}] line ${issue.line}: ${issue.message}`);
+    });
+    this.malformedRecords = issues.length;
+
+    this.store.upsertLogs(failureLogs);
+    this.store.upsertInvocationCounts(invocations ?? []);
+    if (this.options.invocations) {
+      const { invocations: counts, issues: countIssues } = await loadInvocationCounts(this.options.invocations);
+      countIssues.forEach(issue => {
+        console.error(`[invocations ${this.options.invocations!.path}] line ${issue.line}: ${issue.message}`);
+      });
+      this.store.upsertInvocationCounts(counts);
+    }
+    this.store.upsertStageEvents(stageEvents ?? []);
+    if (this.options.stageEvents) {
+      const { events, issues: eventIssues } = await loadStageEvents(this.options.stageEvents);
+      eventIssues.forEach(issue => {
+        console.error(`[stage events ${this.options.stageEvents!.path}] line ${issue.line}: ${issue.message}`);
+      });
+      this.store.upsertStageEvents(events);
+    }
+    if (this.options.changeEvents) {
+      const { events, issues: eventIssues } = await loadChangeEvents(this.options.changeEvents);
+      eventIssues.forEach(issue => {
+        console.error(`[change events ${this.options.changeEvents!.path}] line ${issue.line}: ${issue.message}`);
+      });
+      this.store.upsertChangeEvents(events);
+    }
+    const compaction = this.store.compact();
+    if (Object.values(compaction).some(deleted => deleted > 0)) {
+      console.error(
+        `Compacted store: removed ${compaction.deletedLogs} expired logs, ` +
+        `${compaction.deletedInvocationCounts} expired invocation counts, ${compaction.deletedStageEvents} expired stage events, ` +
+        `${compaction.deletedChangeEvents} expired change events and ${compaction.deletedSnapshots} old snapshots`
+      );
+    }
+
+    // Keep IDs stable, replay manual merges/splits on top, then reconcile again so that
+    // lineage only records changes the overrides do not already explain
+    const previous = this.store.queryClusters();
+    const computed = reconcileClusterIdentities(
+      previous,
+      processFailureClusters(this.store.queryLogs(), 3, ruleSet)
+    ).clusters;
+    const reconciled = reconcileClusterIdentities(
+      previous,
+      applyClusterOverrides(computed, this.store.listOverrides(), ruleSet, this.store.earliestLogTimestamp())
+    );
+
+    // Attach persisted triage state and flag resolved clusters that received new failures
+    const now = new Date();
+    const clusters = reconciled.clusters.map(cluster => {
+      const stored = this.store.getLifecycle(cluster.id);
+      const lifecycle = detectRegression(stored ?? createLifecycle(now), cluster, now);
+      if (lifecycle !== stored) {
+        this.store.saveLifecycle(cluster.id, lifecycle);
+      }
+      if (stored && lifecycle.status === 'regressed' && stored.status !== 'regressed') {
+        console.error(`Cluster ${cluster.id} regressed: new failures since ${stored.resolvedAt}`);
+        this.store.recordAudit([{
+          clusterId: cluster.id,
+          action: 'regressed',
+          actor: 'system',
+          at: now.toISOString(),
+          details: { status: { from: stored.status, to: lifecycle.status }, lastSeen: cluster.lastSeen.toISOString() }
+        }]);
+      }
+      return { ...cluster, lifecycle, resolved: lifecycle.status === 'resolved' };
+    });
+    const lineage = reconciled.lineage;
+
+    const snapshotId = this.store.saveClusterSnapshot(await this.describeClusters(clusters, ruleSet.taxonomy));
+    this.store.recordLineage(snapshotId, lineage);
+    this.reportAnomalies(now);
+  }
+
+  /** Logs skill spikes from the last day that earlier refreshes have not reported yet. */
+  private reportAnomalies(now: Date) {
+    const anomalies = this.findAnomalies('24h', now, ['skill']);
+    anomalies
+      .filter(anomaly => !this.reportedAnomalies.has(anomaly.id))
+      .forEach(anomaly => {
+        console.error(
+          `Anomaly: ${anomaly.label} had ${anomaly.failureCount} failures from ${anomaly.start.toISOString()} ` +
+          `(expected ${anomaly.expectedCount}, z=${anomaly.magnitude})`
+        );
+      });
+    this.reportedAnomalies = new Set(anomalies.map(anomaly => anomaly.id));
   }
 
-  private refreshMockData() {
-    const failureLogs = generateMockData();
-    const clusters = processFailureClusters(failureLogs);
-    
-    this.mockData = {
+  private getAnalyticsData(): AnalyticsData {
+    const clusters = this.store.queryClusters();
+    const failureLogs = this.store.queryLogs();
+
+    return {
       clusters,
       failureLogs,
       totalFailures: failureLogs.length,
       criticalClusters: clusters.filter(c => c.severity === 'critical').length,
       resolvedClusters: clusters.filter(c => c.resolved).length,
-      lastUpdated: new Date().toISOString()
+      regressedClusters: clusters.filter(c => c.lifecycle.status === 'regressed').length,
+      lastUpdated: (this.store.latestSnapshot()?.createdAt ?? new Date()).toISOString()
     };
   }
 
-  private setupHandlers() {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+  private setupHandlers(server: Server) {
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
         tools: [
           {
@@ -72,13 +330,26 @@ class CopilotFailureMCPServer {
               properties: {
                 severity: {
                   type: 'string',
-                  enum: ['low', 'medium', 'high', 'critical'],
+                  enum: CLUSTER_SEVERITIES,
                   description: 'Filter by severity level'
                 },
                 resolved: {
                   type: 'boolean',
                   description: 'Filter by resolution status'
                 },
+                status: {
+                  type: 'string',
+                  enum: CLUSTER_STATUSES,
+                  description: 'Filter by lifecycle status'
+                },
+                category: {
+                  type: 'string',
+                  description: 'Filter by root-cause category, including its sub-categories (see get_root_cause_taxonomy)'
+                },
+                tenantId: {
+                  type: 'string',
+                  description: 'Only clusters with failures from this tenant, narrowed to those failures'
+                },
                 minClusterSize: {
                   type: 'number',
                   description: 'Minimum cluster size threshold',
@@ -97,6 +368,41 @@ class CopilotFailureMCPServer {
                   type: 'string',
                   description: 'Filter by specific skill name'
                 },
+                errorCode: {
+                  type: 'string',
+                  description: 'Filter by error code'
+                },
+                sessionId: {
+                  type: 'string',
+                  description: 'Filter by session ID'
+                },
+                tenantId: {
+                  type: 'string',
+                  description: 'Filter by tenant ID'
+                },
+                since: {
+                  type: 'string',
+                  format: 'date-time',
+                  description: 'Only failures at or after this time'
+                },
+                until: {
+                  type: 'string',
+                  format: 'date-time',
+                  description: 'Only failures before this time'
+                },
+                timezone: {
+                  type: 'string',
+                  description: 'IANA time zone for hourOfDay and dayOfWeek',
+                  default: 'UTC'
+                },
+                hourOfDay: {
+                  type: 'number',
+                  description: 'Only failures in this local hour (0-23), e.g. a heatmap cell'
+                },
+                dayOfWeek: {
+                  type: 'number',
+                  description: 'Only failures on this local weekday (0 = Monday)'
+                },
                 limit: {
                   type: 'number',
                   description: 'Maximum number of logs to return',
@@ -107,72 +413,950 @@ class CopilotFailureMCPServer {
           },
           {
             name: 'analyze_trends',
-            description: 'Get trend analysis and insights from failure data',
+            description: 'Bucketed failure series per cluster, skill and root cause for a time window, with each trend classified against the preceding window of the same length',
             inputSchema: {
               type: 'object',
               properties: {
                 timeRange: {
                   type: 'string',
-                  enum: ['24h', '7d', '30d'],
-                  description: 'Time range for analysis',
-                  default: '7d'
+                  enum: Object.keys(TREND_TIME_RANGES),
+                  description: 'Window length: 24h in hourly buckets, 7d in 6-hour buckets, 30d in daily buckets',
+                  default: DEFAULT_TREND_RANGE
+                },
+                tenantId: {
+                  type: 'string',
+                  description: 'Only failures from this tenant'
+                },
+                asOf: {
+                  type: 'string',
+                  format: 'date-time',
+                  description: 'End of the window (defaults to now), e.g. to analyze a replayed log file'
                 }
               }
             }
           },
           {
-            name: 'get_recommendations',
-            description: 'Get AI-powered recommendations for failure remediation',
+            name: 'get_cluster_lineage',
+            description: 'Get the identity history of a cluster: when it was created, split, merged or retired, and its ancestors',
             inputSchema: {
               type: 'object',
               properties: {
                 clusterId: {
                   type: 'string',
-                  description: 'Specific cluster to get recommendations for'
+                  description: 'Cluster to trace'
+                }
+              },
+              required: ['clusterId']
+            }
+          },
+          {
+            name: 'update_cluster_lifecycle',
+            description: 'Change several triage fields of a cluster at once: status, assignee, linked work item and notes',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                clusterId: {
+                  type: 'string',
+                  description: 'Cluster to update'
+                },
+                status: {
+                  type: 'string',
+                  enum: CLUSTER_STATUSES,
+                  description: 'New lifecycle status; must be a valid transition from the current one'
+                },
+                assignee: {
+                  type: 'string',
+                  description: 'Owner of the cluster; empty string to unassign'
+                },
+                workItemUrl: {
+                  type: 'string',
+                  description: 'Linked bug or work item URL; empty string to unlink'
+                },
+                notes: {
+                  type: 'string',
+                  description: 'Free-form triage notes'
+                },
+                actor: ACTOR_SCHEMA,
+                reason: REASON_SCHEMA
+              },
+              required: ['clusterId', 'actor']
+            }
+          },
+          {
+            name: 'update_cluster_status',
+            description: 'Move a cluster to a new lifecycle status (triaged, in-progress, resolved, wont-fix, ...)',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                clusterId: {
+                  type: 'string',
+                  description: 'Cluster to update'
+                },
+                status: {
+                  type: 'string',
+                  enum: CLUSTER_STATUSES,
+                  description: 'New lifecycle status; must be a valid transition from the current one'
+                },
+                actor: ACTOR_SCHEMA,
+                reason: REASON_SCHEMA
+              },
+              required: ['clusterId', 'status', 'actor']
+            }
+          },
+          {
+            name: 'annotate_cluster',
+            description: 'Set the triage notes and/or linked work item of a cluster',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                clusterId: {
+                  type: 'string',
+                  description: 'Cluster to annotate'
+                },
+                notes: {
+                  type: 'string',
+                  description: 'Free-form triage notes; empty string to clear'
+                },
+                workItemUrl: {
+                  type: 'string',
+                  description: 'Linked bug or work item URL; empty string to unlink'
+                },
+                actor: ACTOR_SCHEMA,
+                reason: REASON_SCHEMA
+              },
+              required: ['clusterId', 'actor']
+            }
+          },
+          {
+            name: 'assign_cluster',
+            description: 'Assign a cluster to an owner, or unassign it',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                clusterId: {
+                  type: 'string',
+                  description: 'Cluster to assign'
+                },
+                assignee: {
+                  type: 'string',
+                  description: 'New owner; empty string to unassign'
+                },
+                actor: ACTOR_SCHEMA,
+                reason: REASON_SCHEMA
+              },
+              required: ['clusterId', 'assignee', 'actor']
+            }
+          },
+          {
+            name: 'merge_clusters',
+            description: 'Merge one or more clusters into a target cluster; the merge is kept across refreshes',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                targetClusterId: {
+                  type: 'string',
+                  description: 'Cluster that absorbs the others and keeps its ID and triage state'
+                },
+                sourceClusterIds: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Clusters to fold into the target'
+                },
+                actor: ACTOR_SCHEMA,
+                reason: REASON_SCHEMA
+              },
+              required: ['targetClusterId', 'sourceClusterIds', 'actor']
+            }
+          },
+          {
+            name: 'split_cluster',
+            description: 'Move selected failures out of a cluster into a new cluster; the split is kept across refreshes',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                clusterId: {
+                  type: 'string',
+                  description: 'Cluster to split'
+                },
+                evaluationIds: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Member failures (by evaluationId) that form the new cluster'
+                },
+                name: {
+                  type: 'string',
+                  description: 'Display name for the new cluster'
+                },
+                actor: ACTOR_SCHEMA,
+                reason: REASON_SCHEMA
+              },
+              required: ['clusterId', 'evaluationIds', 'actor']
+            }
+          },
+          {
+            name: 'get_cluster_audit',
+            description: 'Get the audit trail of a cluster: every status change, assignment, annotation, merge and split with its actor',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                clusterId: {
+                  type: 'string',
+                  description: 'Cluster to inspect'
+                }
+              },
+              required: ['clusterId']
+            }
+          },
+          {
+            name: 'get_root_cause_rules',
+            description: 'Get the active root-cause rules, where they were loaded from and when',
+            inputSchema: {
+              type: 'object',
+              properties: {}
+            }
+          },
+          {
+            name: 'get_root_cause_taxonomy',
+            description: 'Get the root-cause categories and sub-categories with their labels, colours and remediation templates',
+            inputSchema: {
+              type: 'object',
+              properties: {}
+            }
+          },
+          {
+            name: 'get_anomalies',
+            description: 'Spikes in failure volume per skill or cluster: consecutive hours far above the same hours of previous weeks, with the clusters that contributed',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                timeRange: {
+                  type: 'string',
+                  enum: Object.keys(TREND_TIME_RANGES),
+                  description: 'Window to search for anomalies',
+                  default: DEFAULT_TREND_RANGE
+                },
+                scope: {
+                  type: 'string',
+                  enum: ['skill', 'cluster', 'all'],
+                  description: 'Which series to examine',
+                  default: 'all'
+                },
+                threshold: {
+                  type: 'number',
+                  description: 'Robust z-score an hour must reach to count as anomalous',
+                  default: 3.5
+                },
+                asOf: {
+                  type: 'string',
+                  format: 'date-time',
+                  description: 'End of the window (defaults to now)'
                 }
               }
             }
-          }
-        ] as Tool[]
-      };
-    });
+          },
+          {
+            name: 'get_failure_heatmap',
+            description: 'Failures, invocations and error rate per skill by local hour of day or day of week, with the clusters behind each cell',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                timeRange: {
+                  type: 'string',
+                  enum: Object.keys(TREND_TIME_RANGES),
+                  description: 'Window to count',
+                  default: DEFAULT_TREND_RANGE
+                },
+                binning: {
+                  type: 'string',
+                  enum: Object.keys(HEATMAP_SLOTS),
+                  description: 'hour: hour of day; weekday: day of week',
+                  default: 'hour'
+                },
+                timezone: {
+                  type: 'string',
+                  description: 'IANA time zone the slots are taken in, e.g. Europe/Berlin',
+                  default: 'UTC'
+                },
+                asOf: {
+                  type: 'string',
+                  format: 'date-time',
+                  description: 'End of the window (defaults to now)'
+                }
+              }
+            }
+          },
+          {
+            name: 'get_reliability',
+            description: 'Error rate, reliability and SLA attainment per skill, from failures over total invocations, bucketed like analyze_trends',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                timeRange: {
+                  type: 'string',
+                  enum: Object.keys(TREND_TIME_RANGES),
+                  description: 'Window to measure',
+                  default: DEFAULT_TREND_RANGE
+                },
+                skillName: {
+                  type: 'string',
+                  description: 'Only this skill (the total still covers every skill)'
+                },
+                slaTarget: {
+                  type: 'number',
+                  description: 'Success rate a bucket must reach to meet the SLA, between 0 and 1',
+                  default: DEFAULT_SLA_TARGET
+                },
+                asOf: {
+                  type: 'string',
+                  format: 'date-time',
+                  description: 'End of the window (defaults to now)'
+                }
+              }
+            }
+          },
+          {
+            name: 'get_skill_input_profile',
+            description: 'Inferred skillInputs schema per skill from its failures: presence, null rate, malformed rate, value types and cardinality of each top-level field',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                skillName: {
+                  type: 'string',
+                  description: 'Profile only this skill'
+                }
+              }
+            }
+          },
+          {
+            name: 'get_cluster_input_comparison',
+            description: "Compare the skillInputs of a cluster's failures with the other failures of the same skills and flag fields significantly more often missing, null or malformed in the cluster",
+            inputSchema: {
+              type: 'object',
+              properties: {
+                clusterId: {
+                  type: 'string',
+                  description: 'Cluster to compare'
+                }
+              },
+              required: ['clusterId']
+            }
+          },
+          {
+            name: 'get_session_trace',
+            description: 'Everything stored for one session in time order: its failures with prompts, skills, inputs, exceptions, missing context, clusters and attempt numbers, and its pipeline stage events',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                sessionId: {
+                  type: 'string',
+                  description: 'Session to trace'
+                }
+              },
+              required: ['sessionId']
+            }
+          },
+          {
+            name: 'get_tenant_health',
+            description: 'Failures, users, sessions and clusters per tenant for a time window, with tenants failing far more than the median flagged, and clusters concentrated in a single tenant (likely tenant configuration rather than code)',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                timeRange: {
+                  type: 'string',
+                  enum: Object.keys(TREND_TIME_RANGES),
+                  description: 'Window to measure',
+                  default: DEFAULT_TREND_RANGE
+                },
+                tenantId: {
+                  type: 'string',
+                  description: 'Only this tenant (concentrations still cover every tenant)'
+                },
+                asOf: {
+                  type: 'string',
+                  format: 'date-time',
+                  description: 'End of the window (defaults to now)'
+                }
+              }
+            }
+          },
+          {
+            name: 'get_slo_scorecard',
+            description: 'Per skill: success rate against its SLO, error budget remaining, burn rates over 1h, 6h, 24h and 3d, and the clusters spending the most budget',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                skillName: {
+                  type: 'string',
+                  description: 'Only this skill'
+                },
+                asOf: {
+                  type: 'string',
+                  format: 'date-time',
+                  description: 'End of the SLO and burn-rate windows (defaults to now)'
+                }
+              }
+            }
+          },
+          {
+            name: 'get_journey_funnel',
+            description: 'Sessions reaching each Copilot pipeline stage, from session stage events, with the clusters and errors behind each stage\'s drop-offs',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                timeRange: {
+                  type: 'string',
+                  enum: Object.keys(TREND_TIME_RANGES),
+                  description: 'Window whose sessions to count',
+                  default: DEFAULT_TREND_RANGE
+                },
+                skillName: {
+                  type: 'string',
+                  description: 'Only sessions that involved this skill'
+                },
+                asOf: {
+                  type: 'string',
+                  format: 'date-time',
+                  description: 'End of the window (defaults to now)'
+                }
+              }
+            }
+          },
+          {
+            name: 'get_impact_matrix',
+            description: 'Per cluster: failures, distinct affected users and sessions, mean time to resolve from the lifecycle history, and estimated cost under the configured cost model',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                clusterId: {
+                  type: 'string',
+                  description: 'Only this cluster (totals still cover every cluster)'
+                }
+              }
+            }
+          },
+          {
+            name: 'update_cost_model',
+            description: 'Change the weights of the impact matrix\'s cost estimate; omitted fields keep their current value',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                perFailure: {
+                  type: 'number',
+                  description: 'Cost of one failure',
+                  default: DEFAULT_COST_MODEL.perFailure
+                },
+                perAffectedUser: {
+                  type: 'number',
+                  description: 'Cost of one distinct affected user',
+                  default: DEFAULT_COST_MODEL.perAffectedUser
+                },
+                currency: {
+                  type: 'string',
+                  description: 'ISO 4217 code the weights are in',
+                  default: DEFAULT_COST_MODEL.currency
+                }
+              }
+            }
+          },
+          {
+            name: 'get_change_correlations',
+            description: 'Deployments and config changes lined up with what followed them: shifts in the skill\'s failure rate, clusters first seen shortly after, and clusters whose failure rate changed',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                skillName: {
+                  type: 'string',
+                  description: 'Only changes to this skill'
+                },
+                clusterId: {
+                  type: 'string',
+                  description: 'Only changes this cluster\'s onset or rate change followed'
+                },
+                since: {
+                  type: 'string',
+                  format: 'date-time',
+                  description: 'Start of the window (defaults to the oldest stored failure)'
+                },
+                until: {
+                  type: 'string',
+                  format: 'date-time',
+                  description: 'End of the window (defaults to now)'
+                },
+                toleranceHours: {
+                  type: 'number',
+                  description: 'How long after a change an onset or rate change still counts as following it',
+                  default: 6
+                }
+              }
+            }
+          },
+          {
+            name: 'get_recommendations',
+            description: 'Get AI-powered recommendations for failure remediation',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                clusterId: {
+                  type: 'string',
+                  description: 'Specific cluster to get recommendations for'
+                }
+              }
+            }
+          }
+        ] as Tool[]
+      };
+    });
+
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      const { name, arguments: args } = request.params;
+
+      try {
+        switch (name) {
+          case 'get_failure_analytics':
+            return await this.getFailureAnalytics(args);
+          case 'get_clusters':
+            return await this.getClusters(args);
+          case 'get_failure_logs':
+            return await this.getFailureLogs(args);
+          case 'analyze_trends':
+            return await this.analyzeTrends(args);
+          case 'get_cluster_lineage':
+            return await this.getClusterLineage(args);
+          case 'update_cluster_lifecycle':
+            return await this.updateClusterLifecycle(args);
+          case 'update_cluster_status':
+            return await this.updateClusterStatus(args);
+          case 'annotate_cluster':
+            return await this.annotateCluster(args);
+          case 'assign_cluster':
+            return await this.assignCluster(args);
+          case 'merge_clusters':
+            return await this.mergeClusters(args);
+          case 'split_cluster':
+            return await this.splitCluster(args);
+          case 'get_cluster_audit':
+            return await this.getClusterAudit(args);
+          case 'get_root_cause_rules':
+            return await this.getRootCauseRules();
+          case 'get_root_cause_taxonomy':
+            return await this.getRootCauseTaxonomy();
+          case 'get_anomalies':
+            return await this.getAnomalies(args);
+          case 'get_failure_heatmap':
+            return await this.getFailureHeatmap(args);
+          case 'get_reliability':
+            return await this.getReliability(args);
+          case 'get_skill_input_profile':
+            return await this.getSkillInputProfile(args);
+          case 'get_cluster_input_comparison':
+            return await this.getClusterInputComparison(args);
+          case 'get_session_trace':
+            return await this.getSessionTrace(args);
+          case 'get_tenant_health':
+            return await this.getTenantHealth(args);
+          case 'get_slo_scorecard':
+            return await this.getSloScorecard(args);
+          case 'get_journey_funnel':
+            return await this.getJourneyFunnel(args);
+          case 'get_impact_matrix':
+            return await this.getImpactMatrix(args);
+          case 'update_cost_model':
+            return await this.updateCostModel(args);
+          case 'get_change_correlations':
+            return await this.getChangeCorrelations(args);
+          case 'get_recommendations':
+            return await this.getRecommendations(args);
+          default:
+            throw new Error(`Unknown tool: ${name}`);
+        }
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error: ${error instanceof Error ? error.message : String(error)}`
+            }
+          ],
+          isError: true
+        };
+      }
+    });
+  }
+
+  private async getFailureAnalytics(args: any): Promise<CallToolResult> {
+    if (args?.refresh) {
+      await this.refreshData();
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            data: encodeAnalyticsData(this.getAnalyticsData()),
+            metadata: {
+              generatedAt: new Date().toISOString(),
+              dataSource: this.logSource.name,
+              malformedRecords: this.malformedRecords,
+              version: '1.0.0'
+            }
+          }, null, 2)
+        }
+      ]
+    };
+  }
+
+  private async getClusters(args?: Record<string, unknown>): Promise<CallToolResult> {
+    const severity = optionalString(args, 'severity');
+    if (severity !== undefined && !CLUSTER_SEVERITIES.includes(severity as ProcessedCluster['severity'])) {
+      throw new Error(`severity must be one of ${CLUSTER_SEVERITIES.join(', ')}`);
+    }
+    const status = optionalString(args, 'status');
+    if (status !== undefined && !CLUSTER_STATUSES.includes(status as ClusterStatus)) {
+      throw new Error(`status must be one of ${CLUSTER_STATUSES.join(', ')}`);
+    }
+    const minClusterSize = optionalNumber(args, 'minClusterSize');
+    if (minClusterSize !== undefined && (!Number.isInteger(minClusterSize) || minClusterSize < 1)) {
+      throw new Error('minClusterSize must be a positive integer');
+    }
+    const category = optionalString(args, 'category');
+    const clusters = scopeClustersToTenant(this.store.queryClusters({
+      severity: severity as ProcessedCluster['severity'] | undefined,
+      resolved: optionalBoolean(args, 'resolved'),
+      status: status as ClusterStatus | undefined,
+      minClusterSize
+    }), optionalString(args, 'tenantId'), this.store.earliestLogTimestamp()).filter(cluster => !category || isWithinCategory(cluster.rootCause.category, category));
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            data: clusters.map(encodeCluster),
+            count: clusters.length,
+            filters: args
+          }, null, 2)
+        }
+      ]
+    };
+  }
+
+  private async getFailureLogs(args: any): Promise<CallToolResult> {
+    const limit = args?.limit || 100;
+    const timezone = optionalTimeZone(args);
+    const slots = ([['hour', 'hourOfDay', 24], ['weekday', 'dayOfWeek', 7]] as const)
+      .map(([binning, field, count]) => ({ binning, value: optionalNumber(args, field), field, count }))
+      .filter(slot => slot.value !== undefined);
+    slots.forEach(({ value, field, count }) => {
+      if (!Number.isInteger(value) || value! < 0 || value! >= count) {
+        throw new Error(`${field} must be an integer from 0 to ${count - 1}`);
+      }
+    });
+
+    const query = {
+      skillName: args?.skillName,
+      errorCode: args?.errorCode,
+      sessionId: args?.sessionId,
+      tenantId: optionalString(args, 'tenantId'),
+      since: optionalDate(args, 'since'),
+      until: optionalDate(args, 'until')
+    };
+    // Local time slots cannot be expressed in SQL, so they filter the matching logs before the limit
+    const inSlots = slots.length === 0
+      ? undefined
+      : this.store.queryLogs(query)
+        .filter(log => slots.every(({ binning, value }) => localSlot(log.timestamp, timezone, binning) === value));
+    const logs = inSlots ? inSlots.slice(0, limit) : this.store.queryLogs({ ...query, limit });
+    const total = inSlots ? inSlots.length : this.store.countLogs(query);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            data: logs.map(encodeFailureLog),
+            count: logs.length,
+            total,
+            filters: args
+          }, null, 2)
+        }
+      ]
+    };
+  }
+
+  private async analyzeTrends(args?: Record<string, unknown>): Promise<CallToolResult> {
+    const timeRange = optionalString(args, 'timeRange') ?? DEFAULT_TREND_RANGE;
+    if (!isTrendTimeRange(timeRange)) {
+      throw new Error(`timeRange must be one of ${Object.keys(TREND_TIME_RANGES).join(', ')}`);
+    }
+    const tenantId = optionalString(args, 'tenantId');
+    const asOf = optionalDate(args, 'asOf') ?? new Date();
+
+    const window = trendWindow(timeRange, asOf);
+    const clusters = scopeClustersToTenant(this.store.queryClusters(), tenantId, this.store.earliestLogTimestamp());
+    const logs = this.store.queryLogs({ since: window.previousStart, until: window.end, tenantId });
+    const analysis = analyzeTrendWindow(logs, clusters, this.ruleSet.taxonomy, timeRange, asOf, this.store.earliestLogTimestamp());
+
+    const active = new Set(analysis.clusters.map(trend => trend.clusterId));
+    const severityOf = new Map(clusters.map(c => [c.id, c.severity]));
+    const trends = {
+      overview: {
+        totalClusters: analysis.clusters.length,
+        increasingTrends: analysis.clusters.filter(c => c.trend === 'increasing').length,
+        decreasingTrends: analysis.clusters.filter(c => c.trend === 'decreasing').length,
+        stableTrends: analysis.clusters.filter(c => c.trend === 'stable').length
+      },
+      byRootCause: Object.fromEntries(analysis.rootCauses.map(series => [series.key, series.current])),
+      bySeverity: analysis.clusters.reduce((acc, trend) => {
+        const severity = severityOf.get(trend.clusterId)!;
+        acc[severity] = (acc[severity] || 0) + 1;
+        return acc;
+      }, {} as Record<string, number>)
+    };
+
+    // Insights are only reported when a provider wrote them from the data above
+    const windowClusters = clusters.filter(c => active.has(c.id));
+    const generated = await this.narrator?.trendInsights({
+      timeRange,
+      totalClusters: windowClusters.length,
+      criticalClusters: windowClusters.filter(c => c.severity === 'critical').length,
+      regressedClusters: windowClusters.filter(c => c.lifecycle.status === 'regressed').length,
+      byRootCause: trends.byRootCause,
+      risingClusters: analysis.clusters.filter(c => c.trend === 'increasing').map(c => c.name),
+      topClusters: analysis.clusters.slice(0, 5).map(c => `${c.name} (${c.current})`)
+    });
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            data: {
+              ...encodeTrendAnalysis(analysis),
+              ...trends,
+              aiInsights: generated?.insights ?? [],
+              aiInsightsGeneratedBy: generated?.generatedBy
+            },
+            generatedAt: new Date().toISOString()
+          }, null, 2)
+        }
+      ]
+    };
+  }
+
+  private async getAnomalies(args?: Record<string, unknown>): Promise<CallToolResult> {
+    const timeRange = optionalString(args, 'timeRange') ?? DEFAULT_TREND_RANGE;
+    if (!isTrendTimeRange(timeRange)) {
+      throw new Error(`timeRange must be one of ${Object.keys(TREND_TIME_RANGES).join(', ')}`);
+    }
+    const scope = optionalString(args, 'scope') ?? 'all';
+    if (scope !== 'skill' && scope !== 'cluster' && scope !== 'all') {
+      throw new Error('scope must be one of skill, cluster, all');
+    }
+    const threshold = optionalNumber(args, 'threshold');
+
+    const anomalies = this.findAnomalies(
+      timeRange,
+      optionalDate(args, 'asOf') ?? new Date(),
+      scope === 'all' ? ['skill', 'cluster'] : [scope],
+      threshold
+    );
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            data: anomalies.map(encodeAnomalyEvent),
+            count: anomalies.length,
+            filters: { timeRange, scope, threshold },
+            generatedAt: new Date().toISOString()
+          }, null, 2)
+        }
+      ]
+    };
+  }
+
+  private findAnomalies(
+    range: TrendTimeRange,
+    asOf: Date,
+    scopes: AnomalyEvent['scope'][],
+    threshold?: number
+  ): AnomalyEvent[] {
+    const logs = this.store.queryLogs({ since: anomalyLookbackStart(range, asOf), until: asOf });
+    return detectAnomalies(
+      logs,
+      this.store.queryClusters(),
+      { range, asOf, historyStart: this.store.earliestLogTimestamp(), scopes },
+      { threshold }
+    );
+  }
+
+  private async getFailureHeatmap(args?: Record<string, unknown>): Promise<CallToolResult> {
+    const timeRange = optionalString(args, 'timeRange') ?? DEFAULT_TREND_RANGE;
+    if (!isTrendTimeRange(timeRange)) {
+      throw new Error(`timeRange must be one of ${Object.keys(TREND_TIME_RANGES).join(', ')}`);
+    }
+    const binning = optionalString(args, 'binning') ?? 'hour';
+    if (binning !== 'hour' && binning !== 'weekday') {
+      throw new Error('binning must be one of hour, weekday');
+    }
+    const timezone = optionalTimeZone(args);
+    const asOf = optionalDate(args, 'asOf') ?? new Date();
+
+    const window = trendWindow(timeRange, asOf);
+    const heatmap = buildFailureHeatmap(
+      this.store.queryLogs({ since: window.start, until: window.end }),
+      this.store.queryInvocationCounts({ since: window.start, until: window.end }),
+      this.store.queryClusters(),
+      { range: timeRange, asOf, timezone, binning }
+    );
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            data: encodeFailureHeatmap(heatmap),
+            filters: { timeRange, binning, timezone },
+            generatedAt: new Date().toISOString()
+          }, null, 2)
+        }
+      ]
+    };
+  }
+
+  private async getReliability(args?: Record<string, unknown>): Promise<CallToolResult> {
+    const timeRange = optionalString(args, 'timeRange') ?? DEFAULT_TREND_RANGE;
+    if (!isTrendTimeRange(timeRange)) {
+      throw new Error(`timeRange must be one of ${Object.keys(TREND_TIME_RANGES).join(', ')}`);
+    }
+    const slaTarget = optionalNumber(args, 'slaTarget') ?? DEFAULT_SLA_TARGET;
+    if (slaTarget <= 0 || slaTarget > 1) {
+      throw new Error('slaTarget must be between 0 and 1');
+    }
+    const skillName = optionalString(args, 'skillName');
+    const asOf = optionalDate(args, 'asOf') ?? new Date();
+
+    const window = trendWindow(timeRange, asOf);
+    const report = computeReliability(
+      this.store.queryLogs({ since: window.start, until: window.end }),
+      this.store.queryInvocationCounts({ since: window.start, until: window.end }),
+      timeRange,
+      asOf,
+      slaTarget
+    );
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            data: encodeReliabilityReport({
+              ...report,
+              skills: report.skills.filter(skill => !skillName || skill.skillName === skillName)
+            }),
+            filters: { timeRange, skillName, slaTarget },
+            generatedAt: new Date().toISOString()
+          }, null, 2)
+        }
+      ]
+    };
+  }
+
+  private async getSkillInputProfile(args?: Record<string, unknown>): Promise<CallToolResult> {
+    const skillName = optionalString(args, 'skillName');
+    const bySkill = new Map<string, FailureLog[]>();
+    this.store.queryLogs({ skillName }).forEach(log => {
+      if (!bySkill.has(log.skillName)) bySkill.set(log.skillName, []);
+      bySkill.get(log.skillName)!.push(log);
+    });
+    const profiles = [...bySkill]
+      .map(([skill, logs]) => profileSkillInputs(skill, logs))
+      .sort((a, b) => a.skillName.localeCompare(b.skillName));
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            data: profiles,
+            filters: { skillName },
+            generatedAt: new Date().toISOString()
+          }, null, 2)
+        }
+      ]
+    };
+  }
+
+  private async getClusterInputComparison(args?: Record<string, unknown>): Promise<CallToolResult> {
+    const clusterId = requireString(args, 'clusterId');
+    const cluster = this.store.queryClusters().find(c => c.id === clusterId);
+    if (!cluster) {
+      throw new Error(`Cluster ${clusterId} not found`);
+    }
+    const logs = cluster.affectedSkills.flatMap(skillName => this.store.queryLogs({ skillName }));
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            data: compareClusterInputs(cluster, logs),
+            generatedAt: new Date().toISOString()
+          }, null, 2)
+        }
+      ]
+    };
+  }
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
+  private async getSessionTrace(args?: Record<string, unknown>): Promise<CallToolResult> {
+    const sessionId = requireString(args, 'sessionId');
+    const trace = buildSessionTrace(
+      sessionId,
+      this.store.queryLogs({ sessionId }),
+      this.store.queryStageEvents({ sessionId }),
+      this.store.queryClusters()
+    );
 
-      try {
-        switch (name) {
-          case 'get_failure_analytics':
-            return await this.getFailureAnalytics(args);
-          case 'get_clusters':
-            return await this.getClusters(args);
-          case 'get_failure_logs':
-            return await this.getFailureLogs(args);
-          case 'analyze_trends':
-            return await this.analyzeTrends(args);
-          case 'get_recommendations':
-            return await this.getRecommendations(args);
-          default:
-            throw new Error(`Unknown tool: ${name}`);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            data: encodeSessionTrace(trace),
+            generatedAt: new Date().toISOString()
+          }, null, 2)
         }
-      } catch (error) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error: ${error instanceof Error ? error.message : String(error)}`
-            }
-          ],
-          isError: true
-        };
-      }
-    });
+      ]
+    };
   }
 
-  private async getFailureAnalytics(args: any): Promise<CallToolResult> {
-    if (args?.refresh) {
-      this.refreshMockData();
+  private async getTenantHealth(args?: Record<string, unknown>): Promise<CallToolResult> {
+    const timeRange = optionalString(args, 'timeRange') ?? DEFAULT_TREND_RANGE;
+    if (!isTrendTimeRange(timeRange)) {
+      throw new Error(`timeRange must be one of ${Object.keys(TREND_TIME_RANGES).join(', ')}`);
     }
+    const tenantId = optionalString(args, 'tenantId');
+    const asOf = optionalDate(args, 'asOf') ?? new Date();
+
+    const window = trendWindow(timeRange, asOf);
+    const report = computeTenantHealth(
+      this.store.queryLogs({ since: window.start, until: window.end }),
+      this.store.queryClusters(),
+      timeRange,
+      asOf
+    );
 
     return {
       content: [
@@ -180,31 +1364,167 @@ class CopilotFailureMCPServer {
           type: 'text',
           text: JSON.stringify({
             success: true,
-            data: this.mockData,
-            metadata: {
-              generatedAt: new Date().toISOString(),
-              dataSource: 'mock',
-              version: '1.0.0'
-            }
+            data: encodeTenantHealthReport({
+              ...report,
+              tenants: report.tenants.filter(tenant => !tenantId || tenant.tenantId === tenantId)
+            }),
+            filters: { timeRange, tenantId },
+            generatedAt: new Date().toISOString()
+          }, null, 2)
+        }
+      ]
+    };
+  }
+
+  private async getSloScorecard(args?: Record<string, unknown>): Promise<CallToolResult> {
+    const skillName = optionalString(args, 'skillName');
+    const asOf = optionalDate(args, 'asOf') ?? new Date();
+
+    const since = sloLookbackStart(this.sloConfig, asOf);
+    const scorecard = computeSloScorecard(
+      this.store.queryLogs({ since, until: asOf, skillName }),
+      this.store.queryInvocationCounts({ since, until: asOf, skillName }),
+      this.store.queryClusters(),
+      this.sloConfig,
+      asOf,
+      this.options.sloPath ?? null
+    );
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            data: encodeSloScorecard({
+              ...scorecard,
+              skills: scorecard.skills.filter(skill => !skillName || skill.skillName === skillName)
+            }),
+            filters: { skillName },
+            generatedAt: new Date().toISOString()
           }, null, 2)
         }
       ]
     };
   }
 
-  private async getClusters(args: any): Promise<CallToolResult> {
-    let clusters = this.mockData.clusters;
+  private async getJourneyFunnel(args?: Record<string, unknown>): Promise<CallToolResult> {
+    const timeRange = optionalString(args, 'timeRange') ?? DEFAULT_TREND_RANGE;
+    if (!isTrendTimeRange(timeRange)) {
+      throw new Error(`timeRange must be one of ${Object.keys(TREND_TIME_RANGES).join(', ')}`);
+    }
+    const skillName = optionalString(args, 'skillName');
+    const asOf = optionalDate(args, 'asOf') ?? new Date();
+
+    const window = trendWindow(timeRange, asOf);
+    const funnel = computeJourneyFunnel(
+      this.store.queryStageEvents({ since: window.start, until: window.end }),
+      this.store.queryLogs({ since: window.start, until: window.end }),
+      this.store.queryClusters(),
+      timeRange,
+      asOf,
+      skillName
+    );
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            data: encodeJourneyFunnel(funnel),
+            filters: { timeRange, skillName },
+            generatedAt: new Date().toISOString()
+          }, null, 2)
+        }
+      ]
+    };
+  }
 
-    // Apply filters
-    if (args?.severity) {
-      clusters = clusters.filter(c => c.severity === args.severity);
+  /** The stored cost model, or the defaults when none was saved or the stored one no longer validates. */
+  private costModel(): CostModel {
+    try {
+      return mergeCostModel(DEFAULT_COST_MODEL, this.store.getSetting(COST_MODEL_SETTING));
+    } catch (error) {
+      console.error(`Ignoring stored cost model: ${error instanceof Error ? error.message : String(error)}`);
+      return DEFAULT_COST_MODEL;
     }
-    if (args?.resolved !== undefined) {
-      clusters = clusters.filter(c => c.resolved === args.resolved);
+  }
+
+  private async getImpactMatrix(args?: Record<string, unknown>): Promise<CallToolResult> {
+    const clusterId = optionalString(args, 'clusterId');
+    const matrix = computeImpactMatrix(this.store.queryClusters(), this.costModel());
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            data: {
+              ...matrix,
+              clusters: matrix.clusters.filter(impact => !clusterId || impact.clusterId === clusterId)
+            },
+            filters: { clusterId },
+            generatedAt: new Date().toISOString()
+          }, null, 2)
+        }
+      ]
+    };
+  }
+
+  private async updateCostModel(args?: Record<string, unknown>): Promise<CallToolResult> {
+    const costModel = mergeCostModel(this.costModel(), {
+      perFailure: optionalNumber(args, 'perFailure'),
+      perAffectedUser: optionalNumber(args, 'perAffectedUser'),
+      currency: optionalString(args, 'currency')
+    });
+    this.store.saveSetting(COST_MODEL_SETTING, costModel);
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            data: costModel,
+            updatedAt: new Date().toISOString()
+          }, null, 2)
+        }
+      ]
+    };
+  }
+
+  private async getChangeCorrelations(args?: Record<string, unknown>): Promise<CallToolResult> {
+    const skillName = optionalString(args, 'skillName');
+    const clusterId = optionalString(args, 'clusterId');
+    const toleranceHours = optionalNumber(args, 'toleranceHours') ?? 6;
+    if (toleranceHours <= 0) {
+      throw new Error('toleranceHours must be positive');
     }
-    if (args?.minClusterSize) {
-      clusters = clusters.filter(c => c.failureCount >= args.minClusterSize);
+    const historyStart = this.store.earliestLogTimestamp();
+    const until = optionalDate(args, 'until') ?? new Date();
+    const since = optionalDate(args, 'since') ?? historyStart ?? until;
+    if (since.getTime() > until.getTime()) {
+      throw new Error('since must not be after until');
     }
+    if (clusterId) this.findCluster(clusterId);
+
+    // Rate shifts are measured over the whole window; changes are matched within it
+    const clusters = this.store.queryClusters();
+    const changePoints = detectChangePoints(this.store.queryLogs({ since, until }), clusters, { start: since, end: until });
+    const toleranceMs = toleranceHours * HOUR_MS;
+    const skillsOf = new Map(clusters.map(cluster => [cluster.id, cluster.affectedSkills]));
+    const correlations = correlateChanges(
+      this.store.queryChangeEvents({ skillName, since, until }),
+      changePoints,
+      clusters,
+      { toleranceMs, historyStart }
+    )
+      .map(correlation => clusterId
+        ? { ...correlation, clusters: correlation.clusters.filter(cluster => cluster.clusterId === clusterId) }
+        : correlation)
+      .filter(correlation => !clusterId || correlation.clusters.length > 0);
 
     return {
       content: [
@@ -212,25 +1532,48 @@ class CopilotFailureMCPServer {
           type: 'text',
           text: JSON.stringify({
             success: true,
-            data: clusters,
-            count: clusters.length,
-            filters: args
+            data: encodeChangeAnalysis({
+              windowStart: since,
+              windowEnd: until,
+              toleranceMinutes: toleranceHours * 60,
+              changePoints: changePoints.filter(point => point.scope === 'cluster'
+                ? (!clusterId || point.key === clusterId) && (!skillName || skillsOf.get(point.key)!.includes(skillName))
+                : !clusterId && (!skillName || point.key === skillName)),
+              correlations
+            }),
+            count: correlations.length,
+            filters: { skillName, clusterId, toleranceHours },
+            generatedAt: new Date().toISOString()
           }, null, 2)
         }
       ]
     };
   }
 
-  private async getFailureLogs(args: any): Promise<CallToolResult> {
-    let logs = this.mockData.failureLogs;
+  private async getClusterLineage(args?: Record<string, unknown>): Promise<CallToolResult> {
+    const clusterId = requireString(args, 'clusterId');
 
-    // Apply filters
-    if (args?.skillName) {
-      logs = logs.filter(log => log.skillName === args?.skillName);
+    const events = this.store.queryLineage(clusterId);
+    if (events.length === 0 && !this.store.queryClusters().some(c => c.id === clusterId)) {
+      throw new Error(`Cluster ${clusterId} not found`);
     }
-    
-    const limit = args?.limit || 100;
-    logs = logs.slice(0, limit);
+
+    // Walk split/merge/retire edges backwards to collect every cluster this one descends from
+    const ancestors: string[] = [];
+    const visit = (id: string) => {
+      this.store.queryLineage(id).forEach(event => {
+        const parents =
+          event.kind === 'merged' && event.clusterId === id ? event.relatedClusterIds :
+          event.kind !== 'merged' && event.relatedClusterIds.includes(id) ? [event.clusterId] :
+          [];
+        parents.filter(parent => parent !== clusterId && !ancestors.includes(parent)).forEach(parent => {
+          ancestors.push(parent);
+          visit(parent);
+        });
+      });
+    };
+    visit(clusterId);
+    const lineage: ClusterLineage = { clusterId, events, ancestors };
 
     return {
       content: [
@@ -238,53 +1581,286 @@ class CopilotFailureMCPServer {
           type: 'text',
           text: JSON.stringify({
             success: true,
-            data: logs,
-            count: logs.length,
-            total: this.mockData.failureLogs.length,
-            filters: args
+            data: lineage,
+            generatedAt: new Date().toISOString()
           }, null, 2)
         }
       ]
     };
   }
 
-  private async analyzeTrends(args: any): Promise<CallToolResult> {
-    const timeRange = args?.timeRange || '7d';
-    const clusters = this.mockData.clusters;
-    
-    // Generate trend insights
-    const trends = {
-      overview: {
-        totalClusters: clusters.length,
-        increasingTrends: clusters.filter(c => c.trend === 'increasing').length,
-        decreasingTrends: clusters.filter(c => c.trend === 'decreasing').length,
-        stableTrends: clusters.filter(c => c.trend === 'stable').length
+  private findCluster(clusterId: string): ProcessedCluster {
+    const cluster = this.store.queryClusters().find(c => c.id === clusterId);
+    if (!cluster) {
+      throw new Error(`Cluster ${clusterId} not found`);
+    }
+    return cluster;
+  }
+
+  /** Applies a lifecycle update, persists it and records one audit entry per kind of change. */
+  private changeLifecycle(args: ToolArgs, update: ClusterLifecycleUpdate): CallToolResult {
+    const cluster = this.findCluster(requireString(args, 'clusterId'));
+    const actor = requireString(args, 'actor');
+    const reason = optionalString(args, 'reason');
+    if (update.workItemUrl) requireUrl(update.workItemUrl, 'workItemUrl');
+
+    const now = new Date();
+    const lifecycle = applyLifecycleUpdate(cluster.lifecycle, update, now);
+
+    const changes = new Map<ClusterAuditAction, Record<string, unknown>>();
+    (Object.keys(update) as (keyof ClusterLifecycleUpdate)[]).forEach(field => {
+      const from = cluster.lifecycle[field];
+      const to = lifecycle[field];
+      if (from === to) return;
+      const action = LIFECYCLE_FIELD_ACTIONS[field];
+      changes.set(action, { ...changes.get(action), [field]: { from: from ?? null, to: to ?? null } });
+    });
+    if (changes.size === 0) {
+      throw new Error(`No changes to apply to cluster ${cluster.id}`);
+    }
+
+    const audit: ClusterAuditEntry[] = [...changes.entries()].map(([action, details]) => ({
+      clusterId: cluster.id,
+      action,
+      actor,
+      at: now.toISOString(),
+      ...(reason ? { reason } : {}),
+      details
+    }));
+    this.store.saveLifecycle(cluster.id, lifecycle);
+    this.store.recordAudit(audit);
+
+    return this.writeResult({ ...cluster, lifecycle, resolved: lifecycle.status === 'resolved' }, audit);
+  }
+
+  private async updateClusterLifecycle(args?: Record<string, unknown>): Promise<CallToolResult> {
+    const update: ClusterLifecycleUpdate = {};
+    if (args?.status !== undefined) update.status = requireString(args, 'status') as ClusterStatus;
+    (['assignee', 'workItemUrl', 'notes'] as const).forEach(field => {
+      const value = optionalString(args, field);
+      if (value !== undefined) update[field] = value;
+    });
+    return this.changeLifecycle(args, update);
+  }
+
+  private async updateClusterStatus(args?: Record<string, unknown>): Promise<CallToolResult> {
+    return this.changeLifecycle(args, { status: requireString(args, 'status') as ClusterStatus });
+  }
+
+  private async annotateCluster(args?: Record<string, unknown>): Promise<CallToolResult> {
+    const update: ClusterLifecycleUpdate = {};
+    const notes = optionalString(args, 'notes');
+    const workItemUrl = optionalString(args, 'workItemUrl');
+    if (notes !== undefined) update.notes = notes;
+    if (workItemUrl !== undefined) update.workItemUrl = workItemUrl;
+    if (notes === undefined && workItemUrl === undefined) {
+      throw new Error('notes or workItemUrl is required');
+    }
+    return this.changeLifecycle(args, update);
+  }
+
+  private async assignCluster(args?: Record<string, unknown>): Promise<CallToolResult> {
+    const assignee = optionalString(args, 'assignee');
+    if (assignee === undefined) {
+      throw new Error('assignee is required');
+    }
+    return this.changeLifecycle(args, { assignee });
+  }
+
+  private async mergeClusters(args?: Record<string, unknown>): Promise<CallToolResult> {
+    const target = this.findCluster(requireString(args, 'targetClusterId'));
+    const sourceClusterIds = requireStringList(args, 'sourceClusterIds');
+    const actor = requireString(args, 'actor');
+    const reason = optionalString(args, 'reason');
+    if (sourceClusterIds.includes(target.id)) {
+      throw new Error('sourceClusterIds must not include the target cluster');
+    }
+    const sources = sourceClusterIds.map(id => this.findCluster(id));
+
+    const override: ClusterOverride = {
+      kind: 'merge',
+      targetClusterId: target.id,
+      sourceClusterIds,
+      evaluationIds: sources.flatMap(source => source.failureLogs.map(log => log.evaluationId))
+    };
+    const snapshotId = await this.saveOverride(override);
+    this.store.recordLineage(snapshotId, [
+      { kind: 'merged', clusterId: target.id, relatedClusterIds: sourceClusterIds },
+      ...sourceClusterIds.map(id => ({ kind: 'retired' as const, clusterId: id, relatedClusterIds: [target.id] }))
+    ]);
+
+    const at = new Date().toISOString();
+    const audit: ClusterAuditEntry[] = [
+      {
+        clusterId: target.id,
+        action: 'merged',
+        actor,
+        at,
+        ...(reason ? { reason } : {}),
+        details: {
+          sourceClusterIds,
+          failuresAdded: sources.reduce((sum, source) => sum + source.failureCount, 0)
+        }
       },
-      byRootCause: clusters.reduce((acc, cluster) => {
-        const category = cluster.rootCause.category;
-        acc[category] = (acc[category] || 0) + cluster.failureCount;
-        return acc;
-      }, {} as Record<string, number>),
-      bySeverity: clusters.reduce((acc, cluster) => {
-        acc[cluster.severity] = (acc[cluster.severity] || 0) + 1;
-        return acc;
-      }, {} as Record<string, number>),
-      timeRange,
-      aiInsights: [
-        "Context-related failures are the primary driver of incidents",
-        "Timeout issues have increased 23% over the analysis period", 
-        "GroupManagement skill shows highest failure rate",
-        "Weekend failure patterns suggest automated process issues"
+      ...sources.map(source => ({
+        clusterId: source.id,
+        action: 'merged' as const,
+        actor,
+        at,
+        ...(reason ? { reason } : {}),
+        details: { mergedInto: target.id, failureCount: source.failureCount }
+      }))
+    ];
+    this.store.recordAudit(audit);
+
+    return this.writeResult(this.findCluster(target.id), audit);
+  }
+
+  private async splitCluster(args?: Record<string, unknown>): Promise<CallToolResult> {
+    const cluster = this.findCluster(requireString(args, 'clusterId'));
+    const evaluationIds = requireStringList(args, 'evaluationIds');
+    const name = optionalString(args, 'name');
+    const actor = requireString(args, 'actor');
+    const reason = optionalString(args, 'reason');
+
+    const members = new Set(cluster.failureLogs.map(log => log.evaluationId));
+    const unknown = evaluationIds.filter(id => !members.has(id));
+    if (unknown.length > 0) {
+      throw new Error(`Not members of ${cluster.id}: ${unknown.join(', ')}`);
+    }
+    if (evaluationIds.length >= members.size) {
+      throw new Error('A split must leave at least one failure in the original cluster');
+    }
+
+    // Never reuse an ID that has triage state or history attached
+    let newClusterId = `${cluster.id}_split_1`;
+    for (let suffix = 2; this.store.getLifecycle(newClusterId) || this.store.queryLineage(newClusterId).length; suffix++) {
+      newClusterId = `${cluster.id}_split_${suffix}`;
+    }
+
+    const now = new Date();
+    const override: ClusterOverride = { kind: 'split', clusterId: cluster.id, newClusterId, evaluationIds, ...(name ? { name } : {}) };
+    this.store.saveLifecycle(newClusterId, createLifecycle(now));
+    const snapshotId = await this.saveOverride(override);
+    this.store.recordLineage(snapshotId, [{ kind: 'split', clusterId: cluster.id, relatedClusterIds: [newClusterId] }]);
+
+    const audit: ClusterAuditEntry[] = [
+      {
+        clusterId: cluster.id,
+        action: 'split',
+        actor,
+        at: now.toISOString(),
+        ...(reason ? { reason } : {}),
+        details: { newClusterId, evaluationIds }
+      },
+      {
+        clusterId: newClusterId,
+        action: 'split',
+        actor,
+        at: now.toISOString(),
+        ...(reason ? { reason } : {}),
+        details: { splitFrom: cluster.id, evaluationIds }
+      }
+    ];
+    this.store.recordAudit(audit);
+
+    return this.writeResult(this.findCluster(cluster.id), audit, { createdCluster: encodeCluster(this.findCluster(newClusterId)) });
+  }
+
+  /** Persists a merge/split and applies it to the current clusters as a new snapshot. */
+  private async saveOverride(override: ClusterOverride): Promise<number> {
+    this.store.saveOverride(override);
+    const clusters = applyClusterOverrides(
+      this.store.queryClusters(), [override], this.ruleSet, this.store.earliestLogTimestamp()
+    );
+    return this.store.saveClusterSnapshot(await this.describeClusters(clusters));
+  }
+
+  /** Replaces heuristic names, summaries and recommendations with generated ones when a provider is configured. */
+  private async describeClusters(clusters: ProcessedCluster[], taxonomy = this.ruleSet.taxonomy): Promise<ProcessedCluster[]> {
+    const narrator = this.narrator;
+    if (!narrator) return clusters;
+
+    // Names given when splitting are the user's choice, not something to regenerate
+    const namedSplits = new Set(
+      this.store.listOverrides().flatMap(override => (override.kind === 'split' && override.name ? [override.newClusterId] : []))
+    );
+    const described: ProcessedCluster[] = [];
+    for (const cluster of clusters) {
+      described.push(await narrator.describeCluster(cluster, taxonomy, namedSplits.has(cluster.id)));
+    }
+    return described;
+  }
+
+  private async getClusterAudit(args?: Record<string, unknown>): Promise<CallToolResult> {
+    const clusterId = requireString(args, 'clusterId');
+    const audit = this.store.queryAudit(clusterId);
+    if (audit.length === 0) {
+      this.findCluster(clusterId);
+    }
+
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            data: audit,
+            count: audit.length,
+            generatedAt: new Date().toISOString()
+          }, null, 2)
+        }
+      ]
+    };
+  }
+
+  private async getRootCauseRules(): Promise<CallToolResult> {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            data: this.ruleSet,
+            source: this.options.rulesPath ?? 'built-in',
+            loadedAt: this.rulesLoadedAt.toISOString(),
+            generatedAt: new Date().toISOString()
+          }, null, 2)
+        }
+      ]
+    };
+  }
+
+  private async getRootCauseTaxonomy(): Promise<CallToolResult> {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            data: this.ruleSet.taxonomy,
+            source: this.options.rulesPath ?? 'built-in',
+            generatedAt: new Date().toISOString()
+          }, null, 2)
+        }
       ]
     };
+  }
 
+  private writeResult(
+    cluster: ProcessedCluster,
+    audit: ClusterAuditEntry[],
+    extra: Record<string, unknown> = {}
+  ): CallToolResult {
     return {
       content: [
         {
           type: 'text',
           text: JSON.stringify({
             success: true,
-            data: trends,
+            data: encodeCluster(cluster),
+            audit,
+            ...extra,
             generatedAt: new Date().toISOString()
           }, null, 2)
         }
@@ -297,7 +1873,7 @@ class CopilotFailureMCPServer {
     let recommendations;
 
     if (clusterId) {
-      const cluster = this.mockData.clusters.find(c => c.id === clusterId);
+      const cluster = this.store.queryClusters().find(c => c.id === clusterId);
       if (!cluster) {
         throw new Error(`Cluster ${clusterId} not found`);
       }
@@ -307,16 +1883,16 @@ class CopilotFailureMCPServer {
         clusterName: cluster.name,
         priority: cluster.severity,
         aiRecommendations: cluster.recommendations,
+        generatedBy: cluster.generatedBy,
         enhancedAnalysis: {
           confidenceScore: cluster.rootCause.confidence,
-          impactAssessment: cluster.severity === 'critical' ? 'High business impact' : 'Moderate impact',
-          effortEstimate: '2-4 hours for implementation',
-          dependencies: ['Microsoft Graph API', 'Azure AD tenant configuration']
+          impactAssessment: cluster.severity === 'critical' ? 'High business impact' : 'Moderate impact'
         }
       };
     } else {
       // Global recommendations
-      const criticalClusters = this.mockData.clusters.filter(c => c.severity === 'critical');
+      const clusters = this.store.queryClusters();
+      const criticalClusters = clusters.filter(c => c.severity === 'critical');
       recommendations = {
         global: true,
         topPriorities: criticalClusters.slice(0, 3).map(cluster => ({
@@ -325,12 +1901,7 @@ class CopilotFailureMCPServer {
           recommendation: cluster.recommendations[0],
           impact: 'Critical'
         })),
-        systemwideInsights: [
-          'Implement comprehensive input validation across all skills',
-          'Enhance error handling and retry mechanisms',
-          'Add proactive monitoring for context resolution failures',
-          'Review and update service principal permissions quarterly'
-        ]
+        systemwideInsights: sharedRecommendations(clusters)
       };
     }
 
@@ -348,14 +1919,137 @@ class CopilotFailureMCPServer {
     };
   }
 
-  async run() {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+  private health() {
+    return {
+      version: '1.0.0',
+      dataSource: this.logSource.name,
+      failureLogs: this.store.countLogs(),
+      rootCauseRules: this.options.rulesPath ?? 'built-in',
+      slos: this.options.sloPath ?? 'built-in',
+      invocations: this.options.invocations?.path ?? null,
+      stageEvents: this.options.stageEvents?.path ?? null,
+      changeEvents: this.options.changeEvents?.path ?? null,
+      llmProvider: this.narrator?.providerName ?? 'none',
+      lastUpdated: this.store.latestSnapshot()?.createdAt.toISOString() ?? null,
+      uptimeSeconds: Math.round((Date.now() - this.startedAt.getTime()) / 1000)
+    };
+  }
+
+  /**
+   * Loads the configured rule file and re-classifies clusters whenever it changes. An edit only takes
+   * effect once clusters have been re-classified with it; an invalid edit or a failed re-classification
+   * is reported and the previous rules stay active. An invalid file at startup is fatal.
+   */
+  private async loadRules() {
+    if (!this.options.rulesPath) return;
+    const path = this.options.rulesPath;
+    this.ruleSet = await loadRuleFile(path);
+    this.rulesLoadedAt = new Date();
+    console.error(`Loaded ${this.ruleSet.rules.length} root-cause rules from ${path}`);
+
+    this.stopWatchingRules = watchRuleFile(path, async () => {
+      let ruleSet: RuleSet;
+      try {
+        ruleSet = await loadRuleFile(path);
+      } catch (error) {
+        console.error(`Keeping previous root-cause rules, ${path} is invalid:`, error instanceof Error ? error.message : error);
+        return;
+      }
+      try {
+        await this.refreshData(ruleSet);
+      } catch (error) {
+        console.error(`Keeping previous root-cause rules, re-classifying with ${path} failed:`, error instanceof Error ? error.message : error);
+        return;
+      }
+      this.ruleSet = ruleSet;
+      this.rulesLoadedAt = new Date();
+      console.error(`Reloaded ${ruleSet.rules.length} root-cause rules from ${path}`);
+    });
+  }
+
+  /** Loads the configured SLO file and keeps it current; like the rule file, an invalid edit keeps the previous objectives. */
+  private async loadSlos() {
+    if (!this.options.sloPath) return;
+    const path = this.options.sloPath;
+    this.sloConfig = await loadSloFile(path);
+    console.error(`Loaded SLOs for ${Object.keys(this.sloConfig.skills).length} skills from ${path}`);
+
+    this.stopWatchingSlos = watchRuleFile(path, async () => {
+      try {
+        this.sloConfig = await loadSloFile(path);
+        console.error(`Reloaded SLOs for ${Object.keys(this.sloConfig.skills).length} skills from ${path}`);
+      } catch (error) {
+        console.error(`Keeping previous SLOs, ${path} is invalid:`, error instanceof Error ? error.message : error);
+      }
+    });
+  }
+
+  /** Loads rules, SLOs and the log source into the store; `run` does this before serving. */
+  async start() {
+    await this.loadRules();
+    await this.loadSlos();
+    const provider = createLlmProvider(this.options.llm);
+    if (provider) {
+      this.narrator = await NarrativeGenerator.create(provider, this.options.llm.promptsDir, this.store);
+      console.error(`Generating cluster text with ${this.narrator.providerName} (prompts: ${this.options.llm.promptsDir})`);
+    }
+    await this.refreshData();
+    console.error(`Store holds ${this.store.countLogs()} failure logs after loading ${this.logSource.name}`);
+  }
+
+  /** Serves the tools to one client over `transport`. */
+  async connect(transport: Transport) {
+    await this.createServer().connect(transport);
+  }
+
+  async run(transport: ServerConfig['transport'], http: ServerConfig['http']) {
+    await this.start();
+
+    if (transport === 'http') {
+      this.httpServer = await startHttpServer(() => this.createServer(), http, () => this.health());
+      console.error(`Copilot Failure MCP Server listening on ${this.httpServer.url} (CORS: ${http.corsOrigins.join(', ')})`);
+      return;
+    }
+
+    await this.connect(new StdioServerTransport());
     console.error('Copilot Failure MCP Server running on stdio');
   }
+
+  /** Stops accepting requests, closes open transports and flushes the store. */
+  async shutdown() {
+    this.stopWatchingRules?.();
+    this.stopWatchingSlos?.();
+    await this.httpServer?.close();
+    await Promise.all([...this.servers].map(server => server.close()));
+    this.store.close();
+  }
 }
 
 if (import.meta.url === `file://${process.argv[1]}`) {
-  const server = new CopilotFailureMCPServer();
-  server.run().catch(console.error);
+  const config = parseServerConfig();
+  const store = new FailureStore(config.store.path, {
+    maxAgeDays: config.store.retentionDays,
+    maxSnapshots: config.store.maxSnapshots
+  });
+  const server = new CopilotFailureMCPServer(createLogSource(config), store, config);
+
+  let stopping = false;
+  const stop = (signal: string) => {
+    if (stopping) return;
+    stopping = true;
+    console.error(`Received ${signal}, shutting down`);
+    server.shutdown()
+      .then(() => process.exit(0))
+      .catch(error => {
+        console.error(error);
+        process.exit(1);
+      });
+  };
+  process.on('SIGINT', () => stop('SIGINT'));
+  process.on('SIGTERM', () => stop('SIGTERM'));
+
+  server.run(config.transport, config.http).catch(error => {
+    console.error(error);
+    process.exit(1);
+  });
 } 
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { ServerConfig } from './config.js';
+import { LogSourceIssue, loadRecordFile, validateInvocationCount } from './logSources.js';
+import { InvocationCount } from './types.js';
+
+export interface InvocationCountResult {
+  invocations: InvocationCount[];
+  issues: LogSourceIssue[];
+}
+
+/**
+ * Reads invocation counts, one bucket per JSONL line or CSV row, with the fields `skillName`,
+ * `timestamp` (bucket start), `invocations` and optionally `bucketMinutes`.
+ */
+export const loadInvocationCounts = async (
+  source: NonNullable<ServerConfig['invocations']>
+): Promise<InvocationCountResult> => {
+  const { records: invocations, issues } = await loadRecordFile(source, validateInvocationCount);
+  return { invocations, issues };
+};
@@ -0,0 +1,140 @@
+import { DropOffCause, FailureLog, JourneyFunnel, JourneyStage, ProcessedCluster, StageEvent, TrendTimeRange } from './types.js';
+import { trendWindow } from '../../shared/timeSeries.js';
+import { round } from '../../shared/util.js';
+
+export const JOURNEY_STAGES: { stage: JourneyStage; label: string }[] = [
+  { stage: 'invoked', label: 'Copilot Invoked' },
+  { stage: 'intent', label: 'Intent Recognized' },
+  { stage: 'context', label: 'Context Retrieved' },
+  { stage: 'skill', label: 'Skill Executed' },
+  { stage: 'response', label: 'Response Generated' },
+  { stage: 'satisfied', label: 'User Satisfied' }
+];
+
+const STAGE_INDEX = new Map(JOURNEY_STAGES.map(({ stage }, index) => [stage, index]));
+
+export const isJourneyStage = (value: unknown): value is JourneyStage =>
+  typeof value === 'string' && STAGE_INDEX.has(value as JourneyStage);
+
+interface SessionPath {
+  /** Index of the furthest stage reached; -1 when the session failed before completing any. */
+  furthest: number;
+  failures: StageEvent[];
+  logs: FailureLog[];
+  skills: Set<string>;
+  users: Set<string>;
+}
+
+/**
+ * Why a session stopped at `stage`: the cluster of the failure behind its failed event, else of its
+ * newest clustered failure log, else the error code, else an unclassified failure. Sessions with no
+ * recorded failure were abandoned.
+ */
+const dropOffCause = (
+  path: SessionPath,
+  stage: number,
+  clusterOf: Map<string, ProcessedCluster>
+): Pick<DropOffCause, 'clusterId' | 'label'> => {
+  const failure = path.failures.find(event => STAGE_INDEX.get(event.stage) === stage) ?? path.failures[path.failures.length - 1];
+  const newestFirst = [...path.logs].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  const cluster = (failure?.evaluationId && clusterOf.get(failure.evaluationId)) ||
+    newestFirst.map(log => clusterOf.get(log.evaluationId)).find(Boolean);
+  if (cluster) return { clusterId: cluster.id, label: cluster.name };
+
+  const errorCode = failure?.errorCode ?? newestFirst.find(log => log.errorCode)?.errorCode;
+  if (errorCode) return { label: errorCode };
+  return { label: failure || path.logs.length > 0 ? 'Unclassified failure' : 'Abandoned' };
+};
+
+/**
+ * Funnel of the sessions with stage events in the window of `range` ending at `asOf`. A session counts
+ * at every stage up to the furthest it reached; one that failed at a stage reached the stage before.
+ * Drop-offs at each stage are attributed through the session's failures to the clusters they belong to.
+ */
+export const computeJourneyFunnel = (
+  events: StageEvent[],
+  logs: FailureLog[],
+  clusters: ProcessedCluster[],
+  range: TrendTimeRange,
+  asOf: Date,
+  skillName?: string
+): JourneyFunnel => {
+  const window = trendWindow(range, asOf);
+  const start = window.start.getTime();
+  const end = window.end.getTime();
+
+  const paths = new Map<string, SessionPath>();
+  const pathOf = (sessionId: string) => {
+    if (!paths.has(sessionId)) {
+      paths.set(sessionId, { furthest: -1, failures: [], logs: [], skills: new Set(), users: new Set() });
+    }
+    return paths.get(sessionId)!;
+  };
+
+  [...events]
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    .forEach(event => {
+      const time = event.timestamp.getTime();
+      if (time < start || time >= end) return;
+      const path = pathOf(event.sessionId);
+      const index = STAGE_INDEX.get(event.stage)!;
+      if (event.outcome === 'reached') {
+        path.furthest = Math.max(path.furthest, index);
+      } else {
+        path.furthest = Math.max(path.furthest, index - 1);
+        path.failures.push(event);
+      }
+      if (event.skillName) path.skills.add(event.skillName);
+      if (event.userId) path.users.add(event.userId);
+    });
+
+  logs.forEach(log => {
+    const path = paths.get(log.sessionId);
+    if (!path) return;
+    path.logs.push(log);
+    path.skills.add(log.skillName);
+    if (log.userId) path.users.add(log.userId);
+  });
+
+  const sessions = [...paths.values()].filter(path => !skillName || path.skills.has(skillName));
+  const clusterOf = new Map(clusters.flatMap(cluster => cluster.failureLogs.map(log => [log.evaluationId, cluster] as const)));
+
+  let previous = sessions.length;
+  const stages = JOURNEY_STAGES.map(({ stage, label }, index) => {
+    const reached = sessions.filter(path => path.furthest >= index).length;
+    const causes = new Map<string, DropOffCause>();
+    sessions
+      .filter(path => path.furthest === index - 1)
+      .forEach(path => {
+        const cause = dropOffCause(path, index, clusterOf);
+        const key = cause.clusterId ?? `label:${cause.label}`;
+        const entry = causes.get(key) ?? { ...cause, sessions: 0, share: 0 };
+        entry.sessions++;
+        causes.set(key, entry);
+      });
+
+    const dropped = previous - reached;
+    const funnelStage = {
+      stage,
+      label,
+      sessions: reached,
+      rate: sessions.length > 0 ? round(reached / sessions.length) : 0,
+      conversion: previous > 0 ? round(reached / previous) : 0,
+      dropped,
+      causes: [...causes.values()]
+        .map(cause => ({ ...cause, share: round(cause.sessions / dropped) }))
+        .sort((a, b) => b.sessions - a.sessions)
+    };
+    previous = reached;
+    return funnelStage;
+  });
+
+  return {
+    timeRange: range,
+    windowStart: window.start,
+    windowEnd: window.end,
+    sessions: sessions.length,
+    users: new Set(sessions.flatMap(path => [...path.users])).size,
+    stages
+  };
+};
@@ -0,0 +1,116 @@
+import { ServerConfig } from './config.js';
+
+export type LlmTask = 'cluster-narrative' | 'trend-insights';
+
+export interface LlmRequest {
+  task: LlmTask;
+  /** Prompt rendered from the task's template file. */
+  prompt: string;
+  /** Values the prompt was rendered from, for providers that do not read prose. */
+  context: Record<string, unknown>;
+}
+
+/** Generates text for a prompt. Responses to both tasks are JSON objects; see the templates in prompts/. */
+export interface LlmProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: LlmRequest): Promise<string>;
+}
+
+const asStrings = (value: unknown): string[] => (Array.isArray(value) ? value.map(String) : []);
+
+/**
+ * Deterministic offline provider: answers from the structured context instead of a model, so output
+ * depends only on cluster contents. Used in tests, demos and air-gapped deployments.
+ */
+export class StubLlmProvider implements LlmProvider {
+  readonly name = 'stub';
+  readonly model = 'stub-v1';
+
+  async complete({ task, context }: LlmRequest): Promise<string> {
+    if (task === 'trend-insights') {
+      const rising = asStrings(context.risingClusters);
+      const byRootCause = Object.entries((context.byRootCause ?? {}) as Record<string, number>).sort(([, a], [, b]) => b - a);
+      const insights = [
+        byRootCause[0] && `${byRootCause[0][0]} accounts for the most failures (${byRootCause[0][1]}) in the ${context.timeRange} window`,
+        rising.length > 0 && `${rising.length} cluster(s) are increasing: ${rising.slice(0, 3).join(', ')}`,
+        `${context.criticalClusters} critical and ${context.regressedClusters} regressed cluster(s) need attention`
+      ].filter((line): line is string => Boolean(line));
+      return JSON.stringify({ insights });
+    }
+
+    const skill = String(context.skill);
+    const label = String(context.categoryLabel);
+    const parameters = asStrings(context.parameters);
+    const missing = asStrings(context.contextMissing);
+    const recommendations = [
+      ...asStrings(context.baselineRecommendations).slice(0, 2),
+      ...(missing.length > 0 ? [`Ensure ${missing.join(', ')} is resolved before invoking ${skill}`] : []),
+      ...(parameters.length > 0 ? [`Check whether failures concentrate on specific ${parameters[0].split(' ')[0]} values`] : [])
+    ];
+    return JSON.stringify({
+      name: `${skill} - ${label}`,
+      summary: `${skill} fails with "${context.template}" (${label.toLowerCase()}, ${context.severity} severity)`,
+      recommendations
+    });
+  }
+}
+
+export interface OpenAiProviderOptions {
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  timeoutMs?: number;
+}
+
+/** Calls an OpenAI-compatible chat completions endpoint (OpenAI, Azure OpenAI, vLLM, Ollama). */
+export class OpenAiLlmProvider implements LlmProvider {
+  readonly name = 'openai';
+  readonly model: string;
+
+  constructor(private readonly options: OpenAiProviderOptions) {
+    this.model = options.model;
+  }
+
+  async complete({ prompt }: LlmRequest): Promise<string> {
+    const response = await fetch(`${this.options.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.options.apiKey}`
+      },
+      body: JSON.stringify({
+        model: this.model,
+        temperature: 0,
+        response_format: { type: 'json_object' },
+        messages: [{ role: 'user', content: prompt }]
+      }),
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? 30_000)
+    });
+    if (!response.ok) {
+      throw new Error(`LLM request failed: ${response.status} ${await response.text()}`);
+    }
+
+    const body = await response.json() as { choices?: { message?: { content?: string } }[] };
+    const content = body.choices?.[0]?.message?.content;
+    if (!content) {
+      throw new Error('LLM response had no message content');
+    }
+    return content;
+  }
+}
+
+/** Returns the configured provider, or null when generation is disabled. */
+export const createLlmProvider = (config: ServerConfig['llm']): LlmProvider | null => {
+  switch (config.provider) {
+    case 'none':
+      return null;
+    case 'stub':
+      return new StubLlmProvider();
+    case 'openai':
+      if (!config.apiKey) {
+        throw new Error('COPILOT_LLM_API_KEY is required for the openai provider');
+      }
+      return new OpenAiLlmProvider({ baseUrl: config.baseUrl, apiKey: config.apiKey, model: config.model ?? 'gpt-4o-mini' });
+  }
+};
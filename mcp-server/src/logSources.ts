@@ -0,0 +1,363 @@
+import { readFile } from 'fs/promises';
+import { LogFormat, ServerConfig } from './config.js';
+import { generateMockData, generateMockInvocations, generateMockStageEvents } from './mockDataGenerator.js';
+import { JOURNEY_STAGES, isJourneyStage } from './journey.js';
+import { FailureLog, InvocationCount, StageEvent } from './types.js';
+import { isPlainObject } from '../../shared/util.js';
+
+export interface LogSourceIssue {
+  line: number;
+  message: string;
+}
+
+export interface LogSourceResult {
+  logs: FailureLog[];
+  /** Invocation counts the source carries alongside its failures, if any. */
+  invocations?: InvocationCount[];
+  /** Session stage events the source carries alongside its failures, if any. */
+  stageEvents?: StageEvent[];
+  issues: LogSourceIssue[];
+}
+
+/** Records of one type read from a JSONL or CSV file, and the lines that did not validate. */
+export interface RecordFileResult<T> {
+  records: T[];
+  issues: LogSourceIssue[];
+}
+
+export interface LogSource {
+  /** Identifier reported as `metadata.dataSource`, e.g. `mock` or `jsonl:/var/logs/failures.jsonl`. */
+  readonly name: string;
+  load(): Promise<LogSourceResult>;
+}
+
+const REQUIRED_STRING_FIELDS = ['evaluationId', 'sessionId', 'prompt', 'skillName', 'exception'] as const;
+
+/** Revives a record's `timestamp`, given as an ISO string or epoch milliseconds, into a `Date`. */
+export const parseTimestamp = (raw: unknown): Date => {
+  if (typeof raw !== 'string' && typeof raw !== 'number') {
+    throw new Error('"timestamp" must be an ISO string or epoch milliseconds');
+  }
+  const timestamp = new Date(raw);
+  if (isNaN(timestamp.getTime())) {
+    throw new Error(`"timestamp" is not a valid date: ${raw}`);
+  }
+  return timestamp;
+};
+
+/**
+ * Checks a decoded record against the `FailureLog` shape and revives `timestamp` into a `Date`.
+ * Throws with a field-level message when the record does not conform.
+ */
+export const validateFailureLog = (raw: unknown): FailureLog => {
+  if (!isPlainObject(raw)) {
+    throw new Error('record must be an object');
+  }
+
+  for (const field of REQUIRED_STRING_FIELDS) {
+    if (typeof raw[field] !== 'string' || raw[field] === '') {
+      throw new Error(`"${field}" must be a non-empty string`);
+    }
+  }
+
+  if (!isPlainObject(raw.skillInputs)) {
+    throw new Error('"skillInputs" must be an object');
+  }
+
+  const timestamp = parseTimestamp(raw.timestamp);
+
+  for (const field of ['errorCode', 'userId', 'tenantId'] as const) {
+    if (raw[field] !== undefined && raw[field] !== null && typeof raw[field] !== 'string') {
+      throw new Error(`"${field}" must be a string when present`);
+    }
+  }
+
+  if (raw.contextMissing !== undefined && raw.contextMissing !== null) {
+    if (!Array.isArray(raw.contextMissing) || raw.contextMissing.some(entry => typeof entry !== 'string')) {
+      throw new Error('"contextMissing" must be an array of strings when present');
+    }
+  }
+
+  // Sources that predate the tenantId field carry it among the skill inputs
+  const tenantId = (raw.tenantId as string | null) ??
+    (typeof raw.skillInputs.tenantId === 'string' && raw.skillInputs.tenantId !== '' ? raw.skillInputs.tenantId : undefined);
+
+  return {
+    evaluationId: raw.evaluationId as string,
+    sessionId: raw.sessionId as string,
+    prompt: raw.prompt as string,
+    skillName: raw.skillName as string,
+    skillInputs: raw.skillInputs,
+    exception: raw.exception as string,
+    timestamp,
+    errorCode: (raw.errorCode as string | null) ?? undefined,
+    userId: (raw.userId as string | null) ?? undefined,
+    tenantId,
+    contextMissing: (raw.contextMissing as string[] | null) ?? undefined
+  };
+};
+
+/**
+ * Checks a decoded record against the `InvocationCount` shape: `skillName`, the bucket's start as
+ * `timestamp`, `invocations`, and `bucketMinutes` (default 60).
+ */
+export const validateInvocationCount = (raw: unknown): InvocationCount => {
+  if (!isPlainObject(raw)) {
+    throw new Error('record must be an object');
+  }
+  if (typeof raw.skillName !== 'string' || raw.skillName === '') {
+    throw new Error('"skillName" must be a non-empty string');
+  }
+
+  const bucketStart = parseTimestamp(raw.timestamp);
+
+  // CSV cells arrive as strings
+  const invocations = Number(raw.invocations);
+  if (raw.invocations === undefined || raw.invocations === '' || !Number.isInteger(invocations) || invocations < 0) {
+    throw new Error('"invocations" must be a non-negative integer');
+  }
+  const bucketMinutes = raw.bucketMinutes === undefined ? 60 : Number(raw.bucketMinutes);
+  if (!Number.isInteger(bucketMinutes) || bucketMinutes <= 0) {
+    throw new Error('"bucketMinutes" must be a positive integer when present');
+  }
+
+  return { skillName: raw.skillName, bucketStart, bucketMinutes, invocations };
+};
+
+/**
+ * Checks a decoded record against the `StageEvent` shape: `sessionId`, `stage`, `timestamp`, `outcome`
+ * (default `reached`) and optionally `skillName`, `userId`, `evaluationId` and `errorCode`.
+ */
+export const validateStageEvent = (raw: unknown): StageEvent => {
+  if (!isPlainObject(raw)) {
+    throw new Error('record must be an object');
+  }
+  if (typeof raw.sessionId !== 'string' || raw.sessionId === '') {
+    throw new Error('"sessionId" must be a non-empty string');
+  }
+  if (!isJourneyStage(raw.stage)) {
+    throw new Error(`"stage" must be one of ${JOURNEY_STAGES.map(({ stage }) => stage).join(', ')}`);
+  }
+
+  const timestamp = parseTimestamp(raw.timestamp);
+
+  const outcome = raw.outcome ?? 'reached';
+  if (outcome !== 'reached' && outcome !== 'failed') {
+    throw new Error('"outcome" must be one of reached, failed');
+  }
+
+  for (const field of ['skillName', 'userId', 'evaluationId', 'errorCode'] as const) {
+    if (raw[field] !== undefined && raw[field] !== null && typeof raw[field] !== 'string') {
+      throw new Error(`"${field}" must be a string when present`);
+    }
+  }
+
+  return {
+    sessionId: raw.sessionId,
+    stage: raw.stage,
+    outcome,
+    timestamp,
+    skillName: (raw.skillName as string | null) || undefined,
+    userId: (raw.userId as string | null) || undefined,
+    evaluationId: (raw.evaluationId as string | null) || undefined,
+    errorCode: (raw.errorCode as string | null) || undefined
+  };
+};
+
+export const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+export class MockLogSource implements LogSource {
+  readonly name = 'mock';
+
+  async load(): Promise<LogSourceResult> {
+    const logs = generateMockData();
+    return { logs, invocations: generateMockInvocations(logs), stageEvents: generateMockStageEvents(logs), issues: [] };
+  }
+}
+
+type JsonlRecord = { log?: FailureLog; invocation?: InvocationCount; stageEvent?: StageEvent };
+
+/**
+ * Reads newline-delimited JSON (`.jsonl` / `.ndjson`), one `FailureLog` object per line. Lines with
+ * `"type": "invocations"` are invocation counts and lines with `"type": "stage"` session stage events instead.
+ */
+export class JsonlLogSource implements LogSource {
+  readonly name: string;
+
+  constructor(private readonly path: string) {
+    this.name = `jsonl:${path}`;
+  }
+
+  async load(): Promise<LogSourceResult> {
+    const { records, issues } = await loadRecordFile({ path: this.path, format: 'jsonl' }, (record): JsonlRecord => {
+      if (isPlainObject(record) && record.type === 'invocations') return { invocation: validateInvocationCount(record) };
+      if (isPlainObject(record) && record.type === 'stage') return { stageEvent: validateStageEvent(record) };
+      return { log: validateFailureLog(record) };
+    });
+
+    return {
+      logs: records.flatMap(record => record.log ? [record.log] : []),
+      invocations: records.flatMap(record => record.invocation ? [record.invocation] : []),
+      stageEvents: records.flatMap(record => record.stageEvent ? [record.stageEvent] : []),
+      issues
+    };
+  }
+}
+
+/**
+ * Splits CSV text into records, honouring quoted fields with embedded commas, quotes and newlines.
+ * Each record carries the line number it starts on so issues point at the right place in the file.
+ */
+export const parseCsv = (content: string): { line: number; fields: string[] }[] => {
+  const records: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0] !== '') {
+      records.push({ line: recordLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || fields.length > 0) {
+    endRecord();
+  }
+
+  return records;
+};
+
+/**
+ * Validates one record per JSONL line, or per CSV row keyed by the header row, and reports the lines that
+ * do not validate. Empty CSV cells are left out; `parseCell` decodes the others, which default to strings.
+ */
+export const parseRecords = <T>(
+  content: string,
+  format: LogFormat,
+  validate: (raw: unknown) => T,
+  parseCell: (column: string, value: string) => unknown = (_column, value) => value
+): RecordFileResult<T> => {
+  const records: T[] = [];
+  const issues: LogSourceIssue[] = [];
+  const add = (line: number, read: () => unknown) => {
+    try {
+      records.push(validate(read()));
+    } catch (error) {
+      issues.push({ line, message: errorMessage(error) });
+    }
+  };
+
+  if (format === 'jsonl') {
+    content.split(/\r?\n/).forEach((text, index) => {
+      if (text.trim()) add(index + 1, () => JSON.parse(text));
+    });
+    return { records, issues };
+  }
+
+  const [header, ...rows] = parseCsv(content);
+  const columns = header ? header.fields.map(name => name.trim()) : [];
+  rows.forEach(({ line, fields }) => add(line, () => {
+    if (fields.length !== columns.length) {
+      throw new Error(`expected ${columns.length} columns, found ${fields.length}`);
+    }
+    const record: Record<string, unknown> = {};
+    columns.forEach((column, index) => {
+      if (fields[index] !== '') record[column] = parseCell(column, fields[index]);
+    });
+    return record;
+  }));
+  return { records, issues };
+};
+
+/** Reads a JSONL or CSV file of records; see parseRecords. */
+export const loadRecordFile = async <T>(
+  source: { path: string; format: LogFormat },
+  validate: (raw: unknown) => T
+): Promise<RecordFileResult<T>> => parseRecords(await readFile(source.path, 'utf8'), source.format, validate);
+
+const parseJsonCell = (column: string, value: string): unknown => {
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error(`"${column}" column is not valid JSON`);
+  }
+};
+
+const parseFailureLogCell = (column: string, value: string): unknown => {
+  if (column === 'skillInputs') return parseJsonCell(column, value);
+  if (column === 'contextMissing') {
+    return value.startsWith('[') ? parseJsonCell(column, value) : value.split(';').map(entry => entry.trim()).filter(Boolean);
+  }
+  return value;
+};
+
+/**
+ * Reads a CSV export with a header row naming the `FailureLog` fields.
+ * `skillInputs` holds a JSON object; `contextMissing` is either a JSON array or a `;`-separated list.
+ */
+export class CsvLogSource implements LogSource {
+  readonly name: string;
+
+  constructor(private readonly path: string) {
+    this.name = `csv:${path}`;
+  }
+
+  async load(): Promise<LogSourceResult> {
+    const content = await readFile(this.path, 'utf8');
+    const { records: logs, issues } = parseRecords(content, 'csv', raw => {
+      const record = raw as Record<string, unknown>;
+      record.skillInputs ??= {};
+      return validateFailureLog(record);
+    }, parseFailureLogCell);
+    return { logs, issues };
+  }
+}
+
+export const createLogSource = (config: ServerConfig): LogSource => {
+  if (!config.logs) {
+    return new MockLogSource();
+  }
+
+  switch (config.logs.format) {
+    case 'jsonl':
+      return new JsonlLogSource(config.logs.path);
+    case 'csv':
+      return new CsvLogSource(config.logs.path);
+  }
+};
@@ -1,4 +1,20 @@
-import { FailureLog, ProcessedCluster } from './types.js';
+import { FailureLog, InvocationCount, JourneyStage, StageEvent } from './types.js';
+import { JOURNEY_STAGES } from './journey.js';
+import { HOUR_MS, MINUTE_MS } from '../../shared/util.js';
+
+/**
+ * Every mock generator draws from its own PRNG with a fixed seed, so reloading the mock source yields the
+ * same evaluation and session IDs and upserts replace the stored rows instead of adding new ones.
+ */
+const MOCK_SEED = 20240501;
+
+/** mulberry32: a small seeded PRNG returning floats in [0, 1). */
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
 
 export const generateMockData = (): FailureLog[] => {
   const skills = [
@@ -28,217 +44,139 @@ export const generateMockData = (): FailureLog[] => {
     'Concurrent modification conflict'
   ];
 
+  const tenants = ['contoso', 'fabrikam', 'northwind', 'adventure-works', 'tailspin'];
+  // One tenant's misconfiguration produces most of the missing-context failures
+  const misconfiguredTenant = 'fabrikam';
+
   const logs: FailureLog[] = [];
+  const random = seededRandom(MOCK_SEED);
+  // Anchored to the start of today so a reload on the same day reproduces every timestamp
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
   
   for (let i = 0; i < 500; i++) {
-    const timestamp = new Date();
-    timestamp.setDate(timestamp.getDate() - Math.floor(Math.random() * 30));
-    timestamp.setHours(Math.floor(Math.random() * 24));
-    timestamp.setMinutes(Math.floor(Math.random() * 60));
+    const timestamp = new Date(today);
+    timestamp.setDate(timestamp.getDate() - Math.floor(random() * 30));
+    timestamp.setHours(Math.floor(random() * 24));
+    timestamp.setMinutes(Math.floor(random() * 60));
     
+    const exception = exceptions[Math.floor(random() * exceptions.length)];
+    const tenantId = exception === 'Missing user context in tenant' && random() > 0.15
+      ? misconfiguredTenant
+      : tenants[Math.floor(random() * tenants.length)];
+    // Missing user context mostly comes with no user object in the skill inputs
+    const missingUser = exception === 'Missing user context in tenant' ? random() > 0.15 : random() > 0.9;
+
     logs.push({
-      evaluationId: `eval_${Math.random().toString(36).substr(2, 9)}`,
-      sessionId: `session_${Math.random().toString(36).substr(2, 9)}`,
-      prompt: prompts[Math.floor(Math.random() * prompts.length)],
-      skillName: skills[Math.floor(Math.random() * skills.length)],
+      evaluationId: `eval_${random().toString(36).substr(2, 9)}`,
+      sessionId: `session_${random().toString(36).substr(2, 9)}`,
+      prompt: prompts[Math.floor(random() * prompts.length)],
+      skillName: skills[Math.floor(random() * skills.length)],
       skillInputs: {
-        userObject: Math.random() > 0.3 ? { id: `user_${i}` } : null,
+        userObject: missingUser ? null : { id: `user_${i}` },
+        tenantId,
         parameters: { action: 'execute' }
       },
-      exception: exceptions[Math.floor(Math.random() * exceptions.length)],
+      exception,
       timestamp,
-      errorCode: `ERR_${Math.floor(Math.random() * 9000) + 1000}`,
-      userId: Math.random() > 0.2 ? `user_${Math.floor(Math.random() * 100)}` : undefined,
-      contextMissing: Math.random() > 0.7 ? ['userContext', 'tenantInfo'] : []
+      errorCode: `ERR_${Math.floor(random() * 9000) + 1000}`,
+      userId: random() > 0.2 ? `user_${Math.floor(random() * 100)}` : undefined,
+      tenantId,
+      contextMissing: random() > 0.7 ? ['userContext', 'tenantInfo'] : []
     });
   }
   
   return logs;
 };
 
-export const processFailureClusters = (logs: FailureLog[], minClusterSize: number = 3): ProcessedCluster[] => {
-  const clusters: ProcessedCluster[] = [];
-  
-  // Group by similar error patterns
-  const errorGroups = new Map<string, FailureLog[]>();
-  
+/**
+ * Hourly invocation counts for every skill over the span of the mock failures: a daytime-weighted
+ * stream of successful calls plus each hour's failures.
+ */
+export const generateMockInvocations = (logs: FailureLog[]): InvocationCount[] => {
+  if (logs.length === 0) return [];
+  const failures = new Map<string, number>();
+  let first = Infinity;
+  let last = -Infinity;
   logs.forEach(log => {
-    const key = `${log.skillName}_${log.exception.split(' ').slice(0, 3).join('_')}`;
-    if (!errorGroups.has(key)) {
-      errorGroups.set(key, []);
-    }
-    errorGroups.get(key)!.push(log);
-  });
-  
-  errorGroups.forEach((groupLogs, key) => {
-    if (groupLogs.length >= minClusterSize) {
-      const cluster = createClusterFromLogs(groupLogs, key);
-      clusters.push(cluster);
-    }
+    const hour = Math.floor(log.timestamp.getTime() / HOUR_MS);
+    const key = `${log.skillName}@${hour}`;
+    failures.set(key, (failures.get(key) ?? 0) + 1);
+    first = Math.min(first, hour);
+    last = Math.max(last, hour);
   });
-  
-  return clusters.sort((a, b) => b.failureCount - a.failureCount);
-};
-
-const createClusterFromLogs = (logs: FailureLog[], key: string): ProcessedCluster => {
-  const skillName = logs[0].skillName;
-  const commonException = logs[0].exception;
-  
-  // Determine root cause based on patterns
-  const rootCause = determineRootCause(logs);
-  
-  // Generate recommendations
-  const recommendations = generateRecommendations(rootCause, skillName, logs);
-  
-  // Calculate severity
-  const severity = logs.length > 50 ? 'critical' : 
-                  logs.length > 20 ? 'high' : 
-                  logs.length > 10 ? 'medium' : 'low';
-  
-  const timestamps = logs.map(l => l.timestamp);
-  const firstSeen = new Date(Math.min(...timestamps.map(t => t.getTime())));
-  const lastSeen = new Date(Math.max(...timestamps.map(t => t.getTime())));
-  
-  return {
-    id: `cluster_${key}`,
-    name: generateClusterName(rootCause, skillName),
-    summary: generateClusterSummary(rootCause, skillName, logs.length),
-    failureCount: logs.length,
-    representativePrompts: [...new Set(logs.slice(0, 5).map(l => l.prompt))],
-    commonExceptions: [...new Set(logs.map(l => l.exception))],
-    rootCause,
-    recommendations,
-    affectedSkills: [...new Set(logs.map(l => l.skillName))],
-    severity: severity as any,
-    firstSeen,
-    lastSeen,
-    trend: determineTrend(logs),
-    resolved: Math.random() > 0.8,
-    tags: generateTags(rootCause, logs),
-    failureLogs: logs
-  };
-};
 
-const determineRootCause = (logs: FailureLog[]) => {
-  const exceptions = logs.map(l => l.exception.toLowerCase());
-  
-  if (exceptions.some(e => e.includes('context') || e.includes('tenant'))) {
-    return {
-      category: 'grounding' as const,
-      description: 'Missing or invalid user/tenant context',
-      confidence: 0.85
-    };
-  }
-  
-  if (exceptions.some(e => e.includes('timeout') || e.includes('network'))) {
-    return {
-      category: 'timeout' as const,
-      description: 'API timeouts or network connectivity issues',
-      confidence: 0.90
-    };
+  const skills = [...new Set(logs.map(log => log.skillName))];
+  const random = seededRandom(MOCK_SEED + 1);
+  const counts: InvocationCount[] = [];
+  for (let hour = first; hour <= last; hour++) {
+    const hourOfDay = new Date(hour * HOUR_MS).getHours();
+    const traffic = hourOfDay >= 8 && hourOfDay < 18 ? 60 : 15;
+    skills.forEach(skillName => counts.push({
+      skillName,
+      bucketStart: new Date(hour * HOUR_MS),
+      bucketMinutes: 60,
+      invocations: Math.round(traffic * (0.7 + random() * 0.6)) + (failures.get(`${skillName}@${hour}`) ?? 0)
+    }));
   }
-  
-  if (exceptions.some(e => e.includes('permission') || e.includes('authentication'))) {
-    return {
-      category: 'auth' as const,
-      description: 'Authorization or permission issues',
-      confidence: 0.88
-    };
-  }
-  
-  if (exceptions.some(e => e.includes('parameter') || e.includes('invalid'))) {
-    return {
-      category: 'input' as const,
-      description: 'Invalid or missing skill input parameters',
-      confidence: 0.82
-    };
-  }
-  
-  return {
-    category: 'api' as const,
-    description: 'General API or service issues',
-    confidence: 0.70
-  };
+  return counts;
 };
 
-const generateRecommendations = (rootCause: any, skillName: string, logs: FailureLog[]): string[] => {
-  switch (rootCause.category) {
-    case 'grounding':
-      return [
-        'Fix grounding logic for userObject in tenant context',
-        'Add validation for required context fields',
-        'Implement fallback context resolution'
-      ];
-    case 'timeout':
-      return [
-        'Increase API timeout thresholds',
-        'Implement retry logic with exponential backoff',
-        'Add circuit breaker pattern for failing services'
-      ];
-    case 'auth':
-      return [
-        'Review and update service principal permissions',
-        'Implement proper token refresh mechanism',
-        'Add user permission validation before skill execution'
-      ];
-    case 'input':
-      return [
-        `Update ${skillName} skill to handle null values gracefully`,
-        'Add input parameter validation',
-        'Provide better error messages for missing inputs'
-      ];
-    default:
-      return [
-        'Monitor API health and performance',
-        'Review service dependencies',
-        'Implement comprehensive error handling'
-      ];
-  }
-};
+const MOCK_STAGES = JOURNEY_STAGES.map(({ stage }) => stage);
 
-const generateClusterName = (rootCause: any, skillName: string): string => {
-  const categoryNames = {
-    grounding: 'Context Issues',
-    timeout: 'Timeout Failures',
-    auth: 'Permission Errors',
-    input: 'Input Validation',
-    api: 'API Failures'
-  };
-  
-  return `${skillName} - ${categoryNames[rootCause.category as keyof typeof categoryNames]}`;
+/** Stage each mock exception stops a session at. */
+const failingStage = (exception: string): JourneyStage => {
+  if (/token expired/i.test(exception)) return 'invoked';
+  if (/invalid parameter/i.test(exception)) return 'intent';
+  if (/context|graph call/i.test(exception)) return 'context';
+  return 'skill';
 };
 
-const generateClusterSummary = (rootCause: any, skillName: string, count: number): string => {
-  const templates = {
-    grounding: `Missing user context in ${skillName} queries (${count} failures)`,
-    timeout: `API timeouts in ${skillName} operations (${count} failures)`,
-    auth: `Permission errors in ${skillName} execution (${count} failures)`,
-    input: `Invalid inputs to ${skillName} skill (${count} failures)`,
-    api: `Service errors in ${skillName} API calls (${count} failures)`
+/**
+ * Stage events for every mock failure's session, which stops at the stage its exception points to,
+ * and for four times as many sessions that got a response; most of those end satisfied.
+ */
+export const generateMockStageEvents = (logs: FailureLog[]): StageEvent[] => {
+  const events: StageEvent[] = [];
+  const random = seededRandom(MOCK_SEED + 2);
+  const addSession = (sessionId: string, start: Date, skillName: string, userId: string | undefined, lastStage: number) => {
+    for (let stage = 0; stage <= lastStage; stage++) {
+      events.push({
+        sessionId,
+        stage: MOCK_STAGES[stage],
+        outcome: 'reached',
+        timestamp: new Date(start.getTime() + stage * 2000),
+        skillName,
+        userId
+      });
+    }
   };
-  
-  return templates[rootCause.category as keyof typeof templates];
-};
 
-const determineTrend = (logs: FailureLog[]): 'increasing' | 'decreasing' | 'stable' => {
-  const sorted = logs.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
-  const midpoint = Math.floor(sorted.length / 2);
-  const firstHalf = sorted.slice(0, midpoint);
-  const secondHalf = sorted.slice(midpoint);
-  
-  if (secondHalf.length > firstHalf.length * 1.2) return 'increasing';
-  if (secondHalf.length < firstHalf.length * 0.8) return 'decreasing';
-  return 'stable';
-};
+  logs.forEach(log => {
+    const stage = MOCK_STAGES.indexOf(failingStage(log.exception));
+    const start = new Date(log.timestamp.getTime() - stage * 2000);
+    addSession(log.sessionId, start, log.skillName, log.userId, stage - 1);
+    events.push({
+      sessionId: log.sessionId,
+      stage: MOCK_STAGES[stage],
+      outcome: 'failed',
+      timestamp: log.timestamp,
+      skillName: log.skillName,
+      userId: log.userId,
+      evaluationId: log.evaluationId,
+      errorCode: log.errorCode
+    });
 
-const generateTags = (rootCause: any, logs: FailureLog[]): string[] => {
-  const tags = [rootCause.category];
-  
-  const skills = [...new Set(logs.map(l => l.skillName))];
-  tags.push(...skills.map(s => s.toLowerCase()));
-  
-  if (logs.length > 50) tags.push('high-volume');
-  if (logs.some(l => l.contextMissing?.length)) tags.push('context-missing');
-  
-  return tags;
-}; 
\ No newline at end of file
+    for (let i = 0; i < 4; i++) {
+      const lastStage = random() < 0.85 ? MOCK_STAGES.length - 1 : MOCK_STAGES.length - 2;
+      addSession(
+        `session_${random().toString(36).substr(2, 9)}`,
+        new Date(log.timestamp.getTime() + (i + 1) * 7 * MINUTE_MS),
+        log.skillName,
+        `user_${Math.floor(random() * 100)}`,
+        lastStage
+      );
+    }
+  });
+  return events;
+};
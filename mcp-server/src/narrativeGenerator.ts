@@ -0,0 +1,151 @@
+import { createHash } from 'crypto';
+import { readFile } from 'fs/promises';
+import { join } from 'path';
+import { Taxonomy, resolveCategory } from '../../shared/taxonomy.js';
+import { FailureStore } from './failureStore.js';
+import { LlmProvider, LlmTask } from './llmProvider.js';
+import { GeneratedTextInfo, ProcessedCluster } from './types.js';
+
+const TASKS: LlmTask[] = ['cluster-narrative', 'trend-insights'];
+
+export interface TrendStats {
+  timeRange: string;
+  totalClusters: number;
+  criticalClusters: number;
+  regressedClusters: number;
+  byRootCause: Record<string, number>;
+  risingClusters: string[];
+  topClusters: string[];
+}
+
+interface ClusterNarrative {
+  name: string;
+  summary: string;
+  recommendations: string[];
+}
+
+const sha256 = (value: string) => createHash('sha256').update(value).digest('hex');
+
+const render = (template: string, context: Record<string, unknown>): string =>
+  template.replace(/\{\{(\w+)\}\}/g, (_match, key: string) => {
+    const value = context[key];
+    if (Array.isArray(value)) return value.length > 0 ? value.map(item => `- ${item}`).join('\n') : 'none';
+    if (value !== null && typeof value === 'object') return JSON.stringify(value);
+    return value === undefined || value === '' ? 'none' : String(value);
+  });
+
+/** Models sometimes wrap JSON in a code fence even when asked not to. */
+const parseJson = (text: string): Record<string, unknown> => {
+  const parsed = JSON.parse(text.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+  if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('expected a JSON object');
+  }
+  return parsed as Record<string, unknown>;
+};
+
+const requireText = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !value.trim()) throw new Error(`"${field}" must be a non-empty string`);
+  return value.trim();
+};
+
+const requireTextList = (value: unknown, field: string): string[] => {
+  if (!Array.isArray(value) || value.length === 0) throw new Error(`"${field}" must be a non-empty array`);
+  return value.map((item, index) => requireText(item, `${field}[${index}]`));
+};
+
+/**
+ * Writes cluster names, summaries, recommendations and trend insights with an LLM provider. Prompts are
+ * rendered from template files, and results are cached in the store under a hash of the provider, model,
+ * template and prompt inputs, so a cluster is only regenerated when its content changes. Provider errors
+ * and malformed responses are logged and the heuristic text is kept.
+ */
+export class NarrativeGenerator {
+  private constructor(
+    private readonly provider: LlmProvider,
+    private readonly templates: Record<LlmTask, string>,
+    private readonly store: FailureStore
+  ) {}
+
+  static async create(provider: LlmProvider, promptsDir: string, store: FailureStore): Promise<NarrativeGenerator> {
+    const entries = await Promise.all(
+      TASKS.map(async task => [task, await readFile(join(promptsDir, `${task}.md`), 'utf8')] as const)
+    );
+    return new NarrativeGenerator(provider, Object.fromEntries(entries) as Record<LlmTask, string>, store);
+  }
+
+  get providerName(): string {
+    return `${this.provider.name}:${this.provider.model}`;
+  }
+
+  /** Replaces the heuristic text of a cluster; `keepName` preserves a name a user chose when splitting. */
+  async describeCluster(cluster: ProcessedCluster, taxonomy: Taxonomy, keepName = false): Promise<ProcessedCluster> {
+    const category = resolveCategory(taxonomy, cluster.rootCause.category);
+    // Only content that should change the text goes in; counts and timestamps would defeat the cache
+    const context = {
+      skill: cluster.affectedSkills.join(', '),
+      category: category.id,
+      categoryLabel: category.label,
+      rootCauseDescription: cluster.rootCause.description,
+      severity: cluster.severity,
+      template: cluster.template,
+      parameters: cluster.templateParameters.map(parameter =>
+        `${parameter.kind} at position ${parameter.position}: ${parameter.topValues.map(top => top.value).join(', ')}`
+      ),
+      exceptions: cluster.commonExceptions.slice(0, 5),
+      prompts: cluster.representativePrompts.slice(0, 5),
+      contextMissing: [...new Set(cluster.failureLogs.flatMap(log => log.contextMissing ?? []))].sort(),
+      baselineRecommendations: category.recommendations
+    };
+
+    const result = await this.generate('cluster-narrative', context, (response): ClusterNarrative => ({
+      name: requireText(response.name, 'name'),
+      summary: requireText(response.summary, 'summary'),
+      recommendations: requireTextList(response.recommendations, 'recommendations')
+    }));
+    if (!result) return cluster;
+
+    return {
+      ...cluster,
+      name: keepName ? cluster.name : result.value.name,
+      summary: result.value.summary,
+      recommendations: result.value.recommendations,
+      generatedBy: result.info
+    };
+  }
+
+  async trendInsights(stats: TrendStats): Promise<{ insights: string[]; generatedBy: GeneratedTextInfo } | null> {
+    const result = await this.generate('trend-insights', { ...stats }, response => requireTextList(response.insights, 'insights'));
+    return result && { insights: result.value, generatedBy: result.info };
+  }
+
+  private async generate<T>(
+    task: LlmTask,
+    context: Record<string, unknown>,
+    validate: (response: Record<string, unknown>) => T
+  ): Promise<{ value: T; info: GeneratedTextInfo } | null> {
+    const template = this.templates[task];
+    const fingerprint = sha256(JSON.stringify(context));
+    const cacheKey = sha256([task, this.provider.name, this.provider.model, template, fingerprint].join('\n'));
+
+    const cached = this.store.getGeneratedText(cacheKey) as { value: T; info: GeneratedTextInfo } | undefined;
+    if (cached) return cached;
+
+    try {
+      const text = await this.provider.complete({ task, prompt: render(template, context), context });
+      const result = {
+        value: validate(parseJson(text)),
+        info: {
+          provider: this.provider.name,
+          model: this.provider.model,
+          fingerprint,
+          generatedAt: new Date().toISOString()
+        }
+      };
+      this.store.saveGeneratedText(cacheKey, result);
+      return result;
+    } catch (error) {
+      console.error(`${this.providerName} failed to generate ${task}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+}
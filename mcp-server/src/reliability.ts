@@ -0,0 +1,144 @@
+import { FailureLog, InvocationCount, ReliabilityReport, SkillReliability, TrendTimeRange } from './types.js';
+import { bucketTimestamps, trendWindow } from '../../shared/timeSeries.js';
+import { HOUR_MS, MINUTE_MS, round } from '../../shared/util.js';
+
+export const DEFAULT_SLA_TARGET = 0.99;
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+/** Adds `amount`, spread evenly over [start, end), to the buckets of `target` it overlaps. */
+const spread = (target: number[], origin: number, bucketMs: number, start: number, end: number, amount: number) => {
+  const first = Math.max(0, Math.floor((start - origin) / bucketMs));
+  const last = Math.min(target.length - 1, Math.floor((end - 1 - origin) / bucketMs));
+  for (let index = first; index <= last; index++) {
+    const bucketStart = origin + index * bucketMs;
+    const overlap = Math.min(end, bucketStart + bucketMs) - Math.max(start, bucketStart);
+    if (overlap > 0) target[index] += amount * overlap / (end - start);
+  }
+};
+
+interface SkillCounts {
+  invocations: number[];
+  failures: number[];
+  hourInvocations: number[];
+  hourFailures: number[];
+  hasTelemetry: boolean;
+}
+
+/**
+ * Rates for one skill. A bucket's failures are invocations too, so a count below them (telemetry that
+ * lags, or was cut off) is raised to the failure count rather than yielding rates above 100%.
+ */
+const summarize = (skillName: string, counts: SkillCounts, slaTarget: number): SkillReliability => {
+  const effective = counts.invocations.map((invocations, index) => Math.max(invocations, counts.failures[index]));
+  const invocations = sum(effective);
+  const failures = sum(counts.failures);
+  const errorRate = counts.hasTelemetry && invocations > 0 ? failures / invocations : null;
+
+  const served = effective
+    .map((total, index) => ({ total, failed: counts.failures[index] }))
+    .filter(bucket => bucket.total > 0);
+  const met = served.filter(bucket => 1 - bucket.failed / bucket.total >= slaTarget).length;
+
+  return {
+    skillName,
+    invocations: Math.round(invocations),
+    failures,
+    errorRate: errorRate === null ? null : round(errorRate),
+    reliability: errorRate === null ? null : round(1 - errorRate),
+    slaAttainment: counts.hasTelemetry && served.length > 0 ? round(met / served.length) : null,
+    invocationCounts: counts.hasTelemetry ? effective.map(value => round(value, 2)) : effective.map(() => 0),
+    failureCounts: counts.failures,
+    byHourOfDay: {
+      invocations: counts.hourInvocations.map((value, hour) => round(Math.max(value, counts.hourFailures[hour]), 2)),
+      failures: counts.hourFailures
+    }
+  };
+};
+
+/**
+ * Error rate, reliability and SLA attainment per skill over the window of `range` ending at `asOf`,
+ * bucketed like `analyze_trends`. Invocation buckets that straddle window buckets are split in
+ * proportion to their overlap. Skills without any invocation telemetry in the window get null rates
+ * and are left out of the total.
+ */
+export const computeReliability = (
+  logs: FailureLog[],
+  invocationCounts: InvocationCount[],
+  range: TrendTimeRange,
+  asOf: Date,
+  slaTarget: number = DEFAULT_SLA_TARGET
+): ReliabilityReport => {
+  const window = trendWindow(range, asOf);
+  const start = window.start.getTime();
+  const end = window.end.getTime();
+  const skills = new Map<string, SkillCounts>();
+  const countsOf = (skillName: string): SkillCounts => {
+    if (!skills.has(skillName)) {
+      skills.set(skillName, {
+        invocations: window.buckets.map(() => 0),
+        failures: window.buckets.map(() => 0),
+        hourInvocations: new Array(24).fill(0),
+        hourFailures: new Array(24).fill(0),
+        hasTelemetry: false
+      });
+    }
+    return skills.get(skillName)!;
+  };
+
+  const bySkill = new Map<string, Date[]>();
+  logs.forEach(log => {
+    const time = log.timestamp.getTime();
+    if (time < start || time >= end) return;
+    if (!bySkill.has(log.skillName)) bySkill.set(log.skillName, []);
+    bySkill.get(log.skillName)!.push(log.timestamp);
+    countsOf(log.skillName).hourFailures[log.timestamp.getUTCHours()]++;
+  });
+  bySkill.forEach((timestamps, skillName) => {
+    countsOf(skillName).failures = bucketTimestamps(timestamps, window).counts;
+  });
+
+  invocationCounts.forEach(count => {
+    const bucketStart = count.bucketStart.getTime();
+    const bucketEnd = bucketStart + count.bucketMinutes * MINUTE_MS;
+    if (bucketEnd <= start || bucketStart >= end) return;
+
+    const counts = countsOf(count.skillName);
+    counts.hasTelemetry = true;
+    spread(counts.invocations, start, window.bucketMs, bucketStart, bucketEnd, count.invocations);
+    // Hour-of-day totals take only the part of the bucket inside the window
+    const from = Math.max(bucketStart, start);
+    const to = Math.min(bucketEnd, end);
+    for (let hour = Math.floor(from / HOUR_MS) * HOUR_MS; hour < to; hour += HOUR_MS) {
+      const overlap = Math.min(to, hour + HOUR_MS) - Math.max(from, hour);
+      counts.hourInvocations[new Date(hour).getUTCHours()] += count.invocations * overlap / (bucketEnd - bucketStart);
+    }
+  });
+
+  const reported = [...skills].map(([skillName, counts]) => ({ counts, reliability: summarize(skillName, counts, slaTarget) }));
+  const withTelemetry = reported.filter(({ counts }) => counts.hasTelemetry).map(({ counts }) => counts);
+  const addUp = (pick: (counts: SkillCounts) => number[], length: number) =>
+    withTelemetry.reduce((total, counts) => total.map((value, index) => value + pick(counts)[index]), new Array(length).fill(0));
+
+  // The total's buckets sum each skill's already-raised counts, so they are raised by construction
+  const total = summarize('all', {
+    invocations: addUp(counts => counts.invocations.map((value, index) => Math.max(value, counts.failures[index])), window.buckets.length),
+    failures: addUp(counts => counts.failures, window.buckets.length),
+    hourInvocations: addUp(counts => counts.hourInvocations.map((value, hour) => Math.max(value, counts.hourFailures[hour])), 24),
+    hourFailures: addUp(counts => counts.hourFailures, 24),
+    hasTelemetry: withTelemetry.length > 0
+  }, slaTarget);
+
+  return {
+    timeRange: range,
+    windowStart: window.start,
+    windowEnd: window.end,
+    bucketMinutes: window.bucketMs / MINUTE_MS,
+    buckets: window.buckets,
+    slaTarget,
+    total,
+    skills: reported
+      .map(({ reliability }) => reliability)
+      .sort((a, b) => b.failures - a.failures || b.invocations - a.invocations)
+  };
+};
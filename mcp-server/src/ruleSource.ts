@@ -0,0 +1,32 @@
+import { watch } from 'fs';
+import { readFile } from 'fs/promises';
+import { basename, dirname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { RuleSet, parseRuleSet } from '../../shared/ruleEngine.js';
+
+/** Reads and validates a root-cause rule file; `.yaml`/`.yml` files are parsed as YAML, anything else as JSON. */
+export const loadRuleFile = async (path: string): Promise<RuleSet> => {
+  const text = await readFile(path, 'utf8');
+  const raw: unknown = /\.ya?ml$/i.test(path) ? parseYaml(text) : JSON.parse(text);
+  return parseRuleSet(raw);
+};
+
+/**
+ * Calls `onChange` after the rule file is modified. The directory is watched rather than the file because
+ * editors often save by writing a temp file and renaming it over the original, and events are debounced
+ * since one save fires several. Returns a function that stops watching.
+ */
+export const watchRuleFile = (path: string, onChange: () => void, debounceMs = 250): (() => void) => {
+  let timer: NodeJS.Timeout | undefined;
+  const watcher = watch(dirname(path), { persistent: false }, (_event, filename) => {
+    if (filename && filename.toString() !== basename(path)) return;
+    clearTimeout(timer);
+    timer = setTimeout(onChange, debounceMs);
+  });
+  watcher.on('error', error => console.error(`Stopped watching ${path}:`, error));
+
+  return () => {
+    clearTimeout(timer);
+    watcher.close();
+  };
+};
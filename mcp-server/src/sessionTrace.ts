@@ -0,0 +1,46 @@
+import { FailureLog, ProcessedCluster, SessionTrace, StageEvent } from './types.js';
+import { JOURNEY_STAGES } from './journey.js';
+
+const byTime = <T extends { timestamp: Date }>(a: T, b: T) => a.timestamp.getTime() - b.timestamp.getTime();
+
+/**
+ * Orders a session's failures and stage events in time. Each failure gets its attempt number within its
+ * skill, so repeated failures of one skill read as a retry chain.
+ */
+export const buildSessionTrace = (
+  sessionId: string,
+  logs: FailureLog[],
+  stageEvents: StageEvent[],
+  clusters: ProcessedCluster[]
+): SessionTrace => {
+  const clusterOf = new Map(clusters.flatMap(cluster => cluster.failureLogs.map(log => [log.evaluationId, cluster] as const)));
+  const attempts = new Map<string, number>();
+  const failures = [...logs].sort(byTime).map(log => {
+    const attempt = (attempts.get(log.skillName) ?? 0) + 1;
+    attempts.set(log.skillName, attempt);
+    const cluster = clusterOf.get(log.evaluationId);
+    return { log, clusterId: cluster?.id ?? null, clusterName: cluster?.name ?? null, attempt };
+  });
+  const stageIndex = (event: StageEvent) => JOURNEY_STAGES.findIndex(entry => entry.stage === event.stage);
+  // Stages logged in the same instant keep pipeline order
+  const events = [...stageEvents].sort((a, b) => byTime(a, b) || stageIndex(a) - stageIndex(b));
+
+  // A failed stage means the session got as far as the stage before it
+  const furthest = events.reduce((index, event) =>
+    Math.max(index, event.outcome === 'reached' ? stageIndex(event) : stageIndex(event) - 1), -1);
+  const times = [...logs, ...events].map(entry => entry.timestamp.getTime());
+  const distinct = (values: (string | undefined)[]) => [...new Set(values.filter((value): value is string => !!value))].sort();
+
+  return {
+    sessionId,
+    start: times.length > 0 ? new Date(Math.min(...times)) : null,
+    end: times.length > 0 ? new Date(Math.max(...times)) : null,
+    userIds: distinct([...logs, ...events].map(entry => entry.userId)),
+    tenantIds: distinct(logs.map(log => log.tenantId)),
+    skills: distinct([...logs, ...events].map(entry => entry.skillName)),
+    failures,
+    stageEvents: events,
+    furthestStage: furthest >= 0 ? JOURNEY_STAGES[furthest].stage : null,
+    retryChain: failures.some(failure => failure.attempt > 1)
+  };
+};
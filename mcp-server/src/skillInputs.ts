@@ -0,0 +1,168 @@
+import {
+  ClusterInputComparison,
+  FailureLog,
+  InputFieldComparison,
+  InputFieldStats,
+  InputIssue,
+  InputValueType,
+  ProcessedCluster,
+  SkillInputComparison,
+  SkillInputProfile
+} from './types.js';
+import { round } from '../../shared/util.js';
+
+/**
+ * A cluster's field is flagged when the issue's z-score reaches this, its rate is at least the minimum
+ * increase above the baseline and enough of the cluster's failures show it. The threshold is strict
+ * because every field is tested for three issues at once.
+ */
+const Z_THRESHOLD = 3;
+const MIN_RATE_INCREASE = 0.2;
+const MIN_AFFECTED_FAILURES = 3;
+
+/** Baseline failures a skill needs before its clusters are compared with it. */
+const MIN_BASELINE_FAILURES = 5;
+
+const ISSUES: InputIssue[] = ['missing', 'null', 'malformed'];
+
+const valueType = (value: unknown): InputValueType => {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'array';
+  const type = typeof value;
+  return type === 'number' || type === 'boolean' || type === 'object' ? type : 'string';
+};
+
+const hasField = (log: FailureLog, field: string) =>
+  !!log.skillInputs && Object.prototype.hasOwnProperty.call(log.skillInputs, field);
+
+const fieldNames = (logs: FailureLog[]) => [...new Set(logs.flatMap(log => Object.keys(log.skillInputs ?? {})))].sort();
+
+/** Type most non-null values of each field have across `logs`. */
+const inferExpectedTypes = (logs: FailureLog[]): Record<string, InputValueType> => {
+  const expected: Record<string, InputValueType> = {};
+  fieldNames(logs).forEach(field => {
+    const counts = new Map<InputValueType, number>();
+    logs.forEach(log => {
+      const type = hasField(log, field) ? valueType(log.skillInputs[field]) : 'null';
+      if (type !== 'null') counts.set(type, (counts.get(type) ?? 0) + 1);
+    });
+    const [dominant] = [...counts].sort((a, b) => b[1] - a[1])[0] ?? [];
+    if (dominant) expected[field] = dominant;
+  });
+  return expected;
+};
+
+const fieldStats = (field: string, logs: FailureLog[], expectedType: InputValueType | undefined): InputFieldStats => {
+  let present = 0;
+  let nulls = 0;
+  let malformed = 0;
+  const types: Partial<Record<InputValueType, number>> = {};
+  const values = new Set<string>();
+
+  logs.forEach(log => {
+    if (!hasField(log, field)) return;
+    present++;
+    const value: unknown = log.skillInputs[field];
+    const type = valueType(value);
+    types[type] = (types[type] ?? 0) + 1;
+    if (type === 'null') {
+      nulls++;
+      return;
+    }
+    values.add(JSON.stringify(value));
+    if ((expectedType && type !== expectedType) || (typeof value === 'string' && !value.trim())) malformed++;
+  });
+
+  const share = (count: number) => logs.length > 0 ? round(count / logs.length) : 0;
+  return {
+    field,
+    failures: logs.length,
+    presence: share(present),
+    nullRate: share(nulls),
+    malformedRate: share(malformed),
+    types,
+    cardinality: values.size
+  };
+};
+
+const issueRate = (stats: InputFieldStats, issue: InputIssue) =>
+  issue === 'missing' ? round(1 - stats.presence) : issue === 'null' ? stats.nullRate : stats.malformedRate;
+
+/** Pooled two-proportion z-score; 0 when neither set varies. */
+const twoProportionZ = (p1: number, n1: number, p2: number, n2: number) => {
+  const pooled = (p1 * n1 + p2 * n2) / (n1 + n2);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / n1 + 1 / n2));
+  return standardError > 0 ? (p1 - p2) / standardError : 0;
+};
+
+const compareField = (
+  field: string,
+  clusterLogs: FailureLog[],
+  baselineLogs: FailureLog[],
+  expectedType: InputValueType | undefined
+): InputFieldComparison => {
+  const cluster = fieldStats(field, clusterLogs, expectedType);
+  const baseline = fieldStats(field, baselineLogs, expectedType);
+  const comparable = baselineLogs.length >= MIN_BASELINE_FAILURES;
+
+  const candidates = ISSUES.map(issue => {
+    const clusterRate = issueRate(cluster, issue);
+    const baselineRate = issueRate(baseline, issue);
+    const zScore = comparable ? round(twoProportionZ(clusterRate, clusterLogs.length, baselineRate, baselineLogs.length)) : null;
+    return { issue, clusterRate, baselineRate, zScore };
+  });
+  const worst = candidates.sort((a, b) =>
+    (b.zScore ?? 0) - (a.zScore ?? 0) || (b.clusterRate - b.baselineRate) - (a.clusterRate - a.baselineRate))[0];
+
+  return {
+    field,
+    cluster,
+    baseline,
+    ...worst,
+    significant: worst.zScore !== null &&
+      worst.zScore >= Z_THRESHOLD &&
+      worst.clusterRate - worst.baselineRate >= MIN_RATE_INCREASE &&
+      Math.round(worst.clusterRate * clusterLogs.length) >= MIN_AFFECTED_FAILURES
+  };
+};
+
+/** Field presence, null rate, types and cardinality of the top-level `skillInputs` fields of one skill's failures. */
+export const profileSkillInputs = (skillName: string, logs: FailureLog[]): SkillInputProfile => {
+  const expectedTypes = inferExpectedTypes(logs);
+  return {
+    skillName,
+    failures: logs.length,
+    expectedTypes,
+    fields: fieldNames(logs).map(field => fieldStats(field, logs, expectedTypes[field]))
+  };
+};
+
+/**
+ * Compares the `skillInputs` of a cluster's failures with the other failures of each of its skills.
+ * `logs` must hold every stored failure of the cluster's skills; expected types come from all of them.
+ */
+export const compareClusterInputs = (cluster: ProcessedCluster, logs: FailureLog[]): ClusterInputComparison => {
+  const inCluster = new Set(cluster.failureLogs.map(log => log.evaluationId));
+
+  const skills: SkillInputComparison[] = cluster.affectedSkills.map(skillName => {
+    const skillLogs = logs.filter(log => log.skillName === skillName);
+    const clusterLogs = cluster.failureLogs.filter(log => log.skillName === skillName);
+    const baselineLogs = skillLogs.filter(log => !inCluster.has(log.evaluationId));
+    const expectedTypes = inferExpectedTypes([...clusterLogs, ...baselineLogs]);
+
+    const fields = fieldNames([...clusterLogs, ...baselineLogs])
+      .map(field => compareField(field, clusterLogs, baselineLogs, expectedTypes[field]))
+      .sort((a, b) =>
+        Number(b.significant) - Number(a.significant) ||
+        (b.zScore ?? 0) - (a.zScore ?? 0) ||
+        a.field.localeCompare(b.field));
+
+    return { skillName, clusterFailures: clusterLogs.length, baselineFailures: baselineLogs.length, fields };
+  });
+
+  return {
+    clusterId: cluster.id,
+    name: cluster.name,
+    skills: skills.sort((a, b) => b.clusterFailures - a.clusterFailures)
+  };
+};
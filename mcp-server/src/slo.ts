@@ -0,0 +1,224 @@
+import { readFile } from 'fs/promises';
+import { parse as parseYaml } from 'yaml';
+import {
+  BudgetConsumer,
+  BurnRate,
+  FailureLog,
+  InvocationCount,
+  ProcessedCluster,
+  SkillSlo,
+  SloDefinition,
+  SloScorecard,
+  SloStatus
+} from './types.js';
+import { HOUR_MS, MINUTE_MS, isPlainObject, round } from '../../shared/util.js';
+
+export interface SloConfig {
+  defaults: SloDefinition;
+  /** Objectives of individual skills, each filled in from `defaults`. */
+  skills: Record<string, SloDefinition>;
+}
+
+export const DEFAULT_SLO_CONFIG: SloConfig = {
+  defaults: { targetSuccessRate: 0.99, latencyMs: null, windowDays: 28 },
+  skills: {}
+};
+
+/**
+ * Burn-rate windows and the share of the SLO window's budget each may spend before it counts as burning
+ * too fast: 2% in an hour, 5% in six hours and 10% in a day or three days. Over a 30-day window those are
+ * the usual 14.4, 6, 3 and 1 burn rates. The first two catch fast burns, the last two slow ones.
+ */
+const BURN_RATE_WINDOWS = [
+  { window: '1h', hours: 1, budgetShare: 0.02, fast: true },
+  { window: '6h', hours: 6, budgetShare: 0.05, fast: true },
+  { window: '24h', hours: 24, budgetShare: 0.1, fast: false },
+  { window: '3d', hours: 72, budgetShare: 0.1, fast: false }
+];
+
+/** Consumers listed per skill. */
+const MAX_CONSUMERS = 5;
+
+const STATUS_ORDER: SloStatus[] = ['exhausted', 'burning', 'at-risk', 'healthy', 'no-telemetry'];
+
+const parseDefinition = (raw: unknown, base: SloDefinition, path: string): SloDefinition => {
+  if (!isPlainObject(raw)) throw new Error(`${path}: expected an object`);
+  const definition = { ...base };
+  if (raw.targetSuccessRate !== undefined) {
+    const target = raw.targetSuccessRate;
+    if (typeof target !== 'number' || !(target > 0 && target < 1)) {
+      throw new Error(`${path}.targetSuccessRate: expected a number between 0 and 1 (exclusive)`);
+    }
+    definition.targetSuccessRate = target;
+  }
+  if (raw.latencyMs !== undefined) {
+    const latency = raw.latencyMs;
+    if (latency !== null && (typeof latency !== 'number' || !Number.isFinite(latency) || latency <= 0)) {
+      throw new Error(`${path}.latencyMs: expected a positive number or null`);
+    }
+    definition.latencyMs = latency;
+  }
+  if (raw.windowDays !== undefined) {
+    const days = raw.windowDays;
+    if (typeof days !== 'number' || !Number.isInteger(days) || days <= 0) {
+      throw new Error(`${path}.windowDays: expected a positive integer`);
+    }
+    definition.windowDays = days;
+  }
+  return definition;
+};
+
+/** Validates an SLO file: optional `defaults` and a `skills` map, each with any of the `SloDefinition` fields. */
+export const parseSloConfig = (raw: unknown): SloConfig => {
+  if (!isPlainObject(raw)) throw new Error('SLO file: expected an object');
+  const defaults = raw.defaults === undefined
+    ? DEFAULT_SLO_CONFIG.defaults
+    : parseDefinition(raw.defaults, DEFAULT_SLO_CONFIG.defaults, 'defaults');
+  if (raw.skills !== undefined && !isPlainObject(raw.skills)) throw new Error('skills: expected an object');
+
+  const skills: Record<string, SloDefinition> = {};
+  Object.entries(raw.skills ?? {}).forEach(([skillName, definition]) => {
+    skills[skillName] = parseDefinition(definition, defaults, `skills.${skillName}`);
+  });
+  return { defaults, skills };
+};
+
+/** Reads and validates an SLO file; `.yaml`/`.yml` files are parsed as YAML, anything else as JSON. */
+export const loadSloFile = async (path: string): Promise<SloConfig> => {
+  const text = await readFile(path, 'utf8');
+  return parseSloConfig(/\.ya?ml$/i.test(path) ? parseYaml(text) : JSON.parse(text));
+};
+
+/** Invocations in [start, end), taking the overlapping share of buckets cut by its edges; null without telemetry. */
+const invocationsBetween = (counts: InvocationCount[], start: number, end: number): number | null => {
+  let total: number | null = null;
+  counts.forEach(count => {
+    const bucketStart = count.bucketStart.getTime();
+    const bucketEnd = bucketStart + count.bucketMinutes * MINUTE_MS;
+    const overlap = Math.min(end, bucketEnd) - Math.max(start, bucketStart);
+    if (overlap <= 0) return;
+    total = (total ?? 0) + count.invocations * overlap / (bucketEnd - bucketStart);
+  });
+  return total;
+};
+
+const failuresBetween = (logs: FailureLog[], start: number, end: number) =>
+  logs.filter(log => log.timestamp.getTime() >= start && log.timestamp.getTime() < end);
+
+/** Earliest timestamp `computeSloScorecard` reads for the objectives in `config`. */
+export const sloLookbackStart = (config: SloConfig, asOf: Date): Date => {
+  const days = Math.max(config.defaults.windowDays, ...Object.values(config.skills).map(slo => slo.windowDays));
+  const longestBurnWindow = Math.max(...BURN_RATE_WINDOWS.map(window => window.hours));
+  return new Date(asOf.getTime() - Math.max(days * 24, longestBurnWindow) * HOUR_MS);
+};
+
+const scoreSkill = (
+  skillName: string,
+  slo: SloDefinition,
+  logs: FailureLog[],
+  counts: InvocationCount[],
+  clusters: ProcessedCluster[],
+  asOf: number
+): SkillSlo => {
+  const allowedErrorRate = 1 - slo.targetSuccessRate;
+  const windowStart = asOf - slo.windowDays * 24 * HOUR_MS;
+
+  const failed = failuresBetween(logs, windowStart, asOf);
+  const measured = invocationsBetween(counts, windowStart, asOf);
+  // Failures are invocations too, so lagging telemetry is raised to them as in the reliability report
+  const invocations = measured === null ? null : Math.max(measured, failed.length);
+  const errorBudget = invocations === null ? null : invocations * allowedErrorRate;
+  const budgetRemaining = errorBudget === null
+    ? null
+    : errorBudget > 0 ? round(1 - failed.length / errorBudget) : failed.length > 0 ? -1 : 1;
+
+  const burnRates: BurnRate[] = BURN_RATE_WINDOWS.map(({ window, hours, budgetShare }) => {
+    const start = asOf - hours * HOUR_MS;
+    const failures = failuresBetween(logs, start, asOf).length;
+    const windowInvocations = invocationsBetween(counts, start, asOf);
+    const served = windowInvocations === null ? null : Math.max(windowInvocations, failures);
+    return {
+      window,
+      hours,
+      invocations: Math.round(served ?? 0),
+      failures,
+      burnRate: served === null ? null : served > 0 ? round(failures / served / allowedErrorRate) : 0,
+      threshold: round(budgetShare * slo.windowDays * 24 / hours)
+    };
+  });
+
+  const exceeded = (fast: boolean) => burnRates.some((rate, index) =>
+    BURN_RATE_WINDOWS[index].fast === fast && rate.burnRate !== null && rate.burnRate > rate.threshold);
+  const status: SloStatus = invocations === null ? 'no-telemetry'
+    : budgetRemaining !== null && budgetRemaining <= 0 ? 'exhausted'
+    : exceeded(true) ? 'burning'
+    : exceeded(false) ? 'at-risk'
+    : 'healthy';
+
+  const failedIds = new Set(failed.map(log => log.evaluationId));
+  const topConsumers: BudgetConsumer[] = clusters
+    .map(cluster => {
+      const failures = cluster.failureLogs.filter(log => failedIds.has(log.evaluationId)).length;
+      return {
+        clusterId: cluster.id,
+        name: cluster.name,
+        severity: cluster.severity,
+        failures,
+        budgetSpent: errorBudget ? round(failures / errorBudget) : null
+      };
+    })
+    .filter(consumer => consumer.failures > 0)
+    .sort((a, b) => b.failures - a.failures)
+    .slice(0, MAX_CONSUMERS);
+
+  return {
+    skillName,
+    slo,
+    invocations: invocations === null ? null : Math.round(invocations),
+    failures: failed.length,
+    successRate: invocations === null ? null : invocations > 0 ? round(1 - failed.length / invocations) : 1,
+    errorBudget: errorBudget === null ? null : round(errorBudget, 2),
+    budgetRemaining,
+    burnRates,
+    status,
+    topConsumers
+  };
+};
+
+/**
+ * Error budget, burn rates and the clusters spending the budget for every skill with failures,
+ * invocation telemetry or an objective in `config`, over each skill's SLO window ending at `asOf`.
+ * `logs` and `invocationCounts` must reach back to `sloLookbackStart`.
+ */
+export const computeSloScorecard = (
+  logs: FailureLog[],
+  invocationCounts: InvocationCount[],
+  clusters: ProcessedCluster[],
+  config: SloConfig,
+  asOf: Date,
+  source: string | null
+): SloScorecard => {
+  const skillNames = new Set([
+    ...logs.map(log => log.skillName),
+    ...invocationCounts.map(count => count.skillName),
+    ...Object.keys(config.skills)
+  ]);
+
+  const skills = [...skillNames].map(skillName => scoreSkill(
+    skillName,
+    config.skills[skillName] ?? config.defaults,
+    logs.filter(log => log.skillName === skillName),
+    invocationCounts.filter(count => count.skillName === skillName),
+    clusters,
+    asOf.getTime()
+  ));
+
+  return {
+    asOf,
+    source,
+    skills: skills.sort((a, b) =>
+      STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) ||
+      (a.budgetRemaining ?? Infinity) - (b.budgetRemaining ?? Infinity) ||
+      b.failures - a.failures)
+  };
+};
@@ -0,0 +1,17 @@
+import { ServerConfig } from './config.js';
+import { LogSourceIssue, loadRecordFile, validateStageEvent } from './logSources.js';
+import { StageEvent } from './types.js';
+
+export interface StageEventResult {
+  events: StageEvent[];
+  issues: LogSourceIssue[];
+}
+
+/**
+ * Reads session stage events, one per JSONL line or CSV row, with the fields `sessionId`, `stage`,
+ * `timestamp` and optionally `outcome`, `skillName`, `userId`, `evaluationId` and `errorCode`.
+ */
+export const loadStageEvents = async (source: NonNullable<ServerConfig['stageEvents']>): Promise<StageEventResult> => {
+  const { records: events, issues } = await loadRecordFile(source, validateStageEvent);
+  return { events, issues };
+};
@@ -0,0 +1,122 @@
+import { FailureLog, ProcessedCluster, TenantConcentration, TenantHealth, TenantHealthReport, TrendTimeRange } from './types.js';
+import { determineTrend, trendWindow } from '../../shared/timeSeries.js';
+import { median, round } from '../../shared/util.js';
+
+/** A tenant failing this many times as often as the median tenant, with at least the minimum failures, is flagged. */
+const DISPROPORTION_RATIO = 3;
+const MIN_DISPROPORTIONATE_FAILURES = 5;
+
+/** Share of a cluster's tenant-attributed failures one tenant must hold, with at least the minimum failures. */
+const CONCENTRATION_SHARE = 0.8;
+const MIN_CONCENTRATED_FAILURES = 5;
+
+/**
+ * Clusters whose tenant-attributed failures in the window come mostly from one tenant. Only clusters of
+ * skills that other tenants also failed on in the window qualify, since a skill used by a single tenant
+ * concentrates every cluster.
+ */
+const findConcentrations = (windowLogs: FailureLog[], clusters: ProcessedCluster[]): TenantConcentration[] => {
+  const tenantsBySkill = new Map<string, Set<string>>();
+  windowLogs.forEach(log => {
+    if (!log.tenantId) return;
+    if (!tenantsBySkill.has(log.skillName)) tenantsBySkill.set(log.skillName, new Set());
+    tenantsBySkill.get(log.skillName)!.add(log.tenantId);
+  });
+  const inWindow = new Set(windowLogs.map(log => log.evaluationId));
+
+  return clusters.flatMap(cluster => {
+    const byTenant = new Map<string, number>();
+    cluster.failureLogs.forEach(log => {
+      if (log.tenantId && inWindow.has(log.evaluationId)) byTenant.set(log.tenantId, (byTenant.get(log.tenantId) ?? 0) + 1);
+    });
+    const tenantFailures = [...byTenant.values()].reduce((sum, count) => sum + count, 0);
+    const [tenantId, failures] = [...byTenant].sort((a, b) => b[1] - a[1])[0] ?? ['', 0];
+    const sharedSkill = cluster.affectedSkills.some(skill => (tenantsBySkill.get(skill)?.size ?? 0) > 1);
+
+    if (failures < MIN_CONCENTRATED_FAILURES || failures / tenantFailures < CONCENTRATION_SHARE || !sharedSkill) return [];
+    return [{
+      clusterId: cluster.id,
+      name: cluster.name,
+      severity: cluster.severity,
+      tenantId,
+      failures,
+      tenantFailures,
+      share: round(failures / tenantFailures)
+    }];
+  });
+};
+
+/**
+ * Failures per tenant in the window of `range` ending at `asOf`, compared with the median tenant, and the
+ * clusters concentrated in a single tenant.
+ */
+export const computeTenantHealth = (
+  logs: FailureLog[],
+  clusters: ProcessedCluster[],
+  range: TrendTimeRange,
+  asOf: Date
+): TenantHealthReport => {
+  const window = trendWindow(range, asOf);
+  const windowLogs = logs.filter(log => log.timestamp >= window.start && log.timestamp < window.end);
+  const attributed = windowLogs.filter(log => log.tenantId);
+  const clusterOf = new Map(clusters.flatMap(cluster => cluster.failureLogs.map(log => [log.evaluationId, cluster] as const)));
+  const concentratedClusters = findConcentrations(windowLogs, clusters).sort((a, b) => b.share - a.share || b.failures - a.failures);
+
+  const byTenant = new Map<string, FailureLog[]>();
+  attributed.forEach(log => {
+    if (!byTenant.has(log.tenantId!)) byTenant.set(log.tenantId!, []);
+    byTenant.get(log.tenantId!)!.push(log);
+  });
+  const typical = median([...byTenant.values()].map(tenantLogs => tenantLogs.length));
+
+  const tenants: TenantHealth[] = [...byTenant].map(([tenantId, tenantLogs]) => {
+    const tenantClusters = new Set(tenantLogs.flatMap(log => clusterOf.get(log.evaluationId) ?? []));
+    const relativeToMedian = typical > 0 ? round(tenantLogs.length / typical) : 0;
+    return {
+      tenantId,
+      failures: tenantLogs.length,
+      failureShare: round(tenantLogs.length / attributed.length),
+      relativeToMedian,
+      disproportionate: relativeToMedian >= DISPROPORTION_RATIO && tenantLogs.length >= MIN_DISPROPORTIONATE_FAILURES,
+      affectedUsers: new Set(tenantLogs.flatMap(log => log.userId ? [log.userId] : [])).size,
+      affectedSessions: new Set(tenantLogs.map(log => log.sessionId)).size,
+      skills: [...new Set(tenantLogs.map(log => log.skillName))].sort(),
+      clusters: tenantClusters.size,
+      criticalClusters: [...tenantClusters].filter(cluster => cluster.severity === 'critical').length,
+      concentratedClusterIds: concentratedClusters
+        .filter(concentration => concentration.tenantId === tenantId)
+        .map(concentration => concentration.clusterId)
+    };
+  });
+
+  return {
+    timeRange: range,
+    windowStart: window.start,
+    windowEnd: window.end,
+    failures: windowLogs.length,
+    unattributedFailures: windowLogs.length - attributed.length,
+    tenants: tenants.sort((a, b) => b.failures - a.failures),
+    concentratedClusters
+  };
+};
+
+/**
+ * Clusters with failures from `tenantId`, narrowed to those failures with their count, first and last
+ * occurrence and trend recomputed; every cluster when no tenant is given. `historyStart` is the oldest
+ * failure on record; see determineTrend.
+ */
+export const scopeClustersToTenant = (clusters: ProcessedCluster[], tenantId?: string, historyStart?: Date): ProcessedCluster[] =>
+  !tenantId ? clusters : clusters.flatMap(cluster => {
+    // Members are stored oldest first
+    const failureLogs = cluster.failureLogs.filter(log => log.tenantId === tenantId);
+    return failureLogs.length > 0
+      ? [{
+          ...cluster,
+          failureLogs,
+          failureCount: failureLogs.length,
+          firstSeen: failureLogs[0].timestamp,
+          lastSeen: failureLogs[failureLogs.length - 1].timestamp,
+          trend: determineTrend(failureLogs, historyStart)
+        }]
+      : [];
+  });
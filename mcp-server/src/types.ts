@@ -1,44 +1,9 @@
-export interface FailureLog {
-  evaluationId: string;
-  sessionId: string;
-  prompt: string;
-  skillName: string;
-  skillInputs: Record<string, any>;
-  exception: string;
-  timestamp: Date;
-  errorCode?: string;
-  userId?: string;
-  contextMissing?: string[];
-}
+export * from '../../shared/types.js';
 
-export interface ProcessedCluster {
-  id: string;
-  name: string;
-  summary: string;
-  failureCount: number;
-  representativePrompts: string[];
-  commonExceptions: string[];
-  rootCause: {
-    category: 'grounding' | 'skill' | 'api' | 'timeout' | 'input' | 'auth';
-    description: string;
-    confidence: number;
-  };
-  recommendations: string[];
-  affectedSkills: string[];
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  firstSeen: Date;
-  lastSeen: Date;
-  trend: 'increasing' | 'decreasing' | 'stable';
-  resolved: boolean;
-  tags: string[];
-  failureLogs: FailureLog[];
-}
-
-export interface AnalyticsData {
-  clusters: ProcessedCluster[];
-  failureLogs: FailureLog[];
-  totalFailures: number;
-  criticalClusters: number;
-  resolvedClusters: number;
-  lastUpdated: string;
-} 
\ No newline at end of file
+/**
+ * Manual merge/split decisions, replayed on every refresh so they survive re-clustering. A merge's
+ * `evaluationIds` are its sources' members when merged (absent on merges stored before they were recorded).
+ */
+export type ClusterOverride =
+  | { kind: 'merge'; targetClusterId: string; sourceClusterIds: string[]; evaluationIds?: string[] }
+  | { kind: 'split'; clusterId: string; newClusterId: string; evaluationIds: string[]; name?: string };
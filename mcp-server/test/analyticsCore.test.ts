@@ -0,0 +1,252 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  createClusterFromLogs,
+  determineRootCause,
+  generateRecommendations,
+  processFailureClusters,
+  sharedRecommendations
+} from '../../shared/analyticsCore.js';
+import { determineTrend } from '../../shared/timeSeries.js';
+import { FailureLog } from '../../shared/types.js';
+import { HOUR_MS } from '../../shared/util.js';
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+let sequence = 0;
+const failure = (overrides: Partial<FailureLog> = {}, hoursAgo = 1): FailureLog => {
+  sequence++;
+  return {
+    evaluationId: `eval_${sequence}`,
+    sessionId: `session_${sequence}`,
+    prompt: `Prompt ${sequence}`,
+    skillName: 'TicketCreate',
+    skillInputs: {},
+    exception: `Request timed out after ${1000 + sequence} ms`,
+    timestamp: new Date(NOW.getTime() - hoursAgo * HOUR_MS),
+    ...overrides
+  };
+};
+
+const failures = (count: number, overrides: Partial<FailureLog> = {}, hoursAgo = (index: number) => index + 1) =>
+  Array.from({ length: count }, (_, index) => failure(overrides, hoursAgo(index)));
+
+describe('analytics core', () => {
+  beforeEach(() => {
+    sequence = 0;
+    mock.timers.enable({ apis: ['Date'], now: NOW });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  describe('processFailureClusters', () => {
+    const logs = () => [
+      ...failures(12),
+      ...failures(4, {
+        skillName: 'PasswordReset',
+        exception: 'Missing user context in tenant',
+        contextMissing: ['userContext']
+      }),
+      ...failures(2, { skillName: 'Search', exception: 'Index shard unavailable' })
+    ];
+
+    it('groups failures by skill and mined exception template, largest first', () => {
+      const clusters = processFailureClusters(logs());
+
+      assert.deepEqual(clusters.map(cluster => [cluster.affectedSkills, cluster.failureCount]), [
+        [['TicketCreate'], 12],
+        [['PasswordReset'], 4]
+      ]);
+      assert.match(clusters[0].id, /^cluster_TicketCreate_/);
+      assert.equal(clusters[0].template, 'Request timed out after <DURATION>');
+      assert.equal(clusters[1].template, 'Missing user context in tenant');
+    });
+
+    it('drops groups smaller than the minimum cluster size', () => {
+      assert.equal(processFailureClusters(logs()).some(cluster => cluster.affectedSkills.includes('Search')), false);
+      assert.deepEqual(processFailureClusters(logs(), 2).map(cluster => cluster.failureCount), [12, 4, 2]);
+    });
+
+    it('keeps the same skill apart when its exceptions differ', () => {
+      const clusters = processFailureClusters([
+        ...failures(3),
+        ...failures(3, { exception: 'Permission denied for mailbox' })
+      ]);
+      assert.equal(clusters.length, 2);
+      assert.notEqual(clusters[0].id, clusters[1].id);
+    });
+
+    it('gives the same failures the same cluster IDs', () => {
+      assert.deepEqual(processFailureClusters(logs()).map(cluster => cluster.id), processFailureClusters(logs()).map(cluster => cluster.id));
+    });
+  });
+
+  describe('createClusterFromLogs', () => {
+    it('stores members oldest first and takes firstSeen and lastSeen from them', () => {
+      const logs = [failure({}, 2), failure({}, 30), failure({}, 5)];
+      const cluster = createClusterFromLogs(logs, 'TicketCreate_key', 'Request timed out after <DURATION>');
+
+      assert.equal(cluster.id, 'cluster_TicketCreate_key');
+      assert.deepEqual(cluster.failureLogs.map(log => log.evaluationId), ['eval_2', 'eval_3', 'eval_1']);
+      assert.deepEqual(cluster.firstSeen, logs[1].timestamp);
+      assert.deepEqual(cluster.lastSeen, logs[0].timestamp);
+    });
+
+    it('names, summarizes and recommends from the taxonomy', () => {
+      const cluster = createClusterFromLogs(failures(3), 'key', 'Request timed out after <DURATION>');
+
+      assert.equal(cluster.name, 'TicketCreate - Timeout Failures');
+      assert.equal(cluster.summary, 'API timeouts in TicketCreate operations (3 failures)');
+      assert.deepEqual(cluster.recommendations, [
+        'Increase API timeout thresholds',
+        'Implement retry logic with exponential backoff',
+        'Add circuit breaker pattern for failing services'
+      ]);
+    });
+
+    it('keeps the first five distinct prompts and every distinct exception', () => {
+      const logs = failures(8, {}, index => 8 - index).map((log, index) => ({ ...log, prompt: `Prompt ${index % 6}` }));
+      const cluster = createClusterFromLogs(logs, 'key', 'Request timed out after <DURATION>');
+
+      assert.deepEqual(cluster.representativePrompts, ['Prompt 0', 'Prompt 1', 'Prompt 2', 'Prompt 3', 'Prompt 4']);
+      assert.equal(cluster.commonExceptions.length, 8);
+    });
+
+    it('grades severity by failure count', () => {
+      const severity = (count: number) => createClusterFromLogs(failures(count), 'key', 'template').severity;
+      assert.deepEqual([10, 11, 20, 21, 50, 51].map(severity), ['low', 'medium', 'medium', 'high', 'high', 'critical']);
+    });
+
+    it('tags the category with its ancestors, the skills, volume and missing context', () => {
+      const expired = createClusterFromLogs(
+        failures(51, { exception: 'Access token expired', contextMissing: ['userContext'] }),
+        'key',
+        'Access token expired'
+      );
+      assert.deepEqual(expired.tags, ['auth', 'auth/token-expired', 'ticketcreate', 'high-volume', 'context-missing']);
+    });
+
+    it('starts unresolved with a new lifecycle detected now', () => {
+      const cluster = createClusterFromLogs(failures(3), 'key', 'template');
+
+      assert.equal(cluster.resolved, false);
+      assert.deepEqual(cluster.lifecycle, {
+        status: 'new',
+        detectedAt: NOW.toISOString(),
+        statusChangedAt: NOW.toISOString(),
+        history: [{ status: 'new', at: NOW.toISOString() }]
+      });
+    });
+
+    it('reports template parameters from the member exceptions', () => {
+      const cluster = createClusterFromLogs(failures(4), 'key', 'Request timed out after <DURATION>');
+      assert.equal(cluster.templateParameters.length, 1);
+      assert.equal(cluster.templateParameters[0].distinctValues, 4);
+    });
+  });
+
+  describe('determineRootCause', () => {
+    const categoryOf = (logs: FailureLog[]) => determineRootCause(logs, logs[0].exception).category;
+
+    it('classifies by the default rules', () => {
+      assert.equal(categoryOf(failures(3)), 'timeout');
+      assert.equal(categoryOf(failures(3, { exception: 'Permission denied for mailbox' })), 'auth');
+      assert.equal(categoryOf(failures(3, { exception: 'Access token expired' })), 'auth/token-expired');
+      assert.equal(categoryOf(failures(3, { exception: 'Unexpected token < in JSON at position 0' })), 'input/malformed-json');
+      assert.equal(categoryOf(failures(3, { exception: 'Upstream returned 429: rate limit exceeded' })), 'api/rate-limited');
+      assert.equal(categoryOf(failures(3, { exception: 'Lookup failed', contextMissing: ['userContext'] })), 'grounding');
+    });
+
+    it('falls back when no rule matches', () => {
+      const rootCause = determineRootCause(failures(3, { exception: 'Index shard unavailable' }), 'Index shard unavailable');
+
+      assert.equal(rootCause.category, 'api');
+      assert.equal(rootCause.confidence, 0.5);
+      assert.deepEqual(rootCause.firedRules, []);
+    });
+
+    it('credits each member to its causes once, however many rules of a cause match it', () => {
+      const logs = [
+        ...failures(4),
+        ...failures(6, { exception: 'Tenant context not found', contextMissing: ['userContext'] })
+      ];
+      const rootCause = determineRootCause(logs, 'template');
+
+      assert.deepEqual(rootCause.candidates?.map(candidate => [candidate.category, candidate.share, candidate.confidence]), [
+        ['grounding', 0.6, 0.6],
+        ['timeout', 0.4, 0.4]
+      ]);
+    });
+
+    it('splits members matching several causes by rule weight', () => {
+      const logs = failures(4, { exception: 'Request timed out: tenant context unavailable' });
+      const rootCause = determineRootCause(logs, 'template');
+
+      // missing-context weighs 1.2 and timeout 1.1
+      assert.deepEqual(rootCause.candidates?.map(candidate => [candidate.category, candidate.share, candidate.confidence]), [
+        ['grounding', 1, 0.5217],
+        ['timeout', 1, 0.4783]
+      ]);
+    });
+
+    it('names the rules and members behind a cause', () => {
+      const logs = failures(3, { exception: 'Access token expired' });
+      const [candidate] = determineRootCause(logs, 'Access token expired').candidates ?? [];
+
+      assert.equal(candidate.category, 'auth/token-expired');
+      assert.equal(candidate.share, 1);
+      assert.deepEqual(candidate.evidence.ruleIds, ['token-expired']);
+      assert.deepEqual(candidate.evidence.evaluationIds, ['eval_1', 'eval_2', 'eval_3']);
+    });
+  });
+
+  describe('generateRecommendations', () => {
+    it('fills the skill into the category steps', () => {
+      const rootCause = determineRootCause(failures(3, { exception: 'Lookup failed', contextMissing: ['userContext'] }), 'Lookup failed');
+      assert.ok(generateRecommendations(rootCause, 'PasswordReset').every(step => !step.includes('{skill}')));
+    });
+  });
+
+  describe('sharedRecommendations', () => {
+    it('keeps steps recommended for several clusters, most failures first', () => {
+      const clusters = [
+        createClusterFromLogs(failures(4), 'calendar', 'template'),
+        createClusterFromLogs(failures(6, { skillName: 'MailSend' }), 'mail', 'template'),
+        createClusterFromLogs(failures(3, { exception: 'Permission denied' }), 'files', 'template')
+      ];
+      const shared = sharedRecommendations(clusters);
+
+      assert.deepEqual(shared.map(step => step.recommendation), clusters[0].recommendations);
+      shared.forEach(step => {
+        assert.deepEqual(step.clusterIds, ['cluster_calendar', 'cluster_mail']);
+        assert.equal(step.failureCount, 10);
+      });
+      assert.equal(sharedRecommendations(clusters, 1).length, 1);
+    });
+  });
+
+  describe('determineTrend', () => {
+    const historyStart = new Date(NOW.getTime() - 30 * 24 * HOUR_MS);
+
+    it('rises when the window holds significantly more failures than the one before', () => {
+      assert.equal(determineTrend(failures(12, {}, index => 6 * index + 1), historyStart), 'increasing');
+    });
+
+    it('falls when the window holds significantly fewer failures than the one before', () => {
+      assert.equal(determineTrend(failures(12, {}, index => 7 * 24 + 6 * index + 1), historyStart), 'decreasing');
+    });
+
+    it('stays stable on too few failures', () => {
+      assert.equal(determineTrend(failures(4), historyStart), 'stable');
+    });
+
+    it('ignores the prior window when history does not cover it', () => {
+      // Evenly spread failures with nothing before them only rise because history starts in the window
+      const even = failures(14, {}, index => 12 * index + 1);
+      assert.equal(determineTrend(even, historyStart), 'increasing');
+      assert.equal(determineTrend(even, even[even.length - 1].timestamp), 'stable');
+    });
+  });
+});
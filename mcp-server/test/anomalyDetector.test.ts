@@ -0,0 +1,87 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createClusterFromLogs } from '../../shared/analyticsCore.js';
+import { HOUR_MS, MINUTE_MS } from '../../shared/util.js';
+import { AnomalyQuery, anomalyLookbackStart, detectAnomalies } from '../src/anomalyDetector.js';
+import { FailureLog } from '../src/types.js';
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+const at = (hoursAgo: number) => new Date(NOW.getTime() - hoursAgo * HOUR_MS);
+
+let sequence = 0;
+/** `count` failures of `skillName` ten minutes into the hour starting `hoursAgo` hours before NOW. */
+const hourOf = (count: number, hoursAgo: number, skillName = 'TicketCreate'): FailureLog[] =>
+  Array.from({ length: count }, () => ({
+    evaluationId: `eval_${++sequence}`,
+    sessionId: `session_${sequence}`,
+    prompt: `Prompt ${sequence}`,
+    skillName,
+    skillInputs: {},
+    exception: 'Request timed out after 5000 ms',
+    timestamp: new Date(at(hoursAgo).getTime() + 10 * MINUTE_MS)
+  }));
+
+const query = (overrides: Partial<AnomalyQuery> = {}): AnomalyQuery =>
+  ({ range: '24h', asOf: NOW, scopes: ['skill'], ...overrides });
+
+describe('detectAnomalies', () => {
+  it('reaches the baseline weeks back from the end of the current hour', () => {
+    assert.deepEqual(anomalyLookbackStart('24h', NOW), at(24 + 4 * 7 * 24));
+    assert.deepEqual(anomalyLookbackStart('24h', new Date(NOW.getTime() + 1), { baselineWeeks: 1 }), at(23 + 7 * 24));
+  });
+
+  it('finds nothing in an empty window', () => {
+    assert.deepEqual(detectAnomalies([], [], query({ scopes: ['skill', 'cluster'] })), []);
+  });
+
+  it('merges consecutive spiking hours into one event', () => {
+    const logs = [...hourOf(5, 3), ...hourOf(6, 2)];
+    const [event, ...rest] = detectAnomalies(logs, [], query());
+
+    assert.deepEqual(rest, []);
+    assert.deepEqual(event, {
+      id: `skill:TicketCreate@${at(3).toISOString()}`,
+      scope: 'skill',
+      key: 'TicketCreate',
+      label: 'TicketCreate',
+      start: at(3),
+      end: at(1),
+      failureCount: 11,
+      expectedCount: 0,
+      magnitude: 6,
+      contributingClusters: []
+    });
+  });
+
+  it('floors the spread at the Poisson deviation so a quiet history does not flag every failure', () => {
+    assert.deepEqual(detectAnomalies(hourOf(3, 2), [], query()), []);
+    assert.equal(detectAnomalies(hourOf(3, 2), [], query(), { threshold: 2.5 }).length, 1);
+    assert.deepEqual(detectAnomalies(hourOf(2, 2), [], query(), { threshold: 1 }), []);
+  });
+
+  it('compares an hour with the same hour of earlier weeks', () => {
+    const weekly = [1, 2, 3, 4].flatMap(week => hourOf(6, 2 + week * 7 * 24));
+    assert.deepEqual(detectAnomalies([...weekly, ...hourOf(6, 2)], [], query()), []);
+    assert.equal(detectAnomalies([...weekly, ...hourOf(16, 2)], [], query()).length, 1);
+  });
+
+  it('treats hours before the history starts as unknown rather than quiet', () => {
+    // Six failures an hour since the history started 30 hours ago
+    const logs = Array.from({ length: 30 }, (_, hour) => hourOf(6, hour + 1)).flat();
+
+    assert.equal(detectAnomalies(logs, [], query()).length, 1);
+    assert.deepEqual(detectAnomalies(logs, [], query({ historyStart: at(30) })), []);
+  });
+
+  it('reports clusters and the clusters contributing to a skill spike', () => {
+    const spike = [...hourOf(5, 3), ...hourOf(6, 2)];
+    const cluster = createClusterFromLogs(spike, 'key', 'Request timed out after <DURATION>');
+    const events = detectAnomalies([...spike, ...hourOf(1, 2, 'Search')], [cluster], query({ scopes: ['skill', 'cluster'] }));
+
+    assert.deepEqual(events.map(event => [event.scope, event.key]), [['skill', 'TicketCreate'], ['cluster', 'cluster_key']]);
+    events.forEach(event => {
+      assert.deepEqual(event.contributingClusters, [{ clusterId: 'cluster_key', name: cluster.name, failureCount: 11 }]);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createClusterFromLogs } from '../../shared/analyticsCore.js';
+import { HOUR_MS, MINUTE_MS } from '../../shared/util.js';
+import { correlateChanges, detectChangePoints } from '../src/changePoints.js';
+import { ChangeEvent, FailureLog } from '../src/types.js';
+
+const START = new Date('2026-10-17T12:00:00.000Z');
+const WINDOW = { start: START, end: new Date(START.getTime() + 48 * HOUR_MS) };
+
+const hour = (index: number) => new Date(START.getTime() + index * HOUR_MS);
+
+let sequence = 0;
+/** `perHour` failures ten minutes into each of the hours [from, to) after START. */
+const steady = (perHour: number, from: number, to: number, skillName = 'TicketCreate'): FailureLog[] =>
+  Array.from({ length: to - from }, (_, offset) => Array.from({ length: perHour }, () => ({
+    evaluationId: `eval_${++sequence}`,
+    sessionId: `session_${sequence}`,
+    prompt: `Prompt ${sequence}`,
+    skillName,
+    skillInputs: {},
+    exception: 'Request timed out after 5000 ms',
+    timestamp: new Date(hour(from + offset).getTime() + 10 * MINUTE_MS)
+  }))).flat();
+
+const deployment = (hoursAfterStart: number): ChangeEvent => ({
+  id: `deploy@${hoursAfterStart}`,
+  kind: 'deployment',
+  skillName: 'TicketCreate',
+  version: '2.0.0',
+  timestamp: new Date(START.getTime() + hoursAfterStart * HOUR_MS)
+});
+
+describe('detectChangePoints', () => {
+  it('finds nothing in an empty or inverted window', () => {
+    assert.deepEqual(detectChangePoints([], [], WINDOW), []);
+    assert.deepEqual(detectChangePoints(steady(5, 0, 48), [], { start: WINDOW.end, end: START }), []);
+  });
+
+  it('finds nothing at a steady rate', () => {
+    assert.deepEqual(detectChangePoints(steady(3, 0, 48), [], WINDOW), []);
+  });
+
+  it('finds the hour a rate steps up, with the rates either side', () => {
+    const [point, ...rest] = detectChangePoints([...steady(1, 0, 24), ...steady(5, 24, 48)], [], WINDOW);
+
+    assert.deepEqual(rest, []);
+    assert.deepEqual(
+      [point.scope, point.key, point.at, point.rateBefore, point.rateAfter],
+      ['skill', 'TicketCreate', hour(24), 1, 5]
+    );
+    assert.ok(point.score >= 2 * Math.log(48));
+  });
+
+  it('splits each segment again, latest change first', () => {
+    const logs = [...steady(1, 0, 16), ...steady(6, 16, 32), ...steady(1, 32, 48)];
+    const points = detectChangePoints(logs, [], WINDOW);
+
+    assert.deepEqual(points.map(point => [point.at, point.rateBefore, point.rateAfter]), [
+      [hour(32), 6, 1],
+      [hour(16), 1, 6]
+    ]);
+  });
+
+  it('drops significant shifts smaller than the minimum rate ratio', () => {
+    const logs = [...steady(40, 0, 24), ...steady(50, 24, 48)];
+
+    assert.deepEqual(detectChangePoints(logs, [], WINDOW), []);
+    assert.equal(detectChangePoints(logs, [], WINDOW, { minRateRatio: 1.2 }).length, 1);
+  });
+
+  it('keeps segments at least the minimum length', () => {
+    const logs = steady(20, 3, 48);
+    assert.deepEqual(detectChangePoints(logs, [], WINDOW).map(point => point.at), [hour(6)]);
+    assert.deepEqual(detectChangePoints(logs, [], WINDOW, { minSegmentHours: 2 }).map(point => point.at), [hour(3)]);
+  });
+});
+
+describe('correlateChanges', () => {
+  const before = steady(1, 0, 24);
+  const after = steady(5, 24, 48);
+  const newCluster = createClusterFromLogs(after.filter((_, index) => index % 2 === 0), 'new', 'Request timed out after <DURATION>');
+  const shiftedCluster = createClusterFromLogs([...before, ...after.filter((_, index) => index % 2 === 1)], 'shifted', 'Request timed out after <DURATION>');
+  const points = detectChangePoints([...before, ...after], [newCluster, shiftedCluster], WINDOW);
+
+  it('links skill shifts, new clusters and cluster shifts that follow a change', () => {
+    const [correlation] = correlateChanges([deployment(23.5)], points, [newCluster, shiftedCluster], { toleranceMs: 6 * HOUR_MS });
+
+    assert.deepEqual(correlation.skillChangePoints.map(point => point.at), [hour(24)]);
+    assert.deepEqual(correlation.clusters.map(cluster => [cluster.clusterId, cluster.reason, cluster.lagMinutes]), [
+      ['cluster_shifted', 'rate-change', 30],
+      ['cluster_new', 'onset', 40]
+    ]);
+  });
+
+  it('lets a shift start up to an hour before the change, but not an onset', () => {
+    const [correlation] = correlateChanges([deployment(24.5)], points, [newCluster, shiftedCluster], { toleranceMs: 6 * HOUR_MS });
+
+    assert.deepEqual(correlation.skillChangePoints.map(point => point.at), [hour(24)]);
+    assert.deepEqual(correlation.clusters.map(cluster => [cluster.clusterId, cluster.reason, cluster.lagMinutes]), [
+      ['cluster_new', 'rate-change', -30],
+      ['cluster_shifted', 'rate-change', -30]
+    ]);
+  });
+
+  it('ignores what follows later than the tolerance', () => {
+    const [correlation] = correlateChanges([deployment(12)], points, [newCluster, shiftedCluster], { toleranceMs: 6 * HOUR_MS });
+    assert.deepEqual([correlation.skillChangePoints, correlation.clusters], [[], []]);
+  });
+
+  it('does not call a cluster new when the history starts after the change', () => {
+    const [correlation] = correlateChanges([deployment(23.5)], points, [newCluster], {
+      toleranceMs: 6 * HOUR_MS,
+      historyStart: hour(24)
+    });
+    assert.deepEqual(correlation.clusters.map(cluster => cluster.reason), ['rate-change']);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { processFailureClusters } from '../../shared/analyticsCore.js';
+import { HOUR_MS } from '../../shared/util.js';
+import { applyClusterOverrides } from '../src/clusterOverrides.js';
+import { reconcileClusterIdentities } from '../src/clusterIdentity.js';
+import { ClusterOverride, FailureLog, ProcessedCluster } from '../src/types.js';
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+const failures = (count: number, prefix: string, exception: string): FailureLog[] =>
+  Array.from({ length: count }, (_, index) => ({
+    evaluationId: `${prefix}_${index}`,
+    sessionId: `session_${prefix}_${index}`,
+    prompt: `Prompt ${index}`,
+    skillName: 'S',
+    skillInputs: {},
+    exception,
+    timestamp: new Date(NOW.getTime() - (index + 1) * HOUR_MS)
+  }));
+
+const LOGS = [
+  ...failures(6, 'timeout', 'Request timed out waiting for upstream'),
+  ...failures(6, 'denied', 'Permission denied for mailbox')
+];
+
+/** The clustering, identity and override passes of `refreshData`. */
+const refresh = (previous: ProcessedCluster[], overrides: ClusterOverride[]) => {
+  const computed = reconcileClusterIdentities(previous, processFailureClusters(LOGS, 3)).clusters;
+  return reconcileClusterIdentities(previous, applyClusterOverrides(computed, overrides)).clusters;
+};
+
+const members = (cluster: ProcessedCluster) => cluster.failureLogs.map(log => log.evaluationId);
+
+describe('applyClusterOverrides', () => {
+  // The denied failures were last stored as cluster_legacy, so they inherit that ID instead of their computed one
+  const initial = () => {
+    const legacy = processFailureClusters(LOGS, 3).map(cluster =>
+      cluster.failureLogs[0].evaluationId.startsWith('denied') ? { ...cluster, id: 'cluster_legacy' } : cluster);
+    const clusters = refresh(legacy, []);
+    const target = clusters.find(cluster => cluster.id !== 'cluster_legacy')!;
+    const source = clusters.find(cluster => cluster.id === 'cluster_legacy')!;
+    return { clusters, target, source };
+  };
+
+  it('keeps a merge of an inherited ID across refreshes', () => {
+    const { clusters, target, source } = initial();
+    const override: ClusterOverride = {
+      kind: 'merge',
+      targetClusterId: target.id,
+      sourceClusterIds: [source.id],
+      evaluationIds: members(source)
+    };
+
+    let snapshot = applyClusterOverrides(clusters, [override]);
+    assert.deepEqual(snapshot.map(cluster => [cluster.id, cluster.failureCount]), [[target.id, 12]]);
+
+    for (let pass = 0; pass < 2; pass++) {
+      snapshot = refresh(snapshot, [override]);
+      assert.deepEqual(snapshot.map(cluster => [cluster.id, cluster.failureCount]), [[target.id, 12]]);
+    }
+  });
+
+  it('moves split members wherever they live', () => {
+    const { clusters, target } = initial();
+    const override: ClusterOverride = {
+      kind: 'split',
+      clusterId: target.id,
+      newClusterId: 'cluster_split',
+      evaluationIds: members(target).slice(0, 2)
+    };
+
+    const snapshot = refresh(applyClusterOverrides(clusters, [override]), [override]);
+    assert.deepEqual(members(snapshot.find(cluster => cluster.id === 'cluster_split')!), members(target).slice(0, 2));
+    assert.equal(snapshot.find(cluster => cluster.id === target.id)?.failureCount, 4);
+  });
+});
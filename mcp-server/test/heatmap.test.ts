@@ -0,0 +1,103 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createClusterFromLogs } from '../../shared/analyticsCore.js';
+import { HOUR_MS } from '../../shared/util.js';
+import { HeatmapQuery, buildFailureHeatmap, isTimeZone, localSlot } from '../src/heatmap.js';
+import { FailureLog, InvocationCount } from '../src/types.js';
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+let sequence = 0;
+const failure = (timestamp: string, skillName = 'TicketCreate', exception = 'Request timed out after 5000 ms'): FailureLog => ({
+  evaluationId: `eval_${++sequence}`,
+  sessionId: `session_${sequence}`,
+  prompt: `Prompt ${sequence}`,
+  skillName,
+  skillInputs: {},
+  exception,
+  timestamp: new Date(timestamp)
+});
+
+const query = (overrides: Partial<HeatmapQuery> = {}): HeatmapQuery =>
+  ({ range: '24h', asOf: NOW, timezone: 'UTC', binning: 'hour', ...overrides });
+
+describe('heatmap time zones', () => {
+  it('bins by the local hour and by the local weekday from Monday', () => {
+    const date = new Date('2026-10-18T20:30:00.000Z');
+
+    assert.equal(localSlot(date, 'UTC', 'hour'), 20);
+    assert.equal(localSlot(date, 'UTC', 'weekday'), 6);
+    assert.equal(localSlot(date, 'Asia/Tokyo', 'hour'), 5);
+    assert.equal(localSlot(date, 'Asia/Tokyo', 'weekday'), 0);
+    assert.equal(localSlot(date, 'Asia/Kolkata', 'hour'), 2);
+  });
+
+  it('follows daylight saving time changes', () => {
+    // New York leaves daylight saving time on 1 November 2026
+    assert.equal(localSlot(new Date('2026-10-31T16:00:00.000Z'), 'America/New_York', 'hour'), 12);
+    assert.equal(localSlot(new Date('2026-11-02T16:00:00.000Z'), 'America/New_York', 'hour'), 11);
+  });
+
+  it('recognises IANA time zones only', () => {
+    assert.equal(isTimeZone('Europe/Berlin'), true);
+    assert.equal(isTimeZone('Mars/Olympus'), false);
+  });
+});
+
+describe('buildFailureHeatmap', () => {
+  it('has no rows for an empty window', () => {
+    const heatmap = buildFailureHeatmap([failure('2026-10-17T12:00:00.000Z')], [], [], query());
+
+    assert.deepEqual(heatmap.rows, []);
+    assert.equal(heatmap.slotLabels.length, 24);
+    assert.equal(buildFailureHeatmap([], [], [], query({ binning: 'weekday' })).slotLabels[0], 'Mon');
+  });
+
+  it('puts the same UTC hour in different local slots either side of a DST change', () => {
+    const logs = [failure('2026-10-31T16:10:00.000Z'), failure('2026-11-02T16:10:00.000Z')];
+    const heatmap = buildFailureHeatmap(logs, [], [], query({
+      range: '7d',
+      asOf: new Date('2026-11-03T00:00:00.000Z'),
+      timezone: 'America/New_York'
+    }));
+    const [row] = heatmap.rows;
+
+    assert.deepEqual([row.cells[12].failures, row.cells[11].failures, row.failures], [1, 1, 2]);
+  });
+
+  it('spreads invocation buckets over the hours they cover and rates each cell', () => {
+    const logs = [failure('2026-10-19T10:05:00.000Z'), failure('2026-10-19T10:15:00.000Z'), failure('2026-10-19T11:05:00.000Z', 'Search')];
+    const counts: InvocationCount[] = [
+      { skillName: 'TicketCreate', bucketStart: new Date(NOW.getTime() - 2 * HOUR_MS), bucketMinutes: 120, invocations: 120 }
+    ];
+    const [ticket, search] = buildFailureHeatmap(logs, counts, [], query()).rows;
+
+    assert.deepEqual(
+      [ticket.cells[10].invocations, ticket.cells[11].invocations, ticket.cells[10].errorRate, ticket.invocations],
+      [60, 60, 0.0333, 120]
+    );
+    assert.deepEqual([search.invocations, search.cells[11].invocations, search.cells[11].errorRate], [null, null, null]);
+  });
+
+  it('never reports fewer invocations than failures in a cell', () => {
+    const logs = [failure('2026-10-19T10:05:00.000Z'), failure('2026-10-19T10:15:00.000Z')];
+    const counts: InvocationCount[] = [
+      { skillName: 'TicketCreate', bucketStart: new Date('2026-10-19T10:00:00.000Z'), bucketMinutes: 60, invocations: 1 }
+    ];
+    const [row] = buildFailureHeatmap(logs, counts, [], query()).rows;
+
+    assert.deepEqual([row.cells[10].invocations, row.cells[10].errorRate], [2, 1]);
+  });
+
+  it('lists the clusters behind a cell, most failures first', () => {
+    const timeouts = [failure('2026-10-19T10:05:00.000Z'), failure('2026-10-19T10:15:00.000Z')];
+    const denied = [failure('2026-10-19T10:25:00.000Z', 'TicketCreate', 'Permission denied')];
+    const clusters = [
+      createClusterFromLogs(denied, 'denied', 'Permission denied'),
+      createClusterFromLogs(timeouts, 'timeouts', 'Request timed out after <DURATION>')
+    ];
+    const [row] = buildFailureHeatmap([...timeouts, ...denied], [], clusters, query()).rows;
+
+    assert.deepEqual(row.cells[10].clusterIds, ['cluster_timeouts', 'cluster_denied']);
+  });
+});
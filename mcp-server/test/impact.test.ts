@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createClusterFromLogs } from '../../shared/analyticsCore.js';
+import { MINUTE_MS } from '../../shared/util.js';
+import { DEFAULT_COST_MODEL, computeImpactMatrix, mergeCostModel } from '../src/impact.js';
+import { ClusterLifecycle, ClusterStatus, FailureLog, ProcessedCluster } from '../src/types.js';
+
+const DETECTED = new Date('2026-10-19T08:00:00.000Z');
+
+let sequence = 0;
+const failure = (userId?: string, sessionId = `session_${sequence + 1}`): FailureLog => ({
+  evaluationId: `eval_${++sequence}`,
+  sessionId,
+  prompt: 'Create a ticket',
+  skillName: 'TicketCreate',
+  skillInputs: {},
+  exception: 'Request timed out after 5000 ms',
+  timestamp: DETECTED,
+  ...(userId ? { userId } : {})
+});
+
+/** Lifecycle detected at DETECTED that moved through `changes`, given as [status, minutes after detection]. */
+const lifecycle = (...changes: [ClusterStatus, number][]): ClusterLifecycle => {
+  const at = (minutes: number) => new Date(DETECTED.getTime() + minutes * MINUTE_MS).toISOString();
+  const history = [{ status: 'new' as ClusterStatus, at: at(0) }, ...changes.map(([status, minutes]) => ({ status, at: at(minutes) }))];
+  const last = history[history.length - 1];
+  return { status: last.status, detectedAt: at(0), statusChangedAt: last.at, history };
+};
+
+const cluster = (key: string, logs: FailureLog[], history: ClusterLifecycle = lifecycle()): ProcessedCluster =>
+  ({ ...createClusterFromLogs(logs, key, 'Request timed out after <DURATION>'), lifecycle: history });
+
+describe('computeImpactMatrix', () => {
+  it('reports zero impact without clusters', () => {
+    assert.deepEqual(computeImpactMatrix([], DEFAULT_COST_MODEL).totals, {
+      failures: 0,
+      affectedUsers: 0,
+      affectedSessions: 0,
+      mttrMinutes: null,
+      resolutions: 0,
+      cost: 0
+    });
+  });
+
+  it('counts distinct users and sessions, per cluster and overall', () => {
+    const matrix = computeImpactMatrix([
+      cluster('a', [failure('alice', 's1'), failure('alice', 's1'), failure('bob', 's2'), failure(undefined, 's3')]),
+      cluster('b', [failure('bob', 's2'), failure('carol', 's4')])
+    ], DEFAULT_COST_MODEL);
+
+    assert.deepEqual(matrix.clusters.map(impact => [impact.clusterId, impact.failures, impact.affectedUsers, impact.affectedSessions]), [
+      ['cluster_a', 4, 2, 3],
+      ['cluster_b', 2, 2, 2]
+    ]);
+    assert.deepEqual([matrix.totals.failures, matrix.totals.affectedUsers, matrix.totals.affectedSessions], [6, 3, 4]);
+  });
+
+  it('averages the time from detection or regression to each resolution', () => {
+    const [impact] = computeImpactMatrix([
+      cluster('a', [failure('alice')], lifecycle(['triaged', 30], ['resolved', 90], ['regressed', 200], ['resolved', 260]))
+    ], DEFAULT_COST_MODEL).clusters;
+
+    assert.deepEqual([impact.mttrMinutes, impact.resolutions], [75, 2]);
+  });
+
+  it('leaves out open repairs and does not reopen on wont-fix', () => {
+    const matrix = computeImpactMatrix([
+      cluster('open', [failure('alice')], lifecycle(['triaged', 30])),
+      cluster('declined', [failure('bob')], lifecycle(['resolved', 40], ['wont-fix', 50])),
+      cluster('reopened', [failure('carol')], lifecycle(['wont-fix', 10], ['resolved', 120]))
+    ], DEFAULT_COST_MODEL);
+    const byId = new Map(matrix.clusters.map(impact => [impact.clusterId, impact]));
+
+    assert.deepEqual([byId.get('cluster_open')!.mttrMinutes, byId.get('cluster_open')!.resolutions], [null, 0]);
+    assert.deepEqual([byId.get('cluster_declined')!.mttrMinutes, byId.get('cluster_declined')!.resolutions], [40, 1]);
+    assert.equal(byId.get('cluster_reopened')!.mttrMinutes, 120);
+    assert.deepEqual([matrix.totals.mttrMinutes, matrix.totals.resolutions], [80, 2]);
+  });
+
+  it('prices failures and affected users, costliest first', () => {
+    const clusters = [
+      cluster('many-failures', [failure('alice'), failure('alice'), failure('alice'), failure('alice')]),
+      cluster('many-users', [failure('bob'), failure('carol')])
+    ];
+
+    assert.deepEqual(computeImpactMatrix(clusters, DEFAULT_COST_MODEL).clusters.map(impact => [impact.clusterId, impact.cost]), [
+      ['cluster_many-users', 60],
+      ['cluster_many-failures', 45]
+    ]);
+    const cheap = mergeCostModel(DEFAULT_COST_MODEL, { perFailure: 0.1, perAffectedUser: 0 });
+    assert.equal(computeImpactMatrix(clusters, cheap).totals.cost, 0.6);
+  });
+});
+
+describe('mergeCostModel', () => {
+  it('overlays the given weights and normalises the currency', () => {
+    assert.deepEqual(mergeCostModel(DEFAULT_COST_MODEL, { perFailure: 2, currency: 'eur' }), { perFailure: 2, perAffectedUser: 25, currency: 'EUR' });
+    assert.equal(mergeCostModel(DEFAULT_COST_MODEL, undefined), DEFAULT_COST_MODEL);
+  });
+
+  it('rejects negative weights and malformed currencies', () => {
+    assert.throws(() => mergeCostModel(DEFAULT_COST_MODEL, { perAffectedUser: -1 }), /perAffectedUser must be a non-negative number/);
+    assert.throws(() => mergeCostModel(DEFAULT_COST_MODEL, { currency: 'euro' }), /currency must be a three-letter ISO 4217 code/);
+    assert.throws(() => mergeCostModel(DEFAULT_COST_MODEL, []), /cost model must be an object/);
+  });
+});
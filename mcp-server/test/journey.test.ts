@@ -0,0 +1,96 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createClusterFromLogs } from '../../shared/analyticsCore.js';
+import { HOUR_MS, MINUTE_MS } from '../../shared/util.js';
+import { JOURNEY_STAGES, computeJourneyFunnel } from '../src/journey.js';
+import { FailureLog, JourneyStage, StageEvent } from '../src/types.js';
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+/** Stage events of one session, a minute apart, starting `hoursAgo` hours before NOW. */
+const session = (
+  sessionId: string,
+  reached: JourneyStage[],
+  failed?: Partial<StageEvent> & { stage: JourneyStage },
+  extra: Partial<StageEvent> = {},
+  hoursAgo = 2
+): StageEvent[] => {
+  const at = (index: number) => new Date(NOW.getTime() - hoursAgo * HOUR_MS + index * MINUTE_MS);
+  const events: StageEvent[] = reached.map((stage, index) =>
+    ({ sessionId, stage, outcome: 'reached', timestamp: at(index), ...extra }));
+  if (failed) events.push({ sessionId, outcome: 'failed', timestamp: at(reached.length), ...extra, ...failed });
+  return events;
+};
+
+const failure = (evaluationId: string, sessionId: string, skillName = 'TicketCreate'): FailureLog => ({
+  evaluationId,
+  sessionId,
+  prompt: 'Create a ticket',
+  skillName,
+  skillInputs: {},
+  exception: 'Request timed out after 5000 ms',
+  timestamp: new Date(NOW.getTime() - HOUR_MS)
+});
+
+const ALL_STAGES = JOURNEY_STAGES.map(({ stage }) => stage);
+
+describe('computeJourneyFunnel', () => {
+  const clustered = failure('eval_clustered', 'failed-skill');
+  const cluster = createClusterFromLogs([clustered], 'timeouts', 'Request timed out after <DURATION>');
+  const events = [
+    ...session('satisfied', ALL_STAGES, undefined, { skillName: 'TicketCreate', userId: 'alice' }),
+    ...session('failed-skill', ['invoked', 'intent', 'context'], { stage: 'skill', evaluationId: 'eval_clustered' }, { userId: 'bob' }),
+    ...session('timed-out', ['invoked', 'intent', 'context'], { stage: 'skill', errorCode: 'TIMEOUT' }, { skillName: 'TicketCreate', userId: 'bob' }),
+    ...session('abandoned', ['invoked', 'intent', 'context', 'skill', 'response'], undefined, { skillName: 'Search' }),
+    ...session('failed-early', [], { stage: 'invoked' }),
+    ...session('last-week', ALL_STAGES, undefined, {}, 30)
+  ];
+  const logs = [clustered, failure('eval_unclustered', 'failed-early')];
+
+  it('counts each session at every stage up to the furthest it reached', () => {
+    const funnel = computeJourneyFunnel(events, logs, [cluster], '24h', NOW);
+
+    assert.deepEqual([funnel.sessions, funnel.users], [5, 2]);
+    assert.deepEqual(funnel.stages.map(stage => [stage.stage, stage.sessions, stage.dropped]), [
+      ['invoked', 4, 1],
+      ['intent', 4, 0],
+      ['context', 4, 0],
+      ['skill', 2, 2],
+      ['response', 2, 0],
+      ['satisfied', 1, 1]
+    ]);
+    assert.deepEqual(funnel.stages.map(stage => [stage.rate, stage.conversion]), [
+      [0.8, 0.8], [0.8, 1], [0.8, 1], [0.4, 0.5], [0.4, 1], [0.2, 0.5]
+    ]);
+  });
+
+  it('attributes drop-offs to clusters, error codes, unclassified failures or abandonment', () => {
+    const { stages } = computeJourneyFunnel(events, logs, [cluster], '24h', NOW);
+    const causes = (stage: number) => stages[stage].causes.map(cause => [cause.clusterId, cause.label, cause.sessions, cause.share]);
+
+    assert.deepEqual(causes(0), [[undefined, 'Unclassified failure', 1, 1]]);
+    assert.deepEqual(causes(3), [['cluster_timeouts', cluster.name, 1, 0.5], [undefined, 'TIMEOUT', 1, 0.5]]);
+    assert.deepEqual(causes(5), [[undefined, 'Abandoned', 1, 1]]);
+  });
+
+  it('falls back to the newest clustered failure log of the session', () => {
+    const withoutId = session('failed-skill', ['invoked', 'intent', 'context'], { stage: 'skill' });
+    const { stages } = computeJourneyFunnel(withoutId, [clustered], [cluster], '24h', NOW);
+
+    assert.deepEqual(stages[3].causes.map(cause => cause.clusterId), ['cluster_timeouts']);
+  });
+
+  it('narrows to sessions of a skill, from their events or their failure logs', () => {
+    const funnel = computeJourneyFunnel(events, logs, [cluster], '24h', NOW, 'TicketCreate');
+    assert.equal(funnel.sessions, 4);
+  });
+
+  it('reports empty stages for a window without sessions', () => {
+    const funnel = computeJourneyFunnel([], logs, [cluster], '24h', NOW);
+
+    assert.equal(funnel.sessions, 0);
+    funnel.stages.forEach(stage => {
+      assert.deepEqual([stage.sessions, stage.rate, stage.conversion, stage.dropped, stage.causes], [0, 0, 0, 0, []]);
+    });
+  });
+});
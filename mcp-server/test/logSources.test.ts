@@ -0,0 +1,45 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateChangeEvent } from '../src/changeEvents.js';
+import { parseRecords, parseTimestamp } from '../src/logSources.js';
+
+describe('record loading', () => {
+  it('revives ISO strings and epoch milliseconds, and names bad timestamps', () => {
+    assert.equal(parseTimestamp('2026-10-19T12:00:00.000Z').getTime(), Date.UTC(2026, 9, 19, 12));
+    assert.equal(parseTimestamp(0).getTime(), 0);
+    assert.throws(() => parseTimestamp(undefined), /"timestamp" must be an ISO string or epoch milliseconds/);
+    assert.throws(() => parseTimestamp('yesterday'), /"timestamp" is not a valid date: yesterday/);
+  });
+
+  it('validates JSONL lines and reports the failing ones by line number', () => {
+    const content = [
+      '{"skillName":"Search","version":"1.2.0","timestamp":"2026-10-19T10:00:00.000Z"}',
+      '',
+      '{"skillName":"Search","version":"1.3.0","timestamp":"soon"}',
+      'not json'
+    ].join('\n');
+    const { records, issues } = parseRecords(content, 'jsonl', validateChangeEvent);
+
+    assert.deepEqual(records.map(record => record.version), ['1.2.0']);
+    assert.deepEqual(issues.map(issue => issue.line), [3, 4]);
+    assert.match(issues[0].message, /"timestamp" is not a valid date/);
+  });
+
+  it('keys CSV rows by the header, leaves out empty cells and rejects ragged rows', () => {
+    const content = [
+      'skillName,version,timestamp,kind',
+      'Search,1.2.0,2026-10-19T10:00:00.000Z,',
+      'Search,1.3.0,2026-10-19T11:00:00.000Z,config',
+      'Search,1.4.0'
+    ].join('\n');
+    const { records, issues } = parseRecords(content, 'csv', validateChangeEvent);
+
+    assert.deepEqual(records.map(record => [record.version, record.kind]), [['1.2.0', 'deployment'], ['1.3.0', 'config']]);
+    assert.deepEqual(issues, [{ line: 4, message: 'expected 4 columns, found 2' }]);
+  });
+
+  it('reads an empty file as no records', () => {
+    assert.deepEqual(parseRecords('', 'csv', validateChangeEvent), { records: [], issues: [] });
+    assert.deepEqual(parseRecords('\n', 'jsonl', validateChangeEvent), { records: [], issues: [] });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { HOUR_MS, MINUTE_MS } from '../../shared/util.js';
+import { computeReliability } from '../src/reliability.js';
+import { FailureLog, InvocationCount } from '../src/types.js';
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+const at = (hoursAgo: number) => new Date(NOW.getTime() - hoursAgo * HOUR_MS);
+
+let sequence = 0;
+const failures = (count: number, hoursAgo: number, skillName = 'TicketCreate'): FailureLog[] =>
+  Array.from({ length: count }, () => ({
+    evaluationId: `eval_${++sequence}`,
+    sessionId: `session_${sequence}`,
+    prompt: `Prompt ${sequence}`,
+    skillName,
+    skillInputs: {},
+    exception: 'Request timed out after 5000 ms',
+    timestamp: new Date(at(hoursAgo).getTime() + 10 * MINUTE_MS)
+  }));
+
+const invocations = (count: number, hoursAgo: number, bucketMinutes = 60, skillName = 'TicketCreate'): InvocationCount =>
+  ({ skillName, bucketStart: at(hoursAgo), bucketMinutes, invocations: count });
+
+/** 100 invocations in every hour of the last day. */
+const hourly = (skillName = 'TicketCreate') =>
+  Array.from({ length: 24 }, (_, index) => invocations(100, index + 1, 60, skillName));
+
+describe('computeReliability', () => {
+  it('reports no rates for an empty window', () => {
+    const report = computeReliability([], [], '24h', NOW);
+
+    assert.deepEqual(report.skills, []);
+    assert.deepEqual([report.total.errorRate, report.total.reliability, report.total.slaAttainment], [null, null, null]);
+    assert.equal(report.buckets.length, 24);
+  });
+
+  it('divides failures by invocations and counts the buckets that met the target', () => {
+    const report = computeReliability(failures(2, 24), hourly(), '24h', NOW);
+    const [skill] = report.skills;
+
+    assert.deepEqual([skill.invocations, skill.failures, skill.errorRate, skill.reliability], [2400, 2, 0.0008, 0.9992]);
+    assert.equal(skill.slaAttainment, 0.9583);
+    assert.equal(computeReliability(failures(2, 24), hourly(), '24h', NOW, 0.98).skills[0].slaAttainment, 1);
+    assert.deepEqual(report.total.errorRate, skill.errorRate);
+  });
+
+  it('leaves skills without telemetry out of the total', () => {
+    const report = computeReliability([...failures(2, 24), ...failures(5, 3, 'Search')], hourly(), '24h', NOW);
+    const search = report.skills.find(skill => skill.skillName === 'Search')!;
+
+    assert.deepEqual([search.failures, search.errorRate, search.reliability, search.slaAttainment], [5, null, null, null]);
+    assert.ok(search.invocationCounts.every(count => count === 0));
+    assert.deepEqual([report.total.failures, report.total.invocations], [2, 2400]);
+  });
+
+  it('raises invocation counts that lag behind the failures', () => {
+    const report = computeReliability(failures(3, 5), [invocations(1, 5)], '24h', NOW);
+    const [skill] = report.skills;
+
+    assert.deepEqual([skill.invocations, skill.errorRate, skill.slaAttainment], [3, 1, 0]);
+    assert.equal(skill.invocationCounts[19], 3);
+  });
+
+  it('splits invocation buckets across the window edge and its buckets', () => {
+    const report = computeReliability([], [invocations(200, 25, 120), invocations(60, 3.5)], '24h', NOW);
+    const [skill] = report.skills;
+
+    assert.equal(skill.invocations, 160);
+    assert.deepEqual([skill.invocationCounts[0], skill.invocationCounts[20], skill.invocationCounts[21]], [100, 30, 30]);
+    assert.deepEqual([skill.byHourOfDay.invocations[12], skill.byHourOfDay.invocations[8], skill.byHourOfDay.invocations[9]], [100, 30, 30]);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createClusterFromLogs } from '../../shared/analyticsCore.js';
+import { MINUTE_MS } from '../../shared/util.js';
+import { buildSessionTrace } from '../src/sessionTrace.js';
+import { FailureLog, StageEvent } from '../src/types.js';
+
+const START = new Date('2026-10-19T11:00:00.000Z');
+
+const at = (minutes: number) => new Date(START.getTime() + minutes * MINUTE_MS);
+
+const failure = (evaluationId: string, minutes: number, skillName = 'TicketCreate', extra: Partial<FailureLog> = {}): FailureLog => ({
+  evaluationId,
+  sessionId: 'session_1',
+  prompt: 'Create a ticket',
+  skillName,
+  skillInputs: {},
+  exception: 'Request timed out after 5000 ms',
+  timestamp: at(minutes),
+  ...extra
+});
+
+const stage = (stage: StageEvent['stage'], minutes: number, outcome: StageEvent['outcome'] = 'reached', extra: Partial<StageEvent> = {}): StageEvent =>
+  ({ sessionId: 'session_1', stage, outcome, timestamp: at(minutes), ...extra });
+
+describe('buildSessionTrace', () => {
+  it('numbers the attempts of each skill in time order', () => {
+    const logs = [failure('eval_3', 5), failure('eval_1', 1), failure('eval_search', 2, 'Search'), failure('eval_2', 3)];
+    const trace = buildSessionTrace('session_1', logs, [], []);
+
+    assert.deepEqual(trace.failures.map(entry => [entry.log.evaluationId, entry.attempt]), [
+      ['eval_1', 1],
+      ['eval_search', 1],
+      ['eval_2', 2],
+      ['eval_3', 3]
+    ]);
+    assert.equal(trace.retryChain, true);
+  });
+
+  it('is no retry chain when each skill failed once', () => {
+    const trace = buildSessionTrace('session_1', [failure('eval_1', 1), failure('eval_2', 2, 'Search')], [], []);
+
+    assert.deepEqual(trace.failures.map(entry => entry.attempt), [1, 1]);
+    assert.equal(trace.retryChain, false);
+  });
+
+  it('names the cluster of each failure', () => {
+    const clustered = failure('eval_1', 1);
+    const cluster = createClusterFromLogs([clustered], 'timeouts', 'Request timed out after <DURATION>');
+    const trace = buildSessionTrace('session_1', [clustered, failure('eval_2', 2)], [], [cluster]);
+
+    assert.deepEqual(trace.failures.map(entry => [entry.clusterId, entry.clusterName]), [
+      ['cluster_timeouts', cluster.name],
+      [null, null]
+    ]);
+  });
+
+  it('keeps pipeline order for stages logged in the same instant and stops before a failed stage', () => {
+    const events = [stage('context', 0), stage('invoked', 0), stage('intent', 0), stage('skill', 1, 'failed')];
+    const trace = buildSessionTrace('session_1', [], events, []);
+
+    assert.deepEqual(trace.stageEvents.map(event => event.stage), ['invoked', 'intent', 'context', 'skill']);
+    assert.equal(trace.furthestStage, 'context');
+  });
+
+  it('spans failures and stage events and collects their users, tenants and skills', () => {
+    const logs = [failure('eval_1', 2, 'TicketCreate', { userId: 'bob', tenantId: 'acme' })];
+    const events = [stage('invoked', 0, 'reached', { userId: 'alice' }), stage('response', 4, 'reached', { skillName: 'Search', userId: 'bob' })];
+    const trace = buildSessionTrace('session_1', logs, events, []);
+
+    assert.deepEqual([trace.start, trace.end], [at(0), at(4)]);
+    assert.deepEqual([trace.userIds, trace.tenantIds, trace.skills], [['alice', 'bob'], ['acme'], ['Search', 'TicketCreate']]);
+    assert.equal(trace.furthestStage, 'response');
+  });
+
+  it('is empty for a session without failures or stage events', () => {
+    const trace = buildSessionTrace('session_1', [], [], []);
+
+    assert.deepEqual(
+      [trace.start, trace.end, trace.failures, trace.stageEvents, trace.furthestStage, trace.retryChain],
+      [null, null, [], [], null, false]
+    );
+  });
+
+  it('has no furthest stage when the session failed on invocation', () => {
+    assert.equal(buildSessionTrace('session_1', [], [stage('invoked', 0, 'failed')], []).furthestStage, null);
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createClusterFromLogs } from '../../shared/analyticsCore.js';
+import { compareClusterInputs, profileSkillInputs } from '../src/skillInputs.js';
+import { FailureLog } from '../src/types.js';
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+let sequence = 0;
+const failure = (skillInputs: Record<string, unknown>, skillName = 'TicketCreate'): FailureLog => ({
+  evaluationId: `eval_${++sequence}`,
+  sessionId: `session_${sequence}`,
+  prompt: `Prompt ${sequence}`,
+  skillName,
+  skillInputs,
+  exception: 'Request timed out after 5000 ms',
+  timestamp: NOW
+});
+
+const times = (count: number, make: () => FailureLog) => Array.from({ length: count }, make);
+
+const baseline = () => times(20, () => failure({ priority: 'high', title: 'Printer is down' }));
+
+/** Compares a cluster of `clusterLogs` with the skill's other failures in `others`. */
+const compare = (clusterLogs: FailureLog[], others: FailureLog[]) => {
+  const cluster = createClusterFromLogs(clusterLogs, 'timeouts', 'Request timed out after <DURATION>');
+  return compareClusterInputs(cluster, [...clusterLogs, ...others]);
+};
+
+describe('compareClusterInputs', () => {
+  it('flags a field the cluster is missing far more often than the baseline', () => {
+    const [skill] = compare(times(10, () => failure({ title: 'Printer is down' })), baseline()).skills;
+    const [priority, title] = skill.fields;
+
+    assert.deepEqual([skill.clusterFailures, skill.baselineFailures], [10, 20]);
+    assert.deepEqual(
+      [priority.field, priority.issue, priority.clusterRate, priority.baselineRate, priority.zScore, priority.significant],
+      ['priority', 'missing', 1, 0, 5.4772, true]
+    );
+    assert.deepEqual([title.field, title.zScore, title.significant], ['title', 0, false]);
+  });
+
+  it('flags values of another type than most failures of the skill have, and blank strings', () => {
+    const clusterLogs = [...times(7, () => failure({ priority: 42 })), ...times(3, () => failure({ priority: ' ' }))];
+    const [priority] = compare(clusterLogs, baseline()).skills[0].fields;
+
+    assert.deepEqual([priority.field, priority.issue, priority.clusterRate, priority.significant], ['priority', 'malformed', 1, true]);
+    assert.deepEqual(priority.cluster.types, { number: 7, string: 3 });
+  });
+
+  it('does not flag a difference the z-test cannot tell from chance', () => {
+    const title = 'Printer is down';
+    const clusterLogs = [...times(3, () => failure({ title })), ...times(7, () => failure({ priority: 'low', title }))];
+    const [priority] = compare(clusterLogs, baseline()).skills[0].fields;
+
+    assert.deepEqual([priority.issue, priority.clusterRate, priority.zScore, priority.significant], ['missing', 0.3, 2.582, false]);
+  });
+
+  it('does not score a cluster whose skill has too few other failures', () => {
+    const clusterLogs = times(10, () => failure({}));
+    const withoutBaseline = compare([...clusterLogs, ...times(2, () => failure({ priority: 'high' }))], []).skills[0];
+    const smallBaseline = compare(clusterLogs, times(4, () => failure({ priority: 'high' }))).skills[0];
+
+    assert.equal(withoutBaseline.baselineFailures, 0);
+    assert.deepEqual(withoutBaseline.fields.map(field => [field.zScore, field.significant]), [[null, false]]);
+    assert.deepEqual(smallBaseline.fields.map(field => [field.zScore, field.significant]), [[null, false]]);
+  });
+
+  it('compares each affected skill with its own baseline, busiest skill first', () => {
+    const clusterLogs = [...times(2, () => failure({}, 'Search')), ...times(4, () => failure({}))];
+    const { skills } = compare(clusterLogs, [...baseline(), ...times(6, () => failure({ query: 'printers' }, 'Search'))]);
+
+    assert.deepEqual(skills.map(skill => [skill.skillName, skill.clusterFailures, skill.baselineFailures]), [
+      ['TicketCreate', 4, 20],
+      ['Search', 2, 6]
+    ]);
+  });
+});
+
+describe('profileSkillInputs', () => {
+  it('profiles presence, nulls, types and cardinality of each field', () => {
+    const profile = profileSkillInputs('TicketCreate', [
+      failure({ priority: 'high', count: 1 }),
+      failure({ priority: null }),
+      failure({ priority: '' }),
+      failure({})
+    ]);
+
+    assert.deepEqual(profile.expectedTypes, { count: 'number', priority: 'string' });
+    assert.deepEqual(profile.fields, [
+      { field: 'count', failures: 4, presence: 0.25, nullRate: 0, malformedRate: 0, types: { number: 1 }, cardinality: 1 },
+      { field: 'priority', failures: 4, presence: 0.75, nullRate: 0.25, malformedRate: 0.25, types: { string: 2, null: 1 }, cardinality: 2 }
+    ]);
+  });
+
+  it('is empty without failures', () => {
+    assert.deepEqual(profileSkillInputs('TicketCreate', []), { skillName: 'TicketCreate', failures: 0, expectedTypes: {}, fields: [] });
+  });
+});
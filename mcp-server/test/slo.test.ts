@@ -0,0 +1,121 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createClusterFromLogs } from '../../shared/analyticsCore.js';
+import { HOUR_MS, MINUTE_MS } from '../../shared/util.js';
+import { DEFAULT_SLO_CONFIG, SloConfig, computeSloScorecard, parseSloConfig, sloLookbackStart } from '../src/slo.js';
+import { FailureLog, InvocationCount } from '../src/types.js';
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+const at = (hoursAgo: number) => new Date(NOW.getTime() - hoursAgo * HOUR_MS);
+
+let sequence = 0;
+/** `perHour` failures ten minutes into each of the `hours` hours before the one starting `hoursAgo` ago. */
+const failures = (skillName: string, perHour: number, hours = 1, hoursAgo = 1): FailureLog[] =>
+  Array.from({ length: hours * perHour }, (_, index) => ({
+    evaluationId: `eval_${++sequence}`,
+    sessionId: `session_${sequence}`,
+    prompt: `Prompt ${sequence}`,
+    skillName,
+    skillInputs: {},
+    exception: 'Request timed out after 5000 ms',
+    timestamp: new Date(at(hoursAgo + Math.floor(index / perHour)).getTime() + 10 * MINUTE_MS)
+  }));
+
+/** Hourly invocation buckets covering the 28-day SLO window. */
+const hourly = (skillName: string, perHour: number): InvocationCount[] =>
+  Array.from({ length: 28 * 24 }, (_, index) => ({ skillName, bucketStart: at(index + 1), bucketMinutes: 60, invocations: perHour }));
+
+const scorecard = (logs: FailureLog[], counts: InvocationCount[], config: SloConfig = DEFAULT_SLO_CONFIG) =>
+  computeSloScorecard(logs, counts, [], config, NOW, null);
+
+describe('computeSloScorecard', () => {
+  it('is empty without failures, telemetry or objectives', () => {
+    assert.deepEqual(scorecard([], []).skills, []);
+  });
+
+  it('spends the budget over the SLO window and scales burn-rate thresholds to it', () => {
+    const [skill] = scorecard(failures('TicketCreate', 10, 1, 240), hourly('TicketCreate', 1000)).skills;
+
+    assert.deepEqual(
+      [skill.status, skill.invocations, skill.failures, skill.successRate, skill.errorBudget, skill.budgetRemaining],
+      ['healthy', 672000, 10, 1, 6720, 0.9985]
+    );
+    assert.deepEqual(skill.burnRates.map(rate => [rate.window, rate.invocations, rate.burnRate, rate.threshold]), [
+      ['1h', 1000, 0, 13.44],
+      ['6h', 6000, 0, 5.6],
+      ['24h', 24000, 0, 2.8],
+      ['3d', 72000, 0, 0.9333]
+    ]);
+  });
+
+  it('calls a fast burn burning and a slow one at risk', () => {
+    const [fast] = scorecard(failures('TicketCreate', 200), hourly('TicketCreate', 1000)).skills;
+    const [slow] = scorecard(failures('TicketCreate', 10, 72), hourly('TicketCreate', 1000)).skills;
+
+    assert.deepEqual([fast.status, fast.burnRates[0].burnRate, fast.budgetRemaining], ['burning', 20, 0.9702]);
+    assert.deepEqual([slow.status, slow.burnRates.map(rate => rate.burnRate), slow.budgetRemaining], ['at-risk', [1, 1, 1, 1], 0.8929]);
+  });
+
+  it('calls a spent budget exhausted, and ranks skills by status', () => {
+    const counts = [
+      ...hourly('TicketCreate', 1000),
+      { skillName: 'Search', bucketStart: at(240), bucketMinutes: 60, invocations: 100 }
+    ];
+    const logs = [...failures('TicketCreate', 200), ...failures('Search', 2, 1, 240), ...failures('Calendar', 1)];
+    const skills = scorecard(logs, counts, parseSloConfig({ skills: { Mail: {} } })).skills;
+
+    assert.deepEqual(skills.map(skill => [skill.skillName, skill.status]), [
+      ['Search', 'exhausted'],
+      ['TicketCreate', 'burning'],
+      ['Calendar', 'no-telemetry'],
+      ['Mail', 'no-telemetry']
+    ]);
+    assert.deepEqual([skills[0].errorBudget, skills[0].budgetRemaining], [1, -1]);
+    assert.deepEqual([skills[2].invocations, skills[2].errorBudget, skills[2].burnRates[0].burnRate], [null, null, null]);
+  });
+
+  it('raises lagging telemetry to the failures and handles a zero budget', () => {
+    const counts: InvocationCount[] = [
+      { skillName: 'TicketCreate', bucketStart: at(1), bucketMinutes: 60, invocations: 2 },
+      { skillName: 'Search', bucketStart: at(1), bucketMinutes: 60, invocations: 0 }
+    ];
+    const skills = scorecard(failures('TicketCreate', 5), counts).skills;
+    const ticket = skills.find(skill => skill.skillName === 'TicketCreate')!;
+    const search = skills.find(skill => skill.skillName === 'Search')!;
+
+    assert.deepEqual([ticket.invocations, ticket.successRate], [5, 0]);
+    assert.deepEqual([search.status, search.successRate, search.budgetRemaining, search.burnRates[0].burnRate], ['healthy', 1, 1, 0]);
+  });
+
+  it('lists the clusters spending the budget', () => {
+    const logs = failures('TicketCreate', 20);
+    const clusters = [
+      createClusterFromLogs(logs.slice(0, 15), 'big', 'Request timed out after <DURATION>'),
+      createClusterFromLogs(logs.slice(15), 'small', 'Request timed out after <DURATION>')
+    ];
+    const [skill] = computeSloScorecard(logs, hourly('TicketCreate', 1000), clusters, DEFAULT_SLO_CONFIG, NOW, null).skills;
+
+    assert.deepEqual(skill.topConsumers.map(consumer => [consumer.clusterId, consumer.failures, consumer.budgetSpent]), [
+      ['cluster_big', 15, 0.0022],
+      ['cluster_small', 5, 0.0007]
+    ]);
+  });
+
+  it('looks back over the longest SLO window, or the longest burn-rate window', () => {
+    assert.deepEqual(sloLookbackStart(DEFAULT_SLO_CONFIG, NOW), at(28 * 24));
+    assert.deepEqual(sloLookbackStart(parseSloConfig({ defaults: { windowDays: 1 } }), NOW), at(72));
+  });
+});
+
+describe('parseSloConfig', () => {
+  it('fills skill objectives in from the defaults', () => {
+    const config = parseSloConfig({ defaults: { targetSuccessRate: 0.95 }, skills: { Search: { windowDays: 7 } } });
+    assert.deepEqual(config.skills.Search, { targetSuccessRate: 0.95, latencyMs: null, windowDays: 7 });
+  });
+
+  it('rejects targets outside (0, 1) and non-integer windows', () => {
+    assert.throws(() => parseSloConfig({ defaults: { targetSuccessRate: 1 } }), /defaults\.targetSuccessRate/);
+    assert.throws(() => parseSloConfig({ skills: { Search: { windowDays: 1.5 } } }), /skills\.Search\.windowDays: expected a positive integer/);
+  });
+});
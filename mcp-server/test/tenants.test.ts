@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createClusterFromLogs } from '../../shared/analyticsCore.js';
+import { FailureLog } from '../../shared/types.js';
+import { HOUR_MS } from '../../shared/util.js';
+import { scopeClustersToTenant } from '../src/tenants.js';
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+const HISTORY_START = new Date(NOW.getTime() - 30 * 24 * HOUR_MS);
+
+const failure = (index: number, tenantId: string, hoursAgo: number): FailureLog => ({
+  evaluationId: `eval_${tenantId}_${index}`,
+  sessionId: `session_${index}`,
+  prompt: `Prompt ${index}`,
+  skillName: 'TicketCreate',
+  skillInputs: {},
+  exception: 'Request timed out after 5000 ms',
+  timestamp: new Date(NOW.getTime() - hoursAgo * HOUR_MS),
+  tenantId
+});
+
+describe('scopeClustersToTenant', () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ['Date'], now: NOW });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  // contoso failed steadily over the last week, fabrikam only in the week before
+  const cluster = () => createClusterFromLogs([
+    ...Array.from({ length: 12 }, (_, index) => failure(index, 'contoso', 6 * index + 1)),
+    ...Array.from({ length: 12 }, (_, index) => failure(index, 'fabrikam', 7 * 24 + 6 * index + 1))
+  ], 'key', 'Request timed out after <DURATION>');
+
+  it('returns every cluster unchanged without a tenant', () => {
+    const clusters = [cluster()];
+    assert.equal(scopeClustersToTenant(clusters, undefined, HISTORY_START), clusters);
+  });
+
+  it('recomputes the count, first and last occurrence and trend from the tenant failures', () => {
+    const [contoso] = scopeClustersToTenant([cluster()], 'contoso', HISTORY_START);
+    const [fabrikam] = scopeClustersToTenant([cluster()], 'fabrikam', HISTORY_START);
+
+    assert.equal(contoso.failureCount, 12);
+    assert.deepEqual(contoso.firstSeen, new Date(NOW.getTime() - 67 * HOUR_MS));
+    assert.deepEqual(contoso.lastSeen, new Date(NOW.getTime() - HOUR_MS));
+    assert.equal(contoso.trend, 'increasing');
+
+    assert.deepEqual(fabrikam.firstSeen, new Date(NOW.getTime() - (7 * 24 + 67) * HOUR_MS));
+    assert.deepEqual(fabrikam.lastSeen, new Date(NOW.getTime() - (7 * 24 + 1) * HOUR_MS));
+    assert.equal(fabrikam.trend, 'decreasing');
+  });
+
+  it('drops clusters without failures from the tenant', () => {
+    assert.deepEqual(scopeClustersToTenant([cluster()], 'northwind', HISTORY_START), []);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createClusterFromLogs } from '../../shared/analyticsCore.js';
+import { DEFAULT_TAXONOMY, resolveCategory } from '../../shared/taxonomy.js';
+import { analyzeTrendWindow, bucketTimestamps, classifyTrend, coversPriorWindow, trendWindow } from '../../shared/timeSeries.js';
+import { FailureLog } from '../../shared/types.js';
+import { HOUR_MS } from '../../shared/util.js';
+
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+const at = (hoursAgo: number) => new Date(NOW.getTime() - hoursAgo * HOUR_MS);
+
+const failure = (index: number, skillName: string, hoursAgo: number): FailureLog => ({
+  evaluationId: `eval_${skillName}_${index}`,
+  sessionId: `session_${index}`,
+  prompt: `Prompt ${index}`,
+  skillName,
+  skillInputs: {},
+  exception: 'Request timed out after 5000 ms',
+  timestamp: at(hoursAgo)
+});
+
+describe('trend windows', () => {
+  it('splits the window into buckets from its start, with the prior window just as long', () => {
+    const window = trendWindow('24h', NOW);
+
+    assert.deepEqual(window.start, at(24));
+    assert.deepEqual(window.previousStart, at(48));
+    assert.equal(window.buckets.length, 24);
+    assert.deepEqual(window.buckets[1], at(23));
+    assert.equal(trendWindow('7d', NOW).buckets.length, 28);
+  });
+
+  it('counts the window start but not its end, and the prior window separately', () => {
+    const window = trendWindow('24h', NOW);
+    const { counts, previous } = bucketTimestamps([
+      window.start,
+      new Date(NOW.getTime() - 1),
+      NOW,
+      new Date(window.start.getTime() - 1),
+      new Date(window.previousStart.getTime() - 1)
+    ], window);
+
+    assert.equal(counts[0], 1);
+    assert.equal(counts[23], 1);
+    assert.equal(counts.reduce((sum, count) => sum + count, 0), 2);
+    assert.equal(previous, 1);
+  });
+
+  it('only counts history reaching back over the whole prior window as covering it', () => {
+    const window = trendWindow('24h', NOW);
+    assert.equal(coversPriorWindow(window), true);
+    assert.equal(coversPriorWindow(window, at(48)), true);
+    assert.equal(coversPriorWindow(window, at(30)), false);
+  });
+});
+
+describe('classifyTrend', () => {
+  it('calls an empty window stable', () => {
+    assert.deepEqual(classifyTrend([0, 0, 0, 0], 0), {
+      trend: 'stable',
+      current: 0,
+      previous: 0,
+      changeRatio: null,
+      zScore: 0,
+      slope: 0
+    });
+  });
+
+  it('compares the window with the one before as Poisson counts', () => {
+    assert.deepEqual(classifyTrend([5, 5, 5, 5], 5), {
+      trend: 'increasing',
+      current: 20,
+      previous: 5,
+      changeRatio: 4,
+      zScore: 3,
+      slope: 0
+    });
+    assert.equal(classifyTrend([1, 1, 1, 2], 20).trend, 'decreasing');
+    assert.equal(classifyTrend([5, 5, 5, 5], 16).trend, 'stable');
+  });
+
+  it('ignores a prior window that history does not cover and falls back to the slope', () => {
+    assert.equal(classifyTrend([5, 5, 5, 5], 0).trend, 'increasing');
+    assert.equal(classifyTrend([5, 5, 5, 5], 0, false).trend, 'stable');
+    assert.equal(classifyTrend([1, 2, 3, 4, 5, 6], 0, false).trend, 'increasing');
+    assert.equal(classifyTrend([6, 5, 4, 3, 2, 1], 30, false).trend, 'decreasing');
+  });
+
+  it('stays stable on too few failures', () => {
+    assert.equal(classifyTrend([2, 0, 0, 2], 0).trend, 'stable');
+  });
+});
+
+describe('analyzeTrendWindow', () => {
+  it('returns empty series for a window without failures', () => {
+    const analysis = analyzeTrendWindow([], [], DEFAULT_TAXONOMY, '24h', NOW, at(30));
+
+    assert.equal(analysis.bucketMinutes, 60);
+    assert.equal(analysis.buckets.length, 24);
+    assert.equal(analysis.previousWindowComplete, false);
+    assert.equal(analysis.total.current, 0);
+    assert.deepEqual([analysis.skills, analysis.rootCauses, analysis.clusters, analysis.timeSeries], [[], [], [], []]);
+  });
+
+  it('counts every failure per skill and only clustered ones per root cause', () => {
+    const clustered = Array.from({ length: 6 }, (_, index) => failure(index, 'TicketCreate', 2 * index + 0.5));
+    const unclustered = [failure(0, 'Search', 1.5), failure(1, 'Search', 30)];
+    const cluster = createClusterFromLogs(clustered, 'key', 'Request timed out after <DURATION>');
+
+    const analysis = analyzeTrendWindow([...clustered, ...unclustered], [cluster], DEFAULT_TAXONOMY, '24h', NOW, at(72));
+
+    assert.equal(analysis.previousWindowComplete, true);
+    assert.deepEqual([analysis.total.current, analysis.total.previous], [7, 1]);
+    assert.deepEqual(analysis.skills.map(skill => [skill.key, skill.current, skill.previous]), [
+      ['TicketCreate', 6, 0],
+      ['Search', 1, 1]
+    ]);
+    assert.deepEqual(analysis.rootCauses.map(series => [series.key, series.label, series.current]), [
+      ['timeout', resolveCategory(DEFAULT_TAXONOMY, 'timeout').label, 6]
+    ]);
+    assert.deepEqual(analysis.clusters.map(trend => [trend.clusterId, trend.current]), [[cluster.id, 6]]);
+    assert.deepEqual(analysis.timeSeries.map(point => [point.timestamp.getTime(), point.failureCount]), [
+      [at(11).getTime(), 1],
+      [at(9).getTime(), 1],
+      [at(7).getTime(), 1],
+      [at(5).getTime(), 1],
+      [at(3).getTime(), 1],
+      [at(1).getTime(), 1]
+    ]);
+  });
+});
@@ -0,0 +1,340 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { CopilotFailureMCPServer } from '../src/index.js';
+import { FailureStore } from '../src/failureStore.js';
+import { MockLogSource } from '../src/logSources.js';
+import { parseServerConfig } from '../src/config.js';
+import { parseRuleSet } from '../../shared/ruleEngine.js';
+import {
+  Decoder,
+  WireDecodeError,
+  decodeAnalyticsData,
+  decodeAnomalyEvent,
+  decodeAuditEntry,
+  decodeChangeAnalysis,
+  decodeCluster,
+  decodeClusterInputComparison,
+  decodeClusterLineage,
+  decodeCostModel,
+  decodeFailureHeatmap,
+  decodeFailureLog,
+  decodeImpactMatrix,
+  decodeJourneyFunnel,
+  decodeObject,
+  decodeReliabilityReport,
+  decodeSessionTrace,
+  decodeSkillInputProfile,
+  decodeSloScorecard,
+  decodeTaxonomy,
+  decodeTenantHealthReport,
+  decodeToolResponse,
+  decodeTrendAnalysis,
+  encodeAnalyticsData,
+  encodeAnomalyEvent,
+  encodeChangeAnalysis,
+  encodeCluster,
+  encodeFailureHeatmap,
+  encodeFailureLog,
+  encodeJourneyFunnel,
+  encodeReliabilityReport,
+  encodeSessionTrace,
+  encodeSloScorecard,
+  encodeTenantHealthReport,
+  listOf
+} from '../../shared/wire.js';
+import { ProcessedCluster } from '../src/types.js';
+
+interface ToolCase {
+  args?: (clusters: ProcessedCluster[]) => Record<string, unknown>;
+  decode: Decoder<unknown>;
+  /** Domain-to-wire encoder of the payload; without one the decoded payload is serialized as JSON. */
+  encode?: (data: never) => unknown;
+  /** Dates the decoded payload must hold. */
+  dates?: (data: never) => Date[];
+  /** The decoder reads only part of the payload, so only the fields it returns are compared. */
+  partial?: boolean;
+  /** Payload as the decoder normalizes it, when it fills in defaults. */
+  normalize?: (payload: never) => unknown;
+}
+
+const clusterDates = (cluster: ProcessedCluster) => [
+  cluster.firstSeen,
+  cluster.lastSeen,
+  ...cluster.failureLogs.map(log => log.timestamp)
+];
+
+const ruleSetDecoder: Decoder<unknown> = value => parseRuleSet(value);
+
+/** Reads run first; the write tools at the end change the clusters they are given. */
+const TOOL_CASES: Record<string, ToolCase> = {
+  get_failure_analytics: {
+    decode: decodeAnalyticsData,
+    encode: encodeAnalyticsData,
+    dates: (data: ReturnType<typeof decodeAnalyticsData>) => data.clusters.flatMap(clusterDates)
+  },
+  get_clusters: {
+    decode: listOf(decodeCluster),
+    encode: (clusters: ProcessedCluster[]) => clusters.map(encodeCluster),
+    dates: (clusters: ProcessedCluster[]) => clusters.flatMap(clusterDates)
+  },
+  get_failure_logs: {
+    args: () => ({ limit: 50 }),
+    decode: listOf(decodeFailureLog),
+    encode: (logs: ReturnType<typeof decodeFailureLog>[]) => logs.map(encodeFailureLog),
+    dates: (logs: ReturnType<typeof decodeFailureLog>[]) => logs.map(log => log.timestamp)
+  },
+  analyze_trends: {
+    args: () => ({ timeRange: '30d' }),
+    decode: decodeTrendAnalysis,
+    partial: true,
+    dates: (data: ReturnType<typeof decodeTrendAnalysis>) => [
+      data.windowStart,
+      data.windowEnd,
+      data.previousWindowStart,
+      ...data.buckets
+    ]
+  },
+  get_cluster_lineage: {
+    args: clusters => ({ clusterId: clusters[0].id }),
+    decode: decodeClusterLineage
+  },
+  get_root_cause_rules: {
+    decode: ruleSetDecoder,
+    normalize: (ruleSet: { rules: object[] }) => ({ ...ruleSet, rules: ruleSet.rules.map(rule => ({ weight: 1, ...rule })) })
+  },
+  get_root_cause_taxonomy: { decode: decodeTaxonomy },
+  get_anomalies: {
+    args: () => ({ timeRange: '30d' }),
+    decode: listOf(decodeAnomalyEvent),
+    encode: (events: ReturnType<typeof decodeAnomalyEvent>[]) => events.map(encodeAnomalyEvent)
+  },
+  get_failure_heatmap: {
+    args: () => ({ timeRange: '30d', timezone: 'Asia/Kolkata' }),
+    decode: decodeFailureHeatmap,
+    encode: encodeFailureHeatmap,
+    dates: (data: ReturnType<typeof decodeFailureHeatmap>) => [data.windowStart, data.windowEnd]
+  },
+  get_reliability: {
+    args: () => ({ timeRange: '7d' }),
+    decode: decodeReliabilityReport,
+    encode: encodeReliabilityReport,
+    dates: (data: ReturnType<typeof decodeReliabilityReport>) => [data.windowStart, data.windowEnd]
+  },
+  get_skill_input_profile: { decode: listOf(decodeSkillInputProfile) },
+  get_cluster_input_comparison: {
+    args: clusters => ({ clusterId: clusters[0].id }),
+    decode: decodeClusterInputComparison
+  },
+  get_session_trace: {
+    args: clusters => ({ sessionId: clusters[0].failureLogs[0].sessionId }),
+    decode: decodeSessionTrace,
+    encode: encodeSessionTrace,
+    dates: (data: ReturnType<typeof decodeSessionTrace>) => [
+      data.start!,
+      data.end!,
+      ...data.failures.map(failure => failure.log.timestamp),
+      ...data.stageEvents.map(event => event.timestamp)
+    ]
+  },
+  get_tenant_health: {
+    args: () => ({ timeRange: '30d' }),
+    decode: decodeTenantHealthReport,
+    encode: encodeTenantHealthReport,
+    dates: (data: ReturnType<typeof decodeTenantHealthReport>) => [data.windowStart, data.windowEnd]
+  },
+  get_slo_scorecard: {
+    decode: decodeSloScorecard,
+    encode: encodeSloScorecard,
+    dates: (data: ReturnType<typeof decodeSloScorecard>) => [data.asOf]
+  },
+  get_journey_funnel: {
+    args: () => ({ timeRange: '30d' }),
+    decode: decodeJourneyFunnel,
+    encode: encodeJourneyFunnel,
+    dates: (data: ReturnType<typeof decodeJourneyFunnel>) => [data.windowStart, data.windowEnd]
+  },
+  get_impact_matrix: { decode: decodeImpactMatrix },
+  get_change_correlations: {
+    decode: decodeChangeAnalysis,
+    encode: encodeChangeAnalysis,
+    dates: (data: ReturnType<typeof decodeChangeAnalysis>) => [data.windowStart, data.windowEnd]
+  },
+  get_recommendations: {
+    args: clusters => ({ clusterId: clusters[0].id }),
+    decode: decodeObject
+  },
+  update_cost_model: {
+    args: () => ({ perFailure: 12.5, perAffectedUser: 40, currency: 'EUR' }),
+    decode: decodeCostModel
+  },
+  update_cluster_status: {
+    args: clusters => ({ clusterId: clusters[0].id, status: 'triaged', actor: 'tester' }),
+    decode: decodeCluster,
+    encode: encodeCluster,
+    dates: clusterDates
+  },
+  annotate_cluster: {
+    args: clusters => ({ clusterId: clusters[0].id, notes: 'Seen in the canary ring', actor: 'tester' }),
+    decode: decodeCluster,
+    encode: encodeCluster,
+    dates: clusterDates
+  },
+  assign_cluster: {
+    args: clusters => ({ clusterId: clusters[0].id, assignee: 'oncall', actor: 'tester' }),
+    decode: decodeCluster,
+    encode: encodeCluster,
+    dates: clusterDates
+  },
+  update_cluster_lifecycle: {
+    args: clusters => ({ clusterId: clusters[0].id, status: 'in-progress', actor: 'tester' }),
+    decode: decodeCluster,
+    encode: encodeCluster,
+    dates: clusterDates
+  },
+  split_cluster: {
+    args: clusters => ({
+      clusterId: clusters[0].id,
+      evaluationIds: clusters[0].failureLogs.slice(0, 2).map(log => log.evaluationId),
+      name: 'Split for review',
+      actor: 'tester'
+    }),
+    decode: decodeCluster,
+    encode: encodeCluster,
+    dates: clusterDates
+  },
+  merge_clusters: {
+    args: clusters => ({ targetClusterId: clusters[0].id, sourceClusterIds: [clusters[1].id], actor: 'tester' }),
+    decode: decodeCluster,
+    encode: encodeCluster,
+    dates: clusterDates
+  },
+  get_cluster_audit: {
+    args: clusters => ({ clusterId: clusters[0].id }),
+    decode: listOf(decodeAuditEntry)
+  }
+};
+
+const pick = (value: unknown, keys: string[]) =>
+  Object.fromEntries(keys.map(key => [key, (value as Record<string, unknown>)[key]]));
+
+describe('tool responses', () => {
+  let store: FailureStore;
+  let server: CopilotFailureMCPServer;
+  let client: Client;
+  let clusters: ProcessedCluster[];
+
+  const call = async (name: string, args: Record<string, unknown> = {}) => {
+    const result = await client.callTool({ name, arguments: args });
+    const [content] = result.content as { type: string; text: string }[];
+    assert.ok(!result.isError, `${name} failed: ${content.text}`);
+    return JSON.parse(content.text) as unknown;
+  };
+
+  before(async () => {
+    store = new FailureStore(':memory:', { maxAgeDays: 3650, maxSnapshots: 10 });
+    server = new CopilotFailureMCPServer(new MockLogSource(), store, parseServerConfig(['--llm-provider', 'stub'], {}));
+    await server.start();
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await server.connect(serverTransport);
+    client = new Client({ name: 'tool-response-test', version: '1.0.0' });
+    await client.connect(clientTransport);
+
+    clusters = decodeToolResponse(await call('get_clusters'), listOf(decodeCluster)).data;
+    assert.ok(clusters.length >= 2, 'mock data should form at least two clusters');
+  });
+
+  after(async () => {
+    await client.close();
+    await server.shutdown();
+  });
+
+  it('has a round-trip case for every listed tool', async () => {
+    const { tools } = await client.listTools();
+    assert.deepEqual(tools.map(tool => tool.name).sort(), Object.keys(TOOL_CASES).sort());
+  });
+
+  it('rejects get_clusters filters outside their schema', async () => {
+    const rejected = [
+      [{ status: 'closed' }, /status must be one of new, triaged/],
+      [{ severity: 'urgent' }, /severity must be one of low, medium, high, critical/],
+      [{ resolved: 'false' }, /resolved must be a boolean/],
+      [{ minClusterSize: 2.5 }, /minClusterSize must be a positive integer/]
+    ] as const;
+    for (const [args, message] of rejected) {
+      const result = await client.callTool({ name: 'get_clusters', arguments: args });
+      const [content] = result.content as { type: string; text: string }[];
+      assert.ok(result.isError, `${JSON.stringify(args)} was accepted`);
+      assert.match(content.text, message);
+    }
+
+    const unresolved = decodeToolResponse(await call('get_clusters', { resolved: false, status: 'new' }), listOf(decodeCluster)).data;
+    assert.ok(unresolved.every(cluster => !cluster.resolved && cluster.lifecycle.status === 'new'));
+  });
+
+  for (const [name, toolCase] of Object.entries(TOOL_CASES)) {
+    it(`${name} decodes and re-encodes without losing fields`, async () => {
+      const raw = await call(name, toolCase.args?.(clusters));
+      const sent = (raw as { data: unknown }).data;
+      const payload = toolCase.normalize ? toolCase.normalize(sent as never) : sent;
+      const { data } = decodeToolResponse(raw, toolCase.decode);
+
+      const reencoded = JSON.parse(JSON.stringify(toolCase.encode ? toolCase.encode(data as never) : data));
+      if (toolCase.partial) {
+        assert.deepEqual(reencoded, pick(payload, Object.keys(reencoded)));
+      } else {
+        assert.deepEqual(reencoded, payload);
+      }
+
+      const dates = toolCase.dates?.(data as never) ?? [];
+      dates.forEach(value => {
+        assert.ok(value instanceof Date, `${name}: expected a Date, got ${typeof value}`);
+        assert.ok(!Number.isNaN(value.getTime()), `${name}: invalid Date`);
+      });
+      if (toolCase.dates) assert.ok(dates.length > 0, `${name}: no dates to check`);
+    });
+  }
+});
+
+describe('wire decoders', () => {
+  const log = {
+    evaluationId: 'eval_1',
+    sessionId: 'session_1',
+    prompt: 'Reset password',
+    skillName: 'PasswordReset',
+    skillInputs: { userObject: null, parameters: { action: 'execute' } },
+    exception: 'Missing user context in tenant',
+    timestamp: '2026-10-19T05:05:10.000Z',
+    contextMissing: ['userContext']
+  };
+
+  it('restores dates and keeps nested inputs', () => {
+    const decoded = decodeFailureLog(log, 'log');
+    assert.ok(decoded.timestamp instanceof Date);
+    assert.equal(decoded.timestamp.toISOString(), log.timestamp);
+    assert.deepEqual(decoded.skillInputs, log.skillInputs);
+    assert.deepEqual(JSON.parse(JSON.stringify(encodeFailureLog(decoded))), log);
+  });
+
+  it('rejects malformed dates with the offending path', () => {
+    assert.throws(() => decodeFailureLog({ ...log, timestamp: 'yesterday' }, 'log'), (error: unknown) =>
+      error instanceof WireDecodeError && /log\.timestamp/.test(error.message));
+  });
+
+  it('rejects missing fields and unknown enum members', () => {
+    assert.throws(() => decodeFailureLog({ ...log, prompt: undefined }, 'log'), WireDecodeError);
+    assert.throws(() => decodeAuditEntry({
+      clusterId: 'cluster_1',
+      action: 'deleted',
+      actor: 'tester',
+      at: '2026-10-19T05:05:10.000Z',
+      details: {}
+    }, 'audit'), WireDecodeError);
+  });
+
+  it('rejects unsuccessful tool responses', () => {
+    assert.throws(() => decodeToolResponse({ success: false, data: [] }, listOf(decodeFailureLog)), WireDecodeError);
+  });
+});
@@ -0,0 +1,147 @@
+// Clustering and root-cause classification. Only the MCP server runs it; the dashboard shows the clusters the server returns.
+
+import { FailureLog, ProcessedCluster, SharedRecommendation } from './types.js';
+import { createLifecycle } from './lifecycle.js';
+import { TemplateMiner, extractTemplateParameters, templateFingerprint } from './templateMiner.js';
+import { DEFAULT_RULE_SET, RuleSet, evaluateRootCause } from './ruleEngine.js';
+import { DEFAULT_TAXONOMY, Taxonomy, fillTemplate, parentCategory, resolveCategory } from './taxonomy.js';
+import { determineTrend } from './timeSeries.js';
+
+type RootCause = ProcessedCluster['rootCause'];
+
+export const processFailureClusters = (
+  logs: FailureLog[],
+  minClusterSize: number = 3,
+  ruleSet: RuleSet = DEFAULT_RULE_SET
+): ProcessedCluster[] => {
+  const clusters: ProcessedCluster[] = [];
+
+  // Mine exception templates, then group by skill and template
+  const miner = new TemplateMiner();
+  const groupIds = logs.map(log => miner.add(log.exception));
+  const errorGroups = new Map<string, { template: string; logs: FailureLog[] }>();
+
+  logs.forEach((log, index) => {
+    const template = miner.template(groupIds[index]);
+    const key = `${log.skillName}_${templateFingerprint(template)}`;
+    if (!errorGroups.has(key)) {
+      errorGroups.set(key, { template, logs: [] });
+    }
+    errorGroups.get(key)!.logs.push(log);
+  });
+
+  const historyStart = logs.reduce<Date | undefined>(
+    (earliest, log) => (!earliest || log.timestamp < earliest ? log.timestamp : earliest),
+    undefined
+  );
+  errorGroups.forEach(({ template, logs: groupLogs }, key) => {
+    if (groupLogs.length >= minClusterSize) {
+      const cluster = createClusterFromLogs(groupLogs, key, template, ruleSet, historyStart);
+      clusters.push(cluster);
+    }
+  });
+
+  return clusters.sort((a, b) => b.failureCount - a.failureCount);
+};
+
+/**
+ * Builds a cluster with ID `cluster_<key>` from its member failures, which are stored oldest first.
+ * `historyStart` is the oldest failure on record across all clusters; see determineTrend.
+ */
+export const createClusterFromLogs = (
+  logs: FailureLog[],
+  key: string,
+  template: string,
+  ruleSet: RuleSet = DEFAULT_RULE_SET,
+  historyStart?: Date
+): ProcessedCluster => {
+  const sorted = [...logs].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const skillName = sorted[0].skillName;
+
+  // Determine root cause from the configured rules
+  const rootCause = determineRootCause(sorted, template, ruleSet);
+
+  // Generate recommendations
+  const recommendations = generateRecommendations(rootCause, skillName, ruleSet.taxonomy);
+
+  // Calculate severity
+  const severity = sorted.length > 50 ? 'critical' :
+                  sorted.length > 20 ? 'high' :
+                  sorted.length > 10 ? 'medium' : 'low';
+
+  return {
+    id: `cluster_${key}`,
+    name: generateClusterName(rootCause, skillName, ruleSet.taxonomy),
+    summary: generateClusterSummary(rootCause, skillName, sorted.length, ruleSet.taxonomy),
+    failureCount: sorted.length,
+    representativePrompts: [...new Set(sorted.slice(0, 5).map(l => l.prompt))],
+    commonExceptions: [...new Set(sorted.map(l => l.exception))],
+    template,
+    templateParameters: extractTemplateParameters(template, sorted.map(l => l.exception)),
+    rootCause,
+    recommendations,
+    affectedSkills: [...new Set(sorted.map(l => l.skillName))],
+    severity,
+    firstSeen: sorted[0].timestamp,
+    lastSeen: sorted[sorted.length - 1].timestamp,
+    trend: determineTrend(sorted, historyStart),
+    resolved: false,
+    lifecycle: createLifecycle(),
+    tags: generateTags(rootCause, sorted),
+    failureLogs: sorted
+  };
+};
+
+/** Classifies a cluster with the declarative rule engine; see ruleEngine.ts. */
+export const determineRootCause = (
+  logs: FailureLog[],
+  template: string,
+  ruleSet: RuleSet = DEFAULT_RULE_SET
+): RootCause => evaluateRootCause(logs, template, ruleSet);
+
+export const generateRecommendations = (
+  rootCause: RootCause,
+  skillName: string,
+  taxonomy: Taxonomy = DEFAULT_TAXONOMY
+): string[] =>
+  resolveCategory(taxonomy, rootCause.category).recommendations.map(step => fillTemplate(step, { skill: skillName }));
+
+/** Steps recommended for at least two clusters, most failures first: fixes that pay off beyond one cluster. */
+export const sharedRecommendations = (clusters: ProcessedCluster[], limit: number = 5): SharedRecommendation[] => {
+  const byStep = new Map<string, SharedRecommendation>();
+  clusters.forEach(cluster => {
+    new Set(cluster.recommendations).forEach(step => {
+      const shared = byStep.get(step) ?? { recommendation: step, clusterIds: [], failureCount: 0 };
+      shared.clusterIds.push(cluster.id);
+      shared.failureCount += cluster.failureCount;
+      byStep.set(step, shared);
+    });
+  });
+
+  return [...byStep.values()]
+    .filter(shared => shared.clusterIds.length > 1)
+    .sort((a, b) => b.failureCount - a.failureCount || b.clusterIds.length - a.clusterIds.length)
+    .slice(0, limit);
+};
+
+const generateClusterName = (rootCause: RootCause, skillName: string, taxonomy: Taxonomy): string =>
+  `${skillName} - ${resolveCategory(taxonomy, rootCause.category).label}`;
+
+const generateClusterSummary = (rootCause: RootCause, skillName: string, count: number, taxonomy: Taxonomy): string =>
+  fillTemplate(resolveCategory(taxonomy, rootCause.category).summary, { skill: skillName, count });
+
+const generateTags = (rootCause: RootCause, logs: FailureLog[]): string[] => {
+  // Tag the category and each of its ancestors so `auth/token-expired` is also found under `auth`
+  const tags: string[] = [];
+  for (let category: string | undefined = rootCause.category; category; category = parentCategory(category)) {
+    tags.unshift(category);
+  }
+
+  const skills = [...new Set(logs.map(l => l.skillName))];
+  tags.push(...skills.map(s => s.toLowerCase()));
+
+  if (logs.length > 50) tags.push('high-volume');
+  if (logs.some(l => l.contextMissing?.length)) tags.push('context-missing');
+
+  return tags;
+};
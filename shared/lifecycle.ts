@@ -0,0 +1,95 @@
+import { ClusterLifecycle, ClusterLifecycleUpdate, ClusterStatus, ProcessedCluster } from './types.js';
+
+/** Allowed manual transitions. `regressed` is normally entered automatically via `detectRegression`. */
+export const CLUSTER_STATUS_TRANSITIONS: Record<ClusterStatus, ClusterStatus[]> = {
+  'new': ['triaged', 'in-progress', 'resolved', 'wont-fix'],
+  'triaged': ['in-progress', 'resolved', 'wont-fix'],
+  'in-progress': ['triaged', 'resolved', 'wont-fix'],
+  'resolved': ['regressed', 'in-progress'],
+  'regressed': ['triaged', 'in-progress', 'resolved', 'wont-fix'],
+  'wont-fix': ['triaged']
+};
+
+export const CLUSTER_STATUSES = Object.keys(CLUSTER_STATUS_TRANSITIONS) as ClusterStatus[];
+
+export const canTransition = (from: ClusterStatus, to: ClusterStatus) =>
+  from === to || CLUSTER_STATUS_TRANSITIONS[from].includes(to);
+
+export const createLifecycle = (detectedAt: Date = new Date()): ClusterLifecycle => ({
+  status: 'new',
+  detectedAt: detectedAt.toISOString(),
+  statusChangedAt: detectedAt.toISOString(),
+  history: [{ status: 'new', at: detectedAt.toISOString() }]
+});
+
+const transition = (lifecycle: ClusterLifecycle, status: ClusterStatus, at: Date): ClusterLifecycle => {
+  if (lifecycle.status === status) return lifecycle;
+  return {
+    ...lifecycle,
+    status,
+    statusChangedAt: at.toISOString(),
+    resolvedAt: status === 'resolved' ? at.toISOString() : lifecycle.resolvedAt,
+    history: [...lifecycle.history, { status, at: at.toISOString() }]
+  };
+};
+
+/** Applies a manual edit, rejecting status changes the state machine does not allow. */
+export const applyLifecycleUpdate = (
+  lifecycle: ClusterLifecycle,
+  update: ClusterLifecycleUpdate,
+  at: Date = new Date()
+): ClusterLifecycle => {
+  let next = lifecycle;
+
+  if (update.status !== undefined) {
+    if (!CLUSTER_STATUSES.includes(update.status)) {
+      throw new Error(`Unknown status "${update.status}"`);
+    }
+    if (!canTransition(lifecycle.status, update.status)) {
+      throw new Error(`Cannot move cluster from ${lifecycle.status} to ${update.status}`);
+    }
+    next = transition(next, update.status, at);
+  }
+
+  // Empty strings clear a field
+  (['assignee', 'workItemUrl', 'notes'] as const).forEach(field => {
+    if (update[field] !== undefined) {
+      next = { ...next, [field]: update[field] || undefined };
+    }
+  });
+
+  return next;
+};
+
+/**
+ * Moves a resolved cluster to `regressed` when any of its failures happened after it was resolved.
+ * Returns the lifecycle unchanged otherwise.
+ */
+export const detectRegression = (
+  lifecycle: ClusterLifecycle,
+  cluster: Pick<ProcessedCluster, 'lastSeen'>,
+  at: Date = new Date()
+): ClusterLifecycle => {
+  if (lifecycle.status !== 'resolved' || !lifecycle.resolvedAt) return lifecycle;
+  if (cluster.lastSeen.getTime() <= new Date(lifecycle.resolvedAt).getTime()) return lifecycle;
+  return transition(lifecycle, 'regressed', at);
+};
+
+/**
+ * Milliseconds from each time the cluster needed fixing, on detection or when it regressed or was
+ * reopened, to the resolution that followed. An open repair without a resolution is left out.
+ */
+export const repairDurations = (lifecycle: ClusterLifecycle): number[] => {
+  const durations: number[] = [];
+  let openedAt: number | null = new Date(lifecycle.detectedAt).getTime();
+  lifecycle.history.forEach(change => {
+    const at = new Date(change.at).getTime();
+    if (change.status === 'resolved') {
+      if (openedAt !== null) durations.push(Math.max(0, at - openedAt));
+      openedAt = null;
+    } else if (openedAt === null && change.status !== 'wont-fix') {
+      openedAt = at;
+    }
+  });
+  return durations;
+};
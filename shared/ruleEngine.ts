@@ -0,0 +1,379 @@
+// Declarative root-cause rules. A rule set maps failure evidence (exception text, template, error code,
+// missing context, skill inputs) to root-cause categories; the engine ranks every category by the
+// share of cluster members its rules match and keeps the evidence behind each.
+
+import { FailureLog, FiredRule, ProcessedCluster, RootCauseCandidate, RootCauseEvidence } from './types.js';
+import {
+  CATEGORY_ID_PATTERN,
+  DEFAULT_TAXONOMY,
+  RootCauseCategoryDefinition,
+  TAXONOMY_COLORS,
+  Taxonomy,
+  TaxonomyColor,
+  mergeTaxonomy,
+  parentCategory
+} from './taxonomy.js';
+import { isPlainObject, round } from './util.js';
+
+type RootCause = ProcessedCluster['rootCause'];
+
+export interface SkillInputCondition {
+  /** Dot-separated path into `skillInputs`, e.g. `userObject.id`. */
+  path: string;
+  /** Matches when the value is absent or null (`true`) or present (`false`). */
+  missing?: boolean;
+  equals?: string | number | boolean | null;
+}
+
+/** Every field that is set must hold for a failure to match. Text fields are case-insensitive regexes. */
+export interface RuleCondition {
+  exception?: string;
+  template?: string;
+  errorCode?: string;
+  /** Entry that must appear in `contextMissing`. */
+  contextMissing?: string;
+  skillInput?: SkillInputCondition;
+}
+
+export interface RootCauseRule {
+  id: string;
+  /** Taxonomy category ID, e.g. `auth/token-expired`. */
+  category: string;
+  description: string;
+  /** Relative strength when categories compete. Defaults to 1. */
+  weight?: number;
+  when: RuleCondition;
+}
+
+export interface RuleSet {
+  /** Categories rules may assign; the built-in taxonomy extended by the rule file's `categories`. */
+  taxonomy: Taxonomy;
+  rules: RootCauseRule[];
+  /** Used when no rule matches any member. */
+  fallback: {
+    category: string;
+    description: string;
+    confidence: number;
+  };
+}
+
+export class RuleSetError extends Error {
+  constructor(readonly path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = 'RuleSetError';
+  }
+}
+
+/** Built-in rules used when no rule file is configured. */
+export const DEFAULT_RULE_SET: RuleSet = {
+  taxonomy: DEFAULT_TAXONOMY,
+  rules: [
+    {
+      id: 'missing-context',
+      category: 'grounding',
+      description: 'Missing or invalid user/tenant context',
+      weight: 1.2,
+      when: { exception: 'context|tenant' }
+    },
+    {
+      id: 'context-missing-field',
+      category: 'grounding',
+      description: 'Missing or invalid user/tenant context',
+      when: { contextMissing: 'userContext' }
+    },
+    {
+      id: 'timeout',
+      category: 'timeout',
+      description: 'API timeouts or network connectivity issues',
+      weight: 1.1,
+      when: { exception: 'timeout|timed out|network' }
+    },
+    {
+      id: 'permissions',
+      category: 'auth',
+      description: 'Authorization or permission issues',
+      when: { exception: 'permission|unauthorized|authentication|forbidden' }
+    },
+    {
+      id: 'token-expired',
+      category: 'auth/token-expired',
+      description: 'Access tokens expired before the call completed',
+      weight: 1.2,
+      when: { exception: 'token expired|expired token' }
+    },
+    {
+      id: 'invalid-input',
+      category: 'input',
+      description: 'Invalid or missing skill input parameters',
+      when: { exception: 'parameter|input|invalid|malformed|missing required field' }
+    },
+    {
+      id: 'malformed-json',
+      category: 'input/malformed-json',
+      description: 'Skill inputs or responses that are not valid JSON',
+      weight: 1.2,
+      when: { exception: 'json|unexpected token' }
+    },
+    {
+      id: 'null-user-object',
+      category: 'input',
+      description: 'Skill invoked without a resolved user object',
+      weight: 0.5,
+      when: { skillInput: { path: 'userObject', equals: null } }
+    },
+    {
+      id: 'rate-limit',
+      category: 'api/rate-limited',
+      description: 'Downstream API throttling',
+      when: { exception: 'rate limit|throttl|429' }
+    }
+  ],
+  fallback: {
+    category: 'api',
+    description: 'General API or service issues',
+    confidence: 0.5
+  }
+};
+
+const readPath = (inputs: Record<string, unknown>, path: string): unknown =>
+  path.split('.').reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    inputs
+  );
+
+const compileCondition = (condition: RuleCondition) => {
+  const exception = condition.exception ? new RegExp(condition.exception, 'i') : undefined;
+  const template = condition.template ? new RegExp(condition.template, 'i') : undefined;
+  const errorCode = condition.errorCode ? new RegExp(condition.errorCode, 'i') : undefined;
+  const { contextMissing, skillInput } = condition;
+
+  return (log: FailureLog, clusterTemplate: string): boolean => {
+    if (exception && !exception.test(log.exception)) return false;
+    if (template && !template.test(clusterTemplate)) return false;
+    if (errorCode && !errorCode.test(log.errorCode ?? '')) return false;
+    if (contextMissing && !log.contextMissing?.includes(contextMissing)) return false;
+    if (skillInput) {
+      const value = readPath(log.skillInputs, skillInput.path);
+      if (skillInput.missing !== undefined && (value === undefined || value === null) !== skillInput.missing) return false;
+      if (skillInput.equals !== undefined && value !== skillInput.equals) return false;
+    }
+    return true;
+  };
+};
+
+const MAX_EVIDENCE_IDS = 10;
+const MAX_SNIPPETS = 3;
+const SNIPPET_LENGTH = 160;
+
+const collectEvidence = (members: FailureLog[], ruleIds: string[]): RootCauseEvidence => ({
+  ruleIds,
+  evaluationIds: members.slice(0, MAX_EVIDENCE_IDS).map(log => log.evaluationId),
+  exceptionSnippets: [...new Set(members.map(log => log.exception))]
+    .slice(0, MAX_SNIPPETS)
+    .map(exception => exception.length > SNIPPET_LENGTH ? `${exception.slice(0, SNIPPET_LENGTH - 1)}…` : exception),
+  contextMissing: [...new Set(members.flatMap(log => log.contextMissing ?? []))]
+});
+
+const familyOf = (category: string) => category.split('/')[0];
+
+/**
+ * Ranks every top-level category whose rules matched; sub-categories compete with their parent rather
+ * than with each other, and a candidate is labelled with the category of its strongest rule. A family's
+ * share is the fraction of members at least one of its rules matched. Each member weighs a family by its
+ * strongest matching rule there, so overlapping rules of one family do not add up, and splits itself
+ * between the families it matched in proportion to those weights. A family's confidence is the part of
+ * all members credited to it, so a cluster split between two causes is not reported as certain about either.
+ */
+export const evaluateRootCause = (
+  logs: FailureLog[],
+  template: string,
+  ruleSet: RuleSet = DEFAULT_RULE_SET
+): RootCause => {
+  const matches = ruleSet.rules.map(rule => {
+    const test = compileCondition(rule.when);
+    const matched = logs.map(log => test(log, template));
+    return { rule, matched, members: logs.filter((_, index) => matched[index]) };
+  });
+
+  const firedRules: FiredRule[] = matches
+    .filter(({ members }) => members.length > 0)
+    .map(({ rule, members }) => ({
+      ruleId: rule.id,
+      category: rule.category,
+      matched: members.length,
+      fraction: round(members.length / logs.length),
+      weight: rule.weight ?? 1
+    }))
+    .sort((a, b) => b.weight * b.fraction - a.weight * a.fraction);
+
+  if (firedRules.length === 0) {
+    const { category, description, confidence } = ruleSet.fallback;
+    return {
+      category,
+      description,
+      confidence,
+      firedRules,
+      candidates: [{ category, description, share: 1, confidence, evidence: collectEvidence(logs, []) }]
+    };
+  }
+
+  const families = new Map<string, { members: FailureLog[]; credit: number }>();
+  logs.forEach((log, index) => {
+    const weights = new Map<string, number>();
+    matches.forEach(({ rule, matched }) => {
+      if (!matched[index]) return;
+      const family = familyOf(rule.category);
+      weights.set(family, Math.max(weights.get(family) ?? 0, rule.weight ?? 1));
+    });
+    const total = [...weights.values()].reduce((sum, weight) => sum + weight, 0);
+    weights.forEach((weight, family) => {
+      const entry = families.get(family) ?? { members: [], credit: 0 };
+      entry.members.push(log);
+      entry.credit += weight / total;
+      families.set(family, entry);
+    });
+  });
+
+  const candidates = [...families.entries()]
+    .sort(([, a], [, b]) => b.credit - a.credit || b.members.length - a.members.length)
+    .map(([family, { members, credit }]): RootCauseCandidate => {
+      // firedRules is sorted, so its first rule in the family is the strongest
+      const familyRules = firedRules.filter(fired => familyOf(fired.category) === family);
+      const lead = ruleSet.rules.find(rule => rule.id === familyRules[0].ruleId)!;
+      return {
+        category: lead.category,
+        description: lead.description,
+        share: round(members.length / logs.length),
+        confidence: round(credit / logs.length),
+        evidence: collectEvidence(members, familyRules.map(fired => fired.ruleId))
+      };
+    });
+
+  const [top] = candidates;
+  return {
+    category: top.category,
+    description: top.description,
+    confidence: top.confidence,
+    firedRules,
+    candidates
+  };
+};
+
+/**
+ * Validates an untrusted rule file (already parsed from JSON/YAML), including that every regex compiles
+ * and every rule names a category of the taxonomy. The file's optional `categories` list adds to or
+ * overrides the built-in taxonomy by ID.
+ */
+export const parseRuleSet = (value: unknown): RuleSet => {
+  const fail = (path: string, message: string): never => {
+    throw new RuleSetError(path, message);
+  };
+  const text = (v: unknown, path: string): string => (typeof v === 'string' && v ? v : fail(path, 'expected a non-empty string'));
+  const regex = (v: unknown, path: string): string => {
+    const source = text(v, path);
+    try {
+      new RegExp(source, 'i');
+    } catch (error) {
+      fail(path, `invalid regex: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return source;
+  };
+
+  if (!isPlainObject(value)) fail('rules file', 'expected an object');
+  const raw = value as Record<string, unknown>;
+  if (!Array.isArray(raw.rules)) fail('rules', 'expected an array');
+  if (raw.categories !== undefined && !Array.isArray(raw.categories)) fail('categories', 'expected an array');
+
+  const definitions = ((raw.categories ?? []) as unknown[]).map((item, index): RootCauseCategoryDefinition => {
+    const path = `categories[${index}]`;
+    if (!isPlainObject(item)) fail(path, 'expected an object');
+    const entry = item as Record<string, unknown>;
+    const id = text(entry.id, `${path}.id`);
+    if (!CATEGORY_ID_PATTERN.test(id)) fail(`${path}.id`, 'expected lower-case segments separated by "/"');
+
+    const definition: RootCauseCategoryDefinition = { id, label: text(entry.label, `${path}.label`) };
+    if (entry.description !== undefined) definition.description = text(entry.description, `${path}.description`);
+    if (entry.summary !== undefined) definition.summary = text(entry.summary, `${path}.summary`);
+    if (entry.color !== undefined) {
+      if (typeof entry.color !== 'string' || !(entry.color in TAXONOMY_COLORS)) {
+        fail(`${path}.color`, `expected one of ${Object.keys(TAXONOMY_COLORS).join(', ')}`);
+      }
+      definition.color = entry.color as TaxonomyColor;
+    }
+    if (entry.recommendations !== undefined) {
+      if (!Array.isArray(entry.recommendations)) fail(`${path}.recommendations`, 'expected an array');
+      definition.recommendations = (entry.recommendations as unknown[])
+        .map((step, stepIndex) => text(step, `${path}.recommendations[${stepIndex}]`));
+    }
+    return definition;
+  });
+  const taxonomy = mergeTaxonomy(DEFAULT_TAXONOMY, definitions);
+  const known = new Set(taxonomy.categories.map(definition => definition.id));
+  definitions.forEach((definition, index) => {
+    const parent = parentCategory(definition.id);
+    if (parent && !known.has(parent)) fail(`categories[${index}].id`, `parent category "${parent}" is not defined`);
+  });
+  const category = (v: unknown, path: string): string =>
+    typeof v === 'string' && known.has(v) ? v : fail(path, `unknown category ${JSON.stringify(v)}; define it under "categories"`);
+
+  const ids = new Set<string>();
+  const rules = (raw.rules as unknown[]).map((item, index): RootCauseRule => {
+    const path = `rules[${index}]`;
+    if (!isPlainObject(item)) fail(path, 'expected an object');
+    const rule = item as Record<string, unknown>;
+    const id = text(rule.id, `${path}.id`);
+    if (ids.has(id)) fail(`${path}.id`, `duplicate rule id "${id}"`);
+    ids.add(id);
+
+    if (!isPlainObject(rule.when)) fail(`${path}.when`, 'expected an object');
+    const when = rule.when as Record<string, unknown>;
+    const condition: RuleCondition = {};
+    (['exception', 'template', 'errorCode'] as const).forEach(field => {
+      if (when[field] !== undefined) condition[field] = regex(when[field], `${path}.when.${field}`);
+    });
+    if (when.contextMissing !== undefined) condition.contextMissing = text(when.contextMissing, `${path}.when.contextMissing`);
+    if (when.skillInput !== undefined) {
+      if (!isPlainObject(when.skillInput)) fail(`${path}.when.skillInput`, 'expected an object');
+      const input = when.skillInput as Record<string, unknown>;
+      condition.skillInput = { path: text(input.path, `${path}.when.skillInput.path`) };
+      if (input.missing !== undefined) {
+        if (typeof input.missing !== 'boolean') fail(`${path}.when.skillInput.missing`, 'expected a boolean');
+        condition.skillInput.missing = input.missing as boolean;
+      }
+      if (input.equals !== undefined) {
+        if (input.equals !== null && !['string', 'number', 'boolean'].includes(typeof input.equals)) {
+          fail(`${path}.when.skillInput.equals`, 'expected a string, number, boolean or null');
+        }
+        condition.skillInput.equals = input.equals as SkillInputCondition['equals'];
+      }
+    }
+    if (Object.keys(condition).length === 0) fail(`${path}.when`, 'needs at least one condition');
+
+    const weight = rule.weight ?? 1;
+    if (typeof weight !== 'number' || !(weight > 0)) fail(`${path}.weight`, 'expected a positive number');
+
+    return {
+      id,
+      category: category(rule.category, `${path}.category`),
+      description: text(rule.description, `${path}.description`),
+      weight: weight as number,
+      when: condition
+    };
+  });
+
+  const fallback = isPlainObject(raw.fallback) ? raw.fallback : {};
+  const confidence = fallback.confidence ?? DEFAULT_RULE_SET.fallback.confidence;
+  if (typeof confidence !== 'number' || confidence < 0 || confidence > 1) {
+    fail('fallback.confidence', 'expected a number between 0 and 1');
+  }
+
+  return {
+    taxonomy,
+    rules,
+    fallback: {
+      category: fallback.category === undefined ? DEFAULT_RULE_SET.fallback.category : category(fallback.category, 'fallback.category'),
+      description: fallback.description === undefined ? DEFAULT_RULE_SET.fallback.description : text(fallback.description, 'fallback.description'),
+      confidence: confidence as number
+    }
+  };
+};
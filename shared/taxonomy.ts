@@ -0,0 +1,184 @@
+// Root-cause taxonomy. Categories are identified by slash-separated paths (`auth`, `auth/token-expired`);
+// a sub-category inherits anything it does not define from its parent. The server publishes the active
+// taxonomy so the dashboard renders names, badges and filters from data instead of hard-coded switches.
+
+/** Badge colours the dashboard knows how to render. */
+export type TaxonomyColor = 'purple' | 'red' | 'orange' | 'yellow' | 'blue' | 'green' | 'teal' | 'pink' | 'gray';
+
+export interface RootCauseCategoryDefinition {
+  /** `parent/child` path, e.g. `api/rate-limited`. */
+  id: string;
+  /** Short name used in badges and cluster names, e.g. `Rate Limiting`. */
+  label: string;
+  description?: string;
+  color?: TaxonomyColor;
+  /** Summary line for a cluster; `{skill}` and `{count}` are substituted. */
+  summary?: string;
+  /** Remediation steps; `{skill}` is substituted. */
+  recommendations?: string[];
+}
+
+export interface Taxonomy {
+  categories: RootCauseCategoryDefinition[];
+}
+
+/** Definition with every optional field filled in from its ancestors or the defaults. */
+export type ResolvedCategory = Required<RootCauseCategoryDefinition>;
+
+/** Lower-case slug segments separated by `/`. */
+export const CATEGORY_ID_PATTERN = /^[a-z0-9-]+(\/[a-z0-9-]+)*$/;
+
+export const TAXONOMY_COLORS: Record<TaxonomyColor, true> = {
+  purple: true, red: true, orange: true, yellow: true, blue: true, green: true, teal: true, pink: true, gray: true
+};
+
+export const DEFAULT_TAXONOMY: Taxonomy = {
+  categories: [
+    {
+      id: 'grounding',
+      label: 'Context Issues',
+      description: 'Missing or invalid user/tenant context',
+      color: 'purple',
+      summary: 'Missing user context in {skill} queries ({count} failures)',
+      recommendations: [
+        'Fix grounding logic for userObject in tenant context',
+        'Add validation for required context fields',
+        'Implement fallback context resolution'
+      ]
+    },
+    {
+      id: 'skill',
+      label: 'Skill Failures',
+      description: 'Errors raised by the skill implementation',
+      color: 'pink',
+      summary: 'Skill execution errors in {skill} ({count} failures)'
+    },
+    {
+      id: 'timeout',
+      label: 'Timeout Failures',
+      description: 'API timeouts or network connectivity issues',
+      color: 'red',
+      summary: 'API timeouts in {skill} operations ({count} failures)',
+      recommendations: [
+        'Increase API timeout thresholds',
+        'Implement retry logic with exponential backoff',
+        'Add circuit breaker pattern for failing services'
+      ]
+    },
+    {
+      id: 'auth',
+      label: 'Permission Errors',
+      description: 'Authorization or permission issues',
+      color: 'orange',
+      summary: 'Permission errors in {skill} execution ({count} failures)',
+      recommendations: [
+        'Review and update service principal permissions',
+        'Implement proper token refresh mechanism',
+        'Add user permission validation before skill execution'
+      ]
+    },
+    {
+      id: 'auth/token-expired',
+      label: 'Expired Tokens',
+      description: 'Access tokens expired before the call completed',
+      summary: 'Expired tokens in {skill} execution ({count} failures)',
+      recommendations: [
+        'Refresh tokens proactively before expiry',
+        'Retry once with a fresh token on 401 responses'
+      ]
+    },
+    {
+      id: 'input',
+      label: 'Input Validation',
+      description: 'Invalid or missing skill input parameters',
+      color: 'blue',
+      summary: 'Invalid inputs to {skill} skill ({count} failures)',
+      recommendations: [
+        'Update {skill} skill to handle null values gracefully',
+        'Add input parameter validation',
+        'Provide better error messages for missing inputs'
+      ]
+    },
+    {
+      id: 'input/malformed-json',
+      label: 'Malformed JSON',
+      description: 'Skill inputs or responses that are not valid JSON',
+      summary: 'Malformed JSON passed to {skill} ({count} failures)',
+      recommendations: [
+        'Validate generated JSON against the skill schema before invoking {skill}',
+        'Log the raw payload when parsing fails'
+      ]
+    },
+    {
+      id: 'api',
+      label: 'API Failures',
+      description: 'General API or service issues',
+      color: 'gray',
+      summary: 'Service errors in {skill} API calls ({count} failures)',
+      recommendations: [
+        'Monitor API health and performance',
+        'Review service dependencies',
+        'Implement comprehensive error handling'
+      ]
+    },
+    {
+      id: 'api/rate-limited',
+      label: 'Rate Limiting',
+      description: 'Downstream API throttling',
+      color: 'yellow',
+      summary: 'Throttled API calls in {skill} ({count} failures)',
+      recommendations: [
+        'Honour Retry-After headers with backoff',
+        'Batch or cache requests to stay under quota',
+        'Request a higher quota for the {skill} service principal'
+      ]
+    }
+  ]
+};
+
+export const parentCategory = (id: string): string | undefined =>
+  id.includes('/') ? id.slice(0, id.lastIndexOf('/')) : undefined;
+
+/** True when `id` is `ancestor` itself or one of its sub-categories. */
+export const isWithinCategory = (id: string, ancestor: string): boolean =>
+  id === ancestor || id.startsWith(`${ancestor}/`);
+
+/**
+ * Looks up a category, filling gaps from its ancestors. Unknown IDs (e.g. from an older snapshot)
+ * still resolve, to their nearest known ancestor or a neutral entry labelled with the raw ID.
+ */
+export const resolveCategory = (taxonomy: Taxonomy, id: string): ResolvedCategory => {
+  const chain: RootCauseCategoryDefinition[] = [];
+  for (let current: string | undefined = id; current; current = parentCategory(current)) {
+    const found = taxonomy.categories.find(category => category.id === current);
+    if (found) chain.unshift(found);
+  }
+
+  return chain.reduce<ResolvedCategory>(
+    (resolved, definition) => ({
+      ...resolved,
+      ...Object.fromEntries(Object.entries(definition).filter(([, value]) => value !== undefined)),
+      id
+    }),
+    {
+      id,
+      label: id,
+      description: '',
+      color: 'gray',
+      summary: `${id} failures in {skill} ({count} failures)`,
+      recommendations: []
+    }
+  );
+};
+
+/** Replaces `{name}` placeholders. */
+export const fillTemplate = (template: string, values: Record<string, string | number>): string =>
+  template.replace(/\{(\w+)\}/g, (match, name: string) => (name in values ? String(values[name]) : match));
+
+/** Overlays custom definitions on a base taxonomy by ID, keeping the base order and appending new IDs. */
+export const mergeTaxonomy = (base: Taxonomy, overrides: RootCauseCategoryDefinition[]): Taxonomy => {
+  const byId = new Map(overrides.map(category => [category.id, category]));
+  const merged = base.categories.map(category => ({ ...category, ...byId.get(category.id) }));
+  const added = overrides.filter(category => !base.categories.some(existing => existing.id === category.id));
+  return { categories: [...merged, ...added] };
+};
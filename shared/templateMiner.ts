@@ -0,0 +1,199 @@
+import { TemplateParameter } from './types.js';
+
+/**
+ * Drain-style log template miner.
+ *
+ * Exception messages are tokenised, variable-looking tokens are masked (GUIDs, emails, durations,
+ * numbers, identifiers), and messages are routed through a fixed-depth prefix tree keyed by token
+ * count and leading tokens. Within a leaf a message joins the most similar existing group when the
+ * share of matching tokens reaches the similarity threshold; the group's template then generalises
+ * every differing position to a `<*>` slot.
+ *
+ * See He et al., "Drain: An Online Log Parsing Approach with Fixed Depth Tree" (ICWS 2017).
+ */
+
+const WILDCARD = '<*>';
+
+const MASKS: { kind: string; pattern: RegExp }[] = [
+  { kind: 'GUID', pattern: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i },
+  { kind: 'EMAIL', pattern: /^[^\s@]+@[^\s@]+\.[^\s@]+$/ },
+  { kind: 'URL', pattern: /^https?:\/\/\S+$/i },
+  { kind: 'DURATION', pattern: /^\d+(\.\d+)?\s*(ms|s|sec|secs|seconds?|m|min|mins|minutes?|h|hrs?|hours?)$/i },
+  { kind: 'IP', pattern: /^\d{1,3}(\.\d{1,3}){3}(:\d+)?$/ },
+  { kind: 'NUM', pattern: /^[-+]?\d+(\.\d+)?%?$/ },
+  { kind: 'HEX', pattern: /^(0x)?[0-9a-f]{8,}$/i },
+  { kind: 'ID', pattern: /\d/ }
+];
+
+const DURATION_UNIT = /^(ms|s|sec|secs|seconds?|m|min|mins|minutes?|h|hrs?|hours?)$/i;
+const EDGE_PUNCTUATION = /^([("'[{<]*)(.*?)([)"'\]}>.,;:!?]*)$/;
+
+interface Token {
+  raw: string;
+  masked: string;
+}
+
+const maskToken = (raw: string): string => {
+  const [, lead, core, trail] = raw.match(EDGE_PUNCTUATION) ?? ['', '', raw, ''];
+  if (!core) return raw;
+
+  const mask = MASKS.find(({ pattern }) => pattern.test(core));
+  return mask ? `${lead}<${mask.kind}>${trail}` : raw;
+};
+
+/** Splits on whitespace, keeping "30 seconds" style durations together as a single token. */
+const tokenize = (message: string): Token[] => {
+  const words = message.trim().split(/\s+/).filter(Boolean);
+  const tokens: Token[] = [];
+
+  for (let i = 0; i < words.length; i++) {
+    const next = words[i + 1];
+    if (/^\d+(\.\d+)?$/.test(words[i]) && next && DURATION_UNIT.test(next.replace(/[.,;:!?)]+$/, ''))) {
+      const raw = `${words[i]} ${next}`;
+      tokens.push({ raw, masked: maskToken(raw) });
+      i++;
+    } else {
+      tokens.push({ raw: words[i], masked: maskToken(words[i]) });
+    }
+  }
+
+  return tokens;
+};
+
+const isSlot = (token: string) => /<[A-Z*]+>/.test(token);
+
+interface LogGroup {
+  id: number;
+  template: string[];
+}
+
+export interface TemplateMinerOptions {
+  /** Number of leading tokens used to route messages through the prefix tree. */
+  depth?: number;
+  /** Minimum share of matching tokens for a message to join an existing group. */
+  similarityThreshold?: number;
+  /** Maximum children per tree node before further prefixes collapse into a wildcard branch. */
+  maxChildren?: number;
+}
+
+export class TemplateMiner {
+  private root = new Map<number, Map<string, unknown>>();
+  private groups: LogGroup[] = [];
+  private depth: number;
+  private similarityThreshold: number;
+  private maxChildren: number;
+
+  constructor(options: TemplateMinerOptions = {}) {
+    this.depth = options.depth ?? 3;
+    this.similarityThreshold = options.similarityThreshold ?? 0.5;
+    this.maxChildren = options.maxChildren ?? 100;
+  }
+
+  /** Adds a message to the miner and returns the id of the group it was assigned to. */
+  add(message: string): number {
+    const tokens = tokenize(message).map(t => t.masked);
+    const leaf = this.findLeaf(tokens);
+
+    let best: LogGroup | undefined;
+    let bestScore = -1;
+    for (const group of leaf) {
+      const score = this.similarity(group.template, tokens);
+      if (score > bestScore) {
+        best = group;
+        bestScore = score;
+      }
+    }
+
+    if (best && bestScore >= this.similarityThreshold) {
+      best.template = best.template.map((token, i) => (token === tokens[i] ? token : WILDCARD));
+      return best.id;
+    }
+
+    const group: LogGroup = { id: this.groups.length, template: tokens };
+    this.groups.push(group);
+    leaf.push(group);
+    return group.id;
+  }
+
+  template(groupId: number): string {
+    return this.groups[groupId].template.join(' ');
+  }
+
+  private similarity(template: string[], tokens: string[]): number {
+    if (tokens.length === 0) return 1;
+    const matching = template.filter((token, i) => token !== WILDCARD && token === tokens[i]).length;
+    return matching / tokens.length;
+  }
+
+  private findLeaf(tokens: string[]): LogGroup[] {
+    let node = this.root.get(tokens.length);
+    if (!node) {
+      node = new Map();
+      this.root.set(tokens.length, node);
+    }
+
+    const prefixLength = Math.min(this.depth, tokens.length);
+    for (let i = 0; i < prefixLength; i++) {
+      let key = isSlot(tokens[i]) ? WILDCARD : tokens[i];
+      if (!node.has(key) && key !== WILDCARD && node.size >= this.maxChildren) {
+        key = WILDCARD;
+      }
+      if (!node.has(key)) {
+        node.set(key, new Map<string, unknown>());
+      }
+      node = node.get(key) as Map<string, unknown>;
+    }
+
+    if (!node.has('')) {
+      node.set('', []);
+    }
+    return node.get('') as LogGroup[];
+  }
+}
+
+/**
+ * Aligns each message with its template and tallies the raw values seen in every slot.
+ * Only slots with at least one value are returned; values are ranked by frequency.
+ */
+export const extractTemplateParameters = (
+  template: string,
+  messages: string[],
+  topN: number = 5
+): TemplateParameter[] => {
+  const templateTokens = template.split(' ');
+  const slots = templateTokens
+    .map((token, position) => ({ token, position }))
+    .filter(({ token }) => isSlot(token));
+
+  return slots.map(({ token, position }) => {
+    const counts = new Map<string, number>();
+    messages.forEach(message => {
+      const raw = tokenize(message)[position]?.raw;
+      const value = raw && (raw.match(EDGE_PUNCTUATION)?.[2] || raw);
+      if (value) {
+        counts.set(value, (counts.get(value) || 0) + 1);
+      }
+    });
+
+    const kind = token.match(/<([A-Z*]+)>/)?.[1] ?? '*';
+    return {
+      position,
+      kind,
+      distinctValues: counts.size,
+      topValues: [...counts.entries()]
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, topN)
+        .map(([value, count]) => ({ value, count }))
+    };
+  }).filter(parameter => parameter.distinctValues > 0);
+};
+
+/** Stable short identifier for a template string (32-bit FNV-1a, hex encoded). */
+export const templateFingerprint = (template: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < template.length; i++) {
+    hash ^= template.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
@@ -0,0 +1,204 @@
+// Bucketed failure counts and trend classification. A window's trend compares its failures with the
+// equally long window before it; when that change is not significant, or history does not reach back
+// over the whole prior window, a steady rise or fall within the window still counts.
+
+import {
+  ClusterTrend,
+  FailureLog,
+  ProcessedCluster,
+  TimeSeriesPoint,
+  TrendAnalysis,
+  TrendDirection,
+  TrendSeries,
+  TrendStatistics,
+  TrendTimeRange
+} from './types.js';
+import { Taxonomy, resolveCategory } from './taxonomy.js';
+import { HOUR_MS, MINUTE_MS, round } from './util.js';
+
+export const TREND_TIME_RANGES: Record<TrendTimeRange, { durationMs: number; bucketMs: number }> = {
+  '24h': { durationMs: 24 * HOUR_MS, bucketMs: HOUR_MS },
+  '7d': { durationMs: 7 * 24 * HOUR_MS, bucketMs: 6 * HOUR_MS },
+  '30d': { durationMs: 30 * 24 * HOUR_MS, bucketMs: 24 * HOUR_MS }
+};
+
+export const DEFAULT_TREND_RANGE: TrendTimeRange = '7d';
+
+/** Fewer failures than this across both windows is too little to call a trend. */
+const MIN_EVENTS = 5;
+/** Two-sided 95% threshold for both the window comparison and the slope. */
+const SIGNIFICANT = 1.96;
+
+export interface TrendWindow {
+  start: Date;
+  end: Date;
+  previousStart: Date;
+  bucketMs: number;
+  buckets: Date[];
+}
+
+export const isTrendTimeRange = (value: unknown): value is TrendTimeRange =>
+  typeof value === 'string' && value in TREND_TIME_RANGES;
+
+/** The window of `range` ending at `asOf`, split into buckets from its start. */
+export const trendWindow = (range: TrendTimeRange, asOf: Date = new Date()): TrendWindow => {
+  const { durationMs, bucketMs } = TREND_TIME_RANGES[range];
+  const start = asOf.getTime() - durationMs;
+  return {
+    start: new Date(start),
+    end: asOf,
+    previousStart: new Date(start - durationMs),
+    bucketMs,
+    buckets: Array.from({ length: Math.ceil(durationMs / bucketMs) }, (_, index) => new Date(start + index * bucketMs))
+  };
+};
+
+/** Counts timestamps per bucket of the window, and in the prior window. */
+export const bucketTimestamps = (timestamps: Date[], window: TrendWindow): { counts: number[]; previous: number } => {
+  const start = window.start.getTime();
+  const counts: number[] = window.buckets.map(() => 0);
+  let previous = 0;
+
+  for (const timestamp of timestamps) {
+    const time = timestamp.getTime();
+    if (time >= start && time < window.end.getTime()) {
+      counts[Math.floor((time - start) / window.bucketMs)]++;
+    } else if (time >= window.previousStart.getTime() && time < start) {
+      previous++;
+    }
+  }
+  return { counts, previous };
+};
+
+/** Least-squares slope of the counts against bucket index, with its t statistic. */
+const fitSlope = (counts: number[]): { slope: number; t: number } => {
+  const n = counts.length;
+  if (n < 3) return { slope: 0, t: 0 };
+
+  const meanX = (n - 1) / 2;
+  const meanY = counts.reduce((sum, count) => sum + count, 0) / n;
+  let sxx = 0;
+  let sxy = 0;
+  counts.forEach((count, index) => {
+    sxx += (index - meanX) ** 2;
+    sxy += (index - meanX) * (count - meanY);
+  });
+  const slope = sxy / sxx;
+
+  const residuals = counts.reduce((sum, count, index) => sum + (count - (meanY + slope * (index - meanX))) ** 2, 0);
+  const standardError = Math.sqrt(residuals / (n - 2) / sxx);
+  // A perfect fit has no error; any non-zero slope is then as significant as it gets
+  return { slope, t: standardError > 0 ? slope / standardError : Math.sign(slope) * Infinity };
+};
+
+const direction = (score: number): TrendDirection =>
+  score >= SIGNIFICANT ? 'increasing' : score <= -SIGNIFICANT ? 'decreasing' : 'stable';
+
+/** False when stored history starts after the prior window does, so its count is partial. */
+export const coversPriorWindow = (window: TrendWindow, historyStart?: Date): boolean =>
+  !historyStart || historyStart.getTime() <= window.previousStart.getTime();
+
+/**
+ * Classifies a window from its bucket counts and the prior window's total. The change between
+ * windows is tested as a difference of Poisson counts; if it is not significant, or the prior
+ * window is not fully covered by history, the slope across the window's buckets is tested instead.
+ */
+export const classifyTrend = (counts: number[], previous: number, priorWindowComplete = true): TrendStatistics => {
+  const current = counts.reduce((sum, count) => sum + count, 0);
+  const zScore = current + previous > 0 ? (current - previous) / Math.sqrt(current + previous) : 0;
+  const { slope, t } = fitSlope(counts);
+
+  let trend: TrendDirection = 'stable';
+  if (priorWindowComplete && current + previous >= MIN_EVENTS) trend = direction(zScore);
+  if (trend === 'stable' && current >= MIN_EVENTS) trend = direction(t);
+
+  return {
+    trend,
+    current,
+    previous,
+    changeRatio: previous > 0 ? round(current / previous) : null,
+    zScore: round(zScore),
+    slope: round(slope)
+  };
+};
+
+/** Trend of a set of failures over `range` ending at `asOf`; `historyStart` is the oldest failure on record. */
+export const determineTrend = (
+  logs: FailureLog[],
+  historyStart?: Date,
+  asOf: Date = new Date(),
+  range: TrendTimeRange = DEFAULT_TREND_RANGE
+): TrendDirection => {
+  const window = trendWindow(range, asOf);
+  const { counts, previous } = bucketTimestamps(logs.map(log => log.timestamp), window);
+  return classifyTrend(counts, previous, coversPriorWindow(window, historyStart)).trend;
+};
+
+const groupTimestamps = <T>(items: T[], keyOf: (item: T) => string, timestampOf: (item: T) => Date) => {
+  const groups = new Map<string, Date[]>();
+  items.forEach(item => {
+    const key = keyOf(item);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(timestampOf(item));
+  });
+  return groups;
+};
+
+const byCurrentFailures = (a: TrendStatistics, b: TrendStatistics) => b.current - a.current || b.previous - a.previous;
+
+/**
+ * Bucketed series and trends for `range` ending at `asOf`. `logs` should cover both windows; skill
+ * and total series count every failure, root-cause series only those that belong to a cluster.
+ * `historyStart` is the oldest failure on record.
+ */
+export const analyzeTrendWindow = (
+  logs: FailureLog[],
+  clusters: ProcessedCluster[],
+  taxonomy: Taxonomy,
+  range: TrendTimeRange,
+  asOf: Date = new Date(),
+  historyStart?: Date
+): TrendAnalysis => {
+  const window = trendWindow(range, asOf);
+  const complete = coversPriorWindow(window, historyStart);
+  const series = (key: string, label: string, timestamps: Date[]): TrendSeries => {
+    const { counts, previous } = bucketTimestamps(timestamps, window);
+    return { key, label, counts, ...classifyTrend(counts, previous, complete) };
+  };
+  const active = (statistics: TrendStatistics) => statistics.current + statistics.previous > 0;
+
+  const skills = [...groupTimestamps(logs, log => log.skillName, log => log.timestamp)]
+    .map(([skill, timestamps]) => series(skill, skill, timestamps));
+
+  const clusterLogs = clusters.flatMap(cluster => cluster.failureLogs.map(log => ({ cluster, log })));
+  const rootCauses = [...groupTimestamps(clusterLogs, ({ cluster }) => cluster.rootCause.category, ({ log }) => log.timestamp)]
+    .map(([category, timestamps]) => series(category, resolveCategory(taxonomy, category).label, timestamps));
+
+  const clusterTrends: ClusterTrend[] = [];
+  const timeSeries: TimeSeriesPoint[] = [];
+  clusters.forEach(cluster => {
+    const { counts, previous } = bucketTimestamps(cluster.failureLogs.map(log => log.timestamp), window);
+    const statistics = classifyTrend(counts, previous, complete);
+    if (!active(statistics)) return;
+
+    clusterTrends.push({ clusterId: cluster.id, name: cluster.name, ...statistics });
+    counts.forEach((failureCount, index) => {
+      if (failureCount > 0) timeSeries.push({ timestamp: window.buckets[index], clusterId: cluster.id, failureCount });
+    });
+  });
+
+  return {
+    timeRange: range,
+    windowStart: window.start,
+    windowEnd: window.end,
+    previousWindowStart: window.previousStart,
+    previousWindowComplete: complete,
+    bucketMinutes: window.bucketMs / MINUTE_MS,
+    buckets: window.buckets,
+    total: series('all', 'All failures', logs.map(log => log.timestamp)),
+    skills: skills.filter(active).sort(byCurrentFailures),
+    rootCauses: rootCauses.filter(active).sort(byCurrentFailures),
+    clusters: clusterTrends.sort(byCurrentFailures),
+    timeSeries: timeSeries.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+  };
+};
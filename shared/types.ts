@@ -0,0 +1,671 @@
+// Domain types shared by the MCP server and the dashboard. Dates are real `Date`s here; see wire.ts for the JSON shape.
+
+export interface FailureLog {
+  evaluationId: string;
+  sessionId: string;
+  prompt: string;
+  skillName: string;
+  skillInputs: Record<string, any>;
+  exception: string;
+  timestamp: Date;
+  errorCode?: string;
+  userId?: string;
+  /** From the record, or promoted from `skillInputs.tenantId`. */
+  tenantId?: string;
+  contextMissing?: string[];
+}
+
+export interface TemplateParameter {
+  /** Token index of the slot within the template. */
+  position: number;
+  /** Mask applied to the slot, e.g. `GUID`, `EMAIL`, `NUM`, or `*` for a generalised token. */
+  kind: string;
+  distinctValues: number;
+  topValues: { value: string; count: number }[];
+}
+
+/**
+ * How a cluster's identity changed between two snapshots.
+ * - `created`: no previous cluster contributed members.
+ * - `split`: `clusterId` shed members into the clusters in `relatedClusterIds`.
+ * - `merged`: `clusterId` absorbed the clusters in `relatedClusterIds`.
+ * - `retired`: `clusterId` has no continuation; `relatedClusterIds` lists where its members went.
+ */
+export interface ClusterLineageEvent {
+  kind: 'created' | 'split' | 'merged' | 'retired';
+  clusterId: string;
+  relatedClusterIds: string[];
+  recordedAt: string;
+}
+
+/** A cluster's lineage events and every cluster it descends from. */
+export interface ClusterLineage {
+  clusterId: string;
+  events: ClusterLineageEvent[];
+  ancestors: string[];
+}
+
+export type ClusterStatus = 'new' | 'triaged' | 'in-progress' | 'resolved' | 'regressed' | 'wont-fix';
+
+export interface ClusterStatusChange {
+  status: ClusterStatus;
+  at: string;
+}
+
+export interface ClusterLifecycle {
+  status: ClusterStatus;
+  assignee?: string;
+  workItemUrl?: string;
+  notes?: string;
+  /** When the cluster was first detected, i.e. when it entered `new`. */
+  detectedAt: string;
+  statusChangedAt: string;
+  resolvedAt?: string;
+  history: ClusterStatusChange[];
+}
+
+export type ClusterLifecycleUpdate = Partial<Pick<ClusterLifecycle, 'status' | 'assignee' | 'workItemUrl' | 'notes'>>;
+
+export type ClusterAuditAction = 'status-changed' | 'assigned' | 'annotated' | 'merged' | 'split' | 'regressed';
+
+/** One change to a cluster's triage state or membership, with who or what made it. */
+export interface ClusterAuditEntry {
+  clusterId: string;
+  action: ClusterAuditAction;
+  /** User or agent that made the change; `system` for automatic transitions such as regressions. */
+  actor: string;
+  /** ISO timestamp of the change. */
+  at: string;
+  reason?: string;
+  /** Changed fields as `{ field: { from, to } }`, or the clusters and members involved in a merge/split. */
+  details: Record<string, unknown>;
+}
+
+/** A root-cause rule that matched at least one cluster member. */
+export interface FiredRule {
+  ruleId: string;
+  category: ProcessedCluster['rootCause']['category'];
+  /** Members the rule matched, and their share of the cluster. */
+  matched: number;
+  fraction: number;
+  weight: number;
+}
+
+/** What supports a candidate root cause, drawn from the members its rules matched. */
+export interface RootCauseEvidence {
+  ruleIds: string[];
+  /** Up to 10 matching members. */
+  evaluationIds: string[];
+  /** Up to 3 distinct matching exceptions, truncated. */
+  exceptionSnippets: string[];
+  /** Distinct `contextMissing` entries among the matching members. */
+  contextMissing: string[];
+}
+
+/** One possible root cause of a cluster; clusters list every category whose rules matched, best first. */
+export interface RootCauseCandidate {
+  category: ProcessedCluster['rootCause']['category'];
+  description: string;
+  /** Share of members matched by this category's rules. */
+  share: number;
+  /** `share` discounted by the strength of competing categories. */
+  confidence: number;
+  evidence: RootCauseEvidence;
+}
+
+/** Provenance of text written by an LLM provider rather than the built-in heuristics. */
+export interface GeneratedTextInfo {
+  provider: string;
+  model: string;
+  /** Hash of the content the text was generated from; generation is cached under it. */
+  fingerprint: string;
+  generatedAt: string;
+}
+
+export type TrendDirection = 'increasing' | 'decreasing' | 'stable';
+
+export type TrendTimeRange = '24h' | '7d' | '30d';
+
+/** Comparison of failures in a window with the equally long window before it; see timeSeries.ts. */
+export interface TrendStatistics {
+  trend: TrendDirection;
+  /** Failures in the window. */
+  current: number;
+  /** Failures in the prior window. */
+  previous: number;
+  /** `current / previous`; null when the prior window had no failures. */
+  changeRatio: number | null;
+  /** Change between the windows in standard deviations, treating both counts as Poisson. */
+  zScore: number;
+  /** Least-squares change in failures per bucket across the window. */
+  slope: number;
+}
+
+/** Failures of one cluster in one time bucket. */
+export interface TimeSeriesPoint {
+  timestamp: Date;
+  clusterId: string;
+  failureCount: number;
+}
+
+/** Bucketed failures of one skill or root cause, with its trend. */
+export interface TrendSeries extends TrendStatistics {
+  /** Skill name or root-cause category. */
+  key: string;
+  label: string;
+  /** Failures per bucket, aligned with `TrendAnalysis.buckets`. */
+  counts: number[];
+}
+
+export interface ClusterTrend extends TrendStatistics {
+  clusterId: string;
+  name: string;
+}
+
+export interface TrendAnalysis {
+  timeRange: TrendTimeRange;
+  windowStart: Date;
+  windowEnd: Date;
+  /** Start of the prior window the trends compare against; it ends at `windowStart`. */
+  previousWindowStart: Date;
+  /** False when history starts inside the prior window; trends then rest on the slope alone. */
+  previousWindowComplete: boolean;
+  bucketMinutes: number;
+  /** Start of each bucket, oldest first. */
+  buckets: Date[];
+  /** All failures, whether or not they belong to a cluster. */
+  total: TrendSeries;
+  skills: TrendSeries[];
+  rootCauses: TrendSeries[];
+  /** Clusters with failures in either window. */
+  clusters: ClusterTrend[];
+  /** Per-bucket failures of those clusters; buckets without failures are omitted. */
+  timeSeries: TimeSeriesPoint[];
+}
+
+export interface AnomalyContribution {
+  clusterId: string;
+  name: string;
+  /** Member failures inside the anomaly. */
+  failureCount: number;
+}
+
+/** A run of consecutive hours in which a skill or cluster failed far more often than its baseline. */
+export interface AnomalyEvent {
+  /** `<scope>:<key>@<start ISO>`, stable across calls. */
+  id: string;
+  scope: 'skill' | 'cluster';
+  /** Skill name or cluster ID. */
+  key: string;
+  label: string;
+  start: Date;
+  /** End of the last anomalous hour. */
+  end: Date;
+  failureCount: number;
+  /** What the hour-of-week baseline predicted for the same hours. */
+  expectedCount: number;
+  /** Highest robust z-score of any hour in the run. */
+  magnitude: number;
+  /** Clusters with failures inside the anomaly, most first. */
+  contributingClusters: AnomalyContribution[];
+}
+
+/** Invocations of a skill, failed or not, in one time bucket: the denominator of its error rate. */
+export interface InvocationCount {
+  skillName: string;
+  bucketStart: Date;
+  bucketMinutes: number;
+  invocations: number;
+}
+
+export interface SkillReliability {
+  /** `all` for the total across skills with telemetry. */
+  skillName: string;
+  invocations: number;
+  failures: number;
+  /** Failures per invocation; null when the skill has no invocation telemetry in the window. */
+  errorRate: number | null;
+  /** 1 - errorRate. */
+  reliability: number | null;
+  /** Share of buckets with traffic whose success rate met the SLA target. */
+  slaAttainment: number | null;
+  /** Per bucket of the window, aligned with `ReliabilityReport.buckets`. */
+  invocationCounts: number[];
+  failureCounts: number[];
+  /** Invocations and failures in the window by UTC hour of day. */
+  byHourOfDay: { invocations: number[]; failures: number[] };
+}
+
+export interface ReliabilityReport {
+  timeRange: TrendTimeRange;
+  windowStart: Date;
+  windowEnd: Date;
+  bucketMinutes: number;
+  buckets: Date[];
+  /** Success rate a bucket must reach to meet the SLA, e.g. 0.99. */
+  slaTarget: number;
+  total: SkillReliability;
+  /** Most failures first; skills without telemetry have null rates. */
+  skills: SkillReliability[];
+}
+
+/** `hour`: 24 hour-of-day slots; `weekday`: 7 day-of-week slots, Monday first. */
+export type HeatmapBinning = 'hour' | 'weekday';
+
+export interface HeatmapCell {
+  slot: number;
+  failures: number;
+  /** Null when the skill has no invocation telemetry in the window. */
+  invocations: number | null;
+  errorRate: number | null;
+  /** Clusters the cell's failures belong to, most failures first. */
+  clusterIds: string[];
+}
+
+export interface HeatmapRow {
+  skillName: string;
+  failures: number;
+  invocations: number | null;
+  cells: HeatmapCell[];
+}
+
+export interface FailureHeatmap {
+  timeRange: TrendTimeRange;
+  windowStart: Date;
+  windowEnd: Date;
+  /** IANA time zone the slots are taken in. */
+  timezone: string;
+  binning: HeatmapBinning;
+  slotLabels: string[];
+  /** Most failures first. */
+  rows: HeatmapRow[];
+}
+
+/** Pipeline stages of a Copilot request, in order; reaching a stage implies reaching those before it. */
+export type JourneyStage = 'invoked' | 'intent' | 'context' | 'skill' | 'response' | 'satisfied';
+
+/** A session completing, or failing at, one pipeline stage. */
+export interface StageEvent {
+  sessionId: string;
+  stage: JourneyStage;
+  outcome: 'reached' | 'failed';
+  timestamp: Date;
+  skillName?: string;
+  userId?: string;
+  /** Failure log behind a `failed` event, when known. */
+  evaluationId?: string;
+  errorCode?: string;
+}
+
+/** JSON type of a `skillInputs` value. */
+export type InputValueType = 'string' | 'number' | 'boolean' | 'object' | 'array' | 'null';
+
+/** How one top-level `skillInputs` field looks across a set of failures. */
+export interface InputFieldStats {
+  field: string;
+  /** Failures the stats cover. */
+  failures: number;
+  /** Share of failures carrying the field at all. */
+  presence: number;
+  /** Share of failures carrying it as null. */
+  nullRate: number;
+  /** Share of failures carrying a value of another type than the skill usually sends, or a blank string. */
+  malformedRate: number;
+  /** Failures per value type, nulls included. */
+  types: Partial<Record<InputValueType, number>>;
+  /** Distinct non-null values. */
+  cardinality: number;
+}
+
+/** Inferred `skillInputs` schema of one skill's failures. */
+export interface SkillInputProfile {
+  skillName: string;
+  failures: number;
+  /** Type most non-null values of each field have. */
+  expectedTypes: Record<string, InputValueType>;
+  fields: InputFieldStats[];
+}
+
+export type InputIssue = 'missing' | 'null' | 'malformed';
+
+/** One field of a cluster's failures against the same skill's other failures. */
+export interface InputFieldComparison {
+  field: string;
+  cluster: InputFieldStats;
+  baseline: InputFieldStats;
+  /** The issue the cluster shows most, relative to the baseline. */
+  issue: InputIssue;
+  clusterRate: number;
+  baselineRate: number;
+  /** Two-proportion z-score of the issue's rate; null without enough baseline failures. */
+  zScore: number | null;
+  significant: boolean;
+}
+
+export interface SkillInputComparison {
+  skillName: string;
+  clusterFailures: number;
+  /** The skill's failures outside the cluster. */
+  baselineFailures: number;
+  /** Significant fields first. */
+  fields: InputFieldComparison[];
+}
+
+/** Which `skillInputs` fields a cluster's failures get wrong more often than the rest of their skill. */
+export interface ClusterInputComparison {
+  clusterId: string;
+  name: string;
+  skills: SkillInputComparison[];
+}
+
+export interface SessionTraceFailure {
+  log: FailureLog;
+  /** Cluster the failure belongs to, if any. */
+  clusterId: string | null;
+  clusterName: string | null;
+  /** 1 for the session's first failure of this skill, 2 for its first retry, and so on. */
+  attempt: number;
+}
+
+/** Everything stored for one session, to tell a single failed attempt from a retry chain. */
+export interface SessionTrace {
+  sessionId: string;
+  /** First and last event of the session; null when nothing is stored for it. */
+  start: Date | null;
+  end: Date | null;
+  userIds: string[];
+  tenantIds: string[];
+  skills: string[];
+  /** Oldest first. */
+  failures: SessionTraceFailure[];
+  /** Oldest first. */
+  stageEvents: StageEvent[];
+  /** Furthest pipeline stage reached, from the stage events. */
+  furthestStage: JourneyStage | null;
+  /** Some skill failed more than once in the session. */
+  retryChain: boolean;
+}
+
+/** Why sessions stopped at a stage. */
+export interface DropOffCause {
+  /** Set when the sessions' failures belong to a cluster. */
+  clusterId?: string;
+  /** Cluster name, error code, `Unclassified failure`, or `Abandoned` when no failure was recorded. */
+  label: string;
+  sessions: number;
+  /** Share of the stage's drop-offs. */
+  share: number;
+}
+
+export interface FunnelStage {
+  stage: JourneyStage;
+  label: string;
+  /** Sessions that reached the stage. */
+  sessions: number;
+  /** Share of all sessions in the funnel. */
+  rate: number;
+  /** Share of the previous stage's sessions, or of all sessions for the first stage. */
+  conversion: number;
+  /** Sessions that reached the previous stage but not this one. */
+  dropped: number;
+  /** Most sessions first. */
+  causes: DropOffCause[];
+}
+
+export interface JourneyFunnel {
+  timeRange: TrendTimeRange;
+  windowStart: Date;
+  windowEnd: Date;
+  /** Sessions with stage events in the window. */
+  sessions: number;
+  /** Distinct users among the sessions that report one. */
+  users: number;
+  stages: FunnelStage[];
+}
+
+/** Weights of the impact matrix's cost estimate, stored in the server settings. */
+export interface CostModel {
+  perFailure: number;
+  perAffectedUser: number;
+  /** ISO 4217 code the weights are in, e.g. `USD`. */
+  currency: string;
+}
+
+export interface ClusterImpact {
+  clusterId: string;
+  name: string;
+  severity: ProcessedCluster['severity'];
+  category: string;
+  failures: number;
+  /** Distinct `userId`s among the cluster's failures; failures without one are not counted. */
+  affectedUsers: number;
+  affectedSessions: number;
+  /** Mean minutes from detection, or regression, to resolution; null until first resolved. */
+  mttrMinutes: number | null;
+  /** Times the cluster was resolved. */
+  resolutions: number;
+  /** `failures × perFailure + affectedUsers × perAffectedUser`. */
+  cost: number;
+}
+
+export interface ImpactMatrix {
+  costModel: CostModel;
+  /** Users and sessions are distinct across clusters; MTTR is the mean over every resolution. */
+  totals: Pick<ClusterImpact, 'failures' | 'affectedUsers' | 'affectedSessions' | 'mttrMinutes' | 'resolutions' | 'cost'>;
+  /** Highest cost first. */
+  clusters: ClusterImpact[];
+}
+
+export interface TenantHealth {
+  tenantId: string;
+  failures: number;
+  /** Share of the window's tenant-attributed failures. */
+  failureShare: number;
+  /** Failures over those of the median tenant. */
+  relativeToMedian: number;
+  /** Failing far more than the median tenant. */
+  disproportionate: boolean;
+  affectedUsers: number;
+  affectedSessions: number;
+  skills: string[];
+  clusters: number;
+  criticalClusters: number;
+  /** Clusters whose failures come almost only from this tenant. */
+  concentratedClusterIds: string[];
+}
+
+/** A cluster whose failures come almost only from one tenant: more likely its configuration than the code. */
+export interface TenantConcentration {
+  clusterId: string;
+  name: string;
+  severity: ProcessedCluster['severity'];
+  tenantId: string;
+  /** The tenant's failures in the cluster. */
+  failures: number;
+  /** All of the cluster's failures that carry a tenant. */
+  tenantFailures: number;
+  share: number;
+}
+
+export interface TenantHealthReport {
+  timeRange: TrendTimeRange;
+  windowStart: Date;
+  windowEnd: Date;
+  failures: number;
+  /** Failures in the window without a tenant. */
+  unattributedFailures: number;
+  /** Most failures first. */
+  tenants: TenantHealth[];
+  /** Highest share first. */
+  concentratedClusters: TenantConcentration[];
+}
+
+/** Service level objective of a skill, from the SLO file or its defaults. */
+export interface SloDefinition {
+  /** Share of invocations that must succeed over the window, e.g. 0.99. */
+  targetSuccessRate: number;
+  /** p95 latency target; recorded with the objective, not measured since no latency telemetry is ingested. */
+  latencyMs: number | null;
+  /** Rolling window the error budget covers. */
+  windowDays: number;
+}
+
+export interface BurnRate {
+  /** e.g. `1h` or `3d`. */
+  window: string;
+  hours: number;
+  invocations: number;
+  failures: number;
+  /** Error rate over the rate the SLO allows: 1 spends the budget exactly over the SLO window. Null without telemetry. */
+  burnRate: number | null;
+  /** Burn rate above which the window counts as burning too fast. */
+  threshold: number;
+}
+
+export interface BudgetConsumer {
+  clusterId: string;
+  name: string;
+  severity: ProcessedCluster['severity'];
+  /** Failures of the skill in the SLO window that belong to the cluster. */
+  failures: number;
+  /** Share of the error budget those failures spent; null without telemetry. */
+  budgetSpent: number | null;
+}
+
+/** `burning`: a short burn-rate window is over its threshold; `at-risk`: only a long one is. */
+export type SloStatus = 'healthy' | 'at-risk' | 'burning' | 'exhausted' | 'no-telemetry';
+
+export interface SkillSlo {
+  skillName: string;
+  slo: SloDefinition;
+  /** Over the SLO window; null when the skill has no invocation telemetry in it. */
+  invocations: number | null;
+  failures: number;
+  successRate: number | null;
+  /** Failures the SLO allows over its window at the observed traffic. */
+  errorBudget: number | null;
+  /** Share of the budget left; negative once overspent. */
+  budgetRemaining: number | null;
+  /** Shortest window first. */
+  burnRates: BurnRate[];
+  status: SloStatus;
+  /** Most budget spent first. */
+  topConsumers: BudgetConsumer[];
+}
+
+export interface SloScorecard {
+  asOf: Date;
+  /** The SLO file, or null when every skill uses the built-in objective. */
+  source: string | null;
+  /** Worst status first. */
+  skills: SkillSlo[];
+}
+
+/** A deployment or configuration change to a skill, ingested from the change-event file. */
+export interface ChangeEvent {
+  /** From the file, or `<skill>@<version>@<timestamp ISO>`. */
+  id: string;
+  kind: 'deployment' | 'config';
+  skillName: string;
+  version: string;
+  timestamp: Date;
+  description?: string;
+}
+
+/** An hour at which a skill's or cluster's failure rate shifted. */
+export interface ChangePoint {
+  scope: 'skill' | 'cluster';
+  /** Skill name or cluster ID. */
+  key: string;
+  label: string;
+  at: Date;
+  /** Failures per hour in the segments either side. */
+  rateBefore: number;
+  rateAfter: number;
+  /** Log-likelihood ratio of the split against a constant rate. */
+  score: number;
+}
+
+export interface CorrelatedCluster {
+  clusterId: string;
+  name: string;
+  /** `onset`: the cluster first failed after the change; `rate-change`: its failure rate shifted. */
+  reason: 'onset' | 'rate-change';
+  at: Date;
+  /** Minutes from the change to the onset or shift; slightly negative when both fall in the same hour. */
+  lagMinutes: number;
+  rateBefore?: number;
+  rateAfter?: number;
+}
+
+export interface ChangeCorrelation {
+  event: ChangeEvent;
+  /** Shifts in the changed skill's own failure rate shortly after the change. */
+  skillChangePoints: ChangePoint[];
+  /** Clusters of the changed skill whose onset or rate change followed it. */
+  clusters: CorrelatedCluster[];
+}
+
+export interface ChangeAnalysis {
+  windowStart: Date;
+  windowEnd: Date;
+  /** How long after a change an onset or shift still counts as following it. */
+  toleranceMinutes: number;
+  changePoints: ChangePoint[];
+  /** Every change in the window, newest first, including those nothing followed. */
+  correlations: ChangeCorrelation[];
+}
+
+/** A remediation step recommended for more than one cluster. */
+export interface SharedRecommendation {
+  recommendation: string;
+  clusterIds: string[];
+  /** Failures across those clusters. */
+  failureCount: number;
+}
+
+export interface ProcessedCluster {
+  id: string;
+  name: string;
+  summary: string;
+  failureCount: number;
+  representativePrompts: string[];
+  commonExceptions: string[];
+  template: string;
+  templateParameters: TemplateParameter[];
+  rootCause: {
+    /** Taxonomy ID, e.g. `auth` or `auth/token-expired`; see taxonomy.ts. */
+    category: string;
+    description: string;
+    /** Confidence of the top candidate. */
+    confidence: number;
+    /** Rules that matched, strongest first. */
+    firedRules?: FiredRule[];
+    /** Ranked candidates; the category and description above are the first one's. */
+    candidates?: RootCauseCandidate[];
+  };
+  recommendations: string[];
+  affectedSkills: string[];
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  firstSeen: Date;
+  lastSeen: Date;
+  /** Last 7 days against the 7 days before, as of when the cluster was computed. */
+  trend: TrendDirection;
+  resolved: boolean;
+  lifecycle: ClusterLifecycle;
+  tags: string[];
+  lineage?: ClusterLineageEvent[];
+  /** Set when `name`, `summary` and `recommendations` were generated by a model. */
+  generatedBy?: GeneratedTextInfo;
+  failureLogs: FailureLog[];
+}
+
+export interface AnalyticsData {
+  clusters: ProcessedCluster[];
+  failureLogs: FailureLog[];
+  totalFailures: number;
+  criticalClusters: number;
+  resolvedClusters: number;
+  regressedClusters: number;
+  lastUpdated: string;
+}
@@ -0,0 +1,19 @@
+// Small helpers the server modules and the shared core have in common.
+
+export const MINUTE_MS = 60 * 1000;
+export const HOUR_MS = 60 * MINUTE_MS;
+export const DAY_MS = 24 * HOUR_MS;
+
+/** Rounds reported rates, scores and statistics; pass `places` only for amounts such as money. */
+export const round = (value: number, places = 4) => Math.round(value * 10 ** places) / 10 ** places;
+
+/** Middle value of `values`, or the mean of the two middle ones; 0 when there are none. */
+export const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+export const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
@@ -0,0 +1,876 @@
+// Wire format between the MCP server and the dashboard. Tool results are JSON text, so every `Date`
+// travels as an ISO-8601 string; the encoders below produce that shape and the decoders validate it
+// and revive the dates, rejecting anything that does not match.
+
+import {
+  AnalyticsData,
+  AnomalyEvent,
+  ChangeAnalysis,
+  ChangeEvent,
+  ChangePoint,
+  ClusterAuditAction,
+  ClusterAuditEntry,
+  ClusterInputComparison,
+  CorrelatedCluster,
+  ClusterLifecycle,
+  ClusterLineage,
+  ClusterLineageEvent,
+  ClusterStatus,
+  CostModel,
+  FailureHeatmap,
+  FailureLog,
+  FiredRule,
+  GeneratedTextInfo,
+  ImpactMatrix,
+  InputFieldStats,
+  InputIssue,
+  InputValueType,
+  JourneyFunnel,
+  JourneyStage,
+  ProcessedCluster,
+  ReliabilityReport,
+  SessionTrace,
+  SkillInputProfile,
+  StageEvent,
+  RootCauseCandidate,
+  SkillReliability,
+  SloScorecard,
+  SloStatus,
+  TenantHealthReport,
+  TemplateParameter,
+  TrendAnalysis,
+  TrendSeries,
+  TrendStatistics,
+  TrendTimeRange
+} from './types.js';
+import { CATEGORY_ID_PATTERN, TAXONOMY_COLORS, Taxonomy, TaxonomyColor } from './taxonomy.js';
+import { isPlainObject } from './util.js';
+
+/** JSON form of a domain type: every `Date` becomes an ISO-8601 string. */
+export type Wire<T> =
+  T extends Date ? string :
+  T extends (infer U)[] ? Wire<U>[] :
+  T extends object ? { [K in keyof T]: Wire<T[K]> } :
+  T;
+
+export type FailureLogDTO = Wire<FailureLog>;
+export type ProcessedClusterDTO = Wire<ProcessedCluster>;
+export type AnalyticsDataDTO = Wire<AnalyticsData>;
+export type TrendAnalysisDTO = Wire<TrendAnalysis>;
+export type AnomalyEventDTO = Wire<AnomalyEvent>;
+export type ChangeAnalysisDTO = Wire<ChangeAnalysis>;
+export type ReliabilityReportDTO = Wire<ReliabilityReport>;
+export type FailureHeatmapDTO = Wire<FailureHeatmap>;
+export type JourneyFunnelDTO = Wire<JourneyFunnel>;
+export type SloScorecardDTO = Wire<SloScorecard>;
+export type SessionTraceDTO = Wire<SessionTrace>;
+export type TenantHealthReportDTO = Wire<TenantHealthReport>;
+
+/** Envelope every tool returns as its JSON text content. */
+export interface ToolResponse<T> {
+  success: true;
+  data: T;
+  [key: string]: unknown;
+}
+
+export class WireDecodeError extends Error {
+  constructor(readonly path: string, message: string) {
+    super(`${path}: ${message}`);
+    this.name = 'WireDecodeError';
+  }
+}
+
+export type Decoder<T> = (value: unknown, path: string) => T;
+
+const fail = (path: string, message: string): never => {
+  throw new WireDecodeError(path, message);
+};
+
+const object = (value: unknown, path: string): Record<string, unknown> =>
+  isPlainObject(value) ? value : fail(path, 'expected an object');
+
+const string: Decoder<string> = (value, path) =>
+  typeof value === 'string' ? value : fail(path, 'expected a string');
+
+const number: Decoder<number> = (value, path) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fail(path, 'expected a number');
+
+const boolean: Decoder<boolean> = (value, path) =>
+  typeof value === 'boolean' ? value : fail(path, 'expected a boolean');
+
+const date: Decoder<Date> = (value, path) => {
+  const parsed = new Date(string(value, path));
+  return Number.isNaN(parsed.getTime()) ? fail(path, `invalid date "${value}"`) : parsed;
+};
+
+/** ISO timestamps that stay strings in the domain types (lifecycle, lineage, audit). */
+const timestamp: Decoder<string> = (value, path) => date(value, path) && (value as string);
+
+export const listOf = <T>(decode: Decoder<T>): Decoder<T[]> => (value, path) =>
+  Array.isArray(value) ? value.map((item, index) => decode(item, `${path}[${index}]`)) : fail(path, 'expected an array');
+
+const optional = <T>(decode: Decoder<T>): Decoder<T | undefined> => (value, path) =>
+  value === undefined || value === null ? undefined : decode(value, path);
+
+const nullable = <T>(decode: Decoder<T>): Decoder<T | null> => (value, path) =>
+  value === null ? null : decode(value, path);
+
+// Keyed by every member of the union so adding a value without updating the decoder fails to compile
+const oneOf = <T extends string>(members: Record<T, true>): Decoder<T> => (value, path) =>
+  typeof value === 'string' && value in members
+    ? value as T
+    : fail(path, `expected one of ${Object.keys(members).join(', ')}`);
+
+const clusterStatus = oneOf<ClusterStatus>({
+  'new': true, 'triaged': true, 'in-progress': true, 'resolved': true, 'regressed': true, 'wont-fix': true
+});
+const rootCauseCategory: Decoder<string> = (value, path) =>
+  typeof value === 'string' && CATEGORY_ID_PATTERN.test(value) ? value : fail(path, 'expected a taxonomy category ID');
+const taxonomyColor = oneOf<TaxonomyColor>(TAXONOMY_COLORS);
+const severity = oneOf<ProcessedCluster['severity']>({ low: true, medium: true, high: true, critical: true });
+const trend = oneOf<ProcessedCluster['trend']>({ increasing: true, decreasing: true, stable: true });
+const seriesScope = oneOf<AnomalyEvent['scope'] & ChangePoint['scope']>({ skill: true, cluster: true });
+const heatmapBinning = oneOf<FailureHeatmap['binning']>({ hour: true, weekday: true });
+const journeyStage = oneOf<JourneyStage>({
+  invoked: true, intent: true, context: true, skill: true, response: true, satisfied: true
+});
+const sloStatus = oneOf<SloStatus>({
+  healthy: true, 'at-risk': true, burning: true, exhausted: true, 'no-telemetry': true
+});
+const stageOutcome = oneOf<StageEvent['outcome']>({ reached: true, failed: true });
+const inputValueType = oneOf<InputValueType>({ string: true, number: true, boolean: true, object: true, array: true, null: true });
+const inputIssue = oneOf<InputIssue>({ missing: true, null: true, malformed: true });
+const changeKind = oneOf<ChangeEvent['kind']>({ deployment: true, config: true });
+const correlationReason = oneOf<CorrelatedCluster['reason']>({ onset: true, 'rate-change': true });
+const trendTimeRange = oneOf<TrendTimeRange>({ '24h': true, '7d': true, '30d': true });
+const lineageKind = oneOf<ClusterLineageEvent['kind']>({ created: true, split: true, merged: true, retired: true });
+const auditAction = oneOf<ClusterAuditAction>({
+  'status-changed': true, assigned: true, annotated: true, merged: true, split: true, regressed: true
+});
+
+export const encodeFailureLog = (log: FailureLog): FailureLogDTO => ({
+  ...log,
+  timestamp: log.timestamp.toISOString()
+});
+
+export const encodeCluster = (cluster: ProcessedCluster): ProcessedClusterDTO => ({
+  ...cluster,
+  firstSeen: cluster.firstSeen.toISOString(),
+  lastSeen: cluster.lastSeen.toISOString(),
+  failureLogs: cluster.failureLogs.map(encodeFailureLog)
+});
+
+export const encodeAnalyticsData = (data: AnalyticsData): AnalyticsDataDTO => ({
+  ...data,
+  clusters: data.clusters.map(encodeCluster),
+  failureLogs: data.failureLogs.map(encodeFailureLog)
+});
+
+export const encodeTrendAnalysis = (analysis: TrendAnalysis): TrendAnalysisDTO => ({
+  ...analysis,
+  windowStart: analysis.windowStart.toISOString(),
+  windowEnd: analysis.windowEnd.toISOString(),
+  previousWindowStart: analysis.previousWindowStart.toISOString(),
+  buckets: analysis.buckets.map(bucket => bucket.toISOString()),
+  timeSeries: analysis.timeSeries.map(point => ({ ...point, timestamp: point.timestamp.toISOString() }))
+});
+
+export const encodeAnomalyEvent = (event: AnomalyEvent): AnomalyEventDTO => ({
+  ...event,
+  start: event.start.toISOString(),
+  end: event.end.toISOString()
+});
+
+export const encodeReliabilityReport = (report: ReliabilityReport): ReliabilityReportDTO => ({
+  ...report,
+  windowStart: report.windowStart.toISOString(),
+  windowEnd: report.windowEnd.toISOString(),
+  buckets: report.buckets.map(bucket => bucket.toISOString())
+});
+
+export const encodeFailureHeatmap = (heatmap: FailureHeatmap): FailureHeatmapDTO => ({
+  ...heatmap,
+  windowStart: heatmap.windowStart.toISOString(),
+  windowEnd: heatmap.windowEnd.toISOString()
+});
+
+export const encodeJourneyFunnel = (funnel: JourneyFunnel): JourneyFunnelDTO => ({
+  ...funnel,
+  windowStart: funnel.windowStart.toISOString(),
+  windowEnd: funnel.windowEnd.toISOString()
+});
+
+export const encodeSessionTrace = (trace: SessionTrace): SessionTraceDTO => ({
+  ...trace,
+  start: trace.start?.toISOString() ?? null,
+  end: trace.end?.toISOString() ?? null,
+  failures: trace.failures.map(failure => ({ ...failure, log: encodeFailureLog(failure.log) })),
+  stageEvents: trace.stageEvents.map(event => ({ ...event, timestamp: event.timestamp.toISOString() }))
+});
+
+export const encodeTenantHealthReport = (report: TenantHealthReport): TenantHealthReportDTO => ({
+  ...report,
+  windowStart: report.windowStart.toISOString(),
+  windowEnd: report.windowEnd.toISOString()
+});
+
+export const encodeSloScorecard = (scorecard: SloScorecard): SloScorecardDTO => ({
+  ...scorecard,
+  asOf: scorecard.asOf.toISOString()
+});
+
+const encodeChangeEvent = (event: ChangeEvent): Wire<ChangeEvent> => ({
+  ...event,
+  timestamp: event.timestamp.toISOString()
+});
+
+const encodeChangePoint = (point: ChangePoint): Wire<ChangePoint> => ({ ...point, at: point.at.toISOString() });
+
+export const encodeChangeAnalysis = (analysis: ChangeAnalysis): ChangeAnalysisDTO => ({
+  ...analysis,
+  windowStart: analysis.windowStart.toISOString(),
+  windowEnd: analysis.windowEnd.toISOString(),
+  changePoints: analysis.changePoints.map(encodeChangePoint),
+  correlations: analysis.correlations.map(correlation => ({
+    event: encodeChangeEvent(correlation.event),
+    skillChangePoints: correlation.skillChangePoints.map(encodeChangePoint),
+    clusters: correlation.clusters.map(cluster => ({ ...cluster, at: cluster.at.toISOString() }))
+  }))
+});
+
+export const decodeFailureLog: Decoder<FailureLog> = (value, path) => {
+  const raw = object(value, path);
+  return {
+    evaluationId: string(raw.evaluationId, `${path}.evaluationId`),
+    sessionId: string(raw.sessionId, `${path}.sessionId`),
+    prompt: string(raw.prompt, `${path}.prompt`),
+    skillName: string(raw.skillName, `${path}.skillName`),
+    skillInputs: object(raw.skillInputs, `${path}.skillInputs`),
+    exception: string(raw.exception, `${path}.exception`),
+    timestamp: date(raw.timestamp, `${path}.timestamp`),
+    errorCode: optional(string)(raw.errorCode, `${path}.errorCode`),
+    userId: optional(string)(raw.userId, `${path}.userId`),
+    tenantId: optional(string)(raw.tenantId, `${path}.tenantId`),
+    contextMissing: optional(listOf(string))(raw.contextMissing, `${path}.contextMissing`)
+  };
+};
+
+const decodeTemplateParameter: Decoder<TemplateParameter> = (value, path) => {
+  const raw = object(value, path);
+  return {
+    position: number(raw.position, `${path}.position`),
+    kind: string(raw.kind, `${path}.kind`),
+    distinctValues: number(raw.distinctValues, `${path}.distinctValues`),
+    topValues: listOf((item, itemPath) => {
+      const top = object(item, itemPath);
+      return { value: string(top.value, `${itemPath}.value`), count: number(top.count, `${itemPath}.count`) };
+    })(raw.topValues, `${path}.topValues`)
+  };
+};
+
+const decodeLifecycle: Decoder<ClusterLifecycle> = (value, path) => {
+  const raw = object(value, path);
+  return {
+    status: clusterStatus(raw.status, `${path}.status`),
+    assignee: optional(string)(raw.assignee, `${path}.assignee`),
+    workItemUrl: optional(string)(raw.workItemUrl, `${path}.workItemUrl`),
+    notes: optional(string)(raw.notes, `${path}.notes`),
+    detectedAt: timestamp(raw.detectedAt, `${path}.detectedAt`),
+    statusChangedAt: timestamp(raw.statusChangedAt, `${path}.statusChangedAt`),
+    resolvedAt: optional(timestamp)(raw.resolvedAt, `${path}.resolvedAt`),
+    history: listOf((item, itemPath) => {
+      const change = object(item, itemPath);
+      return { status: clusterStatus(change.status, `${itemPath}.status`), at: timestamp(change.at, `${itemPath}.at`) };
+    })(raw.history, `${path}.history`)
+  };
+};
+
+const decodeFiredRule: Decoder<FiredRule> = (value, path) => {
+  const raw = object(value, path);
+  return {
+    ruleId: string(raw.ruleId, `${path}.ruleId`),
+    category: rootCauseCategory(raw.category, `${path}.category`),
+    matched: number(raw.matched, `${path}.matched`),
+    fraction: number(raw.fraction, `${path}.fraction`),
+    weight: number(raw.weight, `${path}.weight`)
+  };
+};
+
+const decodeCandidate: Decoder<RootCauseCandidate> = (value, path) => {
+  const raw = object(value, path);
+  const evidence = object(raw.evidence, `${path}.evidence`);
+  return {
+    category: rootCauseCategory(raw.category, `${path}.category`),
+    description: string(raw.description, `${path}.description`),
+    share: number(raw.share, `${path}.share`),
+    confidence: number(raw.confidence, `${path}.confidence`),
+    evidence: {
+      ruleIds: listOf(string)(evidence.ruleIds, `${path}.evidence.ruleIds`),
+      evaluationIds: listOf(string)(evidence.evaluationIds, `${path}.evidence.evaluationIds`),
+      exceptionSnippets: listOf(string)(evidence.exceptionSnippets, `${path}.evidence.exceptionSnippets`),
+      contextMissing: listOf(string)(evidence.contextMissing, `${path}.evidence.contextMissing`)
+    }
+  };
+};
+
+export const decodeGeneratedTextInfo: Decoder<GeneratedTextInfo> = (value, path) => {
+  const raw = object(value, path);
+  return {
+    provider: string(raw.provider, `${path}.provider`),
+    model: string(raw.model, `${path}.model`),
+    fingerprint: string(raw.fingerprint, `${path}.fingerprint`),
+    generatedAt: timestamp(raw.generatedAt, `${path}.generatedAt`)
+  };
+};
+
+const decodeLineageEvent: Decoder<ClusterLineageEvent> = (value, path) => {
+  const raw = object(value, path);
+  return {
+    kind: lineageKind(raw.kind, `${path}.kind`),
+    clusterId: string(raw.clusterId, `${path}.clusterId`),
+    relatedClusterIds: listOf(string)(raw.relatedClusterIds, `${path}.relatedClusterIds`),
+    recordedAt: timestamp(raw.recordedAt, `${path}.recordedAt`)
+  };
+};
+
+export const decodeClusterLineage: Decoder<ClusterLineage> = (value, path) => {
+  const raw = object(value, path);
+  return {
+    clusterId: string(raw.clusterId, `${path}.clusterId`),
+    events: listOf(decodeLineageEvent)(raw.events, `${path}.events`),
+    ancestors: listOf(string)(raw.ancestors, `${path}.ancestors`)
+  };
+};
+
+export const decodeAuditEntry: Decoder<ClusterAuditEntry> = (value, path) => {
+  const raw = object(value, path);
+  return {
+    clusterId: string(raw.clusterId, `${path}.clusterId`),
+    action: auditAction(raw.action, `${path}.action`),
+    actor: string(raw.actor, `${path}.actor`),
+    at: timestamp(raw.at, `${path}.at`),
+    reason: optional(string)(raw.reason, `${path}.reason`),
+    details: object(raw.details, `${path}.details`)
+  };
+};
+
+export const decodeCluster: Decoder<ProcessedCluster> = (value, path) => {
+  const raw = object(value, path);
+  const rootCause = object(raw.rootCause, `${path}.rootCause`);
+  return {
+    id: string(raw.id, `${path}.id`),
+    name: string(raw.name, `${path}.name`),
+    summary: string(raw.summary, `${path}.summary`),
+    failureCount: number(raw.failureCount, `${path}.failureCount`),
+    representativePrompts: listOf(string)(raw.representativePrompts, `${path}.representativePrompts`),
+    commonExceptions: listOf(string)(raw.commonExceptions, `${path}.commonExceptions`),
+    template: string(raw.template, `${path}.template`),
+    templateParameters: listOf(decodeTemplateParameter)(raw.templateParameters, `${path}.templateParameters`),
+    rootCause: {
+      category: rootCauseCategory(rootCause.category, `${path}.rootCause.category`),
+      description: string(rootCause.description, `${path}.rootCause.description`),
+      confidence: number(rootCause.confidence, `${path}.rootCause.confidence`),
+      firedRules: optional(listOf(decodeFiredRule))(rootCause.firedRules, `${path}.rootCause.firedRules`),
+      candidates: optional(listOf(decodeCandidate))(rootCause.candidates, `${path}.rootCause.candidates`)
+    },
+    recommendations: listOf(string)(raw.recommendations, `${path}.recommendations`),
+    affectedSkills: listOf(string)(raw.affectedSkills, `${path}.affectedSkills`),
+    severity: severity(raw.severity, `${path}.severity`),
+    firstSeen: date(raw.firstSeen, `${path}.firstSeen`),
+    lastSeen: date(raw.lastSeen, `${path}.lastSeen`),
+    trend: trend(raw.trend, `${path}.trend`),
+    resolved: boolean(raw.resolved, `${path}.resolved`),
+    lifecycle: decodeLifecycle(raw.lifecycle, `${path}.lifecycle`),
+    tags: listOf(string)(raw.tags, `${path}.tags`),
+    lineage: optional(listOf(decodeLineageEvent))(raw.lineage, `${path}.lineage`),
+    generatedBy: optional(decodeGeneratedTextInfo)(raw.generatedBy, `${path}.generatedBy`),
+    failureLogs: listOf(decodeFailureLog)(raw.failureLogs, `${path}.failureLogs`)
+  };
+};
+
+export const decodeAnalyticsData: Decoder<AnalyticsData> = (value, path) => {
+  const raw = object(value, path);
+  return {
+    clusters: listOf(decodeCluster)(raw.clusters, `${path}.clusters`),
+    failureLogs: listOf(decodeFailureLog)(raw.failureLogs, `${path}.failureLogs`),
+    totalFailures: number(raw.totalFailures, `${path}.totalFailures`),
+    criticalClusters: number(raw.criticalClusters, `${path}.criticalClusters`),
+    resolvedClusters: number(raw.resolvedClusters, `${path}.resolvedClusters`),
+    regressedClusters: number(raw.regressedClusters, `${path}.regressedClusters`),
+    lastUpdated: timestamp(raw.lastUpdated, `${path}.lastUpdated`)
+  };
+};
+
+const decodeTrendStatistics: Decoder<TrendStatistics> = (value, path) => {
+  const raw = object(value, path);
+  return {
+    trend: trend(raw.trend, `${path}.trend`),
+    current: number(raw.current, `${path}.current`),
+    previous: number(raw.previous, `${path}.previous`),
+    changeRatio: raw.changeRatio === null ? null : number(raw.changeRatio, `${path}.changeRatio`),
+    zScore: number(raw.zScore, `${path}.zScore`),
+    slope: number(raw.slope, `${path}.slope`)
+  };
+};
+
+const decodeTrendSeries: Decoder<TrendSeries> = (value, path) => {
+  const raw = object(value, path);
+  return {
+    key: string(raw.key, `${path}.key`),
+    label: string(raw.label, `${path}.label`),
+    counts: listOf(number)(raw.counts, `${path}.counts`),
+    ...decodeTrendStatistics(raw, path)
+  };
+};
+
+export const decodeTrendAnalysis: Decoder<TrendAnalysis> = (value, path) => {
+  const raw = object(value, path);
+  return {
+    timeRange: trendTimeRange(raw.timeRange, `${path}.timeRange`),
+    windowStart: date(raw.windowStart, `${path}.windowStart`),
+    windowEnd: date(raw.windowEnd, `${path}.windowEnd`),
+    previousWindowStart: date(raw.previousWindowStart, `${path}.previousWindowStart`),
+    previousWindowComplete: boolean(raw.previousWindowComplete, `${path}.previousWindowComplete`),
+    bucketMinutes: number(raw.bucketMinutes, `${path}.bucketMinutes`),
+    buckets: listOf(date)(raw.buckets, `${path}.buckets`),
+    total: decodeTrendSeries(raw.total, `${path}.total`),
+    skills: listOf(decodeTrendSeries)(raw.skills, `${path}.skills`),
+    rootCauses: listOf(decodeTrendSeries)(raw.rootCauses, `${path}.rootCauses`),
+    clusters: listOf((item, itemPath) => {
+      const cluster = object(item, itemPath);
+      return {
+        clusterId: string(cluster.clusterId, `${itemPath}.clusterId`),
+        name: string(cluster.name, `${itemPath}.name`),
+        ...decodeTrendStatistics(cluster, itemPath)
+      };
+    })(raw.clusters, `${path}.clusters`),
+    timeSeries: listOf((item, itemPath) => {
+      const point = object(item, itemPath);
+      return {
+        timestamp: date(point.timestamp, `${itemPath}.timestamp`),
+        clusterId: string(point.clusterId, `${itemPath}.clusterId`),
+        failureCount: number(point.failureCount, `${itemPath}.failureCount`)
+      };
+    })(raw.timeSeries, `${path}.timeSeries`)
+  };
+};
+
+export const decodeAnomalyEvent: Decoder<AnomalyEvent> = (value, path) => {
+  const raw = object(value, path);
+  return {
+    id: string(raw.id, `${path}.id`),
+    scope: seriesScope(raw.scope, `${path}.scope`),
+    key: string(raw.key, `${path}.key`),
+    label: string(raw.label, `${path}.label`),
+    start: date(raw.start, `${path}.start`),
+    end: date(raw.end, `${path}.end`),
+    failureCount: number(raw.failureCount, `${path}.failureCount`),
+    expectedCount: number(raw.expectedCount, `${path}.expectedCount`),
+    magnitude: number(raw.magnitude, `${path}.magnitude`),
+    contributingClusters: listOf((item, itemPath) => {
+      const contribution = object(item, itemPath);
+      return {
+        clusterId: string(contribution.clusterId, `${itemPath}.clusterId`),
+        name: string(contribution.name, `${itemPath}.name`),
+        failureCount: number(contribution.failureCount, `${itemPath}.failureCount`)
+      };
+    })(raw.contributingClusters, `${path}.contributingClusters`)
+  };
+};
+
+const decodeSkillReliability: Decoder<SkillReliability> = (value, path) => {
+  const raw = object(value, path);
+  const byHourOfDay = object(raw.byHourOfDay, `${path}.byHourOfDay`);
+  return {
+    skillName: string(raw.skillName, `${path}.skillName`),
+    invocations: number(raw.invocations, `${path}.invocations`),
+    failures: number(raw.failures, `${path}.failures`),
+    errorRate: nullable(number)(raw.errorRate, `${path}.errorRate`),
+    reliability: nullable(number)(raw.reliability, `${path}.reliability`),
+    slaAttainment: nullable(number)(raw.slaAttainment, `${path}.slaAttainment`),
+    invocationCounts: listOf(number)(raw.invocationCounts, `${path}.invocationCounts`),
+    failureCounts: listOf(number)(raw.failureCounts, `${path}.failureCounts`),
+    byHourOfDay: {
+      invocations: listOf(number)(byHourOfDay.invocations, `${path}.byHourOfDay.invocations`),
+      failures: listOf(number)(byHourOfDay.failures, `${path}.byHourOfDay.failures`)
+    }
+  };
+};
+
+export const decodeReliabilityReport: Decoder<ReliabilityReport> = (value, path) => {
+  const raw = object(value, path);
+  return {
+    timeRange: trendTimeRange(raw.timeRange, `${path}.timeRange`),
+    windowStart: date(raw.windowStart, `${path}.windowStart`),
+    windowEnd: date(raw.windowEnd, `${path}.windowEnd`),
+    bucketMinutes: number(raw.bucketMinutes, `${path}.bucketMinutes`),
+    buckets: listOf(date)(raw.buckets, `${path}.buckets`),
+    slaTarget: number(raw.slaTarget, `${path}.slaTarget`),
+    total: decodeSkillReliability(raw.total, `${path}.total`),
+    skills: listOf(decodeSkillReliability)(raw.skills, `${path}.skills`)
+  };
+};
+
+export const decodeFailureHeatmap: Decoder<FailureHeatmap> = (value, path) => {
+  const raw = object(value, path);
+  return {
+    timeRange: trendTimeRange(raw.timeRange, `${path}.timeRange`),
+    windowStart: date(raw.windowStart, `${path}.windowStart`),
+    windowEnd: date(raw.windowEnd, `${path}.windowEnd`),
+    timezone: string(raw.timezone, `${path}.timezone`),
+    binning: heatmapBinning(raw.binning, `${path}.binning`),
+    slotLabels: listOf(string)(raw.slotLabels, `${path}.slotLabels`),
+    rows: listOf((item, itemPath) => {
+      const row = object(item, itemPath);
+      return {
+        skillName: string(row.skillName, `${itemPath}.skillName`),
+        failures: number(row.failures, `${itemPath}.failures`),
+        invocations: nullable(number)(row.invocations, `${itemPath}.invocations`),
+        cells: listOf((entry, entryPath) => {
+          const cell = object(entry, entryPath);
+          return {
+            slot: number(cell.slot, `${entryPath}.slot`),
+            failures: number(cell.failures, `${entryPath}.failures`),
+            invocations: nullable(number)(cell.invocations, `${entryPath}.invocations`),
+            errorRate: nullable(number)(cell.errorRate, `${entryPath}.errorRate`),
+            clusterIds: listOf(string)(cell.clusterIds, `${entryPath}.clusterIds`)
+          };
+        })(row.cells, `${itemPath}.cells`)
+      };
+    })(raw.rows, `${path}.rows`)
+  };
+};
+
+export const decodeJourneyFunnel: Decoder<JourneyFunnel> = (value, path) => {
+  const raw = object(value, path);
+  return {
+    timeRange: trendTimeRange(raw.timeRange, `${path}.timeRange`),
+    windowStart: date(raw.windowStart, `${path}.windowStart`),
+    windowEnd: date(raw.windowEnd, `${path}.windowEnd`),
+    sessions: number(raw.sessions, `${path}.sessions`),
+    users: number(raw.users, `${path}.users`),
+    stages: listOf((item, itemPath) => {
+      const stage = object(item, itemPath);
+      return {
+        stage: journeyStage(stage.stage, `${itemPath}.stage`),
+        label: string(stage.label, `${itemPath}.label`),
+        sessions: number(stage.sessions, `${itemPath}.sessions`),
+        rate: number(stage.rate, `${itemPath}.rate`),
+        conversion: number(stage.conversion, `${itemPath}.conversion`),
+        dropped: number(stage.dropped, `${itemPath}.dropped`),
+        causes: listOf((entry, entryPath) => {
+          const cause = object(entry, entryPath);
+          return {
+            clusterId: optional(string)(cause.clusterId, `${entryPath}.clusterId`),
+            label: string(cause.label, `${entryPath}.label`),
+            sessions: number(cause.sessions, `${entryPath}.sessions`),
+            share: number(cause.share, `${entryPath}.share`)
+          };
+        })(stage.causes, `${itemPath}.causes`)
+      };
+    })(raw.stages, `${path}.stages`)
+  };
+};
+
+export const decodeCostModel: Decoder<CostModel> = (value, path) => {
+  const raw = object(value, path);
+  return {
+    perFailure: number(raw.perFailure, `${path}.perFailure`),
+    perAffectedUser: number(raw.perAffectedUser, `${path}.perAffectedUser`),
+    currency: string(raw.currency, `${path}.currency`)
+  };
+};
+
+export const decodeImpactMatrix: Decoder<ImpactMatrix> = (value, path) => {
+  const raw = object(value, path);
+  const totals = object(raw.totals, `${path}.totals`);
+  return {
+    costModel: decodeCostModel(raw.costModel, `${path}.costModel`),
+    totals: {
+      failures: number(totals.failures, `${path}.totals.failures`),
+      affectedUsers: number(totals.affectedUsers, `${path}.totals.affectedUsers`),
+      affectedSessions: number(totals.affectedSessions, `${path}.totals.affectedSessions`),
+      mttrMinutes: nullable(number)(totals.mttrMinutes, `${path}.totals.mttrMinutes`),
+      resolutions: number(totals.resolutions, `${path}.totals.resolutions`),
+      cost: number(totals.cost, `${path}.totals.cost`)
+    },
+    clusters: listOf((item, itemPath) => {
+      const impact = object(item, itemPath);
+      return {
+        clusterId: string(impact.clusterId, `${itemPath}.clusterId`),
+        name: string(impact.name, `${itemPath}.name`),
+        severity: severity(impact.severity, `${itemPath}.severity`),
+        category: rootCauseCategory(impact.category, `${itemPath}.category`),
+        failures: number(impact.failures, `${itemPath}.failures`),
+        affectedUsers: number(impact.affectedUsers, `${itemPath}.affectedUsers`),
+        affectedSessions: number(impact.affectedSessions, `${itemPath}.affectedSessions`),
+        mttrMinutes: nullable(number)(impact.mttrMinutes, `${itemPath}.mttrMinutes`),
+        resolutions: number(impact.resolutions, `${itemPath}.resolutions`),
+        cost: number(impact.cost, `${itemPath}.cost`)
+      };
+    })(raw.clusters, `${path}.clusters`)
+  };
+};
+
+const decodeStageEvent: Decoder<StageEvent> = (value, path) => {
+  const raw = object(value, path);
+  return {
+    sessionId: string(raw.sessionId, `${path}.sessionId`),
+    stage: journeyStage(raw.stage, `${path}.stage`),
+    outcome: stageOutcome(raw.outcome, `${path}.outcome`),
+    timestamp: date(raw.timestamp, `${path}.timestamp`),
+    skillName: optional(string)(raw.skillName, `${path}.skillName`),
+    userId: optional(string)(raw.userId, `${path}.userId`),
+    evaluationId: optional(string)(raw.evaluationId, `${path}.evaluationId`),
+    errorCode: optional(string)(raw.errorCode, `${path}.errorCode`)
+  };
+};
+
+const decodeInputFieldStats: Decoder<InputFieldStats> = (value, path) => {
+  const raw = object(value, path);
+  const types = object(raw.types, `${path}.types`);
+  return {
+    field: string(raw.field, `${path}.field`),
+    failures: number(raw.failures, `${path}.failures`),
+    presence: number(raw.presence, `${path}.presence`),
+    nullRate: number(raw.nullRate, `${path}.nullRate`),
+    malformedRate: number(raw.malformedRate, `${path}.malformedRate`),
+    types: Object.fromEntries(Object.entries(types).map(([type, count]) =>
+      [inputValueType(type, `${path}.types`), number(count, `${path}.types.${type}`)])),
+    cardinality: number(raw.cardinality, `${path}.cardinality`)
+  };
+};
+
+export const decodeSkillInputProfile: Decoder<SkillInputProfile> = (value, path) => {
+  const raw = object(value, path);
+  const expectedTypes = object(raw.expectedTypes, `${path}.expectedTypes`);
+  return {
+    skillName: string(raw.skillName, `${path}.skillName`),
+    failures: number(raw.failures, `${path}.failures`),
+    expectedTypes: Object.fromEntries(Object.entries(expectedTypes).map(([field, type]) =>
+      [field, inputValueType(type, `${path}.expectedTypes.${field}`)])),
+    fields: listOf(decodeInputFieldStats)(raw.fields, `${path}.fields`)
+  };
+};
+
+export const decodeClusterInputComparison: Decoder<ClusterInputComparison> = (value, path) => {
+  const raw = object(value, path);
+  return {
+    clusterId: string(raw.clusterId, `${path}.clusterId`),
+    name: string(raw.name, `${path}.name`),
+    skills: listOf((item, itemPath) => {
+      const skill = object(item, itemPath);
+      return {
+        skillName: string(skill.skillName, `${itemPath}.skillName`),
+        clusterFailures: number(skill.clusterFailures, `${itemPath}.clusterFailures`),
+        baselineFailures: number(skill.baselineFailures, `${itemPath}.baselineFailures`),
+        fields: listOf((entry, entryPath) => {
+          const field = object(entry, entryPath);
+          return {
+            field: string(field.field, `${entryPath}.field`),
+            cluster: decodeInputFieldStats(field.cluster, `${entryPath}.cluster`),
+            baseline: decodeInputFieldStats(field.baseline, `${entryPath}.baseline`),
+            issue: inputIssue(field.issue, `${entryPath}.issue`),
+            clusterRate: number(field.clusterRate, `${entryPath}.clusterRate`),
+            baselineRate: number(field.baselineRate, `${entryPath}.baselineRate`),
+            zScore: nullable(number)(field.zScore, `${entryPath}.zScore`),
+            significant: boolean(field.significant, `${entryPath}.significant`)
+          };
+        })(skill.fields, `${itemPath}.fields`)
+      };
+    })(raw.skills, `${path}.skills`)
+  };
+};
+
+export const decodeSessionTrace: Decoder<SessionTrace> = (value, path) => {
+  const raw = object(value, path);
+  return {
+    sessionId: string(raw.sessionId, `${path}.sessionId`),
+    start: nullable(date)(raw.start, `${path}.start`),
+    end: nullable(date)(raw.end, `${path}.end`),
+    userIds: listOf(string)(raw.userIds, `${path}.userIds`),
+    tenantIds: listOf(string)(raw.tenantIds, `${path}.tenantIds`),
+    skills: listOf(string)(raw.skills, `${path}.skills`),
+    failures: listOf((item, itemPath) => {
+      const failure = object(item, itemPath);
+      return {
+        log: decodeFailureLog(failure.log, `${itemPath}.log`),
+        clusterId: nullable(string)(failure.clusterId, `${itemPath}.clusterId`),
+        clusterName: nullable(string)(failure.clusterName, `${itemPath}.clusterName`),
+        attempt: number(failure.attempt, `${itemPath}.attempt`)
+      };
+    })(raw.failures, `${path}.failures`),
+    stageEvents: listOf(decodeStageEvent)(raw.stageEvents, `${path}.stageEvents`),
+    furthestStage: nullable(journeyStage)(raw.furthestStage, `${path}.furthestStage`),
+    retryChain: boolean(raw.retryChain, `${path}.retryChain`)
+  };
+};
+
+export const decodeTenantHealthReport: Decoder<TenantHealthReport> = (value, path) => {
+  const raw = object(value, path);
+  return {
+    timeRange: trendTimeRange(raw.timeRange, `${path}.timeRange`),
+    windowStart: date(raw.windowStart, `${path}.windowStart`),
+    windowEnd: date(raw.windowEnd, `${path}.windowEnd`),
+    failures: number(raw.failures, `${path}.failures`),
+    unattributedFailures: number(raw.unattributedFailures, `${path}.unattributedFailures`),
+    tenants: listOf((item, itemPath) => {
+      const tenant = object(item, itemPath);
+      return {
+        tenantId: string(tenant.tenantId, `${itemPath}.tenantId`),
+        failures: number(tenant.failures, `${itemPath}.failures`),
+        failureShare: number(tenant.failureShare, `${itemPath}.failureShare`),
+        relativeToMedian: number(tenant.relativeToMedian, `${itemPath}.relativeToMedian`),
+        disproportionate: boolean(tenant.disproportionate, `${itemPath}.disproportionate`),
+        affectedUsers: number(tenant.affectedUsers, `${itemPath}.affectedUsers`),
+        affectedSessions: number(tenant.affectedSessions, `${itemPath}.affectedSessions`),
+        skills: listOf(string)(tenant.skills, `${itemPath}.skills`),
+        clusters: number(tenant.clusters, `${itemPath}.clusters`),
+        criticalClusters: number(tenant.criticalClusters, `${itemPath}.criticalClusters`),
+        concentratedClusterIds: listOf(string)(tenant.concentratedClusterIds, `${itemPath}.concentratedClusterIds`)
+      };
+    })(raw.tenants, `${path}.tenants`),
+    concentratedClusters: listOf((item, itemPath) => {
+      const concentration = object(item, itemPath);
+      return {
+        clusterId: string(concentration.clusterId, `${itemPath}.clusterId`),
+        name: string(concentration.name, `${itemPath}.name`),
+        severity: severity(concentration.severity, `${itemPath}.severity`),
+        tenantId: string(concentration.tenantId, `${itemPath}.tenantId`),
+        failures: number(concentration.failures, `${itemPath}.failures`),
+        tenantFailures: number(concentration.tenantFailures, `${itemPath}.tenantFailures`),
+        share: number(concentration.share, `${itemPath}.share`)
+      };
+    })(raw.concentratedClusters, `${path}.concentratedClusters`)
+  };
+};
+
+export const decodeSloScorecard: Decoder<SloScorecard> = (value, path) => {
+  const raw = object(value, path);
+  return {
+    asOf: date(raw.asOf, `${path}.asOf`),
+    source: nullable(string)(raw.source, `${path}.source`),
+    skills: listOf((item, itemPath) => {
+      const skill = object(item, itemPath);
+      const slo = object(skill.slo, `${itemPath}.slo`);
+      return {
+        skillName: string(skill.skillName, `${itemPath}.skillName`),
+        slo: {
+          targetSuccessRate: number(slo.targetSuccessRate, `${itemPath}.slo.targetSuccessRate`),
+          latencyMs: nullable(number)(slo.latencyMs, `${itemPath}.slo.latencyMs`),
+          windowDays: number(slo.windowDays, `${itemPath}.slo.windowDays`)
+        },
+        invocations: nullable(number)(skill.invocations, `${itemPath}.invocations`),
+        failures: number(skill.failures, `${itemPath}.failures`),
+        successRate: nullable(number)(skill.successRate, `${itemPath}.successRate`),
+        errorBudget: nullable(number)(skill.errorBudget, `${itemPath}.errorBudget`),
+        budgetRemaining: nullable(number)(skill.budgetRemaining, `${itemPath}.budgetRemaining`),
+        burnRates: listOf((entry, entryPath) => {
+          const rate = object(entry, entryPath);
+          return {
+            window: string(rate.window, `${entryPath}.window`),
+            hours: number(rate.hours, `${entryPath}.hours`),
+            invocations: number(rate.invocations, `${entryPath}.invocations`),
+            failures: number(rate.failures, `${entryPath}.failures`),
+            burnRate: nullable(number)(rate.burnRate, `${entryPath}.burnRate`),
+            threshold: number(rate.threshold, `${entryPath}.threshold`)
+          };
+        })(skill.burnRates, `${itemPath}.burnRates`),
+        status: sloStatus(skill.status, `${itemPath}.status`),
+        topConsumers: listOf((entry, entryPath) => {
+          const consumer = object(entry, entryPath);
+          return {
+            clusterId: string(consumer.clusterId, `${entryPath}.clusterId`),
+            name: string(consumer.name, `${entryPath}.name`),
+            severity: severity(consumer.severity, `${entryPath}.severity`),
+            failures: number(consumer.failures, `${entryPath}.failures`),
+            budgetSpent: nullable(number)(consumer.budgetSpent, `${entryPath}.budgetSpent`)
+          };
+        })(skill.topConsumers, `${itemPath}.topConsumers`)
+      };
+    })(raw.skills, `${path}.skills`)
+  };
+};
+
+const decodeChangeEvent: Decoder<ChangeEvent> = (value, path) => {
+  const raw = object(value, path);
+  return {
+    id: string(raw.id, `${path}.id`),
+    kind: changeKind(raw.kind, `${path}.kind`),
+    skillName: string(raw.skillName, `${path}.skillName`),
+    version: string(raw.version, `${path}.version`),
+    timestamp: date(raw.timestamp, `${path}.timestamp`),
+    description: optional(string)(raw.description, `${path}.description`)
+  };
+};
+
+const decodeChangePoint: Decoder<ChangePoint> = (value, path) => {
+  const raw = object(value, path);
+  return {
+    scope: seriesScope(raw.scope, `${path}.scope`),
+    key: string(raw.key, `${path}.key`),
+    label: string(raw.label, `${path}.label`),
+    at: date(raw.at, `${path}.at`),
+    rateBefore: number(raw.rateBefore, `${path}.rateBefore`),
+    rateAfter: number(raw.rateAfter, `${path}.rateAfter`),
+    score: number(raw.score, `${path}.score`)
+  };
+};
+
+export const decodeChangeAnalysis: Decoder<ChangeAnalysis> = (value, path) => {
+  const raw = object(value, path);
+  return {
+    windowStart: date(raw.windowStart, `${path}.windowStart`),
+    windowEnd: date(raw.windowEnd, `${path}.windowEnd`),
+    toleranceMinutes: number(raw.toleranceMinutes, `${path}.toleranceMinutes`),
+    changePoints: listOf(decodeChangePoint)(raw.changePoints, `${path}.changePoints`),
+    correlations: listOf((item, itemPath) => {
+      const correlation = object(item, itemPath);
+      return {
+        event: decodeChangeEvent(correlation.event, `${itemPath}.event`),
+        skillChangePoints: listOf(decodeChangePoint)(correlation.skillChangePoints, `${itemPath}.skillChangePoints`),
+        clusters: listOf((entry, entryPath) => {
+          const cluster = object(entry, entryPath);
+          return {
+            clusterId: string(cluster.clusterId, `${entryPath}.clusterId`),
+            name: string(cluster.name, `${entryPath}.name`),
+            reason: correlationReason(cluster.reason, `${entryPath}.reason`),
+            at: date(cluster.at, `${entryPath}.at`),
+            lagMinutes: number(cluster.lagMinutes, `${entryPath}.lagMinutes`),
+            rateBefore: optional(number)(cluster.rateBefore, `${entryPath}.rateBefore`),
+            rateAfter: optional(number)(cluster.rateAfter, `${entryPath}.rateAfter`)
+          };
+        })(correlation.clusters, `${itemPath}.clusters`)
+      };
+    })(raw.correlations, `${path}.correlations`)
+  };
+};
+
+export const decodeTaxonomy: Decoder<Taxonomy> = (value, path) => {
+  const raw = object(value, path);
+  return {
+    categories: listOf((item, itemPath) => {
+      const category = object(item, itemPath);
+      return {
+        id: rootCauseCategory(category.id, `${itemPath}.id`),
+        label: string(category.label, `${itemPath}.label`),
+        description: optional(string)(category.description, `${itemPath}.description`),
+        color: optional(taxonomyColor)(category.color, `${itemPath}.color`),
+        summary: optional(string)(category.summary, `${itemPath}.summary`),
+        recommendations: optional(listOf(string))(category.recommendations, `${itemPath}.recommendations`)
+      };
+    })(raw.categories, `${path}.categories`)
+  };
+};
+
+/** Accepts any JSON object; for payloads without dates that the dashboard renders as-is. */
+export const decodeObject = <T>(value: unknown, path: string): T => object(value, path) as T;
+
+/** Validates the tool envelope and decodes its `data` payload. */
+export const decodeToolResponse = <T>(value: unknown, decodeData: Decoder<T>): ToolResponse<T> => {
+  const raw = object(value, 'response');
+  if (raw.success !== true) {
+    fail('response.success', 'expected true');
+  }
+  return { ...raw, success: true, data: decodeData(raw.data, 'data') };
+};
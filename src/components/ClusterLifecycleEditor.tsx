@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ClusterLifecycleUpdate, ClusterStatus, ProcessedCluster } from '../types/copilot';
+import { CLUSTER_STATUS_TRANSITIONS, STATUS_COLORS, STATUS_LABELS } from '../utils/clusterLifecycle';
+import { ClipboardCheck, ExternalLink } from 'lucide-react';
+
+interface ClusterLifecycleEditorProps {
+  cluster: ProcessedCluster;
+  onUpdate: (clusterId: string, update: ClusterLifecycleUpdate) => Promise<void>;
+}
+
+export const ClusterLifecycleEditor: React.FC<ClusterLifecycleEditorProps> = ({ cluster, onUpdate }) => {
+  const { lifecycle } = cluster;
+  const [status, setStatus] = useState<ClusterStatus>(lifecycle.status);
+  const [assignee, setAssignee] = useState(lifecycle.assignee ?? '');
+  const [workItemUrl, setWorkItemUrl] = useState(lifecycle.workItemUrl ?? '');
+  const [notes, setNotes] = useState(lifecycle.notes ?? '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setStatus(lifecycle.status);
+    setAssignee(lifecycle.assignee ?? '');
+    setWorkItemUrl(lifecycle.workItemUrl ?? '');
+    setNotes(lifecycle.notes ?? '');
+    setError(null);
+  }, [cluster.id, lifecycle]);
+
+  const dirty =
+    status !== lifecycle.status ||
+    assignee !== (lifecycle.assignee ?? '') ||
+    workItemUrl !== (lifecycle.workItemUrl ?? '') ||
+    notes !== (lifecycle.notes ?? '');
+
+  const handleSave = async () => {
+    const update: ClusterLifecycleUpdate = {};
+    if (status !== lifecycle.status) update.status = status;
+    if (assignee !== (lifecycle.assignee ?? '')) update.assignee = assignee;
+    if (workItemUrl !== (lifecycle.workItemUrl ?? '')) update.workItemUrl = workItemUrl;
+    if (notes !== (lifecycle.notes ?? '')) update.notes = notes;
+
+    try {
+      setSaving(true);
+      setError(null);
+      await onUpdate(cluster.id, update);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update cluster');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className={lifecycle.status === 'regressed' ? 'border-rose-300' : undefined}>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5" />
+            Triage
+          </span>
+          <Badge className={STATUS_COLORS[lifecycle.status]}>{STATUS_LABELS[lifecycle.status]}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Status</Label>
+            <Select value={status} onValueChange={(value: ClusterStatus) => setStatus(value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {[lifecycle.status, ...CLUSTER_STATUS_TRANSITIONS[lifecycle.status]].map(option => (
+                  <SelectItem key={option} value={option}>{STATUS_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="cluster-assignee">Assignee</Label>
+            <Input
+              id="cluster-assignee"
+              value={assignee}
+              placeholder="Unassigned"
+              onChange={(e) => setAssignee(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="cluster-work-item">Work Item</Label>
+            <div className="flex gap-2">
+              <Input
+                id="cluster-work-item"
+                value={workItemUrl}
+                placeholder="https://..."
+                onChange={(e) => setWorkItemUrl(e.target.value)}
+              />
+              {lifecycle.workItemUrl && (
+                <Button variant="outline" size="icon" asChild>
+                  <a href={lifecycle.workItemUrl} target="_blank" rel="noreferrer">
+                    <ExternalLink className="h-4 w-4" />
+                  </a>
+                </Button>
+              )}
+            </div>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="cluster-notes">Notes</Label>
+          <Textarea
+            id="cluster-notes"
+            value={notes}
+            placeholder="Investigation notes, links, next steps..."
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex items-center justify-between">
+          <div className="flex flex-wrap gap-2 text-xs text-slate-500">
+            {lifecycle.history.map((change, index) => (
+              <span key={index}>
+                {STATUS_LABELS[change.status]} · {new Date(change.at).toLocaleDateString()}
+                {index < lifecycle.history.length - 1 && ' →'}
+              </span>
+            ))}
+          </div>
+          <Button onClick={handleSave} disabled={!dirty || saving}>
+            {saving ? 'Saving...' : 'Save Changes'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -4,18 +4,23 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { ProcessedCluster } from '../types/copilot';
+import { GeneratedTextBadge } from './GeneratedTextBadge';
+import { STATUS_COLORS, STATUS_LABELS } from '../utils/clusterLifecycle';
+import { Taxonomy, categoryBadgeClass, categoryLabel } from '../utils/rootCauseTaxonomy';
 import { AlertTriangle, TrendingUp, TrendingDown, Minus, CheckCircle } from 'lucide-react';
 
 interface ClusterOverviewProps {
   clusters: ProcessedCluster[];
   onClusterSelect: (cluster: ProcessedCluster) => void;
   selectedCluster: ProcessedCluster | null;
+  taxonomy: Taxonomy;
 }
 
 export const ClusterOverview: React.FC<ClusterOverviewProps> = ({
   clusters,
   onClusterSelect,
-  selectedCluster
+  selectedCluster,
+  taxonomy
 }) => {
   const getSeverityColor = (severity: string) => {
     switch (severity) {
@@ -26,16 +31,6 @@ export const ClusterOverview: React.FC<ClusterOverviewProps> = ({
     }
   };
 
-  const getRootCauseColor = (category: string) => {
-    switch (category) {
-      case 'grounding': return 'bg-purple-100 text-purple-800';
-      case 'timeout': return 'bg-red-100 text-red-800';
-      case 'auth': return 'bg-orange-100 text-orange-800';
-      case 'input': return 'bg-blue-100 text-blue-800';
-      default: return 'bg-gray-100 text-gray-800';
-    }
-  };
-
   const getTrendIcon = (trend: string) => {
     switch (trend) {
       case 'increasing': return <TrendingUp className="h-4 w-4 text-red-500" />;
@@ -54,6 +49,9 @@ export const ClusterOverview: React.FC<ClusterOverviewProps> = ({
           <Badge variant="outline" className="bg-red-50">
             {clusters.filter(c => c.severity === 'critical').length} Critical
           </Badge>
+          <Badge variant="outline" className="bg-rose-50">
+            {clusters.filter(c => c.lifecycle.status === 'regressed').length} Regressed
+          </Badge>
           <Badge variant="outline" className="bg-green-50">
             {clusters.filter(c => c.resolved).length} Resolved
           </Badge>
@@ -80,6 +78,7 @@ export const ClusterOverview: React.FC<ClusterOverviewProps> = ({
                   <p className="text-sm text-slate-600">{cluster.summary}</p>
                 </div>
                 <div className="flex items-center gap-2">
+                  {cluster.generatedBy && <GeneratedTextBadge info={cluster.generatedBy} compact />}
                   {getTrendIcon(cluster.trend)}
                   {cluster.resolved && <CheckCircle className="h-4 w-4 text-green-500" />}
                 </div>
@@ -91,8 +90,11 @@ export const ClusterOverview: React.FC<ClusterOverviewProps> = ({
                 <Badge className={getSeverityColor(cluster.severity)}>
                   {cluster.severity.toUpperCase()}
                 </Badge>
-                <Badge className={getRootCauseColor(cluster.rootCause.category)}>
-                  {cluster.rootCause.category}
+                <Badge className={STATUS_COLORS[cluster.lifecycle.status]}>
+                  {STATUS_LABELS[cluster.lifecycle.status]}
+                </Badge>
+                <Badge className={categoryBadgeClass(taxonomy, cluster.rootCause.category)}>
+                  {categoryLabel(taxonomy, cluster.rootCause.category)}
                 </Badge>
                 <Badge variant="outline">
                   {cluster.failureCount} failures
@@ -117,6 +119,10 @@ export const ClusterOverview: React.FC<ClusterOverviewProps> = ({
                 </div>
               </div>
 
+              {cluster.lifecycle.assignee && (
+                <p className="text-xs text-slate-500 mb-2">Assigned to {cluster.lifecycle.assignee}</p>
+              )}
+
               <div className="flex items-center justify-between text-xs text-slate-500">
                 <span>First seen: {cluster.firstSeen.toLocaleDateString()}</span>
                 <span>Last seen: {cluster.lastSeen.toLocaleDateString()}</span>
@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
@@ -11,28 +12,66 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigge
 import { ClusterOverview } from './ClusterOverview';
 import { DrilldownPanel } from './DrilldownPanel';
 import { TrendChart } from './TrendChart';
+import { HeatmapOptions } from './FailureHeatmapPanel';
 import { ExportPanel } from './ExportPanel';
-import { generateMockData, processFailureClusters } from '../utils/dataProcessor';
-import { FailureLog, ProcessedCluster } from '../types/copilot';
+import { SessionTracePanel } from './SessionTracePanel';
+import { GeneratedTextBadge } from './GeneratedTextBadge';
+import {
+  AnomalyEvent,
+  ChangeAnalysis,
+  ClusterInputComparison,
+  ClusterLifecycleUpdate,
+  CostModel,
+  FailureHeatmap,
+  FailureLog,
+  ImpactMatrix,
+  JourneyFunnel,
+  ProcessedCluster,
+  ReliabilityReport,
+  SloScorecard,
+  TenantHealthReport,
+  TrendTimeRange
+} from '../types/copilot';
+import { STATUS_LABELS } from '../utils/clusterLifecycle';
+import { DEFAULT_TAXONOMY, Taxonomy, categoryLabel, isWithinCategory } from '../utils/rootCauseTaxonomy';
 import { AlertTriangle, TrendingUp, Database, Download, RefreshCw, Filter, Settings, AlertCircle, CheckCircle, Layers, FileText, FileSpreadsheet, ChevronDown, Wifi, WifiOff, CheckCircle2 } from 'lucide-react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import * as XLSX from 'xlsx';
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
-import { mcpClient, MCPAnalyticsData } from '../services/mcpClient';
+import { mcpClient, MCPAnalyticsData, MCPTrendData } from '../services/mcpClient';
 
 const CopilotDashboard = () => {
   const [failureLogs, setFailureLogs] = useState<FailureLog[]>([]);
   const [clusters, setClusters] = useState<ProcessedCluster[]>([]);
   const [selectedCluster, setSelectedCluster] = useState<ProcessedCluster | null>(null);
-  const [timeRange, setTimeRange] = useState('7d');
+  const [timeRange, setTimeRange] = useState<TrendTimeRange>('7d');
   const [rootCauseFilter, setRootCauseFilter] = useState<string>('all');
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [mcpConnected, setMcpConnected] = useState(false);
   const [analyticsData, setAnalyticsData] = useState<MCPAnalyticsData | null>(null);
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>(DEFAULT_TAXONOMY);
+  const [trendData, setTrendData] = useState<MCPTrendData | null>(null);
+  const [anomalies, setAnomalies] = useState<AnomalyEvent[]>([]);
+  const [reliability, setReliability] = useState<ReliabilityReport | null>(null);
+  const [changeAnalysis, setChangeAnalysis] = useState<ChangeAnalysis | null>(null);
+  const [journey, setJourney] = useState<JourneyFunnel | null>(null);
+  const [impact, setImpact] = useState<ImpactMatrix | null>(null);
+  const [sloScorecard, setSloScorecard] = useState<SloScorecard | null>(null);
+  const [tenantHealth, setTenantHealth] = useState<TenantHealthReport | null>(null);
+  const [heatmap, setHeatmap] = useState<FailureHeatmap | null>(null);
+  const [inputComparison, setInputComparison] = useState<ClusterInputComparison | null>(null);
+  // The traced session lives in the URL so a session page can be linked to
+  const [searchParams, setSearchParams] = useSearchParams();
+  const tracedSession = searchParams.get('session');
+  const [activeTab, setActiveTab] = useState(() => tracedSession ? 'sessions' : 'clusters');
+  const [heatmapOptions, setHeatmapOptions] = useState<HeatmapOptions>(() => ({
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    binning: 'hour'
+  }));
   
   // New state for filter and settings dialogs
   const [showFilterDialog, setShowFilterDialog] = useState(false);
@@ -72,6 +111,54 @@ const CopilotDashboard = () => {
     }
   }, [mcpConnected]);
 
+  // Trends, anomalies, error rates and the journey funnel follow the selected range and are reloaded after each analytics load
+  useEffect(() => {
+    if (!mcpConnected || !analyticsData) return;
+    mcpClient.analyzeTrends(timeRange).then(setTrendData, () => setTrendData(null));
+    mcpClient.getAnomalies(timeRange).then(setAnomalies, () => setAnomalies([]));
+    mcpClient.getReliability(timeRange).then(setReliability, () => setReliability(null));
+    mcpClient.getJourneyFunnel(timeRange).then(setJourney, () => setJourney(null));
+    mcpClient.getTenantHealth(timeRange).then(setTenantHealth, () => setTenantHealth(null));
+  }, [mcpConnected, analyticsData, timeRange]);
+
+  // Change correlations span all stored history, so they only follow analytics loads
+  useEffect(() => {
+    if (!mcpConnected || !analyticsData) return;
+    mcpClient.getChangeCorrelations().then(setChangeAnalysis, () => setChangeAnalysis(null));
+  }, [mcpConnected, analyticsData]);
+
+  // Impact covers every stored failure and the lifecycle history, so it only follows analytics loads
+  useEffect(() => {
+    if (!mcpConnected || !analyticsData) return;
+    mcpClient.getImpactMatrix().then(setImpact, () => setImpact(null));
+  }, [mcpConnected, analyticsData]);
+
+  // SLO windows are fixed per skill rather than following the trend time range
+  useEffect(() => {
+    if (!mcpConnected || !analyticsData) return;
+    mcpClient.getSloScorecard().then(setSloScorecard, () => setSloScorecard(null));
+  }, [mcpConnected, analyticsData]);
+
+  // Input comparison of the selected cluster; a slow answer for a previously selected cluster is dropped
+  const selectedClusterId = selectedCluster?.id;
+  useEffect(() => {
+    setInputComparison(null);
+    if (!mcpConnected || !selectedClusterId) return;
+    let current = true;
+    mcpClient.getClusterInputComparison(selectedClusterId).then(
+      comparison => { if (current) setInputComparison(comparison); },
+      () => { if (current) setInputComparison(null); }
+    );
+    return () => { current = false; };
+  }, [mcpConnected, selectedClusterId, analyticsData]);
+
+  // The heatmap also follows its own time zone and binning
+  useEffect(() => {
+    if (!mcpConnected || !analyticsData) return;
+    setHeatmap(null);
+    mcpClient.getFailureHeatmap(timeRange, heatmapOptions.binning, heatmapOptions.timezone).then(setHeatmap, () => setHeatmap(null));
+  }, [mcpConnected, analyticsData, timeRange, heatmapOptions]);
+
   // Auto-refresh effect
   useEffect(() => {
     if (!autoRefreshEnabled || !mcpConnected) return;
@@ -88,8 +175,12 @@ const CopilotDashboard = () => {
       setLoading(true);
       setError(null);
       
-      const data = await mcpClient.getFailureAnalytics(refresh);
+      const [data, serverTaxonomy] = await Promise.all([
+        mcpClient.getFailureAnalytics(refresh),
+        mcpClient.getRootCauseTaxonomy()
+      ]);
       setAnalyticsData(data);
+      setTaxonomy(serverTaxonomy);
       setClusters(data.clusters);
       setFailureLogs(data.failureLogs);
     } catch (err) {
@@ -99,9 +190,56 @@ const CopilotDashboard = () => {
     }
   };
 
+  const handleLifecycleUpdate = async (clusterId: string, update: ClusterLifecycleUpdate) => {
+    const updated = await mcpClient.updateClusterLifecycle(clusterId, update);
+    const nextClusters = clusters.map(c => (c.id === updated.id ? updated : c));
+
+    setClusters(nextClusters);
+    setSelectedCluster(current => (current?.id === updated.id ? updated : current));
+    setAnalyticsData(current => current && {
+      ...current,
+      clusters: nextClusters,
+      resolvedClusters: nextClusters.filter(c => c.resolved).length,
+      regressedClusters: nextClusters.filter(c => c.lifecycle.status === 'regressed').length
+    });
+  };
+
+  const handleCostModelUpdate = async (costModel: CostModel) => {
+    await mcpClient.updateCostModel(costModel);
+    setImpact(await mcpClient.getImpactMatrix());
+  };
+
+  // Failures behind one heatmap cell, over the same window and in the same time zone as the heatmap
+  const handleLoadHeatmapCell = async (skillName: string, slot: number) => {
+    if (!heatmap) return [];
+    return mcpClient.getFailureLogs({
+      skillName,
+      since: heatmap.windowStart,
+      until: heatmap.windowEnd,
+      timezone: heatmap.timezone,
+      ...(heatmap.binning === 'hour' ? { hourOfDay: slot } : { dayOfWeek: slot }),
+      limit: 200
+    });
+  };
+
+  const handleLoadTenantClusters = (tenantId: string) => mcpClient.getClusters({ tenantId });
+
+  const handleOpenSession = (sessionId: string) => {
+    setSearchParams({ session: sessionId });
+    setActiveTab('sessions');
+  };
+
+  // Stable so the session page only reloads when the session or the connection changes
+  const handleLoadSessionTrace = useCallback(
+    (sessionId: string) => mcpConnected
+      ? mcpClient.getSessionTrace(sessionId)
+      : Promise.reject(new Error('Not connected to the MCP server')),
+    [mcpConnected]
+  );
+
   const filteredClusters = clusters.filter(cluster => {
     // Root cause filter
-    if (rootCauseFilter !== 'all' && cluster.rootCause.category !== rootCauseFilter) {
+    if (rootCauseFilter !== 'all' && !isWithinCategory(cluster.rootCause.category, rootCauseFilter)) {
       return false;
     }
     
@@ -149,17 +287,23 @@ const CopilotDashboard = () => {
     const workbook = XLSX.utils.book_new();
     
     // Clusters summary sheet
+    const impactById = new Map(impact?.clusters.map(entry => [entry.clusterId, entry]));
     const clustersData = filteredClusters.map(cluster => ({
       'Cluster Name': cluster.name,
       'Failure Count': cluster.failureCount,
       'Severity': cluster.severity,
-      'Root Cause': cluster.rootCause.category,
+      'Root Cause': categoryLabel(taxonomy, cluster.rootCause.category),
       'Description': cluster.rootCause.description,
-      'Status': cluster.resolved ? 'Resolved' : 'Active',
+      'Status': STATUS_LABELS[cluster.lifecycle.status],
+      'Assignee': cluster.lifecycle.assignee ?? '',
       'Affected Skills': cluster.affectedSkills.join(', '),
       'First Seen': cluster.firstSeen.toISOString().split('T')[0],
       'Last Seen': cluster.lastSeen.toISOString().split('T')[0],
       'Trend': cluster.trend,
+      'Affected Users': impactById.get(cluster.id)?.affectedUsers ?? '',
+      'Affected Sessions': impactById.get(cluster.id)?.affectedSessions ?? '',
+      'MTTR (min)': impactById.get(cluster.id)?.mttrMinutes ?? '',
+      [`Est. Cost (${impact?.costModel.currency ?? 'n/a'})`]: impactById.get(cluster.id)?.cost ?? '',
       'Primary Recommendation': cluster.recommendations[0] || 'N/A'
     }));
     
@@ -171,6 +315,7 @@ const CopilotDashboard = () => {
       'Timestamp': log.timestamp.toISOString(),
       'Skill Name': log.skillName,
       'User ID': log.userId || 'N/A',
+      'Tenant ID': log.tenantId || 'N/A',
       'Evaluation ID': log.evaluationId,
       'Session ID': log.sessionId,
       'Exception': log.exception,
@@ -189,7 +334,13 @@ const CopilotDashboard = () => {
       { Metric: 'Critical Issues', Value: clusters.filter(c => c.severity === 'critical').length },
       { Metric: 'Resolved Issues', Value: clusters.filter(c => c.resolved).length },
       { Metric: 'Active Issues', Value: clusters.filter(c => !c.resolved).length },
-      { Metric: 'Unique Skills', Value: new Set(failureLogs.map(log => log.skillName)).size }
+      { Metric: 'Unique Skills', Value: new Set(failureLogs.map(log => log.skillName)).size },
+      ...(impact ? [
+        { Metric: 'Affected Users', Value: impact.totals.affectedUsers },
+        { Metric: 'Affected Sessions', Value: impact.totals.affectedSessions },
+        { Metric: 'MTTR (min)', Value: impact.totals.mttrMinutes ?? 'n/a' },
+        { Metric: `Est. Cost (${impact.costModel.currency})`, Value: impact.totals.cost }
+      ] : [])
     ];
     
     const statsSheet = XLSX.utils.json_to_sheet(statsData);
@@ -218,6 +369,12 @@ const CopilotDashboard = () => {
     pdf.text(`Total Clusters: ${clusters.length}`, 20, 65);
     pdf.text(`Critical Issues: ${clusters.filter(c => c.severity === 'critical').length}`, 20, 75);
     pdf.text(`Resolved Issues: ${clusters.filter(c => c.resolved).length}`, 20, 85);
+    if (impact) {
+      pdf.text(`Affected Users: ${impact.totals.affectedUsers}`, 120, 55);
+      pdf.text(`Affected Sessions: ${impact.totals.affectedSessions}`, 120, 65);
+      pdf.text(`MTTR: ${impact.totals.mttrMinutes === null ? 'n/a' : `${impact.totals.mttrMinutes} min`}`, 120, 75);
+      pdf.text(`Est. Cost: ${impact.totals.cost.toLocaleString()} ${impact.costModel.currency}`, 120, 85);
+    }
     
     // Add clusters table
     let yPosition = 100;
@@ -231,8 +388,8 @@ const CopilotDashboard = () => {
       cluster.name.substring(0, 30),
       cluster.failureCount.toString(),
       cluster.severity,
-      cluster.rootCause.category,
-      cluster.resolved ? 'Resolved' : 'Active'
+      categoryLabel(taxonomy, cluster.rootCause.category),
+      STATUS_LABELS[cluster.lifecycle.status]
     ]);
     
     // Simple table layout
@@ -288,10 +445,15 @@ const CopilotDashboard = () => {
                   ) : (
                     <>
                       <WifiOff className="h-4 w-4 text-orange-500" />
-                      <span>Connecting to MCP Server...</span>
+                      <span>Connecting to MCP Server at {mcpClient.getServerUrl()}...</span>
                     </>
                   )}
                 </div>
+                {!mcpConnected && mcpClient.getConnectionStatus().startsWith('error') && (
+                  <p className="text-xs text-slate-500">
+                    Server unreachable ({mcpClient.getConnectionStatus().replace(/^error: /, '')}); retrying automatically.
+                  </p>
+                )}
               </div>
             </div>
           </div>
@@ -363,7 +525,7 @@ const CopilotDashboard = () => {
 
         {/* Enhanced Stats Cards with MCP Data */}
         {analyticsData && (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
             <Card className="bg-gradient-to-r from-blue-500 to-blue-600 text-white">
               <CardHeader className="pb-2">
                 <CardTitle className="text-sm font-medium text-blue-100">Total Failures (MCP)</CardTitle>
@@ -384,6 +546,20 @@ const CopilotDashboard = () => {
               </CardContent>
             </Card>
 
+            <Card className={`text-white ${
+              analyticsData.regressedClusters > 0
+                ? 'bg-gradient-to-r from-rose-600 to-rose-700 ring-4 ring-rose-300'
+                : 'bg-gradient-to-r from-slate-500 to-slate-600'
+            }`}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-rose-100">Regressed Clusters</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-3xl font-bold">{analyticsData.regressedClusters}</div>
+                <p className="text-rose-200 text-sm mt-1">Recurred after being resolved</p>
+              </CardContent>
+            </Card>
+
             <Card className="bg-gradient-to-r from-green-500 to-green-600 text-white">
               <CardHeader className="pb-2">
                 <CardTitle className="text-sm font-medium text-green-100">Resolved Issues</CardTitle>
@@ -407,38 +583,93 @@ const CopilotDashboard = () => {
         )}
 
         {/* Main Dashboard Tabs */}
-        <Tabs defaultValue="clusters" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4">
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="clusters">Cluster Analysis</TabsTrigger>
             <TabsTrigger value="trends">Trend Analytics</TabsTrigger>
+            <TabsTrigger value="sessions">Sessions</TabsTrigger>
             <TabsTrigger value="export">Export & Reports</TabsTrigger>
             <TabsTrigger value="mcp-insights">MCP Insights</TabsTrigger>
           </TabsList>
 
           <TabsContent value="clusters" className="space-y-6">
+            <div className="flex items-center gap-2">
+              <Filter className="h-4 w-4 text-slate-500" />
+              <Label htmlFor="root-cause-filter" className="text-sm text-slate-600">Root cause</Label>
+              <Select value={rootCauseFilter} onValueChange={setRootCauseFilter}>
+                <SelectTrigger id="root-cause-filter" className="w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All root causes</SelectItem>
+                  {taxonomy.categories.map(category => (
+                    <SelectItem
+                      key={category.id}
+                      value={category.id}
+                      className={category.id.includes('/') ? 'pl-12' : undefined}
+                    >
+                      {category.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
               <div className="xl:col-span-2">
                 <ClusterOverview 
                   clusters={filteredClusters} 
                   onClusterSelect={setSelectedCluster}
                   selectedCluster={selectedCluster}
+                  taxonomy={taxonomy}
                 />
               </div>
               <div>
                 <DrilldownPanel 
                   cluster={selectedCluster} 
                   onBack={() => setSelectedCluster(null)}
+                  onLifecycleUpdate={handleLifecycleUpdate}
+                  taxonomy={taxonomy}
+                  changes={changeAnalysis}
+                  onOpenSession={handleOpenSession}
+                  inputComparison={inputComparison}
                 />
               </div>
             </div>
           </TabsContent>
 
           <TabsContent value="trends">
-            <TrendChart clusters={clusters} timeRange="7d" />
+            <TrendChart
+              clusters={clusters}
+              timeRange={timeRange}
+              trends={trendData}
+              anomalies={anomalies}
+              reliability={reliability}
+              onTimeRangeChange={setTimeRange}
+              heatmap={heatmap}
+              heatmapOptions={heatmapOptions}
+              onHeatmapOptionsChange={setHeatmapOptions}
+              onLoadHeatmapCell={handleLoadHeatmapCell}
+              journey={journey}
+              impact={impact}
+              onCostModelUpdate={handleCostModelUpdate}
+              sloScorecard={sloScorecard}
+              tenantHealth={tenantHealth}
+              onLoadTenantClusters={handleLoadTenantClusters}
+              onOpenSession={handleOpenSession}
+            />
+          </TabsContent>
+
+          <TabsContent value="sessions">
+            <SessionTracePanel
+              sessionId={tracedSession}
+              onOpenSession={handleOpenSession}
+              onLoadTrace={handleLoadSessionTrace}
+            />
           </TabsContent>
 
           <TabsContent value="export">
-            <ExportPanel clusters={clusters} failureLogs={failureLogs} />
+            <ExportPanel clusters={clusters} failureLogs={failureLogs} impact={impact} />
           </TabsContent>
 
           {/* New MCP Insights Tab */}
@@ -458,8 +689,8 @@ const CopilotDashboard = () => {
                       <p>Status: <Badge variant={mcpConnected ? 'default' : 'secondary'}>
                         {mcpClient.getConnectionStatus()}
                       </Badge></p>
-                      <p>Data Source: MCP Server v1.0.0</p>
-                      <p>Protocol: Model Context Protocol</p>
+                      <p>Server: {mcpClient.getServerUrl()}</p>
+                      <p>Protocol: Model Context Protocol (streamable HTTP)</p>
                     </div>
                   </div>
                   
@@ -474,6 +705,24 @@ const CopilotDashboard = () => {
                   </div>
                 </div>
 
+                {trendData && (
+                  <div className="space-y-2">
+                    <h4 className="font-semibold flex items-center gap-2">
+                      AI Insights
+                      {trendData.aiInsightsGeneratedBy && <GeneratedTextBadge info={trendData.aiInsightsGeneratedBy} />}
+                    </h4>
+                    {trendData.aiInsights.length > 0 ? (
+                      <ul className="text-sm space-y-1 list-disc pl-5">
+                        {trendData.aiInsights.map(insight => <li key={insight}>{insight}</li>)}
+                      </ul>
+                    ) : (
+                      <p className="text-sm text-slate-600">
+                        No model-generated insights. Start the MCP server with <code>--llm-provider</code> to enable them.
+                      </p>
+                    )}
+                  </div>
+                )}
+
                 {analyticsData && (
                   <Alert>
                     <AlertCircle className="h-4 w-4" />
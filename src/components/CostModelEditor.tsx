@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CostModel } from '../types/copilot';
+import { Calculator } from 'lucide-react';
+
+interface CostModelEditorProps {
+  costModel: CostModel;
+  onSave: (costModel: CostModel) => Promise<void>;
+}
+
+export const CostModelEditor: React.FC<CostModelEditorProps> = ({ costModel, onSave }) => {
+  const [perFailure, setPerFailure] = useState(String(costModel.perFailure));
+  const [perAffectedUser, setPerAffectedUser] = useState(String(costModel.perAffectedUser));
+  const [currency, setCurrency] = useState(costModel.currency);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPerFailure(String(costModel.perFailure));
+    setPerAffectedUser(String(costModel.perAffectedUser));
+    setCurrency(costModel.currency);
+    setError(null);
+  }, [costModel]);
+
+  const dirty =
+    perFailure !== String(costModel.perFailure) ||
+    perAffectedUser !== String(costModel.perAffectedUser) ||
+    currency !== costModel.currency;
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      await onSave({ perFailure: Number(perFailure), perAffectedUser: Number(perAffectedUser), currency });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save cost model');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Calculator className="h-5 w-5" />
+          Cost Model
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Estimated cost = failures × cost per failure + distinct affected users × cost per user. Shared by every dashboard user and the exports.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="cost-per-failure">Cost per failure</Label>
+            <Input
+              id="cost-per-failure"
+              type="number"
+              min={0}
+              step="any"
+              value={perFailure}
+              onChange={event => setPerFailure(event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="cost-per-user">Cost per affected user</Label>
+            <Input
+              id="cost-per-user"
+              type="number"
+              min={0}
+              step="any"
+              value={perAffectedUser}
+              onChange={event => setPerAffectedUser(event.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="cost-currency">Currency</Label>
+            <Input
+              id="cost-currency"
+              maxLength={3}
+              value={currency}
+              onChange={event => setCurrency(event.target.value.toUpperCase())}
+            />
+          </div>
+        </div>
+        {error && <div className="text-sm text-red-600">{error}</div>}
+        <Button onClick={handleSave} disabled={!dirty || saving}>
+          {saving ? 'Saving…' : 'Save cost model'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
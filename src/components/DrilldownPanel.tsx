@@ -5,15 +5,36 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { ProcessedCluster } from '../types/copilot';
-import { ArrowLeft, AlertCircle, Lightbulb, Code, Clock, FileText, Copy } from 'lucide-react';
+import { ChangeAnalysis, ClusterInputComparison, ClusterLineageEvent, ClusterLifecycleUpdate, CorrelatedCluster, ProcessedCluster } from '../types/copilot';
+import { ClusterLifecycleEditor } from './ClusterLifecycleEditor';
+import { RootCauseBreakdown } from './RootCauseBreakdown';
+import { GeneratedTextBadge } from './GeneratedTextBadge';
+import { SkillInputPanel } from './SkillInputPanel';
+import { Taxonomy, categoryBadgeClass, categoryLabel } from '../utils/rootCauseTaxonomy';
+import { STATUS_COLORS, STATUS_LABELS } from '../utils/clusterLifecycle';
+import { MINUTE_MS } from '../../shared/util';
+import { ArrowLeft, AlertCircle, Lightbulb, Code, Clock, FileText, Copy, GitBranch, Rocket } from 'lucide-react';
 
 interface DrilldownPanelProps {
   cluster: ProcessedCluster | null;
   onBack: () => void;
+  onLifecycleUpdate?: (clusterId: string, update: ClusterLifecycleUpdate) => Promise<void>;
+  taxonomy: Taxonomy;
+  /** Deployments and config changes with what followed them; null until loaded. */
+  changes?: ChangeAnalysis | null;
+  /** Shows the whole session a failure belongs to. */
+  onOpenSession?: (sessionId: string) => void;
+  /** Skill inputs of the cluster against the rest of its skills; null until loaded. */
+  inputComparison?: ClusterInputComparison | null;
 }
 
-export const DrilldownPanel: React.FC<DrilldownPanelProps> = ({ cluster, onBack }) => {
+/** Changes to a cluster's skills shown alongside it, correlated or not. */
+const MAX_CHANGES = 5;
+
+/** Latest failures listed with a link to their session. */
+const MAX_RECENT_FAILURES = 5;
+
+export const DrilldownPanel: React.FC<DrilldownPanelProps> = ({ cluster, onBack, onLifecycleUpdate, taxonomy, changes, onOpenSession, inputComparison }) => {
   if (!cluster) {
     return (
       <Card>
@@ -341,9 +362,48 @@ async function handleAPICall(apiFunction: () => Promise<any>): Promise<any> {
       }
     };
 
-    return ragTemplates[cluster.rootCause.category as keyof typeof ragTemplates] || ragTemplates.api;
+    // Sub-categories share their top-level category's template
+    const family = cluster.rootCause.category.split('/')[0];
+    return ragTemplates[family as keyof typeof ragTemplates] || ragTemplates.api;
+  };
+
+  const describeLineageEvent = (event: ClusterLineageEvent, clusterId: string) => {
+    const related = event.relatedClusterIds.join(', ');
+    const isSubject = event.clusterId === clusterId;
+    switch (event.kind) {
+      case 'created':
+        return 'First detected as a new pattern';
+      case 'split':
+        return isSubject ? `Split off into ${related}` : `Split from ${event.clusterId}`;
+      case 'merged':
+        return isSubject ? `Absorbed ${related}` : `Merged into ${event.clusterId}`;
+      case 'retired':
+        return isSubject
+          ? `Retired${related ? `, failures moved to ${related}` : ''}`
+          : `Took over failures from retired ${event.clusterId}`;
+    }
+  };
+
+  const describeCorrelation = (match: CorrelatedCluster) => {
+    const lag = match.lagMinutes <= 0
+      ? 'in the same hour'
+      : match.lagMinutes < 60 ? `${match.lagMinutes} min later` : `${(match.lagMinutes / 60).toFixed(1)} h later`;
+    return match.reason === 'onset'
+      ? `First failures ${lag}`
+      : `Failure rate ${match.rateBefore}/h → ${match.rateAfter}/h ${lag}`;
   };
 
+  // Changes to this cluster's skills from shortly before it appeared until it last failed
+  const clusterChanges = (changes?.correlations ?? [])
+    .filter(({ event }) =>
+      cluster.affectedSkills.includes(event.skillName) &&
+      event.timestamp.getTime() >= cluster.firstSeen.getTime() - changes!.toleranceMinutes * MINUTE_MS &&
+      event.timestamp.getTime() <= cluster.lastSeen.getTime()
+    )
+    .map(({ event, clusters }) => ({ event, match: clusters.find(match => match.clusterId === cluster.id) }))
+    .sort((a, b) => Number(Boolean(b.match)) - Number(Boolean(a.match)))
+    .slice(0, MAX_CHANGES);
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
   };
@@ -358,9 +418,18 @@ async function handleAPICall(apiFunction: () => Promise<any>): Promise<any> {
         <div>
           <h2 className="text-2xl font-bold text-slate-900">{cluster.name}</h2>
           <p className="text-slate-600">{cluster.summary}</p>
+          {cluster.generatedBy && (
+            <div className="mt-1">
+              <GeneratedTextBadge info={cluster.generatedBy} />
+            </div>
+          )}
         </div>
       </div>
 
+      {onLifecycleUpdate && (
+        <ClusterLifecycleEditor cluster={cluster} onUpdate={onLifecycleUpdate} />
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Key Metrics */}
         <Card>
@@ -404,8 +473,8 @@ async function handleAPICall(apiFunction: () => Promise<any>): Promise<any> {
               
               <div className="flex justify-between">
                 <span className="text-sm text-slate-600">Status</span>
-                <Badge variant={cluster.resolved ? "default" : "secondary"}>
-                  {cluster.resolved ? "Resolved" : "Active"}
+                <Badge className={STATUS_COLORS[cluster.lifecycle.status]}>
+                  {STATUS_LABELS[cluster.lifecycle.status]}
                 </Badge>
               </div>
             </div>
@@ -421,12 +490,20 @@ async function handleAPICall(apiFunction: () => Promise<any>): Promise<any> {
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div>
-              <Badge className="mb-2 bg-purple-100 text-purple-800">
-                {cluster.rootCause.category.toUpperCase()}
-              </Badge>
-              <p className="text-sm text-slate-700">{cluster.rootCause.description}</p>
-            </div>
+            {cluster.rootCause.candidates && cluster.rootCause.candidates.length > 0 ? (
+              <RootCauseBreakdown
+                candidates={cluster.rootCause.candidates}
+                failureCount={cluster.failureCount}
+                taxonomy={taxonomy}
+              />
+            ) : (
+              <div>
+                <Badge className={`mb-2 ${categoryBadgeClass(taxonomy, cluster.rootCause.category)}`}>
+                  {categoryLabel(taxonomy, cluster.rootCause.category)}
+                </Badge>
+                <p className="text-sm text-slate-700">{cluster.rootCause.description}</p>
+              </div>
+            )}
             
             <Separator />
             
@@ -480,10 +557,71 @@ async function handleAPICall(apiFunction: () => Promise<any>): Promise<any> {
                 </Badge>
               </div>
             </div>
+
+            {cluster.lineage && cluster.lineage.length > 0 && (
+              <>
+                <Separator />
+
+                <div>
+                  <h4 className="font-medium text-slate-900 mb-2 flex items-center gap-2">
+                    <GitBranch className="h-4 w-4" />
+                    Lineage
+                  </h4>
+                  <div className="space-y-2">
+                    {cluster.lineage.map((event, index) => (
+                      <div key={index} className="text-xs space-y-1">
+                        <div className="flex items-center justify-between">
+                          <Badge variant="outline" className="capitalize">{event.kind}</Badge>
+                          <span className="text-slate-500">{new Date(event.recordedAt).toLocaleDateString()}</span>
+                        </div>
+                        <p className="text-slate-600">{describeLineageEvent(event, cluster.id)}</p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
+
+            {clusterChanges.length > 0 && (
+              <>
+                <Separator />
+
+                <div>
+                  <h4 className="font-medium text-slate-900 mb-2 flex items-center gap-2">
+                    <Rocket className="h-4 w-4" />
+                    Deployments &amp; Changes
+                  </h4>
+                  <div className="space-y-2">
+                    {clusterChanges.map(({ event, match }) => (
+                      <div
+                        key={event.id}
+                        className={`text-xs space-y-1 ${match ? 'p-2 rounded border border-amber-200 bg-amber-50' : ''}`}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="flex items-center gap-2 min-w-0">
+                            <Badge variant="outline" className="capitalize">{event.kind}</Badge>
+                            <span className="font-medium truncate">{event.skillName} {event.version}</span>
+                          </div>
+                          <span className="text-slate-500 whitespace-nowrap">{event.timestamp.toLocaleString()}</span>
+                        </div>
+                        {event.description && <p className="text-slate-600">{event.description}</p>}
+                        <p className={match ? 'text-amber-800 font-medium' : 'text-slate-500'}>
+                          {match ? describeCorrelation(match) : 'No change in this cluster followed'}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </>
+            )}
           </CardContent>
         </Card>
       </div>
 
+      {inputComparison !== undefined && (
+        <SkillInputPanel comparison={inputComparison?.clusterId === cluster.id ? inputComparison : null} />
+      )}
+
       {/* Detailed Analysis Tabs */}
       <Tabs defaultValue="samples" className="space-y-4">
         <TabsList className="grid w-full grid-cols-4">
@@ -508,9 +646,66 @@ async function handleAPICall(apiFunction: () => Promise<any>): Promise<any> {
               </div>
             </CardContent>
           </Card>
+          {onOpenSession && cluster.failureLogs.length > 0 && (
+            <Card className="mt-4">
+              <CardHeader>
+                <CardTitle>Latest Failures by Session</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-2 text-sm">
+                  {[...cluster.failureLogs]
+                    .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+                    .slice(0, MAX_RECENT_FAILURES)
+                    .map(log => (
+                      <li key={log.evaluationId} className="flex items-center justify-between gap-2">
+                        <span className="truncate text-slate-700" title={log.prompt}>{log.prompt}</span>
+                        <Button variant="link" size="sm" className="shrink-0 font-mono" onClick={() => onOpenSession(log.sessionId)}>
+                          {log.sessionId}
+                        </Button>
+                      </li>
+                    ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
         </TabsContent>
 
-        <TabsContent value="exceptions">
+        <TabsContent value="exceptions" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Exception Template</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="border rounded-lg p-4 bg-slate-50">
+                <p className="font-mono text-sm text-slate-800">{cluster.template}</p>
+              </div>
+
+              {cluster.templateParameters.length > 0 ? (
+                <div className="space-y-3">
+                  {cluster.templateParameters.map((parameter) => (
+                    <div key={parameter.position}>
+                      <div className="flex items-center gap-2 mb-2">
+                        <Badge variant="outline" className="font-mono text-xs">
+                          {parameter.kind === '*' ? 'VALUE' : parameter.kind} @ {parameter.position}
+                        </Badge>
+                        <span className="text-xs text-slate-500">{parameter.distinctValues} distinct values</span>
+                      </div>
+                      <div className="flex flex-wrap gap-1">
+                        {parameter.topValues.map(({ value, count }) => (
+                          <Badge key={value} variant="secondary" className="font-mono text-xs">
+                            {value} ({count})
+                          </Badge>
+                        ))}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-slate-600">All failures in this cluster share the exact same message.</p>
+              )}
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
               <CardTitle>Common Exceptions</CardTitle>
@@ -533,6 +728,7 @@ async function handleAPICall(apiFunction: () => Promise<any>): Promise<any> {
               <CardTitle className="flex items-center gap-2">
                 <Lightbulb className="h-5 w-5" />
                 Actionable Recommendations
+                {cluster.generatedBy && <GeneratedTextBadge info={cluster.generatedBy} />}
               </CardTitle>
             </CardHeader>
             <CardContent>
@@ -5,18 +5,22 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { ProcessedCluster, FailureLog } from '../types/copilot';
+import { ProcessedCluster, FailureLog, ImpactMatrix } from '../types/copilot';
 import { Download, FileText, Share, Mail } from 'lucide-react';
 
 interface ExportPanelProps {
   clusters: ProcessedCluster[];
   failureLogs: FailureLog[];
+  /** Users, sessions, MTTR and cost from the server; null until loaded. */
+  impact?: ImpactMatrix | null;
 }
 
-export const ExportPanel: React.FC<ExportPanelProps> = ({ clusters, failureLogs }) => {
+export const ExportPanel: React.FC<ExportPanelProps> = ({ clusters, failureLogs, impact }) => {
   const [exportFormat, setExportFormat] = useState('json');
   const [reportContent, setReportContent] = useState('');
 
+  const impactById = new Map(impact?.clusters.map(entry => [entry.clusterId, entry]));
+
   const generateExecutiveSummary = () => {
     const totalFailures = failureLogs.length;
     const criticalClusters = clusters.filter(c => c.severity === 'critical').length;
@@ -35,11 +39,14 @@ export const ExportPanel: React.FC<ExportPanelProps> = ({ clusters, failureLogs
 - **Clusters Identified**: ${clusters.length}
 - **Critical Issues**: ${criticalClusters}
 - **Primary Root Cause**: ${primaryCause ? primaryCause[0] : 'N/A'} (${primaryCause ? primaryCause[1] : 0} failures)
-
+${impact ? `- **Affected Users**: ${impact.totals.affectedUsers.toLocaleString()} across ${impact.totals.affectedSessions.toLocaleString()} sessions
+- **Mean Time to Resolve**: ${impact.totals.mttrMinutes === null ? 'N/A' : `${impact.totals.mttrMinutes} minutes`}
+- **Estimated Cost**: ${impact.totals.cost.toLocaleString()} ${impact.costModel.currency}
+` : ''}
 ## Key Findings
 ${clusters.slice(0, 5).map((cluster, index) => `
 ### ${index + 1}. ${cluster.name}
-- **Failures**: ${cluster.failureCount}
+- **Failures**: ${cluster.failureCount}${impactById.has(cluster.id) ? ` (${impactById.get(cluster.id)!.affectedUsers} users)` : ''}
 - **Root Cause**: ${cluster.rootCause.description}
 - **Recommendation**: ${cluster.recommendations[0]}
 - **Status**: ${cluster.resolved ? 'Resolved' : 'Active'}
@@ -68,12 +75,15 @@ Generated on: ${new Date().toLocaleDateString()}
 
     switch (format) {
       case 'json':
-        content = JSON.stringify({ clusters, failureLogs }, null, 2);
+        content = JSON.stringify({ clusters, failureLogs, impact }, null, 2);
         filename = 'copilot-failure-analysis.json';
         mimeType = 'application/json';
         break;
       case 'csv':
-        const csvHeaders = ['Cluster Name', 'Failure Count', 'Severity', 'Root Cause', 'Status', 'First Seen', 'Last Seen'];
+        const csvHeaders = [
+          'Cluster Name', 'Failure Count', 'Severity', 'Root Cause', 'Status', 'First Seen', 'Last Seen',
+          'Affected Users', 'Affected Sessions', 'MTTR (min)', `Est. Cost (${impact?.costModel.currency ?? 'n/a'})`
+        ];
         const csvRows = clusters.map(cluster => [
           cluster.name,
           cluster.failureCount,
@@ -81,7 +91,11 @@ Generated on: ${new Date().toLocaleDateString()}
           cluster.rootCause.category,
           cluster.resolved ? 'Resolved' : 'Active',
           cluster.firstSeen.toISOString(),
-          cluster.lastSeen.toISOString()
+          cluster.lastSeen.toISOString(),
+          impactById.get(cluster.id)?.affectedUsers ?? '',
+          impactById.get(cluster.id)?.affectedSessions ?? '',
+          impactById.get(cluster.id)?.mttrMinutes ?? '',
+          impactById.get(cluster.id)?.cost ?? ''
         ]);
         content = [csvHeaders, ...csvRows].map(row => row.join(',')).join('\n');
         filename = 'copilot-clusters.csv';
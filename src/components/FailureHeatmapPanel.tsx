@@ -0,0 +1,324 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { FailureHeatmap, FailureLog, HeatmapBinning, HeatmapCell, ProcessedCluster } from '../types/copilot';
+import { Zap, Globe, Layers } from 'lucide-react';
+
+export interface HeatmapOptions {
+  timezone: string;
+  binning: HeatmapBinning;
+}
+
+interface FailureHeatmapPanelProps {
+  /** Null until loaded. */
+  heatmap: FailureHeatmap | null;
+  clusters: ProcessedCluster[];
+  options: HeatmapOptions;
+  onOptionsChange: (options: HeatmapOptions) => void;
+  /** The failures of one skill in one slot of the current heatmap. */
+  onLoadCell: (skillName: string, slot: number) => Promise<FailureLog[]>;
+  /** Shows the whole session a failure belongs to. */
+  onOpenSession?: (sessionId: string) => void;
+}
+
+const COMMON_TIME_ZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/New_York',
+  'Europe/London',
+  'Europe/Berlin',
+  'Asia/Kolkata',
+  'Asia/Tokyo',
+  'Australia/Sydney'
+];
+
+/** Failures of a cell listed under it; the rest are counted. */
+const MAX_CELL_LOGS = 50;
+
+const formatRate = (rate: number | null) => rate === null ? '—' : `${(rate * 100).toFixed(rate < 0.01 ? 2 : 1)}%`;
+
+interface SelectedCell {
+  skillName: string;
+  cell: HeatmapCell;
+}
+
+export const FailureHeatmapPanel: React.FC<FailureHeatmapPanelProps> = ({ heatmap, clusters, options, onOptionsChange, onLoadCell, onOpenSession }) => {
+  const [selectedSkill, setSelectedSkill] = useState<string>('all');
+  const [view, setView] = useState<'failures' | 'rate'>('failures');
+  const [selected, setSelected] = useState<SelectedCell | null>(null);
+  const [cellLogs, setCellLogs] = useState<FailureLog[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const latestRequest = useRef(0);
+
+  const timeZones = useMemo(() => {
+    const browserZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+    return [...new Set([browserZone, options.timezone, ...COMMON_TIME_ZONES])];
+  }, [options.timezone]);
+
+  const clusterById = useMemo(() => new Map(clusters.map(cluster => [cluster.id, cluster])), [clusters]);
+  const clusterOfLog = useMemo(
+    () => new Map(clusters.flatMap(cluster => cluster.failureLogs.map(log => [log.evaluationId, cluster] as const))),
+    [clusters]
+  );
+
+  // A new heatmap has different slots, so the open cell no longer applies
+  useEffect(() => {
+    latestRequest.current++;
+    setSelected(null);
+    setCellLogs(null);
+    setError(null);
+    setLoading(false);
+  }, [heatmap]);
+
+  const rows = (heatmap?.rows ?? []).filter(row => selectedSkill === 'all' || row.skillName === selectedSkill);
+  const maxFailures = Math.max(1, ...rows.flatMap(row => row.cells.map(cell => cell.failures)));
+  const maxErrorRate = Math.max(0.001, ...rows.flatMap(row => row.cells.map(cell => cell.errorRate ?? 0)));
+
+  const handleCellClick = async (skillName: string, cell: HeatmapCell) => {
+    const request = ++latestRequest.current;
+    setSelected({ skillName, cell });
+    setCellLogs(null);
+    setError(null);
+    if (cell.failures === 0) return;
+
+    try {
+      setLoading(true);
+      const logs = await onLoadCell(skillName, cell.slot);
+      if (request === latestRequest.current) setCellLogs(logs);
+    } catch (err) {
+      if (request === latestRequest.current) setError(err instanceof Error ? err.message : 'Failed to load failures');
+    } finally {
+      if (request === latestRequest.current) setLoading(false);
+    }
+  };
+
+  const formatTime = (date: Date) => date.toLocaleString(undefined, { timeZone: options.timezone });
+
+  const cellClusters = selected && cellLogs
+    ? [...cellLogs.reduce((counts, log) => {
+        const cluster = clusterOfLog.get(log.evaluationId);
+        const key = cluster?.id ?? '';
+        counts.set(key, { cluster, count: (counts.get(key)?.count ?? 0) + 1 });
+        return counts;
+      }, new Map<string, { cluster: ProcessedCluster | undefined; count: number }>()).values()]
+        .sort((a, b) => b.count - a.count)
+    : selected?.cell.clusterIds.map(id => ({ cluster: clusterById.get(id), count: null }));
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between flex-wrap gap-4">
+            <CardTitle className="flex items-center gap-2">
+              <Zap className="h-5 w-5" />
+              Skill Failure Heatmap
+            </CardTitle>
+            <div className="flex items-center gap-2 flex-wrap">
+              <Select value={selectedSkill} onValueChange={setSelectedSkill}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Skills</SelectItem>
+                  {(heatmap?.rows ?? []).map(row => (
+                    <SelectItem key={row.skillName} value={row.skillName}>{row.skillName}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={view} onValueChange={(value: 'failures' | 'rate') => setView(value)}>
+                <SelectTrigger className="w-32">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="failures">Failures</SelectItem>
+                  <SelectItem value="rate">Error Rate</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select
+                value={options.binning}
+                onValueChange={(binning: HeatmapBinning) => onOptionsChange({ ...options, binning })}
+              >
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="hour">Hour of day</SelectItem>
+                  <SelectItem value="weekday">Day of week</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select value={options.timezone} onValueChange={timezone => onOptionsChange({ ...options, timezone })}>
+                <SelectTrigger className="w-48">
+                  <Globe className="h-4 w-4 mr-1" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {timeZones.map(zone => (
+                    <SelectItem key={zone} value={zone}>{zone}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            <div className="text-sm text-gray-600">
+              {view === 'failures' ? 'Failures' : 'Error rate'} by skill and {options.binning === 'hour' ? 'hour of day' : 'day of week'}
+              {' '}in {options.timezone}
+              {heatmap && <> • {heatmap.windowStart.toLocaleDateString()} – {heatmap.windowEnd.toLocaleDateString()}</>}
+              {' '}• Click a cell to open its failures
+            </div>
+            {!heatmap && <div className="text-sm text-gray-500">Loading heatmap…</div>}
+            {heatmap && rows.length === 0 && (
+              <div className="text-sm text-gray-500">No failures or invocations in this window.</div>
+            )}
+
+            {heatmap && rows.length > 0 && (
+              <div className="overflow-x-auto">
+                <div
+                  className="grid gap-1 min-w-max"
+                  style={{ gridTemplateColumns: `10rem repeat(${heatmap.slotLabels.length}, minmax(2.5rem, 1fr))` }}
+                >
+                  <div />
+                  {heatmap.slotLabels.map(label => (
+                    <div key={label} className="text-[10px] text-gray-500 text-center">{label}</div>
+                  ))}
+                  {rows.map(row => (
+                    <React.Fragment key={row.skillName}>
+                      <div className="text-sm font-medium truncate pr-2 self-center" title={row.skillName}>
+                        {row.skillName}
+                        <div className="text-[10px] text-gray-500 font-normal">
+                          {row.failures} failures{row.invocations !== null && ` / ${row.invocations.toLocaleString()}`}
+                        </div>
+                      </div>
+                      {row.cells.map(cell => {
+                        const intensity = view === 'failures'
+                          ? cell.failures / maxFailures
+                          : (cell.errorRate ?? 0) / maxErrorRate;
+                        const isSelected = selected?.skillName === row.skillName && selected.cell.slot === cell.slot;
+                        return (
+                          <button
+                            key={cell.slot}
+                            type="button"
+                            className={`h-10 rounded text-xs font-medium border-2 transition-all hover:border-blue-300 ${isSelected ? 'border-blue-600' : 'border-transparent'}`}
+                            style={{
+                              backgroundColor: `rgba(239, 68, 68, ${Math.min(1, intensity)})`,
+                              color: intensity > 0.5 ? 'white' : 'black'
+                            }}
+                            title={`${row.skillName} ${heatmap.slotLabels[cell.slot]}: ${cell.failures} failures, ${formatRate(cell.errorRate)} error rate`}
+                            onClick={() => handleCellClick(row.skillName, cell)}
+                          >
+                            {view === 'failures' ? cell.failures : formatRate(cell.errorRate)}
+                          </button>
+                        );
+                      })}
+                    </React.Fragment>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center gap-4 pt-4 border-t">
+              <span className="text-sm text-gray-600">Intensity:</span>
+              <div className="flex items-center gap-1">
+                {[0.1, 0.3, 0.5, 0.7, 0.9].map(intensity => (
+                  <div
+                    key={intensity}
+                    className="w-6 h-6 rounded"
+                    style={{ backgroundColor: `rgba(239, 68, 68, ${intensity})` }}
+                  />
+                ))}
+              </div>
+              <span className="text-sm text-gray-600">Low → High</span>
+              {view === 'rate' && <span className="text-xs text-gray-500">— means the skill has no invocation telemetry</span>}
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {selected && heatmap && (
+        <Card className="border-blue-200 bg-blue-50">
+          <CardHeader>
+            <CardTitle className="text-lg">
+              {selected.skillName} • {heatmap.slotLabels[selected.cell.slot]} ({heatmap.timezone})
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="text-center">
+                <div className="text-2xl font-bold text-red-600">{selected.cell.failures}</div>
+                <div className="text-sm text-gray-600">Failures</div>
+              </div>
+              <div className="text-center">
+                <div className="text-2xl font-bold text-orange-600">{formatRate(selected.cell.errorRate)}</div>
+                <div className="text-sm text-gray-600">Error Rate</div>
+              </div>
+              <div className="text-center">
+                <div className="text-2xl font-bold text-blue-600">{selected.cell.invocations?.toLocaleString() ?? '—'}</div>
+                <div className="text-sm text-gray-600">Invocations</div>
+              </div>
+              <div className="text-center">
+                <div className="text-2xl font-bold text-green-600">
+                  {selected.cell.invocations === null ? '—' : (selected.cell.invocations - selected.cell.failures).toLocaleString()}
+                </div>
+                <div className="text-sm text-gray-600">Succeeded</div>
+              </div>
+            </div>
+
+            {cellClusters && cellClusters.length > 0 && (
+              <div>
+                <h4 className="font-medium mb-2 flex items-center gap-2">
+                  <Layers className="h-4 w-4" />
+                  Clusters
+                </h4>
+                <div className="flex flex-wrap gap-2">
+                  {cellClusters.map(({ cluster, count }) => (
+                    <Badge key={cluster?.id ?? 'unclustered'} variant="outline" className="bg-white">
+                      {cluster?.name ?? 'Unclustered'}
+                      {count !== null && ` • ${count}`}
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {loading && <div className="text-sm text-gray-500">Loading failures…</div>}
+            {error && <div className="text-sm text-red-600">{error}</div>}
+            {cellLogs && (
+              <div className="space-y-2">
+                {cellLogs.slice(0, MAX_CELL_LOGS).map(log => (
+                  <div key={log.evaluationId} className="bg-white rounded border p-3 text-sm">
+                    <div className="flex items-center justify-between gap-2 mb-1">
+                      <span className="text-xs text-gray-500">{formatTime(log.timestamp)}</span>
+                      {clusterOfLog.get(log.evaluationId) && (
+                        <Badge variant="secondary" className="text-xs">{clusterOfLog.get(log.evaluationId)!.name}</Badge>
+                      )}
+                    </div>
+                    <div className="font-mono text-xs text-red-700 break-all">{log.exception}</div>
+                    <div className="text-xs text-gray-600 mt-1 truncate" title={log.prompt}>{log.prompt}</div>
+                    {onOpenSession && (
+                      <button
+                        type="button"
+                        className="text-xs text-blue-600 hover:underline mt-1 font-mono"
+                        onClick={() => onOpenSession(log.sessionId)}
+                      >
+                        Session {log.sessionId}
+                      </button>
+                    )}
+                  </div>
+                ))}
+                {cellLogs.length > MAX_CELL_LOGS && (
+                  <div className="text-xs text-gray-500">
+                    Showing {MAX_CELL_LOGS} of {cellLogs.length} failures.
+                  </div>
+                )}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
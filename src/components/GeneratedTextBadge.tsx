@@ -0,0 +1,28 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { GeneratedTextInfo } from '../types/copilot';
+import { Sparkles } from 'lucide-react';
+
+interface GeneratedTextBadgeProps {
+  info: GeneratedTextInfo;
+  /** Show only the icon, for tight spaces such as cluster list rows. */
+  compact?: boolean;
+}
+
+/** Marks text written by a language model rather than derived from rules. */
+export const GeneratedTextBadge: React.FC<GeneratedTextBadgeProps> = ({ info, compact = false }) => (
+  <Tooltip>
+    <TooltipTrigger asChild>
+      <Badge variant="outline" className="gap-1 border-violet-300 bg-violet-50 text-violet-700 font-normal">
+        <Sparkles className="h-3 w-3" />
+        {compact ? 'AI' : `Generated by ${info.provider}/${info.model}`}
+      </Badge>
+    </TooltipTrigger>
+    <TooltipContent className="max-w-xs text-xs">
+      <p>Model-generated text; review before acting on it.</p>
+      <p>{info.provider}/{info.model}, {new Date(info.generatedAt).toLocaleString()}</p>
+      <p className="font-mono break-all">Fingerprint {info.fingerprint.slice(0, 12)}</p>
+    </TooltipContent>
+  </Tooltip>
+);
@@ -0,0 +1,106 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
+import { JourneyFunnel, TrendTimeRange } from '../types/copilot';
+import { Users } from 'lucide-react';
+
+interface JourneyFunnelPanelProps {
+  /** Null until loaded. */
+  funnel: JourneyFunnel | null;
+  timeRange: TrendTimeRange;
+}
+
+/** Drop-off causes listed per stage. */
+const MAX_CAUSES = 4;
+
+const formatPercent = (ratio: number) => `${(ratio * 100).toFixed(1)}%`;
+
+const stageColor = (rate: number) => rate > 0.8 ? '#10b981' : rate > 0.6 ? '#f59e0b' : '#ef4444';
+
+export const JourneyFunnelPanel: React.FC<JourneyFunnelPanelProps> = ({ funnel, timeRange }) => {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="h-5 w-5" />
+          User Journey Drop-off Analysis
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!funnel && <div className="text-sm text-gray-500">Loading journey funnel…</div>}
+        {funnel && funnel.sessions === 0 && (
+          <div className="text-sm text-gray-500">No session stage events in the last {timeRange}.</div>
+        )}
+        {funnel && funnel.sessions > 0 && (
+          <div className="space-y-6">
+            <div className="text-sm text-gray-600">
+              Where sessions stop in the Copilot pipeline over the last {timeRange}:
+              {' '}{funnel.sessions.toLocaleString()} sessions from {funnel.users.toLocaleString()} users
+            </div>
+            <div className="h-80">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={funnel.stages} layout="vertical" margin={{ top: 20, right: 30, left: 40, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis type="number" allowDecimals={false} />
+                  <YAxis dataKey="label" type="category" width={140} />
+                  <Tooltip
+                    formatter={(value: number) => [
+                      `${value.toLocaleString()} sessions (${formatPercent(value / funnel.sessions)})`,
+                      'Reached'
+                    ]}
+                  />
+                  <Bar dataKey="sessions" radius={[0, 4, 4, 0]}>
+                    {funnel.stages.map(stage => (
+                      <Cell key={stage.stage} fill={stageColor(stage.rate)} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {funnel.stages.map(stage => (
+                <div key={stage.stage} className="p-4 border rounded-lg hover:shadow-md transition-shadow">
+                  <div className="flex items-center justify-between mb-2">
+                    <div className="font-medium text-sm">{stage.label}</div>
+                    <Badge style={{ backgroundColor: stageColor(stage.rate), color: 'white' }}>
+                      {formatPercent(stage.rate)}
+                    </Badge>
+                  </div>
+                  <div className="space-y-2">
+                    <div className="text-2xl font-bold">{stage.sessions.toLocaleString()}</div>
+                    {stage.dropped > 0 && (
+                      <div className="text-sm text-red-600">
+                        -{formatPercent(1 - stage.conversion)} drop-off ({stage.dropped.toLocaleString()} sessions)
+                      </div>
+                    )}
+                    {stage.causes.length > 0 && (
+                      <div className="text-xs text-gray-600">
+                        <div className="font-medium mb-1">Drop-off causes:</div>
+                        <ul className="space-y-1">
+                          {stage.causes.slice(0, MAX_CAUSES).map(cause => (
+                            <li key={cause.clusterId ?? cause.label} className="flex items-center justify-between gap-2">
+                              <span className="flex items-center gap-1 truncate" title={cause.label}>
+                                <span className={`w-1 h-1 rounded-full shrink-0 ${cause.clusterId ? 'bg-red-500' : 'bg-gray-400'}`}></span>
+                                {cause.label}
+                              </span>
+                              <span className="shrink-0">{cause.sessions} ({formatPercent(cause.share)})</span>
+                            </li>
+                          ))}
+                          {stage.causes.length > MAX_CAUSES && (
+                            <li className="text-gray-500">+{stage.causes.length - MAX_CAUSES} more</li>
+                          )}
+                        </ul>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { RootCauseCandidate } from '../types/copilot';
+import { Taxonomy, categoryBadgeClass, categoryLabel } from '../utils/rootCauseTaxonomy';
+
+interface RootCauseBreakdownProps {
+  candidates: RootCauseCandidate[];
+  failureCount: number;
+  taxonomy: Taxonomy;
+}
+
+/** Ranked candidate root causes with the member logs, exceptions and missing context behind each. */
+export const RootCauseBreakdown: React.FC<RootCauseBreakdownProps> = ({ candidates, failureCount, taxonomy }) => (
+  <div className="space-y-4">
+    {candidates.map((candidate, index) => (
+      <div key={candidate.category} className="space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <Badge className={index === 0 ? categoryBadgeClass(taxonomy, candidate.category) : 'bg-slate-100 text-slate-700'}>
+              {categoryLabel(taxonomy, candidate.category)}
+            </Badge>
+            <span className="text-sm text-slate-700">{candidate.description}</span>
+          </div>
+          <span className="text-sm font-medium whitespace-nowrap">
+            {Math.round(candidate.confidence * 100)}% confidence
+          </span>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Progress value={candidate.share * 100} className="h-2" />
+          <span className="text-xs text-slate-600 whitespace-nowrap">
+            {Math.round(candidate.share * failureCount)} of {failureCount} failures
+          </span>
+        </div>
+
+        <div className="text-xs text-slate-600 space-y-1">
+          {candidate.evidence.ruleIds.length > 0 && (
+            <div>
+              <span className="font-medium">Rules:</span> {candidate.evidence.ruleIds.join(', ')}
+            </div>
+          )}
+          {candidate.evidence.contextMissing.length > 0 && (
+            <div>
+              <span className="font-medium">Missing context:</span> {candidate.evidence.contextMissing.join(', ')}
+            </div>
+          )}
+          {candidate.evidence.exceptionSnippets.map(snippet => (
+            <div key={snippet} className="font-mono bg-slate-50 rounded px-2 py-1 break-all">{snippet}</div>
+          ))}
+          <div className="break-all">
+            <span className="font-medium">Logs:</span> {candidate.evidence.evaluationIds.join(', ')}
+          </div>
+        </div>
+      </div>
+    ))}
+  </div>
+);
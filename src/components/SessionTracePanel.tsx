@@ -0,0 +1,170 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { JourneyStage, SessionTrace, SessionTraceFailure, StageEvent } from '../types/copilot';
+import { Route, Search, Repeat, CheckCircle, XCircle } from 'lucide-react';
+
+interface SessionTracePanelProps {
+  /** Session shown; null before one is chosen. */
+  sessionId: string | null;
+  onOpenSession: (sessionId: string) => void;
+  onLoadTrace: (sessionId: string) => Promise<SessionTrace>;
+}
+
+type TimelineEntry =
+  | { kind: 'failure'; timestamp: Date; failure: SessionTraceFailure }
+  | { kind: 'stage'; timestamp: Date; event: StageEvent };
+
+const STAGE_LABELS: Record<JourneyStage, string> = {
+  invoked: 'Copilot Invoked',
+  intent: 'Intent Recognized',
+  context: 'Context Retrieved',
+  skill: 'Skill Executed',
+  response: 'Response Generated',
+  satisfied: 'User Satisfied'
+};
+
+const formatTime = (date: Date) => date.toLocaleString(undefined, {
+  month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', second: '2-digit'
+});
+
+const FailureEntry: React.FC<{ failure: SessionTraceFailure }> = ({ failure }) => {
+  const { log } = failure;
+  return (
+    <div className="border rounded-lg p-4 bg-red-50/50 space-y-2 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <XCircle className="h-4 w-4 text-red-600" />
+        <span className="text-xs text-gray-500">{formatTime(log.timestamp)}</span>
+        <Badge variant="outline">{log.skillName}</Badge>
+        <Badge className={failure.attempt > 1 ? 'bg-orange-100 text-orange-700' : 'bg-gray-100 text-gray-600'}>
+          {failure.attempt > 1 ? `Retry ${failure.attempt - 1}` : 'First attempt'}
+        </Badge>
+        {failure.clusterName && <Badge variant="secondary">{failure.clusterName}</Badge>}
+        {log.errorCode && <span className="font-mono text-xs text-gray-500">{log.errorCode}</span>}
+      </div>
+      <div>
+        <div className="text-xs font-medium text-gray-500">Prompt</div>
+        <div className="font-mono text-slate-800">{log.prompt}</div>
+      </div>
+      <div>
+        <div className="text-xs font-medium text-gray-500">Exception</div>
+        <div className="font-mono text-xs text-red-700 break-all">{log.exception}</div>
+      </div>
+      {log.contextMissing && log.contextMissing.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          <span className="text-xs font-medium text-gray-500">Missing context:</span>
+          {log.contextMissing.map(item => <Badge key={item} className="bg-yellow-100 text-yellow-700">{item}</Badge>)}
+        </div>
+      )}
+      {Object.keys(log.skillInputs).length > 0 && (
+        <div>
+          <div className="text-xs font-medium text-gray-500">Skill inputs</div>
+          <pre className="bg-white border rounded p-2 text-xs overflow-x-auto">{JSON.stringify(log.skillInputs, null, 2)}</pre>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const StageEntry: React.FC<{ event: StageEvent }> = ({ event }) => (
+  <div className="flex flex-wrap items-center gap-2 px-4 py-2 border rounded-lg text-sm">
+    {event.outcome === 'reached'
+      ? <CheckCircle className="h-4 w-4 text-green-600" />
+      : <XCircle className="h-4 w-4 text-red-600" />}
+    <span className="text-xs text-gray-500">{formatTime(event.timestamp)}</span>
+    <span className={event.outcome === 'failed' ? 'text-red-700' : ''}>
+      {STAGE_LABELS[event.stage]}{event.outcome === 'failed' && ' — failed'}
+    </span>
+    {event.skillName && <Badge variant="outline">{event.skillName}</Badge>}
+    {event.errorCode && <span className="font-mono text-xs text-gray-500">{event.errorCode}</span>}
+  </div>
+);
+
+export const SessionTracePanel: React.FC<SessionTracePanelProps> = ({ sessionId, onOpenSession, onLoadTrace }) => {
+  const [query, setQuery] = useState(sessionId ?? '');
+  const [trace, setTrace] = useState<SessionTrace | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const latestRequest = useRef(0);
+
+  useEffect(() => {
+    const request = ++latestRequest.current;
+    setQuery(sessionId ?? '');
+    setTrace(null);
+    setError(null);
+    if (!sessionId) return;
+
+    setLoading(true);
+    onLoadTrace(sessionId)
+      .then(result => { if (request === latestRequest.current) setTrace(result); })
+      .catch(err => { if (request === latestRequest.current) setError(err instanceof Error ? err.message : 'Failed to load session'); })
+      .finally(() => { if (request === latestRequest.current) setLoading(false); });
+  }, [sessionId, onLoadTrace]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (query.trim()) onOpenSession(query.trim());
+  };
+
+  const timeline: TimelineEntry[] = trace
+    ? [
+        ...trace.failures.map(failure => ({ kind: 'failure' as const, timestamp: failure.log.timestamp, failure })),
+        ...trace.stageEvents.map(event => ({ kind: 'stage' as const, timestamp: event.timestamp, event }))
+      ].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    : [];
+  const empty = trace && timeline.length === 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Route className="h-5 w-5" />
+          Session Trace
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Every failure and pipeline event stored for a session, oldest first, to tell a first attempt from a retry chain.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <Input
+            placeholder="Session ID"
+            value={query}
+            onChange={event => setQuery(event.target.value)}
+            className="font-mono"
+          />
+          <Button type="submit" disabled={!query.trim()}>
+            <Search className="h-4 w-4 mr-2" />
+            Trace
+          </Button>
+        </form>
+
+        {loading && <div className="text-sm text-gray-500">Loading session…</div>}
+        {error && <div className="text-sm text-red-600">{error}</div>}
+        {empty && <div className="text-sm text-gray-500">Nothing is stored for session {trace.sessionId}.</div>}
+
+        {trace && !empty && (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+              {trace.retryChain
+                ? <Badge className="bg-orange-100 text-orange-700"><Repeat className="h-3 w-3 mr-1" />Retry chain</Badge>
+                : <Badge className="bg-gray-100 text-gray-600">No retries</Badge>}
+              <span>{trace.failures.length} failures</span>
+              {trace.start && trace.end && <span>• {formatTime(trace.start)} – {formatTime(trace.end)}</span>}
+              {trace.furthestStage && <span>• Furthest stage: {STAGE_LABELS[trace.furthestStage]}</span>}
+              {trace.userIds.length > 0 && <span>• User {trace.userIds.join(', ')}</span>}
+              {trace.tenantIds.length > 0 && <span>• Tenant {trace.tenantIds.join(', ')}</span>}
+            </div>
+            <div className="space-y-2">
+              {timeline.map((entry, index) => entry.kind === 'failure'
+                ? <FailureEntry key={entry.failure.log.evaluationId} failure={entry.failure} />
+                : <StageEntry key={`stage-${index}`} event={entry.event} />)}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
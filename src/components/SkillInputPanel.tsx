@@ -0,0 +1,71 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ClusterInputComparison, InputFieldComparison } from '../types/copilot';
+import { Braces } from 'lucide-react';
+
+interface SkillInputPanelProps {
+  /** Null until loaded. */
+  comparison: ClusterInputComparison | null;
+}
+
+const formatPercent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+const describeTypes = (field: InputFieldComparison) =>
+  Object.entries(field.cluster.types)
+    .sort((a, b) => (b[1] ?? 0) - (a[1] ?? 0))
+    .map(([type, count]) => `${type} ×${count}`)
+    .join(', ');
+
+const FieldRow: React.FC<{ field: InputFieldComparison }> = ({ field }) => (
+  <li className={`p-2 border rounded text-sm ${field.significant ? 'border-red-300 bg-red-50' : ''}`}>
+    <div className="flex items-center justify-between gap-2">
+      <span className="font-mono">{field.field}</span>
+      {field.significant && <Badge className="bg-red-100 text-red-700">More often {field.issue}</Badge>}
+    </div>
+    <div className="text-xs text-gray-600 mt-1 first-letter:uppercase">
+      {field.issue} in {formatPercent(field.clusterRate)} of the cluster's failures
+      {field.zScore !== null && ` vs ${formatPercent(field.baselineRate)} of the skill's other failures (z = ${field.zScore.toFixed(1)})`}
+    </div>
+    <div className="text-xs text-gray-500">
+      Present in {formatPercent(field.cluster.presence)} • {describeTypes(field) || 'no values'} • {field.cluster.cardinality} distinct
+    </div>
+  </li>
+);
+
+export const SkillInputPanel: React.FC<SkillInputPanelProps> = ({ comparison }) => {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Braces className="h-5 w-5" />
+          Skill Inputs
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          Input fields of this cluster's failures against the other failures of the same skill. Highlighted fields are
+          significantly more often missing, null or malformed here.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!comparison && <div className="text-sm text-gray-500">Loading input comparison…</div>}
+        {comparison?.skills.map(skill => (
+          <div key={skill.skillName} className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <span className="font-medium">{skill.skillName}</span>
+              <span className="text-xs text-gray-500">
+                {skill.clusterFailures} failures here, {skill.baselineFailures} elsewhere
+              </span>
+            </div>
+            {skill.fields.length === 0 && <div className="text-sm text-gray-500">No skill inputs recorded.</div>}
+            {skill.fields.length > 0 && skill.fields.every(field => field.zScore === null) && (
+              <div className="text-xs text-gray-500">Too few other failures of this skill to compare with.</div>
+            )}
+            <ul className="space-y-2">
+              {skill.fields.map(field => <FieldRow key={field.field} field={field} />)}
+            </ul>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
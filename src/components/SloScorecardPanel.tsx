@@ -0,0 +1,131 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { SkillSlo, SloScorecard, SloStatus } from '../types/copilot';
+import { Gauge } from 'lucide-react';
+
+interface SloScorecardPanelProps {
+  /** Null until loaded. */
+  scorecard: SloScorecard | null;
+}
+
+const STATUS_STYLES: Record<SloStatus, { label: string; className: string }> = {
+  exhausted: { label: 'Budget exhausted', className: 'bg-red-600 text-white' },
+  burning: { label: 'Burning fast', className: 'bg-red-100 text-red-700' },
+  'at-risk': { label: 'At risk', className: 'bg-yellow-100 text-yellow-700' },
+  healthy: { label: 'Healthy', className: 'bg-green-100 text-green-700' },
+  'no-telemetry': { label: 'No telemetry', className: 'bg-gray-100 text-gray-600' }
+};
+
+const formatPercent = (ratio: number | null) =>
+  ratio === null ? '—' : `${(ratio * 100).toFixed(Math.abs(ratio) > 0.99 || Math.abs(ratio) < 0.01 ? 2 : 1)}%`;
+
+const formatSkill = (skillName: string) => skillName.replace(/([A-Z])/g, ' $1').trim();
+
+const SkillSloCard: React.FC<{ skill: SkillSlo }> = ({ skill }) => {
+  const status = STATUS_STYLES[skill.status];
+  const remaining = skill.budgetRemaining;
+
+  return (
+    <div className="p-4 border rounded-lg hover:shadow-md transition-shadow space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="font-medium">{formatSkill(skill.skillName)}</div>
+          <div className="text-sm text-gray-600">
+            Target {formatPercent(skill.slo.targetSuccessRate)} success over {skill.slo.windowDays} days
+            {skill.slo.latencyMs !== null && ` • p95 ≤ ${skill.slo.latencyMs.toLocaleString()} ms (not measured)`}
+          </div>
+        </div>
+        <Badge className={status.className}>{status.label}</Badge>
+      </div>
+
+      <div className="grid grid-cols-3 gap-4 text-center">
+        <div>
+          <div className="text-xl font-bold text-blue-600">{formatPercent(skill.successRate)}</div>
+          <div className="text-xs text-gray-500">
+            {skill.invocations === null ? 'No telemetry' : `of ${skill.invocations.toLocaleString()} invocations`}
+          </div>
+        </div>
+        <div>
+          <div className={`text-xl font-bold ${remaining !== null && remaining <= 0 ? 'text-red-600' : 'text-green-600'}`}>
+            {formatPercent(remaining)}
+          </div>
+          <div className="text-xs text-gray-500">Budget remaining</div>
+        </div>
+        <div>
+          <div className="text-xl font-bold text-orange-600">{skill.failures.toLocaleString()}</div>
+          <div className="text-xs text-gray-500">
+            {skill.errorBudget === null ? 'failures' : `failures of ${skill.errorBudget.toLocaleString()} allowed`}
+          </div>
+        </div>
+      </div>
+      {remaining !== null && <Progress value={Math.max(0, Math.min(1, remaining)) * 100} className="h-2" />}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        {skill.burnRates.map(rate => {
+          const exceeded = rate.burnRate !== null && rate.burnRate > rate.threshold;
+          return (
+            <div
+              key={rate.window}
+              className={`p-2 rounded border text-center ${exceeded ? 'border-red-300 bg-red-50' : ''}`}
+              title={`${rate.failures} failures of ${rate.invocations.toLocaleString()} invocations; alerts above ${rate.threshold}×`}
+            >
+              <div className={`font-semibold ${exceeded ? 'text-red-600' : ''}`}>
+                {rate.burnRate === null ? '—' : `${rate.burnRate.toFixed(2)}×`}
+              </div>
+              <div className="text-xs text-gray-500">{rate.window} burn rate</div>
+            </div>
+          );
+        })}
+      </div>
+
+      {skill.topConsumers.length > 0 && (
+        <div className="text-xs text-gray-600">
+          <div className="font-medium mb-1">Clusters spending the budget:</div>
+          <ul className="space-y-1">
+            {skill.topConsumers.map(consumer => (
+              <li key={consumer.clusterId} className="flex items-center justify-between gap-2">
+                <span className="truncate" title={consumer.name}>{consumer.name}</span>
+                <span className="shrink-0">
+                  {consumer.failures} failures
+                  {consumer.budgetSpent !== null && ` (${formatPercent(consumer.budgetSpent)} of budget)`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const SloScorecardPanel: React.FC<SloScorecardPanelProps> = ({ scorecard }) => {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="h-5 w-5" />
+          Skill Health Scorecard
+        </CardTitle>
+        {scorecard && (
+          <p className="text-sm text-gray-600">
+            Error budget and burn rate per skill against {scorecard.source ? `the objectives in ${scorecard.source}` : 'the built-in objective'}.
+            {' '}A burn rate of 1× spends the budget exactly over the SLO window.
+          </p>
+        )}
+      </CardHeader>
+      <CardContent>
+        {!scorecard && <div className="text-sm text-gray-500">Loading scorecard…</div>}
+        {scorecard && scorecard.skills.length === 0 && (
+          <div className="text-sm text-gray-500">No skills with failures, telemetry or objectives yet.</div>
+        )}
+        {scorecard && scorecard.skills.length > 0 && (
+          <div className="space-y-4">
+            {scorecard.skills.map(skill => <SkillSloCard key={skill.skillName} skill={skill} />)}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,190 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ProcessedCluster, TenantHealthReport, TrendTimeRange } from '../types/copilot';
+import { Building2, Crosshair } from 'lucide-react';
+
+interface TenantHealthPanelProps {
+  /** Null until loaded. */
+  report: TenantHealthReport | null;
+  timeRange: TrendTimeRange;
+  /** Clusters narrowed to the tenant's failures. */
+  onLoadTenantClusters: (tenantId: string) => Promise<ProcessedCluster[]>;
+}
+
+const formatPercent = (ratio: number) => `${(ratio * 100).toFixed(1)}%`;
+
+const SEVERITY_COLORS: Record<ProcessedCluster['severity'], string> = {
+  critical: 'bg-red-100 text-red-700',
+  high: 'bg-orange-100 text-orange-700',
+  medium: 'bg-yellow-100 text-yellow-700',
+  low: 'bg-gray-100 text-gray-600'
+};
+
+export const TenantHealthPanel: React.FC<TenantHealthPanelProps> = ({ report, timeRange, onLoadTenantClusters }) => {
+  const [selectedTenant, setSelectedTenant] = useState<string | null>(null);
+  const [tenantClusters, setTenantClusters] = useState<ProcessedCluster[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const latestRequest = useRef(0);
+
+  // A new report may cover a different window, so the open tenant no longer applies
+  useEffect(() => {
+    latestRequest.current++;
+    setSelectedTenant(null);
+    setTenantClusters(null);
+    setError(null);
+    setLoading(false);
+  }, [report]);
+
+  const handleSelectTenant = async (tenantId: string) => {
+    const request = ++latestRequest.current;
+    setSelectedTenant(tenantId);
+    setTenantClusters(null);
+    setError(null);
+
+    try {
+      setLoading(true);
+      const clusters = await onLoadTenantClusters(tenantId);
+      if (request === latestRequest.current) setTenantClusters(clusters);
+    } catch (err) {
+      if (request === latestRequest.current) setError(err instanceof Error ? err.message : 'Failed to load clusters');
+    } finally {
+      if (request === latestRequest.current) setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Building2 className="h-5 w-5" />
+            Tenant Health Leaderboard
+          </CardTitle>
+          {report && report.failures > 0 && (
+            <p className="text-sm text-gray-600">
+              Failures per tenant over the last {timeRange}, compared with the median tenant.
+              {report.unattributedFailures > 0 && ` ${report.unattributedFailures.toLocaleString()} of ${report.failures.toLocaleString()} failures carry no tenant.`}
+              {' '}Select a tenant to see its clusters.
+            </p>
+          )}
+        </CardHeader>
+        <CardContent>
+          {!report && <div className="text-sm text-gray-500">Loading tenant health…</div>}
+          {report && report.tenants.length === 0 && (
+            <div className="text-sm text-gray-500">No failures with a tenant in the last {timeRange}.</div>
+          )}
+          {report && report.tenants.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tenant</TableHead>
+                  <TableHead className="text-right">Failures</TableHead>
+                  <TableHead className="text-right">Share</TableHead>
+                  <TableHead className="text-right">× Median</TableHead>
+                  <TableHead className="text-right">Users</TableHead>
+                  <TableHead className="text-right">Sessions</TableHead>
+                  <TableHead className="text-right">Clusters</TableHead>
+                  <TableHead>Skills</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.tenants.map(tenant => (
+                  <TableRow
+                    key={tenant.tenantId}
+                    className={`cursor-pointer ${selectedTenant === tenant.tenantId ? 'bg-blue-50' : ''}`}
+                    onClick={() => handleSelectTenant(tenant.tenantId)}
+                  >
+                    <TableCell className="font-medium">
+                      <div className="flex items-center gap-2">
+                        {tenant.tenantId}
+                        {tenant.disproportionate && <Badge className="bg-red-100 text-red-700">Disproportionate</Badge>}
+                        {tenant.concentratedClusterIds.length > 0 && (
+                          <Badge className="bg-purple-100 text-purple-700">
+                            {tenant.concentratedClusterIds.length} tenant-specific
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">{tenant.failures.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{formatPercent(tenant.failureShare)}</TableCell>
+                    <TableCell className={`text-right ${tenant.disproportionate ? 'text-red-600 font-semibold' : ''}`}>
+                      {tenant.relativeToMedian.toFixed(1)}×
+                    </TableCell>
+                    <TableCell className="text-right">{tenant.affectedUsers.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{tenant.affectedSessions.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">
+                      {tenant.clusters}
+                      {tenant.criticalClusters > 0 && <span className="text-red-600"> ({tenant.criticalClusters} critical)</span>}
+                    </TableCell>
+                    <TableCell className="text-xs text-gray-600">{tenant.skills.join(', ')}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {selectedTenant && (
+            <div className="mt-6 space-y-2">
+              <div className="font-medium">Clusters affecting {selectedTenant}</div>
+              {loading && <div className="text-sm text-gray-500">Loading clusters…</div>}
+              {error && <div className="text-sm text-red-600">{error}</div>}
+              {tenantClusters && tenantClusters.length === 0 && (
+                <div className="text-sm text-gray-500">No clusters include this tenant's failures.</div>
+              )}
+              {tenantClusters && tenantClusters.length > 0 && (
+                <ul className="space-y-1 text-sm">
+                  {[...tenantClusters].sort((a, b) => b.failureCount - a.failureCount).map(cluster => (
+                    <li key={cluster.id} className="flex items-center justify-between gap-2 p-2 border rounded">
+                      <span className="flex items-center gap-2 truncate" title={cluster.name}>
+                        <Badge className={SEVERITY_COLORS[cluster.severity]}>{cluster.severity}</Badge>
+                        {cluster.name}
+                      </span>
+                      <span className="shrink-0 text-gray-600">{cluster.failureCount} failures from this tenant</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Crosshair className="h-5 w-5" />
+            Tenant-Specific Clusters
+          </CardTitle>
+          <p className="text-sm text-gray-600">
+            Clusters whose failures come almost entirely from one tenant while other tenants use the same skills:
+            more likely that tenant's configuration than a code defect.
+          </p>
+        </CardHeader>
+        <CardContent>
+          {report && report.concentratedClusters.length === 0 && (
+            <div className="text-sm text-gray-500">No cluster is concentrated in a single tenant.</div>
+          )}
+          {report && report.concentratedClusters.length > 0 && (
+            <ul className="space-y-2">
+              {report.concentratedClusters.map(concentration => (
+                <li key={concentration.clusterId} className="flex items-center justify-between gap-2 p-3 border rounded-lg">
+                  <span className="flex items-center gap-2 truncate" title={concentration.name}>
+                    <Badge className={SEVERITY_COLORS[concentration.severity]}>{concentration.severity}</Badge>
+                    {concentration.name}
+                  </span>
+                  <span className="shrink-0 text-sm">
+                    <span className="font-medium">{concentration.tenantId}</span>
+                    {' '}{concentration.failures} of {concentration.tenantFailures} ({formatPercent(concentration.share)})
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,267 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceArea } from 'recharts';
+import { AnomalyEvent, ReliabilityReport, TrendAnalysis, TrendStatistics, TrendTimeRange } from '../types/copilot';
+import { MINUTE_MS } from '../../shared/util';
+import { TrendingUp, TrendingDown, Minus, LineChart as LineChartIcon, AlertTriangle } from 'lucide-react';
+
+interface TrendSeriesPanelProps {
+  analysis: TrendAnalysis | null;
+  anomalies: AnomalyEvent[];
+  /** Invocation telemetry for the same window; error rates are hidden without it. */
+  reliability: ReliabilityReport | null;
+  timeRange: TrendTimeRange;
+  onTimeRangeChange: (timeRange: TrendTimeRange) => void;
+}
+
+const SERIES_COLORS = ['#ef4444', '#f59e0b', '#3b82f6', '#8b5cf6', '#10b981'];
+const MAX_ROOT_CAUSE_LINES = SERIES_COLORS.length;
+
+const RANGE_LABELS: Record<TrendTimeRange, string> = {
+  '24h': 'Last 24 hours',
+  '7d': 'Last 7 days',
+  '30d': 'Last 30 days'
+};
+
+const formatBucket = (bucket: Date, timeRange: TrendTimeRange) =>
+  timeRange === '24h'
+    ? bucket.toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })
+    : timeRange === '7d'
+      ? bucket.toLocaleString(undefined, { weekday: 'short', hour: '2-digit' })
+      : bucket.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const TrendIcon: React.FC<{ trend: TrendStatistics['trend'] }> = ({ trend }) => {
+  switch (trend) {
+    case 'increasing': return <TrendingUp className="h-4 w-4 text-red-500" />;
+    case 'decreasing': return <TrendingDown className="h-4 w-4 text-green-500" />;
+    default: return <Minus className="h-4 w-4 text-gray-500" />;
+  }
+};
+
+const formatChange = ({ current, previous, changeRatio }: TrendStatistics, priorWindowComplete: boolean) => {
+  if (!priorWindowComplete) return 'no prior history';
+  if (changeRatio === null) return current > 0 ? 'new' : '—';
+  return `${changeRatio >= 1 ? '+' : ''}${Math.round((changeRatio - 1) * 100)}% vs ${previous}`;
+};
+
+/** Error rate as a percentage with enough precision for rates well under 1%. */
+const formatErrorRate = (rate: number) => `${(rate * 100).toFixed(rate < 0.01 ? 2 : 1)}%`;
+
+interface TrendRowProps {
+  label: string;
+  statistics: TrendStatistics;
+  priorWindowComplete: boolean;
+  errorRate?: number | null;
+}
+
+const TrendRow: React.FC<TrendRowProps> = ({ label, statistics, priorWindowComplete, errorRate }) => (
+  <div className="flex items-center justify-between gap-2 py-1 text-sm">
+    <div className="flex items-center gap-2 min-w-0">
+      <TrendIcon trend={statistics.trend} />
+      <span className="truncate">{label}</span>
+    </div>
+    <div className="flex items-center gap-3 whitespace-nowrap">
+      {errorRate !== undefined && (
+        <span className="text-xs text-orange-600" title="Failures per invocation">
+          {errorRate === null ? 'no telemetry' : formatErrorRate(errorRate)}
+        </span>
+      )}
+      <span className="font-medium">{statistics.current}</span>
+      <span className="text-xs text-slate-500 w-28 text-right">{formatChange(statistics, priorWindowComplete)}</span>
+    </div>
+  </div>
+);
+
+/** Chart buckets an anomaly spans, clamped to the window; null when it lies outside. */
+const anomalyBuckets = (analysis: TrendAnalysis, anomaly: AnomalyEvent): [number, number] | null => {
+  const start = analysis.windowStart.getTime();
+  const bucketMs = analysis.bucketMinutes * MINUTE_MS;
+  if (anomaly.end.getTime() <= start || anomaly.start.getTime() >= analysis.windowEnd.getTime()) return null;
+
+  const index = (time: number) => Math.min(analysis.buckets.length - 1, Math.max(0, Math.floor((time - start) / bucketMs)));
+  return [index(anomaly.start.getTime()), index(anomaly.end.getTime() - 1)];
+};
+
+/** Bucketed failures for the selected window, with trends classified against the window before. */
+export const TrendSeriesPanel: React.FC<TrendSeriesPanelProps> = ({ analysis, anomalies, reliability, timeRange, onTimeRangeChange }) => {
+  const rootCauses = analysis?.rootCauses.slice(0, MAX_ROOT_CAUSE_LINES) ?? [];
+  // Both reports bucket the same range, but only line up when they were computed for the same one
+  const rates = reliability?.timeRange === analysis?.timeRange && reliability?.total.errorRate !== null ? reliability : null;
+  const skillRates = new Map(reliability?.skills.map(skill => [skill.skillName, skill.errorRate]));
+  const chartData = analysis?.buckets.map((bucket, index) => {
+    const invocations = rates?.total.invocationCounts[index] ?? 0;
+    return {
+      time: formatBucket(bucket, analysis.timeRange),
+      total: analysis.total.counts[index],
+      ...(rates && { errorRate: invocations > 0 ? (rates.total.failureCounts[index] / invocations) * 100 : null }),
+      ...Object.fromEntries(rootCauses.map(series => [series.key, series.counts[index]]))
+    };
+  }) ?? [];
+
+  // One marker per bucket range; a skill spike and the cluster behind it usually share one
+  const markers = new Map<string, { x1: string; x2: string; labels: string[] }>();
+  if (analysis) {
+    anomalies.forEach(anomaly => {
+      const range = anomalyBuckets(analysis, anomaly);
+      if (!range) return;
+      const key = range.join('-');
+      const marker = markers.get(key) ?? { x1: chartData[range[0]].time, x2: chartData[range[1]].time, labels: [] };
+      marker.labels.push(anomaly.label);
+      markers.set(key, marker);
+    });
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <LineChartIcon className="h-5 w-5" />
+            Failure Trends
+          </CardTitle>
+          <Select value={timeRange} onValueChange={(value: TrendTimeRange) => onTimeRangeChange(value)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(RANGE_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {analysis && (
+          <div className="flex items-center gap-2 text-sm text-slate-600">
+            <TrendIcon trend={analysis.total.trend} />
+            <span>
+              {analysis.total.current} failures in {analysis.bucketMinutes >= 1440 ? 'daily' : `${analysis.bucketMinutes / 60}-hour`} buckets
+              {' '}({formatChange(analysis.total, analysis.previousWindowComplete)} in the prior window)
+            </span>
+            <Badge variant="outline">{analysis.total.trend}</Badge>
+            {rates && (
+              <Badge variant="outline" className="text-orange-700 border-orange-300">
+                {formatErrorRate(rates.total.errorRate!)} error rate
+              </Badge>
+            )}
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!analysis ? (
+          <p className="text-sm text-slate-600">Trend data is loading from the MCP server.</p>
+        ) : (
+          <>
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData} margin={{ top: 10, right: 20, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="time" minTickGap={24} />
+                  <YAxis yAxisId="failures" allowDecimals={false} />
+                  {rates && <YAxis yAxisId="rate" orientation="right" unit="%" />}
+                  <Tooltip formatter={(value: number, name: string) => name === 'Error rate' ? `${value.toFixed(2)}%` : value} />
+                  <Legend />
+                  {[...markers.entries()].map(([key, marker]) => (
+                    <ReferenceArea
+                      key={key}
+                      yAxisId="failures"
+                      x1={marker.x1}
+                      x2={marker.x2}
+                      fill="#ef4444"
+                      fillOpacity={0.15}
+                      stroke="#ef4444"
+                      strokeOpacity={0.6}
+                      label={{ value: '⚠', position: 'insideTop' }}
+                    />
+                  ))}
+                  <Line yAxisId="failures" type="monotone" dataKey="total" name="All failures" stroke="#0f172a" strokeWidth={2} dot={false} />
+                  {rates && (
+                    <Line
+                      yAxisId="rate"
+                      type="monotone"
+                      dataKey="errorRate"
+                      name="Error rate"
+                      stroke="#f97316"
+                      strokeDasharray="5 3"
+                      dot={false}
+                      connectNulls
+                    />
+                  )}
+                  {rootCauses.map((series, index) => (
+                    <Line
+                      key={series.key}
+                      yAxisId="failures"
+                      type="monotone"
+                      dataKey={series.key}
+                      name={series.label}
+                      stroke={SERIES_COLORS[index]}
+                      dot={false}
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            {anomalies.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="font-semibold flex items-center gap-2">
+                  <AlertTriangle className="h-4 w-4 text-red-500" />
+                  Anomalies
+                </h4>
+                {anomalies.map(anomaly => (
+                  <div key={anomaly.id} className="p-3 border border-red-200 bg-red-50 rounded-lg text-sm space-y-1">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <Badge variant="outline">{anomaly.scope}</Badge>
+                        <span className="font-medium truncate">{anomaly.label}</span>
+                      </div>
+                      <span className="text-xs text-slate-600 whitespace-nowrap">
+                        {anomaly.start.toLocaleString()} – {anomaly.end.toLocaleTimeString()}
+                      </span>
+                    </div>
+                    <div className="text-slate-700">
+                      {anomaly.failureCount} failures vs {anomaly.expectedCount} expected (z = {anomaly.magnitude})
+                    </div>
+                    {anomaly.contributingClusters.length > 0 && (
+                      <div className="text-xs text-slate-600">
+                        Clusters: {anomaly.contributingClusters.map(cluster => `${cluster.name} (${cluster.failureCount})`).join(', ')}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div>
+                <h4 className="font-semibold mb-2">Root Causes</h4>
+                {analysis.rootCauses.map(series => (
+                  <TrendRow key={series.key} label={series.label} statistics={series} priorWindowComplete={analysis.previousWindowComplete} />
+                ))}
+              </div>
+              <div>
+                <h4 className="font-semibold mb-2">Skills</h4>
+                {analysis.skills.map(series => (
+                  <TrendRow
+                    key={series.key}
+                    label={series.label}
+                    statistics={series}
+                    priorWindowComplete={analysis.previousWindowComplete}
+                    errorRate={reliability ? skillRates.get(series.key) ?? null : undefined}
+                  />
+                ))}
+              </div>
+              <div>
+                <h4 className="font-semibold mb-2">Clusters</h4>
+                {analysis.clusters.slice(0, 10).map(cluster => (
+                  <TrendRow key={cluster.clusterId} label={cluster.name} statistics={cluster} priorWindowComplete={analysis.previousWindowComplete} />
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,37 +1,88 @@
-import { ProcessedCluster, FailureLog } from '../types/copilot';
-
-export interface MCPAnalyticsData {
-  clusters: ProcessedCluster[];
-  failureLogs: FailureLog[];
-  totalFailures: number;
-  criticalClusters: number;
-  resolvedClusters: number;
-  lastUpdated: string;
-}
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import {
+  ProcessedCluster,
+  FailureLog,
+  ClusterLifecycleUpdate,
+  AnalyticsData,
+  AnomalyEvent,
+  ChangeAnalysis,
+  ClusterInputComparison,
+  CostModel,
+  FailureHeatmap,
+  GeneratedTextInfo,
+  HeatmapBinning,
+  ImpactMatrix,
+  JourneyFunnel,
+  ReliabilityReport,
+  SessionTrace,
+  SharedRecommendation,
+  SloScorecard,
+  TenantHealthReport,
+  TrendAnalysis,
+  TrendTimeRange
+} from '../types/copilot';
+import {
+  Decoder,
+  ToolResponse,
+  WireDecodeError,
+  decodeAnalyticsData,
+  decodeAnomalyEvent,
+  decodeChangeAnalysis,
+  decodeCluster,
+  decodeClusterInputComparison,
+  decodeCostModel,
+  decodeFailureHeatmap,
+  decodeFailureLog,
+  decodeImpactMatrix,
+  decodeJourneyFunnel,
+  decodeObject,
+  decodeReliabilityReport,
+  decodeSessionTrace,
+  decodeSloScorecard,
+  decodeTaxonomy,
+  decodeTenantHealthReport,
+  decodeToolResponse,
+  decodeTrendAnalysis,
+  listOf
+} from '../../shared/wire';
+import { Taxonomy } from '../../shared/taxonomy';
+
+const SERVER_URL = import.meta.env.VITE_MCP_SERVER_URL ?? 'http://localhost:3001/mcp';
+const RECONNECT_DELAY_MS = 5000;
+
+export type MCPAnalyticsData = AnalyticsData;
 
-export interface MCPTrendData {
+export interface MCPTrendData extends TrendAnalysis {
   overview: {
     totalClusters: number;
     increasingTrends: number;
     decreasingTrends: number;
     stableTrends: number;
   };
+  /** Failures in the window per root cause. */
   byRootCause: Record<string, number>;
+  /** Clusters active in the window per severity. */
   bySeverity: Record<string, number>;
-  timeRange: string;
+  /** Empty unless the server has an LLM provider configured. */
   aiInsights: string[];
+  aiInsightsGeneratedBy?: GeneratedTextInfo;
 }
 
+const decodeTrendData: Decoder<MCPTrendData> = (value, path) => ({
+  ...decodeObject<MCPTrendData>(value, path),
+  ...decodeTrendAnalysis(value, path)
+});
+
 export interface MCPRecommendations {
   clusterId?: string;
   clusterName?: string;
   priority?: string;
   aiRecommendations?: string[];
+  generatedBy?: GeneratedTextInfo;
   enhancedAnalysis?: {
     confidenceScore: number;
     impactAssessment: string;
-    effortEstimate: string;
-    dependencies: string[];
   };
   global?: boolean;
   topPriorities?: Array<{
@@ -40,36 +91,68 @@ export interface MCPRecommendations {
     recommendation: string;
     impact: string;
   }>;
-  systemwideInsights?: string[];
+  systemwideInsights?: SharedRecommendation[];
+}
+
+/** The server could not be reached or the MCP handshake failed. */
+export class MCPConnectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MCPConnectionError';
+  }
+}
+
+/** A tool call reached the server but returned `isError`, or its result could not be parsed. */
+export class MCPToolError extends Error {
+  constructor(readonly tool: string, message: string) {
+    super(message);
+    this.name = 'MCPToolError';
+  }
 }
 
 class MCPClient {
+  private client: Client | null = null;
+  private tools = new Set<string>();
   private isConnected = false;
   private connectionStatus = 'disconnected';
 
-  constructor() {
-    // In a real implementation, this would establish WebSocket or HTTP connection
-    this.simulateConnection();
+  constructor(private serverUrl: string = SERVER_URL) {
+    this.connect();
   }
 
-  private simulateConnection() {
-    setTimeout(() => {
+  /** Connects over streamable HTTP and lists the server's tools, retrying until the server is reachable. */
+  async connect(): Promise<void> {
+    this.connectionStatus = 'connecting';
+    const client = new Client({ name: 'copilot-failure-dashboard', version: '1.0.0' });
+
+    try {
+      await client.connect(new StreamableHTTPClientTransport(new URL(this.serverUrl)));
+      const { tools } = await client.listTools();
+      this.tools = new Set(tools.map(tool => tool.name));
+      client.onclose = () => this.handleDisconnect();
+
+      this.client = client;
       this.isConnected = true;
       this.connectionStatus = 'connected';
-      console.log('🔗 MCP Client connected to server');
-    }, 1000);
-  }
-
-  async getFailureAnalytics(refresh = false): Promise<MCPAnalyticsData> {
-    if (!this.isConnected) {
-      throw new Error('MCP Client not connected');
+      console.log(`🔗 MCP Client connected to ${this.serverUrl} (${tools.length} tools)`);
+    } catch (err) {
+      this.handleDisconnect();
+      const message = err instanceof Error ? err.message : String(err);
+      this.connectionStatus = `error: ${message}`;
+      console.warn(`MCP server at ${this.serverUrl} unavailable, retrying in ${RECONNECT_DELAY_MS / 1000}s`, err);
+      setTimeout(() => this.connect(), RECONNECT_DELAY_MS);
     }
+  }
 
-    // Simulate API call delay
-    await new Promise(resolve => setTimeout(resolve, 300));
+  private handleDisconnect() {
+    this.client = null;
+    this.tools.clear();
+    this.isConnected = false;
+    this.connectionStatus = 'disconnected';
+  }
 
-    // In real implementation, this would call the MCP server tool
-    const response = await this.callMCPTool('get_failure_analytics', { refresh });
+  async getFailureAnalytics(refresh = false): Promise<MCPAnalyticsData> {
+    const response = await this.callMCPTool('get_failure_analytics', decodeAnalyticsData, { refresh });
     return response.data;
   }
 
@@ -77,190 +160,148 @@ class MCPClient {
     severity?: 'low' | 'medium' | 'high' | 'critical';
     resolved?: boolean;
     minClusterSize?: number;
+    /** Narrows clusters to this tenant's failures. */
+    tenantId?: string;
   }): Promise<ProcessedCluster[]> {
-    if (!this.isConnected) {
-      throw new Error('MCP Client not connected');
-    }
-
-    await new Promise(resolve => setTimeout(resolve, 200));
-    const response = await this.callMCPTool('get_clusters', filters);
+    const response = await this.callMCPTool('get_clusters', listOf(decodeCluster), filters);
     return response.data;
   }
 
   async getFailureLogs(filters?: {
     skillName?: string;
+    tenantId?: string;
+    since?: Date;
+    until?: Date;
+    /** IANA time zone for `hourOfDay` and `dayOfWeek`. */
+    timezone?: string;
+    hourOfDay?: number;
+    /** 0 = Monday. */
+    dayOfWeek?: number;
     limit?: number;
   }): Promise<FailureLog[]> {
-    if (!this.isConnected) {
-      throw new Error('MCP Client not connected');
-    }
+    const response = await this.callMCPTool('get_failure_logs', listOf(decodeFailureLog), filters && {
+      ...filters,
+      since: filters.since?.toISOString(),
+      until: filters.until?.toISOString()
+    });
+    return response.data;
+  }
 
-    await new Promise(resolve => setTimeout(resolve, 200));
-    const response = await this.callMCPTool('get_failure_logs', filters);
+  async getFailureHeatmap(timeRange: TrendTimeRange, binning: HeatmapBinning, timezone: string): Promise<FailureHeatmap> {
+    const response = await this.callMCPTool('get_failure_heatmap', decodeFailureHeatmap, { timeRange, binning, timezone });
     return response.data;
   }
 
-  async analyzeTrends(timeRange = '7d'): Promise<MCPTrendData> {
-    if (!this.isConnected) {
-      throw new Error('MCP Client not connected');
-    }
+  async analyzeTrends(timeRange: TrendTimeRange = '7d'): Promise<MCPTrendData> {
+    const response = await this.callMCPTool('analyze_trends', decodeTrendData, { timeRange });
+    return response.data;
+  }
 
-    await new Promise(resolve => setTimeout(resolve, 400));
-    const response = await this.callMCPTool('analyze_trends', { timeRange });
+  async getAnomalies(timeRange: TrendTimeRange = '7d'): Promise<AnomalyEvent[]> {
+    const response = await this.callMCPTool('get_anomalies', listOf(decodeAnomalyEvent), { timeRange });
     return response.data;
   }
 
-  async getRecommendations(clusterId?: string): Promise<MCPRecommendations> {
-    if (!this.isConnected) {
-      throw new Error('MCP Client not connected');
-    }
+  async getJourneyFunnel(timeRange: TrendTimeRange = '7d'): Promise<JourneyFunnel> {
+    const response = await this.callMCPTool('get_journey_funnel', decodeJourneyFunnel, { timeRange });
+    return response.data;
+  }
 
-    await new Promise(resolve => setTimeout(resolve, 300));
-    const response = await this.callMCPTool('get_recommendations', { clusterId });
+  async getImpactMatrix(): Promise<ImpactMatrix> {
+    const response = await this.callMCPTool('get_impact_matrix', decodeImpactMatrix);
     return response.data;
   }
 
-  private async callMCPTool(tool: string, args?: any): Promise<any> {
-    // In a real implementation, this would make actual MCP protocol calls
-    // For now, we'll simulate the server response structure
-    
-    const simulatedResponse = {
-      success: true,
-      data: await this.getSimulatedData(tool, args),
-      metadata: {
-        generatedAt: new Date().toISOString(),
-        dataSource: 'mcp-server',
-        version: '1.0.0'
-      }
-    };
+  async updateCostModel(costModel: Partial<CostModel>): Promise<CostModel> {
+    const response = await this.callMCPTool('update_cost_model', decodeCostModel, costModel);
+    return response.data;
+  }
 
-    return simulatedResponse;
+  async getReliability(timeRange: TrendTimeRange = '7d'): Promise<ReliabilityReport> {
+    const response = await this.callMCPTool('get_reliability', decodeReliabilityReport, { timeRange });
+    return response.data;
   }
 
-  private async getSimulatedData(tool: string, args?: any): Promise<any> {
-    // This simulates what the MCP server would return
-    // In production, this would be actual MCP server calls
-    
-    const { generateMockData, processFailureClusters } = await import('../utils/dataProcessor');
-    
-    switch (tool) {
-      case 'get_failure_analytics': {
-        const failureLogs = generateMockData();
-        const clusters = processFailureClusters(failureLogs);
-        
-        return {
-          clusters,
-          failureLogs,
-          totalFailures: failureLogs.length,
-          criticalClusters: clusters.filter(c => c.severity === 'critical').length,
-          resolvedClusters: clusters.filter(c => c.resolved).length,
-          lastUpdated: new Date().toISOString()
-        };
-      }
-      
-      case 'get_clusters': {
-        const failureLogs = generateMockData();
-        let clusters = processFailureClusters(failureLogs);
-        
-        // Apply filters
-        if (args?.severity) {
-          clusters = clusters.filter(c => c.severity === args.severity);
-        }
-        if (args?.resolved !== undefined) {
-          clusters = clusters.filter(c => c.resolved === args.resolved);
-        }
-        if (args?.minClusterSize) {
-          clusters = clusters.filter(c => c.failureCount >= args.minClusterSize);
-        }
-        
-        return clusters;
-      }
-      
-      case 'get_failure_logs': {
-        let logs = generateMockData();
-        
-        if (args?.skillName) {
-          logs = logs.filter(log => log.skillName === args.skillName);
-        }
-        
-        const limit = args?.limit || 100;
-        return logs.slice(0, limit);
-      }
-      
-      case 'analyze_trends': {
-        const failureLogs = generateMockData();
-        const clusters = processFailureClusters(failureLogs);
-        
-        return {
-          overview: {
-            totalClusters: clusters.length,
-            increasingTrends: clusters.filter(c => c.trend === 'increasing').length,
-            decreasingTrends: clusters.filter(c => c.trend === 'decreasing').length,
-            stableTrends: clusters.filter(c => c.trend === 'stable').length
-          },
-          byRootCause: clusters.reduce((acc, cluster) => {
-            const category = cluster.rootCause.category;
-            acc[category] = (acc[category] || 0) + cluster.failureCount;
-            return acc;
-          }, {} as Record<string, number>),
-          bySeverity: clusters.reduce((acc, cluster) => {
-            acc[cluster.severity] = (acc[cluster.severity] || 0) + 1;
-            return acc;
-          }, {} as Record<string, number>),
-          timeRange: args?.timeRange || '7d',
-          aiInsights: [
-            "🔍 Context-related failures are the primary driver of incidents",
-            "⏱️ Timeout issues have increased 23% over the analysis period", 
-            "🎯 GroupManagement skill shows highest failure rate",
-            "📅 Weekend failure patterns suggest automated process issues"
-          ]
-        };
-      }
-      
-      case 'get_recommendations': {
-        const failureLogs = generateMockData();
-        const clusters = processFailureClusters(failureLogs);
-        
-        if (args?.clusterId) {
-          const cluster = clusters.find(c => c.id === args.clusterId);
-          if (!cluster) {
-            throw new Error(`Cluster ${args.clusterId} not found`);
-          }
-          
-          return {
-            clusterId: args.clusterId,
-            clusterName: cluster.name,
-            priority: cluster.severity,
-            aiRecommendations: cluster.recommendations,
-            enhancedAnalysis: {
-              confidenceScore: cluster.rootCause.confidence,
-              impactAssessment: cluster.severity === 'critical' ? 'High business impact' : 'Moderate impact',
-              effortEstimate: '2-4 hours for implementation',
-              dependencies: ['Microsoft Graph API', 'Azure AD tenant configuration']
-            }
-          };
-        } else {
-          const criticalClusters = clusters.filter(c => c.severity === 'critical');
-          return {
-            global: true,
-            topPriorities: criticalClusters.slice(0, 3).map(cluster => ({
-              clusterId: cluster.id,
-              name: cluster.name,
-              recommendation: cluster.recommendations[0],
-              impact: 'Critical'
-            })),
-            systemwideInsights: [
-              '🛡️ Implement comprehensive input validation across all skills',
-              '🔄 Enhance error handling and retry mechanisms',
-              '📊 Add proactive monitoring for context resolution failures',
-              '🔑 Review and update service principal permissions quarterly'
-            ]
-          };
-        }
+  async getClusterInputComparison(clusterId: string): Promise<ClusterInputComparison> {
+    const response = await this.callMCPTool('get_cluster_input_comparison', decodeClusterInputComparison, { clusterId });
+    return response.data;
+  }
+
+  async getSessionTrace(sessionId: string): Promise<SessionTrace> {
+    const response = await this.callMCPTool('get_session_trace', decodeSessionTrace, { sessionId });
+    return response.data;
+  }
+
+  async getTenantHealth(timeRange: TrendTimeRange = '7d'): Promise<TenantHealthReport> {
+    const response = await this.callMCPTool('get_tenant_health', decodeTenantHealthReport, { timeRange });
+    return response.data;
+  }
+
+  async getSloScorecard(): Promise<SloScorecard> {
+    const response = await this.callMCPTool('get_slo_scorecard', decodeSloScorecard);
+    return response.data;
+  }
+
+  async getChangeCorrelations(toleranceHours?: number): Promise<ChangeAnalysis> {
+    const response = await this.callMCPTool('get_change_correlations', decodeChangeAnalysis, { toleranceHours });
+    return response.data;
+  }
+
+  async updateClusterLifecycle(
+    clusterId: string,
+    update: ClusterLifecycleUpdate,
+    actor = 'dashboard'
+  ): Promise<ProcessedCluster> {
+    const response = await this.callMCPTool('update_cluster_lifecycle', decodeCluster, { clusterId, ...update, actor });
+    return response.data;
+  }
+
+  async getRootCauseTaxonomy(): Promise<Taxonomy> {
+    const response = await this.callMCPTool('get_root_cause_taxonomy', decodeTaxonomy);
+    return response.data;
+  }
+
+  async getRecommendations(clusterId?: string): Promise<MCPRecommendations> {
+    const response = await this.callMCPTool('get_recommendations', decodeObject<MCPRecommendations>, { clusterId });
+    return response.data;
+  }
+
+  private async callMCPTool<T>(
+    tool: string,
+    decode: Decoder<T>,
+    args?: Record<string, unknown>
+  ): Promise<ToolResponse<T>> {
+    if (!this.client || !this.isConnected) {
+      throw new MCPConnectionError(`MCP Client not connected (${this.connectionStatus})`);
+    }
+    if (!this.tools.has(tool)) {
+      throw new MCPToolError(tool, `Server does not provide tool ${tool}`);
+    }
+
+    const result = await this.client.callTool({ name: tool, arguments: args });
+    const content = Array.isArray(result.content) ? result.content : [];
+    const text = content.find(item => item.type === 'text')?.text;
+
+    if (result.isError) {
+      throw new MCPToolError(tool, (text ?? 'Tool call failed').replace(/^Error: /, ''));
+    }
+    if (typeof text !== 'string') {
+      throw new MCPToolError(tool, 'Tool returned no text content');
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(text);
+    } catch {
+      throw new MCPToolError(tool, 'Tool returned malformed JSON');
+    }
+    try {
+      return decodeToolResponse(payload, decode);
+    } catch (err) {
+      if (err instanceof WireDecodeError) {
+        throw new MCPToolError(tool, `Unexpected response shape at ${err.message}`);
       }
-      
-      default:
-        throw new Error(`Unknown tool: ${tool}`);
+      throw err;
     }
   }
 
@@ -268,10 +309,14 @@ class MCPClient {
     return this.connectionStatus;
   }
 
+  getServerUrl(): string {
+    return this.serverUrl;
+  }
+
   isServerConnected(): boolean {
     return this.isConnected;
   }
 }
 
 // Export singleton instance
-export const mcpClient = new MCPClient(); 
\ No newline at end of file
+export const mcpClient = new MCPClient();
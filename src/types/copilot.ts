@@ -1,39 +1,4 @@
-
-export interface FailureLog {
-  evaluationId: string;
-  sessionId: string;
-  prompt: string;
-  skillName: string;
-  skillInputs: Record<string, any>;
-  exception: string;
-  timestamp: Date;
-  errorCode?: string;
-  userId?: string;
-  contextMissing?: string[];
-}
-
-export interface ProcessedCluster {
-  id: string;
-  name: string;
-  summary: string;
-  failureCount: number;
-  representativePrompts: string[];
-  commonExceptions: string[];
-  rootCause: {
-    category: 'grounding' | 'skill' | 'api' | 'timeout' | 'input' | 'auth';
-    description: string;
-    confidence: number;
-  };
-  recommendations: string[];
-  affectedSkills: string[];
-  severity: 'low' | 'medium' | 'high' | 'critical';
-  firstSeen: Date;
-  lastSeen: Date;
-  trend: 'increasing' | 'decreasing' | 'stable';
-  resolved: boolean;
-  tags: string[];
-  failureLogs: FailureLog[];
-}
+export * from '../../shared/types';
 
 export interface ClusterMetrics {
   totalClusters: number;
@@ -41,9 +6,3 @@ export interface ClusterMetrics {
   resolvedClusters: number;
   trendingUp: number;
 }
-
-export interface TimeSeriesPoint {
-  timestamp: Date;
-  clusterId: string;
-  failureCount: number;
-}
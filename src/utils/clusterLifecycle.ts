@@ -0,0 +1,22 @@
+import { ClusterStatus } from '../types/copilot';
+
+export * from '../../shared/lifecycle';
+
+export const STATUS_LABELS: Record<ClusterStatus, string> = {
+  'new': 'New',
+  'triaged': 'Triaged',
+  'in-progress': 'In Progress',
+  'resolved': 'Resolved',
+  'regressed': 'Regressed',
+  'wont-fix': "Won't Fix"
+};
+
+/** Badge classes for each status, shared by the cluster list, drilldown and triage editor. */
+export const STATUS_COLORS: Record<ClusterStatus, string> = {
+  'new': 'bg-slate-100 text-slate-800 border-slate-200',
+  'triaged': 'bg-blue-100 text-blue-800 border-blue-200',
+  'in-progress': 'bg-indigo-100 text-indigo-800 border-indigo-200',
+  'resolved': 'bg-green-100 text-green-800 border-green-200',
+  'regressed': 'bg-rose-100 text-rose-800 border-rose-300',
+  'wont-fix': 'bg-gray-100 text-gray-600 border-gray-200'
+};
@@ -0,0 +1,21 @@
+import { Taxonomy, TaxonomyColor, resolveCategory } from '../../shared/taxonomy';
+
+export * from '../../shared/taxonomy';
+
+/** Badge classes per taxonomy colour, spelled out so Tailwind keeps them. */
+export const TAXONOMY_BADGE_CLASSES: Record<TaxonomyColor, string> = {
+  purple: 'bg-purple-100 text-purple-800',
+  red: 'bg-red-100 text-red-800',
+  orange: 'bg-orange-100 text-orange-800',
+  yellow: 'bg-yellow-100 text-yellow-800',
+  blue: 'bg-blue-100 text-blue-800',
+  green: 'bg-green-100 text-green-800',
+  teal: 'bg-teal-100 text-teal-800',
+  pink: 'bg-pink-100 text-pink-800',
+  gray: 'bg-gray-100 text-gray-800'
+};
+
+export const categoryBadgeClass = (taxonomy: Taxonomy, id: string): string =>
+  TAXONOMY_BADGE_CLASSES[resolveCategory(taxonomy, id).color];
+
+export const categoryLabel = (taxonomy: Taxonomy, id: string): string => resolveCategory(taxonomy, id).label;
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  /** Streamable HTTP endpoint of the MCP server, e.g. http://localhost:3001/mcp */
+  readonly VITE_MCP_SERVER_URL?: string;
+}